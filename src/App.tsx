@@ -12,6 +12,16 @@ import { SalesHistory } from './pages/SalesHistory';
 import { StoreManagement } from './pages/StoreManagement';
 import { AnalyticsDashboard } from './pages/AnalyticsDashboard';
 import { ManagerManagement } from './pages/ManagerManagement';
+import { ShiftSessions } from './pages/ShiftSessions';
+import { Reports } from './pages/Reports';
+import { TaxSettings } from './pages/TaxSettings';
+import { Promotions } from './pages/Promotions';
+import { Customers } from './pages/Customers';
+import { GiftCards } from './pages/GiftCards';
+import { Layaways } from './pages/Layaways';
+import { Suppliers } from './pages/Suppliers';
+import { PurchaseOrders } from './pages/PurchaseOrders';
+import { Stocktakes } from './pages/Stocktakes';
 import { CashierView } from './pages/CashierView';
 
 /**
@@ -42,6 +52,7 @@ function AppContent() {
   const [appMode, setAppMode] = useState<AppMode>('cashier');
   const [adminPage, setAdminPage] = useState<AdminPage>('dashboard');
   const [cashierName, setCashierName] = useState<string>('');
+  const [cashierSessionId, setCashierSessionId] = useState<string>('');
   const [cashierStoreId, setCashierStoreId] = useState<string>('');
   const [cashierStoreName, setCashierStoreName] = useState<string>('');
 
@@ -51,8 +62,9 @@ function AppContent() {
   };
 
   // Handle cashier login
-  const handleCashierLogin = (name: string, assignedStoreId?: string, assignedStoreName?: string) => {
+  const handleCashierLogin = (name: string, sessionId: string, assignedStoreId?: string, assignedStoreName?: string) => {
     setCashierName(name);
+    setCashierSessionId(sessionId);
     setCashierStoreId(assignedStoreId || '');
     setCashierStoreName(assignedStoreName || '');
   };
@@ -60,6 +72,7 @@ function AppContent() {
   // Handle cashier logout
   const handleCashierLogout = () => {
     setCashierName('');
+    setCashierSessionId('');
     setCashierStoreId('');
     setCashierStoreName('');
   };
@@ -81,6 +94,26 @@ function AppContent() {
         return <AnalyticsDashboard />;
       case 'managers':
         return <ManagerManagement />;
+      case 'shifts':
+        return <ShiftSessions />;
+      case 'reports':
+        return <Reports />;
+      case 'taxes':
+        return <TaxSettings />;
+      case 'promotions':
+        return <Promotions />;
+      case 'customers':
+        return <Customers />;
+      case 'giftcards':
+        return <GiftCards />;
+      case 'layaways':
+        return <Layaways />;
+      case 'suppliers':
+        return <Suppliers />;
+      case 'purchaseorders':
+        return <PurchaseOrders />;
+      case 'stocktakes':
+        return <Stocktakes />;
       default:
         return <Dashboard />;
     }
@@ -117,6 +150,7 @@ function AppContent() {
   return (
     <CashierView
       cashierName={cashierName}
+      sessionId={cashierSessionId}
       assignedStoreId={cashierStoreId}
       assignedStoreName={cashierStoreName}
       onLogout={handleCashierLogout}
@@ -1,8 +1,11 @@
 import { useState, useRef, useEffect } from 'react';
 import { Scan, Keyboard } from 'lucide-react';
+import { EmbeddedBarcode } from '../types/product';
+import { ProductService } from '../services/localStorageService';
 
 interface BarcodeInputProps {
-  onScan: (barcode: string) => void;
+  // A scale label is passed on as the product's item code plus the decoded label
+  onScan: (barcode: string, label?: EmbeddedBarcode) => void;
   disabled?: boolean;
 }
 
@@ -27,10 +30,14 @@ export function BarcodeInput({ onScan, disabled = false }: BarcodeInputProps) {
 
   /**
    * Handle document click to refocus input
+   * Other fields on the page (e.g. customer lookup, modal forms) keep their focus
    */
   useEffect(() => {
     const handleDocumentClick = () => {
-      if (!disabled && inputRef.current && document.activeElement !== inputRef.current) {
+      const active = document.activeElement;
+      const isOtherField =
+        active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement || active instanceof HTMLSelectElement;
+      if (!disabled && inputRef.current && active !== inputRef.current && !isOtherField) {
         inputRef.current.focus();
       }
     };
@@ -64,7 +71,10 @@ export function BarcodeInput({ onScan, disabled = false }: BarcodeInputProps) {
       const now = Date.now();
       // Prevent duplicate scans within 500ms (some scanners send double input)
       if (now - lastScanTime > 500) {
-        onScan(barcode.trim());
+        const code = barcode.trim();
+        // A registered barcode wins over reading it as an in-store scale label
+        const label = ProductService.findByBarcode(code) ? undefined : ProductService.decodeEmbeddedBarcode(code);
+        onScan(label ? label.barcode : code, label);
         setLastScanTime(now);
       }
       setBarcode('');
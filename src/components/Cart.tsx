@@ -1,5 +1,5 @@
-import { ShoppingCart, Trash2, AlertTriangle } from 'lucide-react';
-import { CartItem as CartItemType } from '../types/product';
+import { ShoppingCart, Trash2, AlertTriangle, Tag, PauseCircle, CalendarClock } from 'lucide-react';
+import { CartItem as CartItemType, SaleItem } from '../types/product';
 import { CartItem } from './CartItem';
 import { LOW_STOCK_THRESHOLD } from '../services/localStorageService';
 
@@ -7,7 +7,12 @@ interface CartProps {
   items: CartItemType[];
   onUpdateQuantity: (barcode: string, delta: number) => void;
   onRemove: (barcode: string) => void;
+  onDiscountItem: (barcode: string) => void;
+  onDiscountCart: () => void;
+  totals: { items: SaleItem[]; promotionTotal: number; discountTotal: number; tax: number; total: number };
   onClear: () => void;
+  onHold: () => void;
+  onLayaway: () => void;
   onCheckout: () => void;
   disabled?: boolean;
 }
@@ -20,16 +25,21 @@ export function Cart({
   items,
   onUpdateQuantity,
   onRemove,
+  onDiscountItem,
+  onDiscountCart,
+  totals,
   onClear,
+  onHold,
+  onLayaway,
   onCheckout,
   disabled = false,
 }: CartProps) {
-  const grandTotal = items.reduce(
-    (sum, item) => sum + item.product.price * item.quantity,
-    0
-  );
+  // A measured line (e.g. 0.655 kg) counts as one item
+  const totalItems = items.reduce((sum, item) => sum + (item.product.measureUnit ? 1 : item.quantity), 0);
 
-  const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
+  // Promotion applied to each line by the pricing engine
+  const getPromotion = (barcode: string) =>
+    totals.items.find((line) => line.barcode === barcode)?.promotion;
 
   // Check for low stock items in cart
   const lowStockItems = items.filter(
@@ -102,6 +112,8 @@ export function Cart({
                 item={item}
                 onUpdateQuantity={onUpdateQuantity}
                 onRemove={onRemove}
+                onDiscount={onDiscountItem}
+                promotion={getPromotion(item.product.barcode)}
                 disabled={disabled}
                 isAtStockLimit={item.quantity >= item.product.stock}
               />
@@ -118,6 +130,8 @@ export function Cart({
             item={item}
             onUpdateQuantity={onUpdateQuantity}
             onRemove={onRemove}
+            onDiscount={onDiscountItem}
+            promotion={getPromotion(item.product.barcode)}
             disabled={disabled}
             isAtStockLimit={item.quantity >= item.product.stock}
             isMobile={true}
@@ -140,10 +154,45 @@ export function Cart({
               <Trash2 className="h-3 w-3 sm:h-4 sm:w-4" />
               <span>Clear</span>
             </button>
+            <button
+              onClick={onDiscountCart}
+              disabled={disabled}
+              className="text-xs sm:text-sm text-blue-600 hover:text-blue-700 flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Tag className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span>Discount</span>
+            </button>
+            <button
+              onClick={onHold}
+              disabled={disabled}
+              className="text-xs sm:text-sm text-yellow-700 hover:text-yellow-800 flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <PauseCircle className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span>Hold</span>
+            </button>
+            <button
+              onClick={onLayaway}
+              disabled={disabled}
+              className="text-xs sm:text-sm text-indigo-600 hover:text-indigo-700 flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CalendarClock className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span>Layaway</span>
+            </button>
+          </div>
+          <div className="text-right">
+            {totals.promotionTotal > 0 && (
+              <p className="text-xs sm:text-sm text-green-700">Promotions: -${totals.promotionTotal.toFixed(2)}</p>
+            )}
+            {totals.discountTotal > 0 && (
+              <p className="text-xs sm:text-sm text-green-700">Discounts: -${totals.discountTotal.toFixed(2)}</p>
+            )}
+            {totals.tax > 0 && (
+              <p className="text-xs sm:text-sm text-gray-600">Tax: ${totals.tax.toFixed(2)}</p>
+            )}
+            <span className="text-xl sm:text-2xl font-bold text-gray-900">
+              Total: ${totals.total.toFixed(2)}
+            </span>
           </div>
-          <span className="text-xl sm:text-2xl font-bold text-gray-900 text-right">
-            Total: ${grandTotal.toFixed(2)}
-          </span>
         </div>
 
         {/* Checkout Button */}
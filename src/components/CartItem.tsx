@@ -1,11 +1,13 @@
-import { Minus, Plus, Trash2, AlertCircle } from 'lucide-react';
-import { CartItem as CartItemType } from '../types/product';
-import { LOW_STOCK_THRESHOLD } from '../services/localStorageService';
+import { Minus, Plus, Trash2, AlertCircle, Tag, Gift } from 'lucide-react';
+import { CartItem as CartItemType, AppliedPromotion } from '../types/product';
+import { LOW_STOCK_THRESHOLD, DiscountService, ProductService } from '../services/localStorageService';
 
 interface CartItemProps {
   item: CartItemType;
   onUpdateQuantity: (barcode: string, delta: number) => void;
   onRemove: (barcode: string) => void;
+  onDiscount: (barcode: string) => void;
+  promotion?: AppliedPromotion;
   disabled?: boolean;
   isAtStockLimit?: boolean;
   isMobile?: boolean;
@@ -20,13 +22,51 @@ export function CartItem({
   item,
   onUpdateQuantity,
   onRemove,
+  onDiscount,
+  promotion,
   disabled = false,
   isAtStockLimit = false,
   isMobile = false,
 }: CartItemProps) {
-  const totalPrice = item.product.price * item.quantity;
+  const linePrice = (item.labelTotal ?? item.product.price * item.quantity) - (promotion?.savings || 0);
+  const discountAmount = item.discount ? DiscountService.calculateAmount(item.discount, linePrice) : 0;
+  const totalPrice = linePrice - discountAmount;
   const canIncrease = item.quantity < item.product.stock && !disabled;
   const isLowStock = item.product.stock > 0 && item.product.stock < LOW_STOCK_THRESHOLD;
+  const measureUnit = item.product.measureUnit;
+
+  /**
+   * Apply a typed measure; a blank or zero entry puts the previous one back
+   */
+  const handleMeasureBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const value = ProductService.roundQuantity(parseFloat(e.target.value) || 0);
+    if (!(value > 0)) {
+      e.target.value = String(item.quantity);
+      return;
+    }
+    if (value !== item.quantity) {
+      onUpdateQuantity(item.product.barcode, value - item.quantity);
+    }
+  };
+
+  // Loose goods take a typed measure instead of +/- steps
+  const measureInput = measureUnit && (
+    <div className="flex items-center space-x-1">
+      <input
+        key={item.quantity}
+        type="number"
+        min="0.001"
+        step="0.001"
+        defaultValue={item.quantity}
+        disabled={disabled}
+        onBlur={handleMeasureBlur}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className="w-20 px-2 py-1 text-sm text-right border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        title={`Quantity in ${measureUnit}`}
+      />
+      <span className="text-xs text-gray-500">{measureUnit}</span>
+    </div>
+  );
 
   // Mobile Card View
   if (isMobile) {
@@ -47,41 +87,63 @@ export function CartItem({
                   Max
                 </span>
               )}
+              {promotion && (
+                <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                  <Gift className="h-2.5 w-2.5 mr-0.5" />
+                  {promotion.name} -${promotion.savings.toFixed(2)}
+                </span>
+              )}
+              {discountAmount > 0 && (
+                <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                  -${discountAmount.toFixed(2)}
+                </span>
+              )}
             </div>
           </div>
-          <button
-            onClick={() => onRemove(item.product.barcode)}
-            disabled={disabled}
-            className="p-1.5 text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
-          >
-            <Trash2 className="h-4 w-4" />
-          </button>
-        </div>
-
-        <div className="flex items-center justify-between">
-          <div className="text-sm text-gray-600">
-            ${item.product.price.toFixed(2)} each
-          </div>
-
-          <div className="flex items-center space-x-2">
+          <div className="flex items-center">
             <button
-              onClick={() => onUpdateQuantity(item.product.barcode, -1)}
+              onClick={() => onDiscount(item.product.barcode)}
               disabled={disabled}
-              className="p-1.5 rounded bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50"
+              className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition-colors disabled:opacity-50"
             >
-              <Minus className="h-3.5 w-3.5 text-gray-600" />
+              <Tag className="h-4 w-4" />
             </button>
-            <span className="w-8 text-center font-semibold text-sm">{item.quantity}</span>
             <button
-              onClick={() => onUpdateQuantity(item.product.barcode, 1)}
-              disabled={!canIncrease}
-              className={`p-1.5 rounded transition-colors ${
-                canIncrease ? 'bg-gray-100 hover:bg-gray-200' : 'bg-gray-50 opacity-50'
-              }`}
+              onClick={() => onRemove(item.product.barcode)}
+              disabled={disabled}
+              className="p-1.5 text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
             >
-              <Plus className="h-3.5 w-3.5 text-gray-600" />
+              <Trash2 className="h-4 w-4" />
             </button>
           </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-600">
+            ${item.product.price.toFixed(2)} {measureUnit ? `/ ${measureUnit}` : 'each'}
+          </div>
+
+          {measureInput || (
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => onUpdateQuantity(item.product.barcode, -1)}
+                disabled={disabled}
+                className="p-1.5 rounded bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                <Minus className="h-3.5 w-3.5 text-gray-600" />
+              </button>
+              <span className="w-8 text-center font-semibold text-sm">{item.quantity}</span>
+              <button
+                onClick={() => onUpdateQuantity(item.product.barcode, 1)}
+                disabled={!canIncrease}
+                className={`p-1.5 rounded transition-colors ${
+                  canIncrease ? 'bg-gray-100 hover:bg-gray-200' : 'bg-gray-50 opacity-50'
+                }`}
+              >
+                <Plus className="h-3.5 w-3.5 text-gray-600" />
+              </button>
+            </div>
+          )}
 
           <div className="text-sm font-semibold text-gray-900 min-w-[60px] text-right">
             ${totalPrice.toFixed(2)}
@@ -114,38 +176,63 @@ export function CartItem({
               Max
             </span>
           )}
+          {promotion && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+              <Gift className="h-3 w-3 mr-1" />
+              {promotion.name}
+            </span>
+          )}
         </div>
       </td>
-      <td className="px-4 py-3 text-gray-700">${item.product.price.toFixed(2)}</td>
+      <td className="px-4 py-3 text-gray-700">
+        ${item.product.price.toFixed(2)}
+        {measureUnit && <span className="text-xs text-gray-500"> / {measureUnit}</span>}
+      </td>
       <td className="px-4 py-3">
-        <div className="flex items-center space-x-2">
-          <button
-            onClick={() => onUpdateQuantity(item.product.barcode, -1)}
-            disabled={disabled}
-            className="p-1 rounded hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Decrease quantity"
-          >
-            <Minus className="h-4 w-4 text-gray-600" />
-          </button>
-          <span className="w-12 text-center font-semibold">{item.quantity}</span>
-          <button
-            onClick={() => onUpdateQuantity(item.product.barcode, 1)}
-            disabled={!canIncrease}
-            className={`p-1 rounded transition-colors ${
-              canIncrease
-                ? 'hover:bg-gray-200 text-gray-600'
-                : 'opacity-50 cursor-not-allowed text-gray-400'
-            }`}
-            title={canIncrease ? 'Increase quantity' : 'Out of stock'}
-          >
-            <Plus className="h-4 w-4" />
-          </button>
-        </div>
+        {measureInput || (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => onUpdateQuantity(item.product.barcode, -1)}
+              disabled={disabled}
+              className="p-1 rounded hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Decrease quantity"
+            >
+              <Minus className="h-4 w-4 text-gray-600" />
+            </button>
+            <span className="w-12 text-center font-semibold">{item.quantity}</span>
+            <button
+              onClick={() => onUpdateQuantity(item.product.barcode, 1)}
+              disabled={!canIncrease}
+              className={`p-1 rounded transition-colors ${
+                canIncrease
+                  ? 'hover:bg-gray-200 text-gray-600'
+                  : 'opacity-50 cursor-not-allowed text-gray-400'
+              }`}
+              title={canIncrease ? 'Increase quantity' : 'Out of stock'}
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+        )}
       </td>
       <td className="px-4 py-3 font-semibold text-gray-900">
         ${totalPrice.toFixed(2)}
+        {promotion && (
+          <p className="text-xs font-medium text-purple-700">-${promotion.savings.toFixed(2)} promotion</p>
+        )}
+        {discountAmount > 0 && (
+          <p className="text-xs font-medium text-green-700">-${discountAmount.toFixed(2)} discount</p>
+        )}
       </td>
       <td className="px-4 py-3">
+        <button
+          onClick={() => onDiscount(item.product.barcode)}
+          disabled={disabled}
+          className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Discount item"
+        >
+          <Tag className="h-4 w-4" />
+        </button>
         <button
           onClick={() => onRemove(item.product.barcode)}
           disabled={disabled}
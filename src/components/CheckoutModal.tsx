@@ -42,7 +42,7 @@ export function CheckoutModal({ items, total, onClose }: CheckoutModalProps) {
                   </p>
                 </div>
                 <p className="font-semibold text-gray-900">
-                  ${(item.product.price * item.quantity).toFixed(2)}
+                  ${(item.labelTotal ?? item.product.price * item.quantity).toFixed(2)}
                 </p>
               </div>
             ))}
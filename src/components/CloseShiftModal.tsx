@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { X, Calculator, CheckCircle, AlertTriangle } from 'lucide-react';
+import { CashierSession } from '../types/product';
+import { CashierSessionService, CASH_DENOMINATIONS } from '../services/localStorageService';
+
+interface CloseShiftModalProps {
+  sessionId: string;
+  onClose: () => void;
+  onShiftClosed: () => void;
+}
+
+/**
+ * Format a denomination for display (bills as $20, coins as 25¢)
+ */
+function formatDenomination(value: number): string {
+  return value >= 1 ? `$${value}` : `${Math.round(value * 100)}¢`;
+}
+
+/**
+ * Close Shift Modal Component
+ * Counts the drawer by denomination and reports the over/short result
+ */
+export function CloseShiftModal({ sessionId, onClose, onShiftClosed }: CloseShiftModalProps) {
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [closedSession, setClosedSession] = useState<CashierSession | null>(null);
+
+  const denominationCount = CASH_DENOMINATIONS.reduce<Record<string, number>>((acc, value) => {
+    acc[value.toString()] = parseInt(counts[value.toString()] || '0', 10) || 0;
+    return acc;
+  }, {});
+  const countedTotal = CashierSessionService.countTotal(denominationCount);
+
+  const handleCountChange = (denomination: string, value: string) => {
+    // Allow only whole numbers
+    if (value === '' || /^\d+$/.test(value)) {
+      setCounts((prev) => ({ ...prev, [denomination]: value }));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const result = CashierSessionService.close(sessionId, denominationCount, notes);
+    if (result.success && result.session) {
+      setClosedSession(result.session);
+    } else {
+      setError(result.error || 'Failed to close shift');
+    }
+  };
+
+  const variance = closedSession?.variance ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={closedSession ? undefined : onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-2 sm:p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-2 sm:mx-0 max-h-[90vh] overflow-y-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900">
+              {closedSession ? 'Shift Closed' : 'Close Shift'}
+            </h3>
+            {!closedSession && (
+              <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1">
+                <X className="h-5 w-5 sm:h-6 sm:w-6" />
+              </button>
+            )}
+          </div>
+
+          {closedSession ? (
+            /* Shift Summary */
+            <div className="p-4 sm:p-6 space-y-4">
+              <div
+                className={`flex items-center space-x-3 p-4 rounded-lg ${
+                  variance === 0 ? 'bg-green-50 text-green-700' : 'bg-yellow-50 text-yellow-800'
+                }`}
+              >
+                {variance === 0 ? (
+                  <CheckCircle className="h-6 w-6 flex-shrink-0" />
+                ) : (
+                  <AlertTriangle className="h-6 w-6 flex-shrink-0" />
+                )}
+                <span className="font-medium">
+                  {variance === 0
+                    ? 'Drawer balanced'
+                    : `Drawer ${variance > 0 ? 'over' : 'short'} by $${Math.abs(variance).toFixed(2)}`}
+                </span>
+              </div>
+
+              <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Opening Float:</span>
+                  <span className="font-medium">${closedSession.openingBalance.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Net Cash Taken:</span>
+                  <span className="font-medium">${(closedSession.cashSales ?? 0).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between border-t border-gray-200 pt-2">
+                  <span className="text-gray-600">Expected Cash:</span>
+                  <span className="font-medium">${(closedSession.expectedCash ?? 0).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Counted Cash:</span>
+                  <span className="font-medium">${(closedSession.closingBalance ?? 0).toFixed(2)}</span>
+                </div>
+              </div>
+
+              <button
+                onClick={onShiftClosed}
+                className="w-full py-3 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                Sign Out
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <p className="text-sm text-gray-600">
+                Count the cash in your drawer and enter the number of each note and coin.
+              </p>
+
+              {/* Denomination Count */}
+              <div className="grid grid-cols-2 gap-3">
+                {CASH_DENOMINATIONS.map((value) => (
+                  <div key={value} className="flex items-center space-x-2">
+                    <label
+                      htmlFor={`denomination-${value}`}
+                      className="w-12 text-sm font-medium text-gray-700 text-right"
+                    >
+                      {formatDenomination(value)}
+                    </label>
+                    <input
+                      id={`denomination-${value}`}
+                      type="text"
+                      inputMode="numeric"
+                      value={counts[value.toString()] || ''}
+                      onChange={(e) => handleCountChange(value.toString(), e.target.value)}
+                      className="flex-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="0"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {/* Counted Total */}
+              <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
+                <span className="flex items-center text-gray-600">
+                  <Calculator className="h-4 w-4 mr-2" />
+                  Counted Total:
+                </span>
+                <span className="text-xl font-bold text-gray-900">${countedTotal.toFixed(2)}</span>
+              </div>
+
+              <div>
+                <label htmlFor="shiftNotes" className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes (optional)
+                </label>
+                <textarea
+                  id="shiftNotes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 py-2 px-4 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
+                >
+                  Close Shift
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
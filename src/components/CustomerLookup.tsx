@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Award, Phone, Search, X } from 'lucide-react';
+import { Customer } from '../types/product';
+
+interface CustomerLookupProps {
+  customer?: Customer;
+  onLookup: (phone: string) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Customer Lookup Component
+ * Attaches a customer to the sale by phone; loyalty cards are scanned at the barcode input
+ */
+export function CustomerLookup({ customer, onLookup, onClear, disabled = false }: CustomerLookupProps) {
+  const [phone, setPhone] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!phone.trim()) return;
+    onLookup(phone);
+    setPhone('');
+  };
+
+  if (customer) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg px-4 py-3 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-yellow-100 rounded-full">
+            <Award className="h-5 w-5 text-yellow-700" />
+          </div>
+          <div>
+            <p className="font-semibold text-gray-900">{customer.name}</p>
+            <p className="text-xs text-gray-500">
+              {customer.phone} · {customer.points} points
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClear}
+          disabled={disabled}
+          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+          title="Remove customer"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg px-4 py-3 flex items-center space-x-2">
+      <div className="relative flex-1">
+        <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          type="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          disabled={disabled}
+          className="block w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          placeholder="Customer phone (or scan loyalty card)"
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={disabled || !phone.trim()}
+        className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-sm"
+      >
+        <Search className="h-4 w-4" />
+        <span>Find</span>
+      </button>
+    </form>
+  );
+}
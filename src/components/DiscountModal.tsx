@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { X, Percent, DollarSign, ShieldCheck } from 'lucide-react';
+import { Discount, DiscountReason } from '../types/product';
+import { DiscountService, DISCOUNT_REASONS } from '../services/localStorageService';
+
+interface DiscountModalProps {
+  title: string;
+  amount: number;
+  current?: Discount;
+  onApply: (discount: Discount) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Discount Modal Component
+ * Enters a line or cart discount and collects manager approval when required
+ */
+export function DiscountModal({ title, amount, current, onApply, onRemove, onClose }: DiscountModalProps) {
+  const [type, setType] = useState<Discount['type']>(current?.type || 'percentage');
+  const [value, setValue] = useState(current ? current.value.toString() : '');
+  const [reason, setReason] = useState<DiscountReason>(current?.reason || 'other');
+  const [managerId, setManagerId] = useState('');
+  const [managerPassword, setManagerPassword] = useState('');
+  const [error, setError] = useState('');
+
+  const discount: Discount = { type, value: parseFloat(value || '0'), reason };
+  const discountAmount = DiscountService.calculateAmount(discount, amount);
+  const needsApproval = discount.value > 0 && DiscountService.requiresApproval(discount, amount);
+
+  const handleValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target.value;
+    // Allow only numbers and decimal point
+    if (input === '' || /^\d*\.?\d{0,2}$/.test(input)) {
+      setValue(input);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const validation = DiscountService.validate(discount, amount);
+    if (!validation.success) {
+      setError(validation.error || 'Invalid discount');
+      return;
+    }
+
+    if (needsApproval) {
+      const approval = DiscountService.approve(managerId, managerPassword);
+      if (!approval.success) {
+        setError(approval.error || 'Manager approval failed');
+        return;
+      }
+      onApply({ ...discount, approvedBy: approval.approvedBy });
+      return;
+    }
+
+    onApply(discount);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-2 sm:p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-2 sm:mx-0 max-h-[90vh] overflow-y-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900">{title}</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1">
+              <X className="h-5 w-5 sm:h-6 sm:w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            {/* Discount Type */}
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => setType('percentage')}
+                className={`flex items-center justify-center space-x-1 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                  type === 'percentage' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600'
+                }`}
+              >
+                <Percent className="h-4 w-4" />
+                <span>Percentage</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setType('fixed')}
+                className={`flex items-center justify-center space-x-1 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                  type === 'fixed' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600'
+                }`}
+              >
+                <DollarSign className="h-4 w-4" />
+                <span>Fixed Amount</span>
+              </button>
+            </div>
+
+            {/* Value */}
+            <div>
+              <label htmlFor="discountValue" className="block text-sm font-medium text-gray-700 mb-1">
+                {type === 'percentage' ? 'Discount (%)' : 'Discount ($)'}
+              </label>
+              <input
+                id="discountValue"
+                type="text"
+                inputMode="decimal"
+                value={value}
+                onChange={handleValueChange}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="0"
+                autoFocus
+              />
+            </div>
+
+            {/* Reason */}
+            <div>
+              <label htmlFor="discountReason" className="block text-sm font-medium text-gray-700 mb-1">
+                Reason
+              </label>
+              <select
+                id="discountReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value as DiscountReason)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {DISCOUNT_REASONS.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Preview */}
+            <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Amount:</span>
+                <span>${amount.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between text-red-600">
+                <span>Discount:</span>
+                <span>-${discountAmount.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between font-bold">
+                <span>After discount:</span>
+                <span>${(amount - discountAmount).toFixed(2)}</span>
+              </div>
+            </div>
+
+            {/* Manager Approval */}
+            {needsApproval && (
+              <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4 space-y-3">
+                <p className="flex items-center text-sm font-medium text-yellow-800">
+                  <ShieldCheck className="h-4 w-4 mr-1" />
+                  Manager approval required (over {DiscountService.getSettings().approvalThreshold}%)
+                </p>
+                <input
+                  type="text"
+                  value={managerId}
+                  onChange={(e) => setManagerId(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Manager ID"
+                />
+                <input
+                  type="password"
+                  value={managerPassword}
+                  onChange={(e) => setManagerPassword(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Password"
+                />
+              </div>
+            )}
+
+            <div className="flex space-x-3">
+              {current && (
+                <button
+                  type="button"
+                  onClick={onRemove}
+                  className="flex-1 py-2 px-4 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                >
+                  Remove
+                </button>
+              )}
+              <button
+                type="submit"
+                className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                {needsApproval ? 'Approve & Apply' : 'Apply Discount'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
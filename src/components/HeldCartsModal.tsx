@@ -0,0 +1,99 @@
+import { X, PlayCircle, Trash2, Clock, User, ShoppingCart } from 'lucide-react';
+import { HeldCart } from '../types/product';
+
+interface HeldCartsModalProps {
+  carts: HeldCart[];
+  onRecall: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Held Carts Modal Component
+ * Lists carts parked at this store so any cashier can recall them
+ */
+export function HeldCartsModal({ carts, onRecall, onDelete, onClose }: HeldCartsModalProps) {
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-2 sm:p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-2 sm:mx-0 max-h-[90vh] overflow-y-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900">Held Carts</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1">
+              <X className="h-5 w-5 sm:h-6 sm:w-6" />
+            </button>
+          </div>
+
+          <div className="p-4 sm:p-6 space-y-3">
+            {carts.length === 0 ? (
+              <div className="flex flex-col items-center text-gray-400 py-8">
+                <ShoppingCart className="h-12 w-12 mb-3" />
+                <p>No held carts</p>
+              </div>
+            ) : (
+              carts.map((cart) => {
+                const itemCount = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+                const amount = cart.items.reduce(
+                  (sum, item) => sum + (item.labelTotal ?? item.product.price * item.quantity),
+                  0
+                );
+                return (
+                  <div key={cart.id} className="border border-gray-200 rounded-lg p-3">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="font-medium text-gray-900">{cart.label}</p>
+                        <p className="text-xs text-gray-500">
+                          {itemCount} item{itemCount === 1 ? '' : 's'} · ${amount.toFixed(2)} before discounts
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => onRecall(cart.id)}
+                          className="flex items-center space-x-1 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
+                        >
+                          <PlayCircle className="h-4 w-4" />
+                          <span>Recall</span>
+                        </button>
+                        <button
+                          onClick={() => onDelete(cart.id)}
+                          className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Discard"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 mt-2 text-xs text-gray-500">
+                      <span className="flex items-center">
+                        <User className="h-3 w-3 mr-1" />
+                        {cart.heldBy}
+                      </span>
+                      <span className="flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {formatTime(cart.heldAt)}, expires {formatTime(cart.expiresAt)}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
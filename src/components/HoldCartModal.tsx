@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { X, PauseCircle } from 'lucide-react';
+
+interface HoldCartModalProps {
+  itemCount: number;
+  onHold: (label: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Hold Cart Modal Component
+ * Asks for a label before the current cart is parked
+ */
+export function HoldCartModal({ itemCount, onHold, onClose }: HoldCartModalProps) {
+  const [label, setLabel] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onHold(label);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-2 sm:p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full mx-2 sm:mx-0">
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-200">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900">Hold Cart</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1">
+              <X className="h-5 w-5 sm:h-6 sm:w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+            <p className="text-sm text-gray-600">
+              {itemCount} item{itemCount === 1 ? '' : 's'} will be set aside so you can start a new sale.
+            </p>
+            <div>
+              <label htmlFor="holdLabel" className="block text-sm font-medium text-gray-700 mb-1">
+                Label
+              </label>
+              <input
+                id="holdLabel"
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g. Lady in red, getting rice"
+                autoFocus
+              />
+            </div>
+            <button
+              type="submit"
+              className="w-full flex items-center justify-center space-x-2 py-2 px-4 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors font-medium"
+            >
+              <PauseCircle className="h-5 w-5" />
+              <span>Hold Cart</span>
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { X, CalendarClock, Banknote, CreditCard, Smartphone } from 'lucide-react';
+import { Customer, PaymentMethod, Tender } from '../types/product';
+import { LayawayService } from '../services/localStorageService';
+
+interface LayawayModalProps {
+  total: number;
+  customer: Customer;
+  onCreate: (deposit: Tender) => void;
+  onClose: () => void;
+}
+
+/**
+ * Layaway Modal Component
+ * Takes the deposit that starts a layaway; the goods are reserved until they are paid off
+ */
+export function LayawayModal({ total, customer, onCreate, onClose }: LayawayModalProps) {
+  const settings = LayawayService.getSettings();
+  const minimumDeposit = LayawayService.getMinimumDeposit(total);
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [amount, setAmount] = useState(minimumDeposit > 0 ? minimumDeposit.toFixed(2) : '');
+
+  const deposit = parseFloat(amount || '0');
+  const isValidDeposit = deposit > 0 && deposit >= minimumDeposit && deposit <= total;
+
+  const dueDate = new Date();
+  dueDate.setDate(dueDate.getDate() + settings.termDays);
+
+  const methods = [
+    { id: 'cash' as PaymentMethod, label: 'Cash', icon: Banknote },
+    { id: 'card' as PaymentMethod, label: 'Card', icon: CreditCard },
+    { id: 'mobile_money' as PaymentMethod, label: 'Mobile Money', icon: Smartphone },
+  ];
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow only numbers and decimal point
+    if (value === '' || /^\d*\.?\d{0,2}$/.test(value)) {
+      setAmount(value);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidDeposit) return;
+    onCreate({ method, amount: deposit });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-2 sm:p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full mx-2 sm:mx-0">
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-200">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900">Start Layaway</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1">
+              <X className="h-5 w-5 sm:h-6 sm:w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+            <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Customer:</span>
+                <span className="font-medium">{customer.name}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Total:</span>
+                <span className="font-bold text-blue-600">${total.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Minimum deposit ({settings.minDepositPercent}%):</span>
+                <span className="font-medium">${minimumDeposit.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Pay off by:</span>
+                <span className="font-medium">{dueDate.toLocaleDateString()}</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {methods.map((option) => {
+                const Icon = option.icon;
+                return (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setMethod(option.id)}
+                    className={`flex flex-col items-center p-2 rounded-lg border-2 transition-all ${
+                      method === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <Icon className="h-5 w-5 mb-1 text-gray-600" />
+                    <span className="text-xs font-medium">{option.label}</span>
+                  </button>
+                );
+              })}
+            </div>
+
+            <div>
+              <label htmlFor="layawayDeposit" className="block text-sm font-medium text-gray-700 mb-1">
+                Deposit
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                <input
+                  id="layawayDeposit"
+                  type="text"
+                  value={amount}
+                  onChange={handleAmountChange}
+                  className="block w-full pl-7 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="0.00"
+                  autoFocus
+                />
+              </div>
+              {amount && !isValidDeposit && (
+                <p className="text-sm text-red-600 mt-1">
+                  Enter between ${minimumDeposit.toFixed(2)} and ${total.toFixed(2)}
+                </p>
+              )}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              The goods are set aside until collected. If the layaway is cancelled, {settings.forfeitPercent}% of the
+              amount paid is kept.
+            </p>
+
+            <button
+              type="submit"
+              disabled={!isValidDeposit}
+              className="w-full flex items-center justify-center space-x-2 py-2 px-4 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              <CalendarClock className="h-5 w-5" />
+              <span>Take Deposit</span>
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,32 +1,130 @@
 import { useState } from 'react';
-import { X, Banknote, CreditCard, Smartphone, Calculator, CheckCircle } from 'lucide-react';
-import { PaymentMethod, CartItem } from '../types/product';
+import { X, Banknote, CreditCard, Smartphone, Calculator, CheckCircle, Plus, Trash2, Award, Ticket, Wallet, BookUser } from 'lucide-react';
+import { PaymentMethod, CartItem, Tender, Customer } from '../types/product';
+import { CustomerService, GiftCardService, SaleService } from '../services/localStorageService';
 
 interface PaymentModalProps {
   items: CartItem[];
   total: number;
+  tax?: number;
+  customer?: Customer;
+  initialCardCode?: string;
   onClose: () => void;
-  onComplete: (paymentMethod: PaymentMethod, amountPaid: number) => void;
+  onComplete: (tenders: Tender[]) => boolean | Promise<boolean>; // false when the payment failed
 }
 
 /**
  * Payment Modal Component
- * Handles payment processing with multiple payment methods
+ * Handles payment processing with multiple payment methods, split across tender lines
  */
-export function PaymentModal({ items, total, onClose, onComplete }: PaymentModalProps) {
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
-  const [amountPaid, setAmountPaid] = useState<string>('');
+export function PaymentModal({
+  items,
+  total,
+  tax = 0,
+  customer,
+  initialCardCode,
+  onClose,
+  onComplete,
+}: PaymentModalProps) {
+  // A card scanned at the till opens payment with that card selected
+  const [initialCard] = useState(() => (initialCardCode ? GiftCardService.findByCode(initialCardCode) : undefined));
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(initialCard?.kind || 'cash');
+  const [amountPaid, setAmountPaid] = useState<string>(
+    initialCard ? Math.min(initialCard.balance, total).toFixed(2) : ''
+  );
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [cardCode, setCardCode] = useState(initialCard?.code || '');
+  const [cardInput, setCardInput] = useState('');
+  const [cardError, setCardError] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
 
-  const change = parseFloat(amountPaid || '0') - total;
-  const isValidPayment = parseFloat(amountPaid || '0') >= total;
+  const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+  // Gift cards and store credit are identified by a scanned or typed code
+  const isCardMethod = paymentMethod === 'gift_card' || paymentMethod === 'store_credit';
+  const selectedCard = isCardMethod && cardCode ? GiftCardService.findByCode(cardCode) : undefined;
+
+  // Tender lines plus the amount currently being entered
+  const enteredAmount = parseFloat(amountPaid || '0');
+  const enteredTender: Tender = { method: paymentMethod, amount: enteredAmount, reference: selectedCard?.code };
+  const allTenders = enteredAmount > 0 ? [...tenders, enteredTender] : tenders;
+  const totalPaid = roundMoney(allTenders.reduce((sum, tender) => sum + tender.amount, 0));
+  const nonCashPaid = roundMoney(
+    allTenders.filter((tender) => tender.method !== 'cash').reduce((sum, tender) => sum + tender.amount, 0)
+  );
+  const remaining = roundMoney(total - tenders.reduce((sum, tender) => sum + tender.amount, 0));
+  const change = roundMoney(totalPaid - total);
+  const isOverTendered = nonCashPaid > total;
+
+  // Loyalty points can pay up to their redeemable value
+  const pointsAvailable = customer ? CustomerService.getRedeemableValue(customer) : 0;
+  const pointsPaid = roundMoney(
+    allTenders.filter((tender) => tender.method === 'loyalty_points').reduce((sum, tender) => sum + tender.amount, 0)
+  );
+  const isOverPoints = pointsPaid > pointsAvailable;
+
+  // Charges on account can use up to the customer's remaining credit
+  const creditAvailable = customer?.creditLimit ? SaleService.getAvailableCredit(customer) : 0;
+  const accountCharged = roundMoney(
+    allTenders.filter((tender) => tender.method === 'on_account').reduce((sum, tender) => sum + tender.amount, 0)
+  );
+  const isOverCredit = accountCharged > creditAvailable;
+
+  // A card can pay up to its balance, less what earlier lines already took from it
+  const cardUsed = (code: string) =>
+    roundMoney(tenders.filter((tender) => tender.reference === code).reduce((sum, tender) => sum + tender.amount, 0));
+  const cardAvailable = selectedCard ? roundMoney(selectedCard.balance - cardUsed(selectedCard.code)) : 0;
+  const isMissingCard = isCardMethod && enteredAmount > 0 && !selectedCard;
+  const isOverCard = !!selectedCard && enteredAmount > cardAvailable;
+  const isValidPayment =
+    totalPaid >= total && !isOverTendered && !isOverPoints && !isOverCredit && !isMissingCard && !isOverCard;
+  const hasCash = allTenders.some((tender) => tender.method === 'cash') || paymentMethod === 'cash';
 
   const paymentMethods = [
     { id: 'cash' as PaymentMethod, label: 'Cash', icon: Banknote, color: 'bg-green-100 text-green-700' },
     { id: 'mobile_money' as PaymentMethod, label: 'Mobile Money', icon: Smartphone, color: 'bg-blue-100 text-blue-700' },
     { id: 'card' as PaymentMethod, label: 'Card', icon: CreditCard, color: 'bg-purple-100 text-purple-700' },
+    { id: 'gift_card' as PaymentMethod, label: 'Gift Card', icon: Ticket, color: 'bg-pink-100 text-pink-700' },
+    { id: 'store_credit' as PaymentMethod, label: 'Store Credit', icon: Wallet, color: 'bg-teal-100 text-teal-700' },
+    ...(customer
+      ? [{ id: 'loyalty_points' as PaymentMethod, label: 'Points', icon: Award, color: 'bg-yellow-100 text-yellow-700' }]
+      : []),
+    ...(customer?.creditLimit
+      ? [{ id: 'on_account' as PaymentMethod, label: 'On Account', icon: BookUser, color: 'bg-indigo-100 text-indigo-700' }]
+      : []),
   ];
 
+  const handleMethodChange = (method: PaymentMethod) => {
+    setPaymentMethod(method);
+    setCardCode('');
+    setCardInput('');
+    setCardError('');
+  };
+
+  /**
+   * Look up a scanned or typed card code and offer its balance
+   */
+  const handleCardLookup = () => {
+    const card = GiftCardService.findByCode(cardInput);
+    setCardInput('');
+    setCardError('');
+    if (!card) {
+      setCardError('Card not found');
+      return;
+    }
+    if (card.kind !== paymentMethod) {
+      setCardError(`${card.code} is ${card.kind === 'gift_card' ? 'a gift card' : 'store credit'}`);
+      return;
+    }
+    const available = roundMoney(card.balance - cardUsed(card.code));
+    if (available <= 0) {
+      setCardError(`${card.code} has no balance left`);
+      return;
+    }
+    setCardCode(card.code);
+    setAmountPaid(Math.min(available, remaining).toFixed(2));
+  };
+
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     // Allow only numbers and decimal point
@@ -39,6 +137,20 @@ export function PaymentModal({ items, total, onClose, onComplete }: PaymentModal
     setAmountPaid(amount.toFixed(2));
   };
 
+  /**
+   * Add the entered amount as a tender line and leave the balance for another method
+   */
+  const handleAddTender = () => {
+    if (!(enteredAmount > 0) || enteredAmount >= remaining || isMissingCard || isOverCard) return;
+    setTenders([...tenders, enteredTender]);
+    setAmountPaid('');
+    setCardCode('');
+  };
+
+  const handleRemoveTender = (index: number) => {
+    setTenders(tenders.filter((_, i) => i !== index));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!isValidPayment) return;
@@ -46,11 +158,16 @@ export function PaymentModal({ items, total, onClose, onComplete }: PaymentModal
     setIsProcessing(true);
     // Simulate processing delay
     await new Promise((resolve) => setTimeout(resolve, 1000));
-    onComplete(paymentMethod, parseFloat(amountPaid));
+    // On failure the modal stays open so the cashier can change the tenders and retry
+    if (!(await onComplete(allTenders))) {
+      setIsProcessing(false);
+    }
   };
 
   // Quick amount buttons for cash payments - small bills
-  const quickAmounts = [5, 10, 20, 50, 100].filter((amt) => amt >= total || amt === Math.ceil(total / 5) * 5);
+  const quickAmounts = [5, 10, 20, 50, 100].filter(
+    (amt) => amt >= remaining || amt === Math.ceil(remaining / 5) * 5
+  );
   
   // Large denomination quick amounts (always shown)
   const largeAmounts = [100, 200, 500, 1000, 2000];
@@ -78,12 +195,54 @@ export function PaymentModal({ items, total, onClose, onComplete }: PaymentModal
                 <span className="text-gray-600">Items:</span>
                 <span className="font-medium">{items.reduce((sum, item) => sum + item.quantity, 0)}</span>
               </div>
+              {tax > 0 && (
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-gray-600">Tax:</span>
+                  <span className="font-medium">${tax.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between items-center text-lg font-bold">
                 <span className="text-gray-900">Total Amount:</span>
                 <span className="text-blue-600">${total.toFixed(2)}</span>
               </div>
             </div>
 
+            {/* Tender Lines */}
+            {tenders.length > 0 && (
+              <div className="space-y-2">
+                {tenders.map((tender, index) => {
+                  const method = paymentMethods.find((m) => m.id === tender.method)!;
+                  const Icon = method.icon;
+                  return (
+                    <div key={index} className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm">
+                      <span className="flex items-center">
+                        <Icon className="h-4 w-4 mr-2 text-gray-500" />
+                        {method.label}
+                        {tender.reference && (
+                          <span className="ml-1 font-mono text-xs text-gray-500">…{tender.reference.slice(-4)}</span>
+                        )}
+                      </span>
+                      <span className="flex items-center space-x-2">
+                        <span className="font-medium">${tender.amount.toFixed(2)}</span>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveTender(index)}
+                          disabled={isProcessing}
+                          className="p-1 text-red-500 hover:bg-red-50 rounded"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </span>
+                    </div>
+                  );
+                })}
+                <div className="flex justify-between items-center px-3 text-sm font-semibold">
+                  <span className="text-gray-700">Remaining Balance:</span>
+                  <span className="text-orange-600">${Math.max(remaining, 0).toFixed(2)}</span>
+                </div>
+              </div>
+            )}
+
             {/* Payment Method Selection */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">Select Payment Method</label>
@@ -94,7 +253,7 @@ export function PaymentModal({ items, total, onClose, onComplete }: PaymentModal
                     <button
                       key={method.id}
                       type="button"
-                      onClick={() => setPaymentMethod(method.id)}
+                      onClick={() => handleMethodChange(method.id)}
                       disabled={isProcessing}
                       className={`flex flex-col items-center p-2 sm:p-3 rounded-lg border-2 transition-all ${
                         paymentMethod === method.id
@@ -112,6 +271,47 @@ export function PaymentModal({ items, total, onClose, onComplete }: PaymentModal
               </div>
             </div>
 
+            {/* Card Code (gift card and store credit) */}
+            {isCardMethod && (
+              <div>
+                <label htmlFor="cardCode" className="block text-sm font-medium text-gray-700 mb-2">
+                  Card Code
+                </label>
+                <div className="flex space-x-2">
+                  <input
+                    id="cardCode"
+                    type="text"
+                    value={cardInput}
+                    onChange={(e) => setCardInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      // Scanners end with Enter; look the card up instead of submitting payment
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleCardLookup();
+                      }
+                    }}
+                    disabled={isProcessing}
+                    className="flex-1 px-3 py-2 border-2 border-gray-300 rounded-lg font-mono uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Scan or type code"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleCardLookup}
+                    disabled={isProcessing || !cardInput.trim()}
+                    className="px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium disabled:opacity-50 transition-colors"
+                  >
+                    Check
+                  </button>
+                </div>
+                {selectedCard && (
+                  <p className="text-sm text-gray-600 mt-2">
+                    <span className="font-mono">{selectedCard.code}</span> · ${cardAvailable.toFixed(2)} available
+                  </p>
+                )}
+                {cardError && <p className="text-sm text-red-600 mt-2">{cardError}</p>}
+              </div>
+            )}
+
             {/* Amount Input */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -129,6 +329,40 @@ export function PaymentModal({ items, total, onClose, onComplete }: PaymentModal
                 />
               </div>
 
+              {/* Points Balance */}
+              {paymentMethod === 'loyalty_points' && customer && (
+                <div className="flex items-center justify-between mt-3 text-sm">
+                  <span className="text-gray-600">
+                    {customer.points} points · ${pointsAvailable.toFixed(2)} redeemable
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleQuickAmount(Math.min(pointsAvailable, remaining))}
+                    disabled={isProcessing || pointsAvailable === 0}
+                    className="px-3 py-1 text-sm bg-yellow-100 hover:bg-yellow-200 text-yellow-800 rounded-full transition-colors disabled:opacity-50"
+                  >
+                    Use Points
+                  </button>
+                </div>
+              )}
+
+              {/* Available Credit */}
+              {paymentMethod === 'on_account' && customer && (
+                <div className="flex items-center justify-between mt-3 text-sm">
+                  <span className="text-gray-600">
+                    ${creditAvailable.toFixed(2)} of ${(customer.creditLimit || 0).toFixed(2)} credit available
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleQuickAmount(Math.min(creditAvailable, remaining))}
+                    disabled={isProcessing || creditAvailable === 0}
+                    className="px-3 py-1 text-sm bg-indigo-100 hover:bg-indigo-200 text-indigo-800 rounded-full transition-colors disabled:opacity-50"
+                  >
+                    Charge Account
+                  </button>
+                </div>
+              )}
+
               {/* Quick Amount Buttons (Cash only) */}
               {paymentMethod === 'cash' && (
                 <div className="space-y-2 mt-3">
@@ -147,7 +381,7 @@ export function PaymentModal({ items, total, onClose, onComplete }: PaymentModal
                     ))}
                     <button
                       type="button"
-                      onClick={() => handleQuickAmount(total)}
+                      onClick={() => handleQuickAmount(remaining)}
                       disabled={isProcessing}
                       className="px-3 py-1 text-sm bg-blue-100 hover:bg-blue-200 text-blue-700 rounded-full transition-colors"
                     >
@@ -173,8 +407,19 @@ export function PaymentModal({ items, total, onClose, onComplete }: PaymentModal
               )}
             </div>
 
+            {/* Split Payment */}
+            <button
+              type="button"
+              onClick={handleAddTender}
+              disabled={isProcessing || !(enteredAmount > 0) || enteredAmount >= remaining}
+              className="w-full flex items-center justify-center space-x-2 py-2 px-4 border-2 border-dashed border-gray-300 text-gray-700 hover:border-blue-400 hover:text-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add as Partial Payment</span>
+            </button>
+
             {/* Change Display (Cash only) */}
-            {paymentMethod === 'cash' && (
+            {hasCash && (
               <div className={`p-4 rounded-lg ${change >= 0 ? 'bg-green-50' : 'bg-red-50'}`}>
                 <div className="flex justify-between items-center">
                   <span className="font-medium">Change:</span>
@@ -186,11 +431,38 @@ export function PaymentModal({ items, total, onClose, onComplete }: PaymentModal
             )}
 
             {/* Error Message */}
-            {!isValidPayment && amountPaid && (
+            {isOverTendered ? (
+              <div className="text-red-600 text-sm flex items-center">
+                <Calculator className="h-4 w-4 mr-2" />
+                Only cash can exceed the amount due. Change is only given on cash.
+              </div>
+            ) : isOverPoints ? (
+              <div className="text-red-600 text-sm flex items-center">
+                <Calculator className="h-4 w-4 mr-2" />
+                Only ${pointsAvailable.toFixed(2)} can be paid with points
+              </div>
+            ) : isOverCredit ? (
               <div className="text-red-600 text-sm flex items-center">
                 <Calculator className="h-4 w-4 mr-2" />
-                Insufficient amount. Please enter at least ${total.toFixed(2)}
+                Only ${creditAvailable.toFixed(2)} can be charged to this account
               </div>
+            ) : isMissingCard ? (
+              <div className="text-red-600 text-sm flex items-center">
+                <Calculator className="h-4 w-4 mr-2" />
+                Scan or enter the card code first
+              </div>
+            ) : isOverCard ? (
+              <div className="text-red-600 text-sm flex items-center">
+                <Calculator className="h-4 w-4 mr-2" />
+                Only ${cardAvailable.toFixed(2)} is left on this card
+              </div>
+            ) : (
+              !isValidPayment && amountPaid && (
+                <div className="text-red-600 text-sm flex items-center">
+                  <Calculator className="h-4 w-4 mr-2" />
+                  Insufficient amount. Please enter at least ${remaining.toFixed(2)} or add a partial payment
+                </div>
+              )
             )}
 
             {/* Submit Button */}
@@ -1,19 +1,25 @@
 import { useRef } from 'react';
-import { Printer, X, CheckCircle, Store, Calendar, User, CreditCard, Banknote, Smartphone } from 'lucide-react';
+import { Printer, X, CheckCircle, Store, Calendar, User, CreditCard, Banknote, Smartphone, Award, Ticket, Wallet, BookUser, Ban } from 'lucide-react';
 import { SaleRecord, PaymentMethod } from '../types/product';
+import { SaleService, ProductService, TaxService, DiscountService, DISCOUNT_REASONS } from '../services/localStorageService';
 
 interface ReceiptProps {
   sale: SaleRecord;
   onClose: () => void;
   onNewSale: () => void;
+  onVoid?: () => void;
 }
 
 /**
  * Receipt Component
  * Displays and prints sale receipt
  */
-export function Receipt({ sale, onClose, onNewSale }: ReceiptProps) {
+export function Receipt({ sale, onClose, onNewSale, onVoid }: ReceiptProps) {
   const receiptRef = useRef<HTMLDivElement>(null);
+  const taxSummary = TaxService.summarize(sale.items);
+
+  const getReasonLabel = (reason: string) =>
+    DISCOUNT_REASONS.find((r) => r.id === reason)?.label || reason;
 
   const formatDate = (timestamp: string) => {
     const date = new Date(timestamp);
@@ -34,6 +40,14 @@ export function Receipt({ sale, onClose, onNewSale }: ReceiptProps) {
         return <CreditCard className="h-4 w-4" />;
       case 'mobile_money':
         return <Smartphone className="h-4 w-4" />;
+      case 'loyalty_points':
+        return <Award className="h-4 w-4" />;
+      case 'gift_card':
+        return <Ticket className="h-4 w-4" />;
+      case 'store_credit':
+        return <Wallet className="h-4 w-4" />;
+      case 'on_account':
+        return <BookUser className="h-4 w-4" />;
     }
   };
 
@@ -45,6 +59,14 @@ export function Receipt({ sale, onClose, onNewSale }: ReceiptProps) {
         return 'Card';
       case 'mobile_money':
         return 'Mobile Money';
+      case 'loyalty_points':
+        return 'Loyalty Points';
+      case 'gift_card':
+        return 'Gift Card';
+      case 'store_credit':
+        return 'Store Credit';
+      case 'on_account':
+        return 'On Account';
     }
   };
 
@@ -82,6 +104,8 @@ export function Receipt({ sale, onClose, onNewSale }: ReceiptProps) {
             .grand-total { font-size: 14px; font-weight: bold; margin-top: 5px; }
             .footer { text-align: center; margin-top: 20px; font-size: 10px; }
             .thank-you { font-size: 12px; font-weight: bold; margin-bottom: 5px; }
+            .tax-summary { width: 100%; font-size: 11px; border-collapse: collapse; }
+            .tax-summary th, .tax-summary td { padding: 1px 0; }
           </style>
         </head>
         <body>
@@ -155,6 +179,15 @@ export function Receipt({ sale, onClose, onNewSale }: ReceiptProps) {
                   </span>
                   <span>{sale.cashierName}</span>
                 </div>
+                {sale.customerName && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600 flex items-center">
+                      <Award className="h-3 w-3 mr-1" />
+                      Customer:
+                    </span>
+                    <span>{sale.customerName}</span>
+                  </div>
+                )}
               </div>
 
               {/* Divider */}
@@ -166,11 +199,27 @@ export function Receipt({ sale, onClose, onNewSale }: ReceiptProps) {
                   <div key={index} className="flex justify-between text-xs">
                     <div className="flex-1">
                       <span className="font-medium">{item.name}</span>
-                      <span className="text-gray-500 ml-2">x{item.quantity}</span>
+                      <span className="text-gray-500 ml-2">x{ProductService.formatQuantity(item.quantity, item.measureUnit)}</span>
                     </div>
                     <div className="text-right">
                       <div>${item.total.toFixed(2)}</div>
-                      <div className="text-gray-400">@${item.price.toFixed(2)}</div>
+                      <div className="text-gray-400">
+                        @${item.price.toFixed(2)}
+                        {item.measureUnit && `/${item.measureUnit}`}
+                      </div>
+                      {item.promotion && (
+                        <div className="text-gray-500">
+                          {item.promotion.name} -${item.promotion.savings.toFixed(2)}
+                        </div>
+                      )}
+                      {item.discount && (
+                        <div className="text-gray-500">
+                          {getReasonLabel(item.discount.reason)}{' '}
+                          {item.discount.type === 'percentage'
+                            ? `-${item.discount.value}%`
+                            : `-$${item.discount.value.toFixed(2)}`}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -181,6 +230,33 @@ export function Receipt({ sale, onClose, onNewSale }: ReceiptProps) {
 
               {/* Totals */}
               <div className="space-y-1 text-xs">
+                {sale.promotionTotal ? (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Promotion Savings:</span>
+                    <span>-${sale.promotionTotal.toFixed(2)}</span>
+                  </div>
+                ) : null}
+                {sale.cartDiscount && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">
+                      Cart discount ({getReasonLabel(sale.cartDiscount.reason)}
+                      {sale.cartDiscount.type === 'percentage' ? ` ${sale.cartDiscount.value}%` : ''}):
+                    </span>
+                    <span>
+                      -$
+                      {DiscountService.calculateAmount(
+                        sale.cartDiscount,
+                        DiscountService.getCartAmount(sale.items)
+                      ).toFixed(2)}
+                    </span>
+                  </div>
+                )}
+                {sale.discountTotal ? (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Total Discounts:</span>
+                    <span>-${sale.discountTotal.toFixed(2)}</span>
+                  </div>
+                ) : null}
                 <div className="flex justify-between">
                   <span className="text-gray-600">Subtotal:</span>
                   <span>${sale.subtotal.toFixed(2)}</span>
@@ -197,15 +273,53 @@ export function Receipt({ sale, onClose, onNewSale }: ReceiptProps) {
                 </div>
               </div>
 
+              {/* Tax Summary */}
+              {taxSummary.length > 0 && (
+                <div className="mt-4 pt-3 border-t border-dashed border-gray-300">
+                  <p className="text-xs font-medium mb-1">Tax Summary</p>
+                  <table className="tax-summary w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-600">
+                        <th className="text-left font-normal">Tax</th>
+                        <th className="text-right font-normal">Taxable</th>
+                        <th className="text-right font-normal">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {taxSummary.map((line) => (
+                        <tr key={`${line.name}@${line.rate}`}>
+                          <td>
+                            {line.name} {line.rate}%
+                          </td>
+                          <td className="text-right">${line.taxableAmount.toFixed(2)}</td>
+                          <td className="text-right">${line.amount.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               {/* Payment Info */}
               <div className="mt-4 pt-3 border-t border-dashed border-gray-300">
-                <div className="flex items-center justify-between text-xs">
-                  <span className="text-gray-600 flex items-center">
-                    {getPaymentIcon(sale.paymentMethod)}
-                    <span className="ml-1">{getPaymentLabel(sale.paymentMethod)}:</span>
-                  </span>
-                  <span>${sale.amountPaid.toFixed(2)}</span>
-                </div>
+                {SaleService.getTenders(sale).map((tender, index) => (
+                  <div key={index} className="flex items-center justify-between text-xs">
+                    <span className="text-gray-600 flex items-center">
+                      {getPaymentIcon(tender.method)}
+                      <span className="ml-1">
+                        {getPaymentLabel(tender.method)}
+                        {tender.reference && ` …${tender.reference.slice(-4)}`}:
+                      </span>
+                    </span>
+                    <span>${tender.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+                {sale.tenders && sale.tenders.length > 1 && (
+                  <div className="flex justify-between text-xs mt-1">
+                    <span className="text-gray-600">Total Tendered:</span>
+                    <span>${sale.amountPaid.toFixed(2)}</span>
+                  </div>
+                )}
                 {sale.change > 0 && (
                   <div className="flex justify-between text-xs mt-1">
                     <span className="text-gray-600">Change:</span>
@@ -214,6 +328,22 @@ export function Receipt({ sale, onClose, onNewSale }: ReceiptProps) {
                 )}
               </div>
 
+              {/* Loyalty */}
+              {sale.customerId && (
+                <div className="mt-3 pt-3 border-t border-dashed border-gray-300 text-xs">
+                  {sale.pointsRedeemed ? (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Points Redeemed:</span>
+                      <span>{sale.pointsRedeemed}</span>
+                    </div>
+                  ) : null}
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Points Earned:</span>
+                    <span className="text-green-600 font-medium">{sale.pointsEarned || 0}</span>
+                  </div>
+                </div>
+              )}
+
               {/* Footer */}
               <div className="text-center mt-6 pt-4 border-t-2 border-dashed border-gray-300">
                 <p className="font-bold text-sm mb-1">Thank You!</p>
@@ -238,6 +368,16 @@ export function Receipt({ sale, onClose, onNewSale }: ReceiptProps) {
               >
                 Start New Sale
               </button>
+
+              {onVoid && (
+                <button
+                  onClick={onVoid}
+                  className="w-full flex items-center justify-center space-x-2 py-2 px-4 text-red-600 hover:bg-red-50 rounded-lg transition-colors text-sm font-medium"
+                >
+                  <Ban className="h-4 w-4" />
+                  <span>Void Sale</span>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { X, Ban, ShieldCheck } from 'lucide-react';
+import { AdminUser, SaleRecord } from '../types/product';
+import { SaleService, ManagerService } from '../services/localStorageService';
+
+interface VoidSaleModalProps {
+  sale: SaleRecord;
+  // Signed-in admin doing the void; without one a manager has to authorize it
+  admin?: AdminUser;
+  onVoided: (sale: SaleRecord) => void;
+  onClose: () => void;
+}
+
+/**
+ * Void Sale Modal Component
+ * Collects the void reason and, at the till, the authorizing manager's credentials
+ */
+export function VoidSaleModal({ sale, admin, onVoided, onClose }: VoidSaleModalProps) {
+  const [reason, setReason] = useState('');
+  const [managerId, setManagerId] = useState('');
+  const [managerPassword, setManagerPassword] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const voidedBy = admin || ManagerService.validateLogin(managerId.trim(), managerPassword);
+    if (!voidedBy) {
+      setError('Invalid manager ID, password, or account is inactive');
+      return;
+    }
+
+    const result = SaleService.voidSale(sale.receiptNumber, reason, voidedBy);
+    if (!result.success || !result.sale) {
+      setError(result.error || 'Failed to void sale');
+      return;
+    }
+    onVoided(result.sale);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-2 sm:p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full mx-2 sm:mx-0">
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-200">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900">Void Sale</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1">
+              <X className="h-5 w-5 sm:h-6 sm:w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+            )}
+
+            <p className="text-sm text-gray-600">
+              Receipt <span className="font-mono font-medium">{sale.receiptNumber}</span> for $
+              {sale.total.toFixed(2)} will be voided. The items go back into stock and the customer gets their money
+              back.
+            </p>
+
+            <div>
+              <label htmlFor="voidReason" className="block text-sm font-medium text-gray-700 mb-1">
+                Reason
+              </label>
+              <input
+                id="voidReason"
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                placeholder="e.g. Rung up on the wrong customer"
+                autoFocus
+              />
+            </div>
+
+            {/* Manager Approval */}
+            {!admin && (
+              <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4 space-y-3">
+                <p className="flex items-center text-sm font-medium text-yellow-800">
+                  <ShieldCheck className="h-4 w-4 mr-1" />
+                  Manager approval required
+                </p>
+                <input
+                  type="text"
+                  value={managerId}
+                  onChange={(e) => setManagerId(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Manager ID"
+                />
+                <input
+                  type="password"
+                  value={managerPassword}
+                  onChange={(e) => setManagerPassword(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Password"
+                />
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={!reason.trim()}
+              className="w-full flex items-center justify-center space-x-2 py-2 px-4 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              <Ban className="h-5 w-5" />
+              <span>Void Sale</span>
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useRef, useState } from 'react';
+import { X, Printer } from 'lucide-react';
+import { Customer } from '../../types/product';
+import { SaleService, StoreService } from '../../services/localStorageService';
+
+interface AccountStatementModalProps {
+  customer: Customer;
+  onClose: () => void;
+}
+
+// yyyy-mm-dd in local time, for date inputs
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Account Statement Modal Component
+ * Displays and prints a customer's account activity for a period, with the balance aged
+ */
+export function AccountStatementModal({ customer, onClose }: AccountStatementModalProps) {
+  const statementRef = useRef<HTMLDivElement>(null);
+  const [startDate, setStartDate] = useState(() => {
+    const start = new Date();
+    start.setDate(start.getDate() - 90);
+    return toDateInput(start);
+  });
+  const [endDate, setEndDate] = useState(() => toDateInput(new Date()));
+
+  const periodStart = new Date(`${startDate}T00:00:00`);
+  const periodEnd = new Date(`${endDate}T23:59:59.999`);
+  const statement = SaleService.getAccountStatement(customer.id, periodStart, periodEnd);
+  const aged = SaleService.getAgedReceivable(customer.id, periodEnd);
+  const storeName = StoreService.getCurrentStore()?.name;
+
+  const formatDate = (timestamp: string | Date) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const handlePrint = () => {
+    const printContent = statementRef.current;
+    if (!printContent) return;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Statement - ${customer.name}</title>
+          <style>
+            body { font-family: Arial, sans-serif; background: white; }
+            .statement { max-width: 700px; margin: 0 auto; padding: 20px; font-size: 12px; }
+            .header { display: flex; justify-content: space-between; border-bottom: 2px solid #000; padding-bottom: 10px; margin-bottom: 10px; }
+            .title { font-size: 18px; font-weight: bold; }
+            table { width: 100%; border-collapse: collapse; margin-top: 10px; }
+            th, td { padding: 4px; border-bottom: 1px solid #ddd; text-align: left; }
+            .amount { text-align: right; }
+            .total { font-size: 14px; font-weight: bold; }
+            .aging { display: flex; justify-content: space-between; border-top: 2px solid #000; margin-top: 15px; padding-top: 10px; }
+          </style>
+        </head>
+        <body>
+          ${printContent.innerHTML}
+        </body>
+      </html>
+    `);
+
+    printWindow.document.close();
+    printWindow.focus();
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 250);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 sticky top-0 bg-white">
+            <h3 className="text-lg font-semibold text-gray-900">Account Statement</h3>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handlePrint}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+              >
+                <Printer className="h-4 w-4" />
+                <span>Print</span>
+              </button>
+              <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+          </div>
+
+          {/* Period */}
+          <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-gray-200 bg-gray-50 text-sm">
+            <label htmlFor="statementFrom" className="text-gray-600">
+              From
+            </label>
+            <input
+              id="statementFrom"
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => e.target.value && setStartDate(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <label htmlFor="statementTo" className="text-gray-600">
+              To
+            </label>
+            <input
+              id="statementTo"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => e.target.value && setEndDate(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          {/* Statement */}
+          <div ref={statementRef} className="statement p-6 text-sm">
+            <div className="header flex justify-between border-b-2 border-gray-900 pb-3 mb-3">
+              <div>
+                <p className="title text-lg font-bold">Statement of Account</p>
+                {storeName && <p>{storeName}</p>}
+                <p className="text-gray-600">
+                  {formatDate(periodStart)} – {formatDate(periodEnd)}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="font-semibold">{customer.name}</p>
+                <p>{customer.phone}</p>
+                {customer.email && <p>{customer.email}</p>}
+                <p className="text-gray-600">Credit limit: ${(customer.creditLimit || 0).toFixed(2)}</p>
+              </div>
+            </div>
+
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-300 text-left text-xs uppercase text-gray-500">
+                  <th className="py-2">Date</th>
+                  <th className="py-2">Description</th>
+                  <th className="py-2">Reference</th>
+                  <th className="amount py-2 text-right">Charges</th>
+                  <th className="amount py-2 text-right">Credits</th>
+                  <th className="amount py-2 text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-gray-100">
+                  <td className="py-1.5">{formatDate(periodStart)}</td>
+                  <td className="py-1.5" colSpan={4}>
+                    Balance brought forward
+                  </td>
+                  <td className="amount py-1.5 text-right">${statement.openingBalance.toFixed(2)}</td>
+                </tr>
+                {statement.lines.map((line, index) => (
+                  <tr key={`${line.reference}-${index}`} className="border-b border-gray-100">
+                    <td className="py-1.5">{formatDate(line.date)}</td>
+                    <td className="py-1.5">{line.description}</td>
+                    <td className="py-1.5 font-mono text-xs">{line.reference}</td>
+                    <td className="amount py-1.5 text-right">{line.charge > 0 ? `$${line.charge.toFixed(2)}` : ''}</td>
+                    <td className="amount py-1.5 text-right">{line.credit > 0 ? `$${line.credit.toFixed(2)}` : ''}</td>
+                    <td className="amount py-1.5 text-right">${line.balance.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="total flex justify-end mt-3 text-base font-bold">
+              Balance due: ${statement.closingBalance.toFixed(2)}
+            </div>
+
+            <div className="aging flex justify-between border-t-2 border-gray-900 mt-4 pt-3 text-center">
+              <div>
+                <p className="text-xs text-gray-500">Current</p>
+                <p>${aged.current.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">31-60 days</p>
+                <p>${aged.days31to60.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">61-90 days</p>
+                <p>${aged.days61to90.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Over 90 days</p>
+                <p>${aged.over90.toFixed(2)}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
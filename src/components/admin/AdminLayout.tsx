@@ -13,6 +13,16 @@ import {
   Building2,
   BarChart3,
   Store as StoreIcon,
+  Clock,
+  FileText,
+  Percent,
+  Gift,
+  Contact,
+  Ticket,
+  CalendarClock,
+  Truck,
+  ClipboardList,
+  ClipboardCheck,
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useStore } from '../../contexts/StoreContext';
@@ -20,7 +30,7 @@ import { useStore } from '../../contexts/StoreContext';
 /**
  * Admin page type
  */
-type AdminPage = 'dashboard' | 'products' | 'cashiers' | 'sales' | 'stores' | 'analytics' | 'managers';
+type AdminPage = 'dashboard' | 'products' | 'cashiers' | 'sales' | 'stores' | 'analytics' | 'managers' | 'shifts' | 'reports' | 'taxes' | 'promotions' | 'customers' | 'giftcards' | 'layaways' | 'suppliers' | 'purchaseorders' | 'stocktakes';
 
 /**
  * Props for AdminLayout component
@@ -48,9 +58,19 @@ export function AdminLayout({ children, currentPage, onPageChange }: AdminLayout
   const navItems = [
     { id: 'dashboard' as AdminPage, label: 'Dashboard', icon: LayoutDashboard },
     { id: 'products' as AdminPage, label: 'Products', icon: Package },
+    { id: 'suppliers' as AdminPage, label: 'Suppliers', icon: Truck },
+    { id: 'purchaseorders' as AdminPage, label: 'Purchase Orders', icon: ClipboardList },
+    { id: 'stocktakes' as AdminPage, label: 'Stocktakes', icon: ClipboardCheck },
     { id: 'cashiers' as AdminPage, label: 'Cashiers', icon: Users },
     { id: 'managers' as AdminPage, label: 'Managers', icon: User },
+    { id: 'customers' as AdminPage, label: 'Customers', icon: Contact },
+    { id: 'giftcards' as AdminPage, label: 'Gift Cards', icon: Ticket },
+    { id: 'layaways' as AdminPage, label: 'Layaways', icon: CalendarClock },
     { id: 'sales' as AdminPage, label: 'Sales History', icon: Receipt },
+    { id: 'shifts' as AdminPage, label: 'Shifts', icon: Clock },
+    { id: 'reports' as AdminPage, label: 'Reports', icon: FileText },
+    { id: 'promotions' as AdminPage, label: 'Promotions', icon: Gift },
+    { id: 'taxes' as AdminPage, label: 'Tax Settings', icon: Percent },
     { id: 'stores' as AdminPage, label: 'Stores', icon: Building2 },
     { id: 'analytics' as AdminPage, label: 'Analytics', icon: BarChart3 },
   ];
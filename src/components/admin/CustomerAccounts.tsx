@@ -0,0 +1,316 @@
+import { useState, useEffect } from 'react';
+import { X, BookUser, HandCoins, FileText } from 'lucide-react';
+import { Customer, AgedReceivable, AccountPayment, PaymentMethod } from '../../types/product';
+import { SaleService, CustomerService } from '../../services/localStorageService';
+import { AccountStatementModal } from './AccountStatementModal';
+
+interface CustomerAccountsProps {
+  receivedBy: string;
+  onNotify: (message: string, type: 'success' | 'error') => void;
+}
+
+const PAYMENT_OPTIONS: { id: PaymentMethod; label: string }[] = [
+  { id: 'cash', label: 'Cash' },
+  { id: 'card', label: 'Card' },
+  { id: 'mobile_money', label: 'Mobile Money' },
+];
+
+/**
+ * Customer Accounts Component
+ * Aged receivables for customers who buy on account, with payments and statements
+ */
+export function CustomerAccounts({ receivedBy, onNotify }: CustomerAccountsProps) {
+  const [accounts, setAccounts] = useState<{ customer: Customer; aged: AgedReceivable }[]>([]);
+  const [payments, setPayments] = useState<AccountPayment[]>([]);
+  const [payingCustomer, setPayingCustomer] = useState<Customer | null>(null);
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
+  const [paymentForm, setPaymentForm] = useState({ amount: '', method: 'cash' as PaymentMethod, reference: '' });
+
+  const loadAccounts = () => {
+    setAccounts(
+      CustomerService.getAll()
+        .filter((customer) => customer.creditLimit || SaleService.getAccountBalance(customer.id) > 0)
+        .map((customer) => ({ customer, aged: SaleService.getAgedReceivable(customer.id) }))
+        .sort((a, b) => b.aged.total - a.aged.total)
+    );
+    setPayments(SaleService.getAccountPayments().slice(0, 10));
+  };
+
+  useEffect(() => {
+    loadAccounts();
+
+    const handleFocus = () => loadAccounts();
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, []);
+
+  const totals = accounts.reduce(
+    (sum, { aged }) => ({
+      current: sum.current + aged.current,
+      days31to60: sum.days31to60 + aged.days31to60,
+      days61to90: sum.days61to90 + aged.days61to90,
+      over90: sum.over90 + aged.over90,
+      total: sum.total + aged.total,
+    }),
+    { current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 }
+  );
+
+  const openPayment = (customer: Customer, balance: number) => {
+    setPayingCustomer(customer);
+    setPaymentForm({ amount: balance.toFixed(2), method: 'cash', reference: '' });
+  };
+
+  const handleRecordPayment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingCustomer) return;
+
+    const result = SaleService.recordAccountPayment(
+      payingCustomer.id,
+      parseFloat(paymentForm.amount),
+      paymentForm.method,
+      receivedBy,
+      paymentForm.reference
+    );
+    if (result.success && result.payment) {
+      onNotify(`Payment of $${result.payment.amount.toFixed(2)} recorded for ${payingCustomer.name}`, 'success');
+      setPayingCustomer(null);
+      loadAccounts();
+    } else {
+      onNotify(result.error || 'Failed to record payment', 'error');
+    }
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderAmount = (amount: number, className = 'text-gray-900') => (
+    <span className={amount > 0 ? className : 'text-gray-400'}>${amount.toFixed(2)}</span>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Aging Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: 'Current', amount: totals.current, color: 'text-green-600' },
+          { label: '31-60 Days', amount: totals.days31to60, color: 'text-yellow-600' },
+          { label: '61-90 Days', amount: totals.days61to90, color: 'text-orange-600' },
+          { label: 'Over 90 Days', amount: totals.over90, color: 'text-red-600' },
+          { label: 'Total Owed', amount: totals.total, color: 'text-gray-900' },
+        ].map((bucket) => (
+          <div key={bucket.label} className="bg-white rounded-lg shadow-md p-4">
+            <p className="text-xs font-medium text-gray-600">{bucket.label}</p>
+            <p className={`text-2xl font-bold ${bucket.color}`}>${bucket.amount.toFixed(2)}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Accounts Table */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Customer
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Limit
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Current
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  31-60
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  61-90
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  90+
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Balance
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {accounts.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-12 text-center">
+                    <BookUser className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">No customer accounts</p>
+                    <p className="text-sm text-gray-400 mt-1">Set a credit limit on a customer to let them buy on account</p>
+                  </td>
+                </tr>
+              ) : (
+                accounts.map(({ customer, aged }) => (
+                  <tr key={customer.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <p className="text-sm font-medium text-gray-900">{customer.name}</p>
+                      <p className="text-xs text-gray-500">{customer.phone}</p>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-600">
+                      ${(customer.creditLimit || 0).toFixed(2)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm">{renderAmount(aged.current)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                      {renderAmount(aged.days31to60, 'text-yellow-600')}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                      {renderAmount(aged.days61to90, 'text-orange-600')}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                      {renderAmount(aged.over90, 'text-red-600 font-medium')}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-bold">
+                      {renderAmount(aged.total)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-center">
+                      <div className="flex items-center justify-center space-x-2">
+                        <button
+                          onClick={() => openPayment(customer, aged.total)}
+                          disabled={aged.total <= 0}
+                          className="p-1.5 text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                          title="Record payment"
+                        >
+                          <HandCoins className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => setStatementCustomer(customer)}
+                          className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Statement"
+                        >
+                          <FileText className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Recent Payments */}
+      {payments.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Recent Payments on Account</h3>
+          <div className="divide-y divide-gray-100">
+            {payments.map((payment) => (
+              <div key={payment.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{payment.customerName}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(payment.timestamp)} · {PAYMENT_OPTIONS.find((o) => o.id === payment.method)?.label}
+                    {payment.reference && ` · ${payment.reference}`} · {payment.receivedBy}
+                  </p>
+                </div>
+                <span className="font-medium text-green-600">${payment.amount.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Record Payment Modal */}
+      {payingCustomer && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setPayingCustomer(null)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">Record Payment</h3>
+                <button onClick={() => setPayingCustomer(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handleRecordPayment} className="p-6 space-y-4">
+                <p className="text-sm text-gray-600">
+                  {payingCustomer.name} owes ${SaleService.getAccountBalance(payingCustomer.id).toFixed(2)}
+                </p>
+                <div>
+                  <label htmlFor="paymentAmount" className="block text-sm font-medium text-gray-700 mb-1">
+                    Amount ($)
+                  </label>
+                  <input
+                    id="paymentAmount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={paymentForm.amount}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="paymentMethod" className="block text-sm font-medium text-gray-700 mb-1">
+                    Paid By
+                  </label>
+                  <select
+                    id="paymentMethod"
+                    value={paymentForm.method}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, method: e.target.value as PaymentMethod })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {PAYMENT_OPTIONS.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="paymentReference" className="block text-sm font-medium text-gray-700 mb-1">
+                    Reference
+                  </label>
+                  <input
+                    id="paymentReference"
+                    type="text"
+                    value={paymentForm.reference}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="e.g. cheque or transfer number"
+                  />
+                </div>
+
+                <div className="flex space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setPayingCustomer(null)}
+                    className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 py-2 px-4 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                  >
+                    Record Payment
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Statement Modal */}
+      {statementCustomer && (
+        <AccountStatementModal customer={statementCustomer} onClose={() => setStatementCustomer(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { X, PackagePlus, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { Product } from '../../types/product';
+import { ProductService } from '../../services/localStorageService';
+import { useStore } from '../../contexts/StoreContext';
+
+/**
+ * Props for KitModal component
+ */
+interface KitModalProps {
+  product: Product;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Editable component row; quantity is kept as typed until saved
+interface ComponentRow {
+  key: number;
+  barcode: string;
+  quantity: string;
+}
+
+/**
+ * Kit Modal Component
+ * Edits the products a kit is made of; selling the kit takes stock from each of them
+ */
+export function KitModal({ product, onClose, onSuccess }: KitModalProps) {
+  const { currentStore } = useStore();
+  const [candidates] = useState(() =>
+    ProductService.getAll().filter(
+      (p) => p.barcode !== product.barcode && !ProductService.hasVariants(p) && !ProductService.isKit(p)
+    )
+  );
+  const [rows, setRows] = useState<ComponentRow[]>(() =>
+    (product.kitComponents || []).map((component, index) => ({
+      key: index,
+      barcode: component.barcode,
+      quantity: component.quantity.toString(),
+    }))
+  );
+  const [error, setError] = useState('');
+
+  // Kits the current rows allow at this store
+  const filledRows = rows.filter((row) => row.barcode && Number(row.quantity) > 0);
+  const buildable =
+    filledRows.length > 0
+      ? Math.min(
+          ...filledRows.map((row) => {
+            const stock = candidates.find((p) => p.barcode === row.barcode)?.stock ?? 0;
+            return Math.floor(stock / Number(row.quantity) + 1e-9);
+          })
+        )
+      : 0;
+
+  /**
+   * Add an empty component row
+   */
+  const handleAddRow = () => {
+    setRows((prev) => [...prev, { key: Math.max(-1, ...prev.map((row) => row.key)) + 1, barcode: '', quantity: '1' }]);
+  };
+
+  /**
+   * Update one field of a component row
+   */
+  const updateRow = (key: number, changes: Partial<ComponentRow>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+    setError('');
+  };
+
+  /**
+   * Save the kit components
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (rows.some((row) => !row.barcode)) {
+      setError('Choose a product for every component');
+      return;
+    }
+
+    const result = ProductService.saveKit(
+      product.barcode,
+      rows.map((row) => ({ barcode: row.barcode, quantity: Number(row.quantity) }))
+    );
+
+    if (result.success) {
+      onSuccess();
+    } else {
+      setError(result.error || 'Failed to save kit');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <PackagePlus className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Kit Components</h3>
+                <p className="text-sm text-gray-500">
+                  {product.name} · ${product.price.toFixed(2)}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+
+            {/* Components */}
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Per Kit</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">In Stock</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-6 text-center text-gray-500">
+                        No components. {product.name} is stocked on its own.
+                      </td>
+                    </tr>
+                  ) : (
+                    rows.map((row) => {
+                      const component = candidates.find((p) => p.barcode === row.barcode);
+                      return (
+                        <tr key={row.key}>
+                          <td className="px-3 py-2">
+                            <select
+                              value={row.barcode}
+                              onChange={(e) => updateRow(row.key, { barcode: e.target.value })}
+                              className="w-64 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="">Choose a product…</option>
+                              {candidates.map((p) => (
+                                <option key={p.barcode} value={p.barcode}>
+                                  {p.name} ({p.barcode})
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-3 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step={component?.measureUnit ? '0.001' : '1'}
+                              value={row.quantity}
+                              onChange={(e) => updateRow(row.key, { quantity: e.target.value })}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">
+                            {component ? ProductService.formatQuantity(component.stock, component.measureUnit) : '—'}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            <button
+                              type="button"
+                              onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+                              className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50 transition-colors"
+                              title="Remove component"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={handleAddRow}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Component
+              </button>
+              {filledRows.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  {buildable} kit{buildable === 1 ? '' : 's'} can be made
+                  {currentStore ? ` at ${currentStore.name}` : ''}
+                </p>
+              )}
+            </div>
+
+            {/* Footer Actions */}
+            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+              >
+                Save Kit
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { X, Boxes, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { Product } from '../../types/product';
+import { ProductService } from '../../services/localStorageService';
+
+/**
+ * Props for PackUnitsModal component
+ */
+interface PackUnitsModalProps {
+  product: Product;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Editable pack row; numbers are kept as typed until saved
+interface PackRow {
+  key: number;
+  name: string;
+  barcode: string;
+  quantity: string;
+  price: string;
+}
+
+/**
+ * Pack Units Modal Component
+ * Edits the base unit of a product and the packs (case, carton) it is bought or sold in
+ */
+export function PackUnitsModal({ product, onClose, onSuccess }: PackUnitsModalProps) {
+  const [baseUnit, setBaseUnit] = useState(product.baseUnit || '');
+  const [rows, setRows] = useState<PackRow[]>(() =>
+    (product.packUnits || []).map((pack, index) => ({
+      key: index,
+      name: pack.name,
+      barcode: pack.barcode,
+      quantity: pack.quantity.toString(),
+      price: pack.price.toString(),
+    }))
+  );
+  const [error, setError] = useState('');
+
+  const unitLabel = baseUnit.trim() || 'unit';
+
+  /**
+   * Add an empty pack row
+   */
+  const handleAddRow = () => {
+    setRows((prev) => [
+      ...prev,
+      { key: Math.max(-1, ...prev.map((row) => row.key)) + 1, name: '', barcode: '', quantity: '', price: '' },
+    ]);
+  };
+
+  /**
+   * Update one field of a pack row
+   */
+  const updateRow = (key: number, changes: Partial<PackRow>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+    setError('');
+  };
+
+  /**
+   * Save the base unit and packs
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = ProductService.saveUnits(
+      product.barcode,
+      baseUnit,
+      rows.map((row) => ({
+        name: row.name,
+        barcode: row.barcode,
+        quantity: Number(row.quantity),
+        price: parseFloat(row.price),
+      }))
+    );
+
+    if (result.success) {
+      onSuccess();
+    } else {
+      setError(result.error || 'Failed to save pack sizes');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <Boxes className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Units &amp; Pack Sizes</h3>
+                <p className="text-sm text-gray-500">
+                  {product.name} · ${product.price.toFixed(2)} per {unitLabel.toLowerCase()}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+
+            {/* Base Unit */}
+            <div>
+              <label htmlFor="baseUnit" className="block text-sm font-medium text-gray-700 mb-1">
+                Base Unit
+              </label>
+              <input
+                id="baseUnit"
+                type="text"
+                value={baseUnit}
+                onChange={(e) => setBaseUnit(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g. Bottle"
+              />
+              <p className="mt-1 text-xs text-gray-500">Stock is counted in this unit. Packs convert to it.</p>
+            </div>
+
+            {/* Packs */}
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pack</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Barcode</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      {unitLabel}s per pack
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Price ($)</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                        No pack sizes. {product.name} is only sold by the {unitLabel.toLowerCase()}.
+                      </td>
+                    </tr>
+                  ) : (
+                    rows.map((row) => (
+                      <tr key={row.key}>
+                        <td className="px-3 py-2">
+                          <input
+                            type="text"
+                            value={row.name}
+                            onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            placeholder="e.g. Case"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="text"
+                            value={row.barcode}
+                            onChange={(e) => updateRow(row.key, { barcode: e.target.value })}
+                            className="w-36 px-2 py-1 border border-gray-300 rounded font-mono focus:ring-2 focus:ring-blue-500"
+                            placeholder="Barcode"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="2"
+                            step="1"
+                            value={row.quantity}
+                            onChange={(e) => updateRow(row.key, { quantity: e.target.value })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            placeholder="12"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="0.01"
+                            step="0.01"
+                            value={row.price}
+                            onChange={(e) => updateRow(row.key, { price: e.target.value })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            placeholder={
+                              Number(row.quantity) > 0 ? (product.price * Number(row.quantity)).toFixed(2) : '0.00'
+                            }
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+                            className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50 transition-colors"
+                            title="Remove pack"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <button
+              type="button"
+              onClick={handleAddRow}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Pack Size
+            </button>
+
+            {/* Footer Actions */}
+            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+              >
+                Save Pack Sizes
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, Package, AlertCircle } from 'lucide-react';
-import { Product, Category } from '../../types/product';
-import { ProductService, CATEGORIES } from '../../services/localStorageService';
+import { Product, Category, MeasureUnit } from '../../types/product';
+import { ProductService, TaxService, CATEGORIES, MEASURE_UNITS } from '../../services/localStorageService';
+import { useStore } from '../../contexts/StoreContext';
+import { useAuth } from '../../contexts/AuthContext';
 
 /**
  * Props for ProductModal component
@@ -19,6 +21,15 @@ interface ProductModalProps {
  * Includes validation for all fields
  */
 export function ProductModal({ mode, product, onClose, onSuccess }: ProductModalProps) {
+  const { currentStore } = useStore();
+  const { user } = useAuth();
+  // Stock of a product with variants is edited on the variants, and of a kit on its components
+  const hasVariants = mode === 'edit' && !!product && ProductService.hasVariants(product);
+  const isKit = mode === 'edit' && !!product && ProductService.isKit(product);
+  const stockLocked = hasVariants || isKit;
+  // Once a product exists its stock only changes through restocks and adjustments, which are logged
+  const stockReadOnly = mode === 'edit';
+
   // Form state
   const [formData, setFormData] = useState({
     name: '',
@@ -26,6 +37,10 @@ export function ProductModal({ mode, product, onClose, onSuccess }: ProductModal
     category: 'Electronics' as Category,
     price: '',
     stock: '',
+    cost: '',
+    bin: '',
+    taxProfileId: '',
+    measureUnit: '' as MeasureUnit | '',
   });
 
   // Error state
@@ -45,6 +60,10 @@ export function ProductModal({ mode, product, onClose, onSuccess }: ProductModal
         category: product.category,
         price: product.price.toString(),
         stock: product.stock.toString(),
+        cost: product.cost !== undefined ? product.cost.toString() : '',
+        bin: product.bin || '',
+        taxProfileId: TaxService.getSettings().productProfiles[product.barcode] || '',
+        measureUnit: product.measureUnit || '',
       });
       // Focus name input when editing
       setTimeout(() => nameInputRef.current?.focus(), 100);
@@ -82,12 +101,17 @@ export function ProductModal({ mode, product, onClose, onSuccess }: ProductModal
       newErrors.price = 'Price must be a positive number';
     }
 
-    // Validate stock
-    const stock = parseInt(formData.stock, 10);
-    if (isNaN(stock) || stock < 0) {
+    // Validate stock; loose goods can be stocked in fractions
+    const stock = formData.measureUnit ? parseFloat(formData.stock) : parseInt(formData.stock, 10);
+    if (!stockReadOnly && (isNaN(stock) || stock < 0)) {
       newErrors.stock = 'Stock cannot be negative';
     }
 
+    // Validate cost price; it is optional
+    if (formData.cost.trim() && !(parseFloat(formData.cost) >= 0)) {
+      newErrors.cost = 'Cost price cannot be negative';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -109,18 +133,25 @@ export function ProductModal({ mode, product, onClose, onSuccess }: ProductModal
       barcode: formData.barcode.trim(),
       category: formData.category,
       price: parseFloat(formData.price),
-      stock: parseInt(formData.stock, 10),
+      stock: formData.measureUnit
+        ? ProductService.roundQuantity(parseFloat(formData.stock))
+        : parseInt(formData.stock, 10),
+      measureUnit: formData.measureUnit || undefined,
+      cost: formData.cost.trim() && !isKit ? parseFloat(formData.cost) : undefined,
+      bin: formData.bin.trim() && !isKit ? formData.bin.trim() : undefined,
     };
 
     let result;
     if (mode === 'add') {
-      result = ProductService.add(productData);
+      result = ProductService.add(productData, undefined, user?.username || 'admin');
     } else if (product) {
       result = ProductService.update(product.barcode, {
         name: productData.name,
         category: productData.category,
         price: productData.price,
-        stock: productData.stock,
+        measureUnit: productData.measureUnit,
+        cost: productData.cost,
+        bin: productData.bin,
       });
     } else {
       result = { success: false, error: 'Invalid operation' };
@@ -129,6 +160,7 @@ export function ProductModal({ mode, product, onClose, onSuccess }: ProductModal
     setIsSubmitting(false);
 
     if (result.success) {
+      TaxService.assign('product', productData.barcode, formData.taxProfileId);
       onSuccess();
     } else {
       setErrors({ submit: result.error || 'Operation failed' });
@@ -275,6 +307,61 @@ export function ProductModal({ mode, product, onClose, onSuccess }: ProductModal
               </select>
             </div>
 
+            {/* Sold By Field */}
+            <div>
+              <label
+                htmlFor="measureUnit"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Sold By
+              </label>
+              <select
+                id="measureUnit"
+                name="measureUnit"
+                value={formData.measureUnit}
+                onChange={handleChange}
+                disabled={isSubmitting || stockLocked}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                <option value="">Each (whole units)</option>
+                {MEASURE_UNITS.map((unit) => (
+                  <option key={unit.value} value={unit.value}>
+                    {unit.label}
+                  </option>
+                ))}
+              </select>
+              {formData.measureUnit && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Price is per {formData.measureUnit}. Scale labels use this product's barcode as the item code.
+                </p>
+              )}
+            </div>
+
+            {/* Tax Profile Field */}
+            <div>
+              <label
+                htmlFor="taxProfileId"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Tax Profile
+              </label>
+              <select
+                id="taxProfileId"
+                name="taxProfileId"
+                value={formData.taxProfileId}
+                onChange={handleChange}
+                disabled={isSubmitting}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                <option value="">Use category or store default</option>
+                {TaxService.getProfiles().map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Price and Stock Fields */}
             <div className="grid grid-cols-2 gap-4">
               <div>
@@ -282,7 +369,8 @@ export function ProductModal({ mode, product, onClose, onSuccess }: ProductModal
                   htmlFor="price"
                   className="block text-sm font-medium text-gray-700 mb-1"
                 >
-                  Price ($) <span className="text-red-500">*</span>
+                  {formData.measureUnit ? `Price per ${formData.measureUnit} ($)` : 'Price ($)'}{' '}
+                  <span className="text-red-500">*</span>
                 </label>
                 <input
                   type="number"
@@ -318,9 +406,9 @@ export function ProductModal({ mode, product, onClose, onSuccess }: ProductModal
                   name="stock"
                   value={formData.stock}
                   onChange={handleChange}
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || stockReadOnly}
                   min="0"
-                  step="1"
+                  step={formData.measureUnit ? '0.001' : '1'}
                   className={`block w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors ${
                     errors.stock
                       ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
@@ -331,9 +419,81 @@ export function ProductModal({ mode, product, onClose, onSuccess }: ProductModal
                 {errors.stock && (
                   <p className="mt-1 text-sm text-red-600">{errors.stock}</p>
                 )}
+                {hasVariants ? (
+                  <p className="mt-1 text-xs text-gray-500">Total of the variants; edit stock per variant</p>
+                ) : isKit ? (
+                  <p className="mt-1 text-xs text-gray-500">Kits that can be made from component stock</p>
+                ) : mode === 'edit' ? (
+                  <p className="mt-1 text-xs text-gray-500">Use Restock or Adjust Stock to change it</p>
+                ) : currentStore && !errors.stock && (
+                  <p className="mt-1 text-xs text-gray-500">Stock at {currentStore.name}</p>
+                )}
               </div>
             </div>
 
+            {/* Cost Price Field; a kit costs what its components cost */}
+            {!isKit && (
+              <div>
+                <label
+                  htmlFor="cost"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  {formData.measureUnit ? `Cost per ${formData.measureUnit} ($)` : 'Cost Price ($)'}
+                </label>
+                <input
+                  type="number"
+                  id="cost"
+                  name="cost"
+                  value={formData.cost}
+                  onChange={handleChange}
+                  disabled={isSubmitting}
+                  min="0"
+                  step="0.01"
+                  className={`block w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors ${
+                    errors.cost
+                      ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                      : 'border-gray-300'
+                  }`}
+                  placeholder="0.00"
+                />
+                {errors.cost ? (
+                  <p className="mt-1 text-sm text-red-600">{errors.cost}</p>
+                ) : (
+                  parseFloat(formData.price) > 0 &&
+                  parseFloat(formData.cost) >= 0 && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Margin{' '}
+                      {(
+                        ((parseFloat(formData.price) - parseFloat(formData.cost)) / parseFloat(formData.price)) *
+                        100
+                      ).toFixed(1)}
+                      % before tax. Restocking at a new cost updates it.
+                    </p>
+                  )
+                )}
+              </div>
+            )}
+
+            {/* Bin Location Field; a kit is kept where its components are */}
+            {!isKit && (
+              <div>
+                <label htmlFor="bin" className="block text-sm font-medium text-gray-700 mb-1">
+                  Bin Location
+                </label>
+                <input
+                  type="text"
+                  id="bin"
+                  name="bin"
+                  value={formData.bin}
+                  onChange={handleChange}
+                  disabled={isSubmitting}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="e.g. A3"
+                />
+                <p className="mt-1 text-xs text-gray-500">Stocktakes can be limited to one bin</p>
+              </div>
+            )}
+
             {/* Footer Actions */}
             <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
               <button
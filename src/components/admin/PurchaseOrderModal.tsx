@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { X, ClipboardList, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { PurchaseOrder } from '../../types/product';
+import { ProductService, SupplierService, PurchaseOrderService } from '../../services/localStorageService';
+
+/**
+ * Props for PurchaseOrderModal component
+ */
+interface PurchaseOrderModalProps {
+  order?: PurchaseOrder; // draft being edited; a new order is created without one
+  storeId?: string;
+  createdBy: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Editable order line; numbers are kept as typed until saved
+interface OrderRow {
+  key: number;
+  barcode: string;
+  quantity: string;
+  unitCost: string;
+}
+
+/**
+ * Purchase Order Modal Component
+ * Drafts an order to a supplier: the products (or packs) wanted, how many and at what expected cost
+ */
+export function PurchaseOrderModal({ order, storeId, createdBy, onClose, onSuccess }: PurchaseOrderModalProps) {
+  const [suppliers] = useState(() => SupplierService.getAll());
+  // Products that hold stock, and the packs they are bought in
+  const [options] = useState(() =>
+    ProductService.getAll(order?.storeId || storeId)
+      .filter((p) => !ProductService.hasVariants(p) && !ProductService.isKit(p))
+      .flatMap((p) => [
+        { barcode: p.barcode, label: p.name, cost: p.cost },
+        ...(p.packUnits || []).map((pack) => ({
+          barcode: pack.barcode,
+          label: `${p.name} — ${pack.name} of ${pack.quantity}`,
+          cost: p.cost !== undefined ? p.cost * pack.quantity : undefined,
+        })),
+      ])
+  );
+  const [supplierId, setSupplierId] = useState(order?.supplierId || '');
+  const [notes, setNotes] = useState(order?.notes || '');
+  const [rows, setRows] = useState<OrderRow[]>(() =>
+    (order?.lines || []).map((line, index) => ({
+      key: index,
+      barcode: line.barcode,
+      quantity: line.quantity.toString(),
+      unitCost: line.unitCost.toString(),
+    }))
+  );
+  const [error, setError] = useState('');
+
+  const total = rows.reduce((sum, row) => sum + (Number(row.quantity) || 0) * (parseFloat(row.unitCost) || 0), 0);
+
+  /**
+   * Add an empty order line
+   */
+  const handleAddRow = () => {
+    setRows((prev) => [
+      ...prev,
+      { key: Math.max(-1, ...prev.map((row) => row.key)) + 1, barcode: '', quantity: '1', unitCost: '' },
+    ]);
+  };
+
+  /**
+   * Update one field of an order line
+   */
+  const updateRow = (key: number, changes: Partial<OrderRow>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+    setError('');
+  };
+
+  /**
+   * Choose the product on a line, filling in its last cost
+   */
+  const handleProductChange = (key: number, barcode: string) => {
+    const cost = options.find((option) => option.barcode === barcode)?.cost;
+    updateRow(key, { barcode, unitCost: cost !== undefined ? cost.toFixed(2) : '' });
+  };
+
+  /**
+   * Save the draft
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (rows.some((row) => !row.barcode)) {
+      setError('Choose a product for every line');
+      return;
+    }
+
+    const result = PurchaseOrderService.saveDraft(
+      {
+        id: order?.id,
+        supplierId,
+        storeId,
+        lines: rows.map((row) => ({
+          barcode: row.barcode,
+          quantity: Number(row.quantity),
+          unitCost: row.unitCost.trim() ? parseFloat(row.unitCost) : 0,
+        })),
+        notes,
+      },
+      createdBy
+    );
+
+    if (result.success) {
+      onSuccess();
+    } else {
+      setError(result.error || 'Failed to save purchase order');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <ClipboardList className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {order ? `Edit ${order.poNumber}` : 'New Purchase Order'}
+                </h3>
+                <p className="text-sm text-gray-500">Saved as a draft until it is sent</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+
+            {/* Supplier */}
+            <div>
+              <label htmlFor="poSupplier" className="block text-sm font-medium text-gray-700 mb-1">
+                Supplier <span className="text-red-500">*</span>
+              </label>
+              <select
+                id="poSupplier"
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Choose a supplier…</option>
+                {suppliers.map((supplier) => (
+                  <option key={supplier.id} value={supplier.id}>
+                    {supplier.name} ({supplier.leadTimeDays} day lead time)
+                  </option>
+                ))}
+              </select>
+              {suppliers.length === 0 && (
+                <p className="mt-1 text-xs text-gray-500">Add a supplier on the Suppliers page first</p>
+              )}
+            </div>
+
+            {/* Lines */}
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Unit Cost ($)</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Line Total</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                        Nothing on this order yet
+                      </td>
+                    </tr>
+                  ) : (
+                    rows.map((row) => (
+                      <tr key={row.key}>
+                        <td className="px-3 py-2">
+                          <select
+                            value={row.barcode}
+                            onChange={(e) => handleProductChange(row.key, e.target.value)}
+                            className="w-64 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="">Choose a product…</option>
+                            {options.map((option) => (
+                              <option key={option.barcode} value={option.barcode}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={row.quantity}
+                            onChange={(e) => updateRow(row.key, { quantity: e.target.value })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={row.unitCost}
+                            onChange={(e) => updateRow(row.key, { unitCost: e.target.value })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            placeholder="0.00"
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-900">
+                          ${((Number(row.quantity) || 0) * (parseFloat(row.unitCost) || 0)).toFixed(2)}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+                            className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50 transition-colors"
+                            title="Remove line"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={handleAddRow}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </button>
+              <p className="text-sm text-gray-600">
+                Expected total: <span className="font-bold text-gray-900">${total.toFixed(2)}</span>
+              </p>
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label htmlFor="poNotes" className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <input
+                id="poNotes"
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g. Deliver to the back door"
+              />
+            </div>
+
+            {/* Footer Actions */}
+            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+              >
+                Save Draft
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
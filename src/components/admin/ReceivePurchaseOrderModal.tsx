@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { X, PackageCheck, AlertCircle } from 'lucide-react';
+import { PurchaseOrder } from '../../types/product';
+import { ProductService, PurchaseOrderService } from '../../services/localStorageService';
+
+/**
+ * Props for ReceivePurchaseOrderModal component
+ */
+interface ReceivePurchaseOrderModalProps {
+  order: PurchaseOrder;
+  performedBy: string;
+  onClose: () => void;
+  onSuccess: (order: PurchaseOrder) => void;
+}
+
+/**
+ * Receive Purchase Order Modal Component
+ * Takes in a delivery: what arrived on each line and what it actually cost
+ */
+export function ReceivePurchaseOrderModal({ order, performedBy, onClose, onSuccess }: ReceivePurchaseOrderModalProps) {
+  const outstandingLines = order.lines
+    .map((line) => ({ ...line, outstanding: ProductService.roundQuantity(line.quantity - line.quantityReceived) }))
+    .filter((line) => line.outstanding > 0);
+
+  // Everything outstanding at the expected cost, until told otherwise
+  const [received, setReceived] = useState<Record<string, { quantity: string; unitCost: string }>>(() =>
+    Object.fromEntries(
+      outstandingLines.map((line) => [
+        line.barcode,
+        { quantity: line.outstanding.toString(), unitCost: line.unitCost.toString() },
+      ])
+    )
+  );
+  const [error, setError] = useState('');
+
+  const deliveryTotal = outstandingLines.reduce((sum, line) => {
+    const entry = received[line.barcode];
+    return sum + (Number(entry.quantity) || 0) * (parseFloat(entry.unitCost) || 0);
+  }, 0);
+
+  /**
+   * Update what was received on a line
+   */
+  const updateLine = (barcode: string, changes: Partial<{ quantity: string; unitCost: string }>) => {
+    setReceived((prev) => ({ ...prev, [barcode]: { ...prev[barcode], ...changes } }));
+    setError('');
+  };
+
+  /**
+   * Receive the delivery into stock
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = PurchaseOrderService.receive(
+      order.id,
+      outstandingLines.map((line) => ({
+        barcode: line.barcode,
+        quantity: Number(received[line.barcode].quantity) || 0,
+        unitCost: parseFloat(received[line.barcode].unitCost),
+      })),
+      performedBy
+    );
+
+    if (result.success && result.order) {
+      onSuccess(result.order);
+    } else {
+      setError(result.error || 'Failed to receive delivery');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-green-100 rounded-lg">
+                <PackageCheck className="h-5 w-5 text-green-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Receive {order.poNumber}</h3>
+                <p className="text-sm text-gray-500">
+                  {order.supplierName} → {order.storeName}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Received</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Unit Cost ($)</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {outstandingLines.map((line) => (
+                    <tr key={line.barcode}>
+                      <td className="px-3 py-2">
+                        <p className="font-medium text-gray-900">{line.name}</p>
+                        <p className="text-xs font-mono text-gray-500">{line.barcode}</p>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-600">{line.quantity}</td>
+                      <td className="px-3 py-2 text-right font-medium text-gray-900">{line.outstanding}</td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          max={line.outstanding}
+                          step="any"
+                          value={received[line.barcode].quantity}
+                          onChange={(e) => updateLine(line.barcode, { quantity: e.target.value })}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-green-500"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={received[line.barcode].unitCost}
+                          onChange={(e) => updateLine(line.barcode, { unitCost: e.target.value })}
+                          className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-green-500"
+                        />
+                        {parseFloat(received[line.barcode].unitCost) !== line.unitCost && (
+                          <p className="text-xs text-orange-600">Expected ${line.unitCost.toFixed(2)}</p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <p className="text-sm text-gray-600 text-right">
+              This delivery: <span className="font-bold text-gray-900">${deliveryTotal.toFixed(2)}</span>
+            </p>
+
+            {/* Footer Actions */}
+            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700"
+              >
+                Receive into Stock
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
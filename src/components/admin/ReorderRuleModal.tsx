@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { X, Repeat, AlertCircle } from 'lucide-react';
+import { Product } from '../../types/product';
+import { ReorderService, SupplierService } from '../../services/localStorageService';
+import { useStore } from '../../contexts/StoreContext';
+
+/**
+ * Props for ReorderRuleModal component
+ */
+interface ReorderRuleModalProps {
+  product: Product;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+/**
+ * Reorder Rule Modal Component
+ * Sets who a product is reordered from and when, at the current store
+ */
+export function ReorderRuleModal({ product, onClose, onSuccess }: ReorderRuleModalProps) {
+  const { currentStore } = useStore();
+  const [suppliers] = useState(() => SupplierService.getAll());
+  const [dailyVelocity] = useState(() => ReorderService.getDailyVelocity(currentStore?.id).get(product.barcode) || 0);
+  const [form, setForm] = useState(() => {
+    const rule = ReorderService.getRule(product.barcode, currentStore?.id);
+    return {
+      supplierId: rule?.supplierId || '',
+      reorderPoint: rule?.reorderPoint?.toString() || '',
+      safetyStock: rule ? rule.safetyStock.toString() : '0',
+      leadTimeDays: rule?.leadTimeDays?.toString() || '',
+    };
+  });
+  const [error, setError] = useState('');
+
+  // What the engine would use for the fields left blank
+  const settings = ReorderService.getSettings();
+  const supplier = suppliers.find((s) => s.id === form.supplierId);
+  const leadTime = form.leadTimeDays.trim()
+    ? Number(form.leadTimeDays)
+    : supplier?.leadTimeDays ?? settings.defaultLeadTimeDays;
+  const workedOutPoint = dailyVelocity * leadTime + (parseFloat(form.safetyStock) || 0);
+
+  /**
+   * Save the reorder rule
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = ReorderService.saveRule({
+      barcode: product.barcode,
+      storeId: currentStore?.id,
+      supplierId: form.supplierId || undefined,
+      reorderPoint: form.reorderPoint.trim() ? parseFloat(form.reorderPoint) : undefined,
+      safetyStock: form.safetyStock.trim() ? parseFloat(form.safetyStock) : 0,
+      leadTimeDays: form.leadTimeDays.trim() ? Number(form.leadTimeDays) : undefined,
+    });
+
+    if (result.success) {
+      onSuccess();
+    } else {
+      setError(result.error || 'Failed to save reorder rule');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <Repeat className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Reorder Rule</h3>
+                <p className="text-sm text-gray-500">
+                  {product.name}
+                  {currentStore ? ` at ${currentStore.name}` : ''}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+
+            <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-600">
+              In stock: <span className="font-medium text-gray-900">{product.stock}</span> · Selling{' '}
+              <span className="font-medium text-gray-900">{dailyVelocity.toFixed(2)}</span> a day over the last{' '}
+              {settings.velocityDays} days
+            </div>
+
+            {/* Supplier */}
+            <div>
+              <label htmlFor="reorderSupplier" className="block text-sm font-medium text-gray-700 mb-1">
+                Supplier
+              </label>
+              <select
+                id="reorderSupplier"
+                value={form.supplierId}
+                onChange={(e) => setForm({ ...form, supplierId: e.target.value })}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">No supplier</option>
+                {suppliers.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Suggestions are drafted into orders to this supplier</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {/* Safety Stock */}
+              <div>
+                <label htmlFor="safetyStock" className="block text-sm font-medium text-gray-700 mb-1">
+                  Safety Stock
+                </label>
+                <input
+                  id="safetyStock"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form.safetyStock}
+                  onChange={(e) => setForm({ ...form, safetyStock: e.target.value })}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              {/* Lead Time */}
+              <div>
+                <label htmlFor="reorderLeadTime" className="block text-sm font-medium text-gray-700 mb-1">
+                  Lead Time (days)
+                </label>
+                <input
+                  id="reorderLeadTime"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={form.leadTimeDays}
+                  onChange={(e) => setForm({ ...form, leadTimeDays: e.target.value })}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder={(supplier?.leadTimeDays ?? settings.defaultLeadTimeDays).toString()}
+                />
+              </div>
+            </div>
+
+            {/* Reorder Point */}
+            <div>
+              <label htmlFor="reorderPoint" className="block text-sm font-medium text-gray-700 mb-1">
+                Reorder Point
+              </label>
+              <input
+                id="reorderPoint"
+                type="number"
+                min="0"
+                step="any"
+                value={form.reorderPoint}
+                onChange={(e) => setForm({ ...form, reorderPoint: e.target.value })}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder={workedOutPoint.toFixed(1)}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Leave blank to reorder at sales over the lead time plus safety stock (currently{' '}
+                {workedOutPoint.toFixed(1)})
+              </p>
+            </div>
+
+            {/* Footer Actions */}
+            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+              >
+                Save Rule
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
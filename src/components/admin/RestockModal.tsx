@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, RefreshCw, Package, History, AlertCircle } from 'lucide-react';
 import { Product, StockLog } from '../../types/product';
-import { ProductService, StockLogService } from '../../services/localStorageService';
+import { ProductService, StockLogService, ADJUSTMENT_REASONS } from '../../services/localStorageService';
 import { useAuth } from '../../contexts/AuthContext';
 
 /**
@@ -20,10 +20,17 @@ interface RestockModalProps {
 export function RestockModal({ product, onClose, onSuccess }: RestockModalProps) {
   const { user } = useAuth();
   const [quantity, setQuantity] = useState('');
+  // Received in the base unit (the product's barcode) or one of its packs
+  const [unitBarcode, setUnitBarcode] = useState(product.barcode);
+  // Cost per unit received; left blank the stock comes in at the current cost
+  const [cost, setCost] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [recentLogs, setRecentLogs] = useState<StockLog[]>([]);
 
+  const pack = product.packUnits?.find((unit) => unit.barcode === unitBarcode);
+  const baseUnitLabel = product.measureUnit || (product.baseUnit ? `${product.baseUnit.toLowerCase()}s` : 'units');
+
   // Ref for auto-focus
   const quantityInputRef = useRef<HTMLInputElement>(null);
 
@@ -43,8 +50,9 @@ export function RestockModal({ product, onClose, onSuccess }: RestockModalProps)
    */
   const handleQuantityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
-    // Only allow positive integers
-    if (value === '' || (/^\d+$/.test(value) && parseInt(value, 10) > 0)) {
+    // Only allow positive integers, or up to three decimals for loose goods
+    const pattern = product.measureUnit ? /^\d*\.?\d{0,3}$/ : /^\d+$/;
+    if (value === '' || (pattern.test(value) && (!!product.measureUnit || parseInt(value, 10) > 0))) {
       setQuantity(value);
       setError('');
     }
@@ -57,11 +65,15 @@ export function RestockModal({ product, onClose, onSuccess }: RestockModalProps)
     e.preventDefault();
 
     // Validate
-    const qty = parseInt(quantity, 10);
+    const qty = product.measureUnit ? ProductService.roundQuantity(parseFloat(quantity)) : parseInt(quantity, 10);
     if (isNaN(qty) || qty <= 0) {
       setError('Please enter a valid positive quantity');
       return;
     }
+    if (cost.trim() && !(parseFloat(cost) >= 0)) {
+      setError('Cost cannot be negative');
+      return;
+    }
 
     setIsSubmitting(true);
     setError('');
@@ -69,7 +81,13 @@ export function RestockModal({ product, onClose, onSuccess }: RestockModalProps)
     // Simulate network delay
     await new Promise((resolve) => setTimeout(resolve, 500));
 
-    const result = ProductService.restock(product.barcode, qty, user?.username || 'admin');
+    const result = ProductService.restock(
+      unitBarcode,
+      qty,
+      user?.username || 'admin',
+      undefined,
+      cost.trim() ? parseFloat(cost) : undefined
+    );
 
     if (result.success) {
       onSuccess();
@@ -186,23 +204,63 @@ export function RestockModal({ product, onClose, onSuccess }: RestockModalProps)
                     value={quantity}
                     onChange={handleQuantityChange}
                     disabled={isSubmitting}
-                    min="1"
-                    step="1"
+                    min={product.measureUnit ? '0.001' : '1'}
+                    step={product.measureUnit ? '0.001' : '1'}
                     className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
                     placeholder="Enter quantity to add"
                   />
-                  <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                    <span className="text-gray-500 text-sm">units</span>
-                  </div>
+                  {!product.packUnits && (
+                    <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                      <span className="text-gray-500 text-sm">{baseUnitLabel}</span>
+                    </div>
+                  )}
                 </div>
+                {product.packUnits && (
+                  <select
+                    value={unitBarcode}
+                    onChange={(e) => setUnitBarcode(e.target.value)}
+                    disabled={isSubmitting}
+                    className="mt-2 block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+                    aria-label="Unit"
+                  >
+                    <option value={product.barcode}>{product.baseUnit || 'Units'}</option>
+                    {product.packUnits.map((unit) => (
+                      <option key={unit.barcode} value={unit.barcode}>
+                        {unit.name} of {unit.quantity}
+                      </option>
+                    ))}
+                  </select>
+                )}
                 <p className="mt-1 text-sm text-gray-500">
                   New stock will be:{' '}
                   <span className="font-medium text-gray-900">
-                    {product.stock + (parseInt(quantity, 10) || 0)} units
+                    {ProductService.roundQuantity(product.stock + (parseFloat(quantity) || 0) * (pack?.quantity || 1))}{' '}
+                    {baseUnitLabel}
                   </span>
                 </p>
               </div>
 
+              {/* Cost Input */}
+              <div>
+                <label htmlFor="restockCost" className="block text-sm font-medium text-gray-700 mb-1">
+                  Cost per {pack ? pack.name.toLowerCase() : product.measureUnit || product.baseUnit?.toLowerCase() || 'unit'} ($)
+                </label>
+                <input
+                  type="number"
+                  id="restockCost"
+                  value={cost}
+                  onChange={(e) => setCost(e.target.value)}
+                  disabled={isSubmitting}
+                  min="0"
+                  step="0.01"
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+                  placeholder={
+                    product.cost !== undefined ? (product.cost * (pack?.quantity || 1)).toFixed(2) : 'Supplier cost'
+                  }
+                />
+                <p className="mt-1 text-xs text-gray-500">Leave blank to receive at the current cost price</p>
+              </div>
+
               {/* Submit Button */}
               <button
                 type="submit"
@@ -238,13 +296,31 @@ export function RestockModal({ product, onClose, onSuccess }: RestockModalProps)
                       key={log.id}
                       className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded"
                     >
-                      <div className="flex items-center space-x-2">
-                        <span className="text-green-600 font-medium">
-                          +{log.quantityAdded}
-                        </span>
-                        <span className="text-gray-500">
-                          ({log.previousStock} → {log.newStock})
-                        </span>
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <span
+                            className={`font-medium ${
+                              log.quantityAdded < 0 ? 'text-red-600' : 'text-green-600'
+                            }`}
+                          >
+                            {log.quantityAdded < 0 ? log.quantityAdded : `+${log.quantityAdded}`}
+                          </span>
+                          <span className="text-gray-500">
+                            ({log.previousStock} → {log.newStock})
+                          </span>
+                          {log.unitCost !== undefined && (
+                            <span className="text-xs text-gray-500">@ ${log.unitCost.toFixed(2)}</span>
+                          )}
+                          {log.reason && (
+                            <span className="text-xs font-medium text-orange-600">
+                              {ADJUSTMENT_REASONS.find((r) => r.id === log.reason)?.label || log.reason}
+                            </span>
+                          )}
+                          {log.reference && (
+                            <span className="text-xs font-mono text-gray-500">{log.reference}</span>
+                          )}
+                        </div>
+                        {log.note && <p className="text-xs text-gray-500">{log.note}</p>}
                       </div>
                       <div className="text-right">
                         <p className="text-gray-600">{formatTimestamp(log.timestamp)}</p>
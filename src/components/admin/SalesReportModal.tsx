@@ -0,0 +1,176 @@
+import { useRef } from 'react';
+import { X, Printer } from 'lucide-react';
+import { SalesReport, PaymentMethod, ReportBreakdown } from '../../types/product';
+
+interface SalesReportModalProps {
+  report: SalesReport;
+  onClose: () => void;
+}
+
+const PAYMENT_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  mobile_money: 'Mobile Money',
+  card: 'Card',
+  loyalty_points: 'Loyalty Points',
+  gift_card: 'Gift Card',
+  store_credit: 'Store Credit',
+  on_account: 'On Account',
+};
+
+/**
+ * Sales Report Modal Component
+ * Displays and prints an X or Z report
+ */
+export function SalesReportModal({ report, onClose }: SalesReportModalProps) {
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const title =
+    report.type === 'Z'
+      ? `Z Report #${String(report.sequenceNumber).padStart(4, '0')}`
+      : 'X Report';
+
+  const handlePrint = () => {
+    const printContent = reportRef.current;
+    if (!printContent) return;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>${title} - ${report.storeName}</title>
+          <style>
+            body { font-family: 'Courier New', monospace; background: white; }
+            .report { max-width: 300px; margin: 0 auto; padding: 20px; font-size: 11px; }
+            .header { text-align: center; border-bottom: 2px dashed #000; padding-bottom: 10px; margin-bottom: 10px; }
+            .title { font-size: 16px; font-weight: bold; }
+            .section { border-top: 1px dashed #000; margin-top: 10px; padding-top: 10px; }
+            .section-title { font-weight: bold; margin-bottom: 5px; }
+            .row { display: flex; justify-content: space-between; margin: 3px 0; }
+            .total { font-size: 13px; font-weight: bold; }
+          </style>
+        </head>
+        <body>
+          ${printContent.innerHTML}
+        </body>
+      </html>
+    `);
+
+    printWindow.document.close();
+    printWindow.focus();
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 250);
+  };
+
+  const renderRow = (label: string, value: string, className = '') => (
+    <div className={`row flex justify-between py-0.5 ${className}`}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+
+  const renderBreakdown = (
+    heading: string,
+    entries: [string, ReportBreakdown][],
+    countLabel: string
+  ) => (
+    <div className="section border-t border-dashed border-gray-300 mt-3 pt-3">
+      <p className="section-title font-semibold mb-1">{heading}</p>
+      {entries.length === 0 ? (
+        <p className="text-gray-500">None</p>
+      ) : (
+        entries.map(([label, line]) => (
+          <div key={label}>
+            {renderRow(`${label} (${line.count} ${countLabel})`, `$${line.amount.toFixed(2)}`)}
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 sticky top-0 bg-white">
+            <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handlePrint}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+              >
+                <Printer className="h-4 w-4" />
+                <span>Print</span>
+              </button>
+              <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+          </div>
+
+          {/* Report Body */}
+          <div ref={reportRef} className="p-6">
+            <div className="report font-mono text-xs text-gray-800">
+              <div className="header text-center border-b-2 border-dashed border-gray-400 pb-3 mb-3">
+                <p className="title text-base font-bold">{title}</p>
+                <p>{report.storeName}</p>
+                {report.type === 'X' && <p>{report.sessionId ? 'Register report' : 'Store report'} - not a day close</p>}
+              </div>
+
+              {renderRow('From', formatDate(report.periodStart))}
+              {renderRow('To', formatDate(report.periodEnd))}
+              {renderRow('Generated by', report.generatedBy)}
+
+              <div className="section border-t border-dashed border-gray-300 mt-3 pt-3">
+                {renderRow('Transactions', report.totalSales.toString())}
+                {renderRow('Items sold', report.totalItems.toString())}
+                {renderRow('Gross sales', `$${report.grossSales.toFixed(2)}`)}
+                {renderRow('Discounts', `-$${report.totalDiscounts.toFixed(2)}`)}
+                {renderRow('Tax', `$${report.totalTax.toFixed(2)}`)}
+                {renderRow(`Refunds (${report.refundCount})`, `-$${report.totalRefunds.toFixed(2)}`)}
+                {!!report.voidCount &&
+                  renderRow(`Voided sales (${report.voidCount})`, `$${(report.voidTotal || 0).toFixed(2)}`)}
+                {renderRow('Net revenue', `$${report.netRevenue.toFixed(2)}`, 'total font-bold text-sm mt-1')}
+              </div>
+
+              {renderBreakdown(
+                'By Payment Method',
+                (Object.keys(report.byPaymentMethod) as PaymentMethod[]).map((method) => [
+                  PAYMENT_LABELS[method],
+                  report.byPaymentMethod[method],
+                ]),
+                'sales'
+              )}
+              {report.cashOutsideShifts &&
+                (report.cashOutsideShifts.received > 0 || report.cashOutsideShifts.paidOut > 0) && (
+                  <div className="section border-t border-dashed border-gray-300 mt-3 pt-3">
+                    <p className="section-title font-semibold mb-1">Cash Outside Shifts</p>
+                    {renderRow('Taken', `$${report.cashOutsideShifts.received.toFixed(2)}`)}
+                    {renderRow('Paid out', `-$${report.cashOutsideShifts.paidOut.toFixed(2)}`)}
+                  </div>
+                )}
+              {renderBreakdown('By Cashier', Object.entries(report.byCashier), 'sales')}
+              {renderBreakdown('By Category', Object.entries(report.byCategory), 'units')}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
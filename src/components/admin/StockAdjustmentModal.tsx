@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { X, SlidersHorizontal, AlertCircle } from 'lucide-react';
+import { Product, AdjustmentReason } from '../../types/product';
+import { ProductService, ADJUSTMENT_REASONS } from '../../services/localStorageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { useStore } from '../../contexts/StoreContext';
+
+/**
+ * Props for StockAdjustmentModal component
+ */
+interface StockAdjustmentModalProps {
+  product: Product;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+/**
+ * Stock Adjustment Modal Component
+ * Takes stock off (damaged, stolen, expired, used in store) or puts it back, with a reason
+ */
+export function StockAdjustmentModal({ product, onClose, onSuccess }: StockAdjustmentModalProps) {
+  const { user } = useAuth();
+  const { currentStore } = useStore();
+  const [direction, setDirection] = useState<'remove' | 'add'>('remove');
+  const [quantity, setQuantity] = useState('');
+  // Adjusted in the base unit (the product's barcode) or one of its packs
+  const [unitBarcode, setUnitBarcode] = useState(product.barcode);
+  const [reason, setReason] = useState<AdjustmentReason>('damage');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const pack = product.packUnits?.find((unit) => unit.barcode === unitBarcode);
+  const baseUnitLabel = product.measureUnit || (product.baseUnit ? `${product.baseUnit.toLowerCase()}s` : 'units');
+  // Shrinkage reasons only take stock off, found stock only puts it back
+  const reasons = ADJUSTMENT_REASONS.filter((r) => (direction === 'remove' ? r.id !== 'found' : !r.shrinkage));
+  const units = (parseFloat(quantity) || 0) * (pack?.quantity || 1) * (direction === 'remove' ? -1 : 1);
+
+  /**
+   * Switch between taking stock off and putting it back
+   */
+  const changeDirection = (next: 'remove' | 'add') => {
+    setDirection(next);
+    setReason(next === 'remove' ? 'damage' : 'found');
+    setError('');
+  };
+
+  /**
+   * Apply the adjustment
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const qty = parseFloat(quantity);
+    if (!(qty > 0)) {
+      setError('Please enter a valid positive quantity');
+      return;
+    }
+
+    const result = ProductService.adjustStock(
+      unitBarcode,
+      direction === 'remove' ? -qty : qty,
+      reason,
+      user?.username || 'admin',
+      currentStore?.id,
+      note
+    );
+
+    if (result.success) {
+      onSuccess();
+    } else {
+      setError(result.error || 'Failed to adjust stock');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-orange-100 rounded-lg">
+                <SlidersHorizontal className="h-5 w-5 text-orange-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Adjust Stock</h3>
+                <p className="text-sm text-gray-500">
+                  {product.name}
+                  {currentStore ? ` at ${currentStore.name}` : ''}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+
+            {/* Direction */}
+            <div className="grid grid-cols-2 gap-2">
+              {(['remove', 'add'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => changeDirection(option)}
+                  className={`px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${
+                    direction === option
+                      ? option === 'remove'
+                        ? 'bg-red-50 border-red-300 text-red-700'
+                        : 'bg-green-50 border-green-300 text-green-700'
+                      : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {option === 'remove' ? 'Remove Stock' : 'Add Stock'}
+                </button>
+              ))}
+            </div>
+
+            {/* Quantity */}
+            <div>
+              <label htmlFor="adjustQuantity" className="block text-sm font-medium text-gray-700 mb-1">
+                Quantity <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="adjustQuantity"
+                type="number"
+                min={product.measureUnit ? '0.001' : '1'}
+                step={product.measureUnit ? '0.001' : '1'}
+                value={quantity}
+                onChange={(e) => {
+                  setQuantity(e.target.value);
+                  setError('');
+                }}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                placeholder={`Enter ${baseUnitLabel} to ${direction}`}
+              />
+              {product.packUnits && (
+                <select
+                  value={unitBarcode}
+                  onChange={(e) => setUnitBarcode(e.target.value)}
+                  className="mt-2 block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                  aria-label="Unit"
+                >
+                  <option value={product.barcode}>{product.baseUnit || 'Units'}</option>
+                  {product.packUnits.map((unit) => (
+                    <option key={unit.barcode} value={unit.barcode}>
+                      {unit.name} of {unit.quantity}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <p className="mt-1 text-sm text-gray-500">
+                New stock will be:{' '}
+                <span className="font-medium text-gray-900">
+                  {ProductService.roundQuantity(product.stock + units)} {baseUnitLabel}
+                </span>
+              </p>
+            </div>
+
+            {/* Reason */}
+            <div>
+              <label htmlFor="adjustReason" className="block text-sm font-medium text-gray-700 mb-1">
+                Reason <span className="text-red-500">*</span>
+              </label>
+              <select
+                id="adjustReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value as AdjustmentReason)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+              >
+                {reasons.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Note */}
+            <div>
+              <label htmlFor="adjustNote" className="block text-sm font-medium text-gray-700 mb-1">
+                Note
+              </label>
+              <input
+                id="adjustNote"
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                placeholder="Optional"
+              />
+            </div>
+
+            {/* Footer Actions */}
+            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!quantity}
+                className="px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-lg hover:bg-orange-700 disabled:opacity-50"
+              >
+                Adjust Stock
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { X, History } from 'lucide-react';
+import { Product, StockLog, StockLogType } from '../../types/product';
+import { ProductService, StockLogService, STOCK_MOVEMENT_TYPES, ADJUSTMENT_REASONS } from '../../services/localStorageService';
+import { useStore } from '../../contexts/StoreContext';
+
+/**
+ * Props for StockHistoryModal component
+ */
+interface StockHistoryModalProps {
+  product: Product;
+  onClose: () => void;
+}
+
+// Badge colour for each kind of movement
+const TYPE_STYLES: Record<StockLogType, string> = {
+  opening: 'bg-gray-100 text-gray-700',
+  sale: 'bg-blue-100 text-blue-700',
+  return: 'bg-purple-100 text-purple-700',
+  void: 'bg-purple-100 text-purple-700',
+  restock: 'bg-green-100 text-green-700',
+  adjustment: 'bg-orange-100 text-orange-700',
+  transfer_in: 'bg-teal-100 text-teal-700',
+  transfer_out: 'bg-teal-100 text-teal-700',
+  transfer_request: 'bg-gray-100 text-gray-500',
+  count: 'bg-indigo-100 text-indigo-700',
+};
+
+/**
+ * Stock History Modal Component
+ * Every movement of a product on the stock ledger, filtered by store, type and date
+ */
+export function StockHistoryModal({ product, onClose }: StockHistoryModalProps) {
+  const { stores, currentStore } = useStore();
+  const [storeId, setStoreId] = useState(currentStore?.id || '');
+  const [type, setType] = useState<StockLogType | ''>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const movements = StockLogService.getHistory(product.barcode, {
+    storeId: storeId || undefined,
+    type: type || undefined,
+    start: startDate ? new Date(`${startDate}T00:00:00`) : undefined,
+    end: endDate ? new Date(`${endDate}T23:59:59.999`) : undefined,
+  });
+  const movedIn = ProductService.roundQuantity(
+    movements.filter((log) => log.quantityAdded > 0).reduce((sum, log) => sum + log.quantityAdded, 0)
+  );
+  const movedOut = ProductService.roundQuantity(
+    movements.filter((log) => log.quantityAdded < 0).reduce((sum, log) => sum - log.quantityAdded, 0)
+  );
+
+  /**
+   * Whether an entry moved stock; transfer steps that moved nothing are listed for the audit trail only
+   */
+  const movesStock = (log: StockLog): boolean =>
+    STOCK_MOVEMENT_TYPES.find((t) => t.id === log.type)?.movesStock ?? true;
+
+  /**
+   * Format timestamp for display
+   */
+  const formatTimestamp = (timestamp: string): string => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-4xl w-full">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-gray-100 rounded-lg">
+                <History className="h-5 w-5 text-gray-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Stock Movements</h3>
+                <p className="text-sm text-gray-500">
+                  {product.name} · <span className="font-mono">{product.barcode}</span>
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="px-6 py-4 space-y-4">
+            {/* Filters */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <select
+                value={storeId}
+                onChange={(e) => setStoreId(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                aria-label="Store"
+              >
+                <option value="">All stores</option>
+                {stores.map((store) => (
+                  <option key={store.id} value={store.id}>
+                    {store.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as StockLogType | '')}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                aria-label="Movement type"
+              >
+                <option value="">All movements</option>
+                {STOCK_MOVEMENT_TYPES.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                aria-label="From"
+              />
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                aria-label="To"
+              />
+            </div>
+
+            {/* Summary */}
+            <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+              <span>
+                In: <span className="font-medium text-green-600">+{movedIn}</span>
+              </span>
+              <span>
+                Out: <span className="font-medium text-red-600">-{movedOut}</span>
+              </span>
+              {storeId && (
+                <span>
+                  Stock from the ledger{endDate ? ` at ${endDate}` : ''}:{' '}
+                  <span className="font-medium text-gray-900">
+                    {StockLogService.getBalance(
+                      storeId,
+                      product.barcode,
+                      endDate ? new Date(`${endDate}T23:59:59.999`) : undefined
+                    )}
+                  </span>
+                </span>
+              )}
+            </div>
+
+            {/* Movements */}
+            {movements.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No stock movements match these filters</p>
+            ) : (
+              <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Stock</th>
+                      {!storeId && (
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Store</th>
+                      )}
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">By</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {movements.map((log) => (
+                      <tr key={log.id}>
+                        <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{formatTimestamp(log.timestamp)}</td>
+                        <td className="px-3 py-2">
+                          <span
+                            className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                              log.type ? TYPE_STYLES[log.type] : 'bg-gray-100 text-gray-700'
+                            }`}
+                          >
+                            {STOCK_MOVEMENT_TYPES.find((t) => t.id === log.type)?.label || 'Stock Change'}
+                          </span>
+                        </td>
+                        <td
+                          className={`px-3 py-2 text-right font-medium ${
+                            !movesStock(log) ? 'text-gray-400' : log.quantityAdded < 0 ? 'text-red-600' : 'text-green-600'
+                          }`}
+                        >
+                          {!movesStock(log) ? '—' : log.quantityAdded < 0 ? log.quantityAdded : `+${log.quantityAdded}`}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600 whitespace-nowrap">
+                          {movesStock(log) ? `${log.previousStock} → ${log.newStock}` : log.newStock}
+                        </td>
+                        {!storeId && (
+                          <td className="px-3 py-2 text-gray-600">
+                            {stores.find((store) => store.id === log.storeId)?.name || '—'}
+                          </td>
+                        )}
+                        <td className="px-3 py-2 text-gray-600">
+                          {log.reason && (
+                            <span className="text-xs font-medium text-orange-600 mr-2">
+                              {ADJUSTMENT_REASONS.find((r) => r.id === log.reason)?.label || log.reason}
+                            </span>
+                          )}
+                          {log.reference && <span className="text-xs font-mono text-gray-500 mr-2">{log.reference}</span>}
+                          {log.note && <span className="text-xs text-gray-500">{log.note}</span>}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">{log.performedBy}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
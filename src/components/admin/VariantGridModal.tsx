@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { X, Layers, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { Product, VariantAttributes } from '../../types/product';
+import { ProductService } from '../../services/localStorageService';
+import { useStore } from '../../contexts/StoreContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+/**
+ * Props for VariantGridModal component
+ */
+interface VariantGridModalProps {
+  product: Product;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Editable grid row; price and stock are kept as typed until saved
+interface VariantRow {
+  key: number;
+  barcode: string;
+  attributes: VariantAttributes;
+  price: string;
+  stock: string;
+}
+
+/**
+ * Variant Grid Modal Component
+ * Edits the variants of a parent product: attribute values, barcode, price override and stock
+ */
+export function VariantGridModal({ product, onClose, onSuccess }: VariantGridModalProps) {
+  const { currentStore } = useStore();
+  const { user } = useAuth();
+  const [attributeText, setAttributeText] = useState((product.variantAttributes || ['Size', 'Colour']).join(', '));
+  const [rows, setRows] = useState<VariantRow[]>(() =>
+    ProductService.getVariants(product.barcode).map((variant, index) => ({
+      key: index,
+      barcode: variant.barcode,
+      attributes: variant.attributes || {},
+      price: variant.priceOverride !== undefined ? variant.priceOverride.toString() : '',
+      stock: variant.stock.toString(),
+    }))
+  );
+  const [error, setError] = useState('');
+
+  const attributeNames = attributeText
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  /**
+   * Add an empty variant row
+   */
+  const handleAddRow = () => {
+    setRows((prev) => [
+      ...prev,
+      { key: Math.max(-1, ...prev.map((row) => row.key)) + 1, barcode: '', attributes: {}, price: '', stock: '0' },
+    ]);
+  };
+
+  /**
+   * Update one field of a variant row
+   */
+  const updateRow = (key: number, changes: Partial<VariantRow>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+    setError('');
+  };
+
+  /**
+   * Save the grid
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    for (const row of rows) {
+      const stock = Number(row.stock);
+      if (row.stock.trim() === '' || !Number.isInteger(stock) || stock < 0) {
+        setError(`Stock for ${row.barcode || 'each variant'} must be a whole number`);
+        return;
+      }
+      if (row.price.trim() && !(parseFloat(row.price) > 0)) {
+        setError(`Price for ${row.barcode || 'each variant'} must be positive`);
+        return;
+      }
+    }
+
+    const result = ProductService.saveVariants(
+      product.barcode,
+      attributeNames,
+      rows.map((row) => ({
+        barcode: row.barcode,
+        attributes: row.attributes,
+        priceOverride: row.price.trim() ? parseFloat(row.price) : undefined,
+        stock: Number(row.stock),
+      })),
+      undefined,
+      user?.username || 'admin'
+    );
+
+    if (result.success) {
+      onSuccess();
+    } else {
+      setError(result.error || 'Failed to save variants');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-4xl w-full">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <Layers className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Variants</h3>
+                <p className="text-sm text-gray-500">
+                  {product.name} · ${product.price.toFixed(2)}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center space-x-2">
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+
+            {/* Attributes */}
+            <div>
+              <label htmlFor="variantAttributes" className="block text-sm font-medium text-gray-700 mb-1">
+                Attributes
+              </label>
+              <input
+                id="variantAttributes"
+                type="text"
+                value={attributeText}
+                onChange={(e) => setAttributeText(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g. Size, Colour"
+              />
+              <p className="mt-1 text-xs text-gray-500">Comma separated. Each variant needs a value for every attribute.</p>
+            </div>
+
+            {/* Grid */}
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {attributeNames.map((name) => (
+                      <th key={name} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                        {name}
+                      </th>
+                    ))}
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Barcode</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Price ($)</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Stock</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={attributeNames.length + 4} className="px-3 py-6 text-center text-gray-500">
+                        No variants. {product.name} is sold as a single product.
+                      </td>
+                    </tr>
+                  ) : (
+                    rows.map((row) => (
+                      <tr key={row.key}>
+                        {attributeNames.map((name) => (
+                          <td key={name} className="px-3 py-2">
+                            <input
+                              type="text"
+                              value={row.attributes[name] || ''}
+                              onChange={(e) =>
+                                updateRow(row.key, { attributes: { ...row.attributes, [name]: e.target.value } })
+                              }
+                              className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                              placeholder={name}
+                            />
+                          </td>
+                        ))}
+                        <td className="px-3 py-2">
+                          <input
+                            type="text"
+                            value={row.barcode}
+                            onChange={(e) => updateRow(row.key, { barcode: e.target.value })}
+                            className="w-36 px-2 py-1 border border-gray-300 rounded font-mono focus:ring-2 focus:ring-blue-500"
+                            placeholder="Barcode"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="0.01"
+                            step="0.01"
+                            value={row.price}
+                            onChange={(e) => updateRow(row.key, { price: e.target.value })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            placeholder={product.price.toFixed(2)}
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={row.stock}
+                            onChange={(e) => updateRow(row.key, { stock: e.target.value })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+                            className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50 transition-colors"
+                            title="Remove variant"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={handleAddRow}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Variant
+              </button>
+              <p className="text-xs text-gray-500">
+                Leave price blank to use ${product.price.toFixed(2)}
+                {currentStore ? `. Stock is at ${currentStore.name}.` : '.'}
+              </p>
+            </div>
+
+            {/* Footer Actions */}
+            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+              >
+                Save Variants
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -14,10 +14,16 @@ import {
   BarChart3,
   PieChart,
   Store,
+  Tag,
+  Percent,
+  Warehouse,
+  ClipboardList,
+  PackageMinus,
 } from 'lucide-react';
-import { SaleRecord, SaleItem } from '../types/product';
-import { SaleService, ProductService,StoreService } from '../services/localStorageService';
+import { SaleRecord, SaleItem, CostingMethod, ValuationLine, ReorderSuggestion, ShrinkageLine } from '../types/product';
+import { SaleService, StoreService, DashboardService, DiscountService, CostingService, ReorderService, StockLogService, DISCOUNT_REASONS } from '../services/localStorageService';
 import { useStore } from '../contexts/StoreContext';
+import { useAuth } from '../contexts/AuthContext';
 
 /**
  * Analytics Dashboard Page
@@ -28,6 +34,12 @@ export function AnalyticsDashboard() {
   const [sales, setSales] = useState<SaleRecord[]>([]);
   const [dateRange, setDateRange] = useState<'7d' | '30d' | '90d' | '1y'>('30d');
   const [isLoading, setIsLoading] = useState(true);
+  const [marginGroup, setMarginGroup] = useState<'product' | 'category'>('product');
+  const [valuationGroup, setValuationGroup] = useState<'store' | 'category'>('store');
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>(() => CostingService.getSettings().method);
+  const [valuation, setValuation] = useState<{ lines: ValuationLine[]; total: number }>({ lines: [], total: 0 });
+  const [shrinkageGroup, setShrinkageGroup] = useState<'reason' | 'product' | 'store'>('reason');
+  const [shrinkage, setShrinkage] = useState<ShrinkageLine[]>([]);
 
   // Load data function - defined before useEffect
   const loadData = () => {
@@ -38,7 +50,8 @@ export function AnalyticsDashboard() {
     const allSales = currentStoreId
       ? SaleService.getByStore(currentStoreId)
       : SaleService.getAll();
-    setSales(allSales);
+    // Voided sales never happened as far as analytics are concerned
+    setSales(allSales.filter((sale) => !SaleService.isVoided(sale)));
     setIsLoading(false);
   };
 
@@ -88,7 +101,8 @@ export function AnalyticsDashboard() {
       };
     }
 
-    const totalRevenue = filteredSales.reduce((sum, sale) => sum + sale.total, 0);
+    // Revenue is net of refunds
+    const totalRevenue = filteredSales.reduce((sum, sale) => sum + SaleService.getNetTotal(sale), 0);
     const totalOrders = filteredSales.length;
     const averageOrderValue = totalRevenue / totalOrders;
     const totalItems = filteredSales.reduce(
@@ -112,8 +126,8 @@ export function AnalyticsDashboard() {
     const midPoint = Math.floor(filteredSales.length / 2);
     const firstHalf = filteredSales.slice(midPoint);
     const secondHalf = filteredSales.slice(0, midPoint);
-    const firstHalfRevenue = firstHalf.reduce((sum, s) => sum + s.total, 0);
-    const secondHalfRevenue = secondHalf.reduce((sum, s) => sum + s.total, 0);
+    const firstHalfRevenue = firstHalf.reduce((sum, s) => sum + SaleService.getNetTotal(s), 0);
+    const secondHalfRevenue = secondHalf.reduce((sum, s) => sum + SaleService.getNetTotal(s), 0);
     const growthRate = firstHalfRevenue > 0 
       ? ((secondHalfRevenue - firstHalfRevenue) / firstHalfRevenue) * 100 
       : 0;
@@ -129,6 +143,43 @@ export function AnalyticsDashboard() {
     };
   }, [filteredSales]);
 
+  // Gross margin over the period, by product or category
+  const margins = useMemo(() => {
+    const lines = CostingService.getMarginReport(filteredSales, marginGroup);
+    const revenue = lines.reduce((sum, line) => sum + line.revenue, 0);
+    const cost = lines.reduce((sum, line) => sum + line.cost, 0);
+    return {
+      lines,
+      revenue,
+      cost,
+      margin: revenue - cost,
+      marginPercent: revenue > 0 ? ((revenue - cost) / revenue) * 100 : 0,
+    };
+  }, [filteredSales, marginGroup]);
+
+  // Value of stock on hand now, refreshed with the sales; by category it covers the selected store
+  useEffect(() => {
+    const lines = CostingService.getValuation(valuationGroup, valuationGroup === 'category' ? currentStore?.id : undefined);
+    setValuation({ lines, total: lines.reduce((sum, line) => sum + line.value, 0) });
+  }, [valuationGroup, currentStore, sales]);
+
+  // Stock written off or found missing in the date range, refreshed with the sales
+  useEffect(() => {
+    const daysMap = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 };
+    const end = new Date();
+    const start = new Date(end.getTime() - daysMap[dateRange] * 24 * 60 * 60 * 1000);
+    setShrinkage(StockLogService.getShrinkageReport(shrinkageGroup, start, end, currentStore?.id));
+  }, [shrinkageGroup, dateRange, currentStore, sales]);
+
+  /**
+   * Change how stock leaving a store is costed
+   */
+  const handleCostingMethodChange = (method: CostingMethod) => {
+    if (CostingService.saveSettings({ method }).success) {
+      setCostingMethod(method);
+    }
+  };
+
   // Product affinity analysis (frequently bought together)
   const productAffinity = useMemo(() => {
     const pairs: Record<string, { count: number; products: string[] }> = {};
@@ -154,23 +205,72 @@ export function AnalyticsDashboard() {
       .map(([pair, data]) => ({ pair, count: data.count, products: data.products }));
   }, [filteredSales]);
 
-  // Top selling products
+  // Top selling products, net of returns and with variants under their parent
   const topProducts = useMemo(() => {
-    const productStats: Record<string, { name: string; quantity: number; revenue: number }> = {};
-    
+    return SaleService.getProductSales(filteredSales)
+      .map((product) => ({ name: product.name, quantity: product.sold, revenue: product.revenue }))
+      .sort((a, b) => b.revenue - a.revenue)
+      .slice(0, 5);
+  }, [filteredSales]);
+
+  // Discounts and promotion savings given, split by reason code and promotion
+  const discountStats = useMemo(() => {
+    const byReason: Record<string, { count: number; amount: number }> = {};
+    const byPromotion: Record<string, { count: number; amount: number }> = {};
+    let total = 0;
+    let gross = 0;
+    let discountedSales = 0;
+    let approved = 0;
+
+    const addDiscount = (reason: string, amount: number, approvedBy?: string) => {
+      byReason[reason] = byReason[reason] || { count: 0, amount: 0 };
+      byReason[reason].count += 1;
+      byReason[reason].amount += amount;
+      if (approvedBy) approved += 1;
+    };
+
     filteredSales.forEach((sale) => {
+      const saleDiscounts = (sale.discountTotal || 0) + (sale.promotionTotal || 0);
+      total += saleDiscounts;
+      gross += sale.subtotal + saleDiscounts;
+      if (saleDiscounts) discountedSales += 1;
+
       sale.items.forEach((item) => {
-        if (!productStats[item.barcode]) {
-          productStats[item.barcode] = { name: item.name, quantity: 0, revenue: 0 };
+        if (item.promotion) {
+          byPromotion[item.promotion.name] = byPromotion[item.promotion.name] || { count: 0, amount: 0 };
+          byPromotion[item.promotion.name].count += 1;
+          byPromotion[item.promotion.name].amount += item.promotion.savings;
+        }
+        if (item.discount) {
+          addDiscount(
+            item.discount.reason,
+            DiscountService.calculateAmount(item.discount, DiscountService.getLineAmount(item)),
+            item.discount.approvedBy
+          );
         }
-        productStats[item.barcode].quantity += item.quantity;
-        productStats[item.barcode].revenue += item.total;
       });
+      if (sale.cartDiscount) {
+        addDiscount(
+          sale.cartDiscount.reason,
+          DiscountService.calculateAmount(sale.cartDiscount, DiscountService.getCartAmount(sale.items)),
+          sale.cartDiscount.approvedBy
+        );
+      }
     });
 
-    return Object.values(productStats)
-      .sort((a, b) => b.revenue - a.revenue)
-      .slice(0, 5);
+    return {
+      total,
+      rate: gross > 0 ? (total / gross) * 100 : 0,
+      discountedSales,
+      approved,
+      byReason: [
+        ...DISCOUNT_REASONS.filter((r) => byReason[r.id]).map((r) => ({
+          label: r.label,
+          ...byReason[r.id],
+        })),
+        ...Object.entries(byPromotion).map(([name, data]) => ({ label: `Promotion: ${name}`, ...data })),
+      ],
+    };
   }, [filteredSales]);
 
   // Sales forecast (simple moving average)
@@ -180,7 +280,7 @@ export function AnalyticsDashboard() {
     const dailySales: Record<string, number> = {};
     filteredSales.forEach((sale) => {
       const date = new Date(sale.timestamp).toDateString();
-      dailySales[date] = (dailySales[date] || 0) + sale.total;
+      dailySales[date] = (dailySales[date] || 0) + SaleService.getNetTotal(sale);
     });
 
     const dailyValues = Object.values(dailySales);
@@ -229,7 +329,7 @@ export function AnalyticsDashboard() {
       });
     }
 
-    const products = ProductService.getAll();
+    const products = DashboardService.getStockedProducts();
     const lowStockProducts = products.filter((p) => p.stock < 10);
     if (lowStockProducts.length > 0) {
       insightsList.push({
@@ -454,13 +554,222 @@ export function AnalyticsDashboard() {
         </div>
       </div>
 
-      {/* Restock Recommendations */}
+      {/* Gross Margin */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center">
+            <Percent className="h-5 w-5 text-emerald-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900">Gross Margin</h2>
+          </div>
+          <select
+            value={marginGroup}
+            onChange={(e) => setMarginGroup(e.target.value as 'product' | 'category')}
+            className="py-1 px-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="product">By Product</option>
+            <option value="category">By Category</option>
+          </select>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500">Net Sales (ex. tax)</p>
+            <p className="text-lg font-bold text-gray-900">${margins.revenue.toFixed(2)}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500">Cost of Goods Sold</p>
+            <p className="text-lg font-bold text-gray-900">${margins.cost.toFixed(2)}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500">Gross Margin</p>
+            <p className={`text-lg font-bold ${margins.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              ${margins.margin.toFixed(2)}
+            </p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500">Margin %</p>
+            <p className="text-lg font-bold text-gray-900">{margins.marginPercent.toFixed(1)}%</p>
+          </div>
+        </div>
+        {margins.lines.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No sales data available</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    {marginGroup === 'product' ? 'Product' : 'Category'}
+                  </th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Sold</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Net Sales</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Margin</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Margin %</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {margins.lines.map((line) => (
+                  <tr key={line.key}>
+                    <td className="px-3 py-2 font-medium text-gray-900">{line.name}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{line.quantity}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">${line.revenue.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">${line.cost.toFixed(2)}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${line.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      ${line.margin.toFixed(2)}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900">{line.marginPercent.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Inventory Valuation */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 mb-4">
+          <div className="flex items-center">
+            <Warehouse className="h-5 w-5 text-indigo-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900">Inventory Valuation</h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={costingMethod}
+              onChange={(e) => handleCostingMethodChange(e.target.value as CostingMethod)}
+              className="py-1 px-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              aria-label="Costing method"
+            >
+              <option value="average">Weighted Average</option>
+              <option value="fifo">FIFO</option>
+            </select>
+            <select
+              value={valuationGroup}
+              onChange={(e) => setValuationGroup(e.target.value as 'store' | 'category')}
+              className="py-1 px-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="store">By Store</option>
+              <option value="category">By Category</option>
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          Stock on hand at cost
+          {valuationGroup === 'category' && currentStore ? ` at ${currentStore.name}` : ' across all stores'}:{' '}
+          <span className="font-bold text-gray-900">${valuation.total.toFixed(2)}</span>
+        </p>
+        {valuation.lines.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No stock on hand</p>
+        ) : (
+          <div className="space-y-2">
+            {valuation.lines.map((line) => (
+              <div key={line.key} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{line.name}</p>
+                  <p className="text-xs text-gray-500">{line.quantity} units on hand</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-bold text-gray-900">${line.value.toFixed(2)}</p>
+                  <p className="text-xs text-gray-500">
+                    {valuation.total > 0 ? ((line.value / valuation.total) * 100).toFixed(1) : '0.0'}% of stock value
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Shrinkage */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center">
+            <PackageMinus className="h-5 w-5 text-red-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900">Shrinkage</h2>
+          </div>
+          <select
+            value={shrinkageGroup}
+            onChange={(e) => setShrinkageGroup(e.target.value as 'reason' | 'product' | 'store')}
+            className="py-1 px-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="reason">By Reason</option>
+            <option value="product">By Product</option>
+            <option value="store">By Store</option>
+          </select>
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          Stock damaged, stolen, expired, used in store or short on a stocktake, at cost:{' '}
+          <span className="font-bold text-red-600">
+            ${shrinkage.reduce((sum, line) => sum + line.value, 0).toFixed(2)}
+          </span>
+        </p>
+        {shrinkage.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No shrinkage recorded in this period</p>
+        ) : (
+          <div className="space-y-2">
+            {shrinkage.map((line) => (
+              <div key={line.key} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{line.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {line.quantity} units lost · {line.count} {line.count === 1 ? 'entry' : 'entries'}
+                  </p>
+                </div>
+                <span className="text-sm font-bold text-red-600">-${line.value.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Discounts */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center mb-4">
+          <Tag className="h-5 w-5 text-green-600 mr-2" />
+          <h2 className="text-lg font-semibold text-gray-900">Discounts &amp; Promotions</h2>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500">Total Discounted</p>
+            <p className="text-lg font-bold text-gray-900">${discountStats.total.toFixed(2)}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500">Of Gross Sales</p>
+            <p className="text-lg font-bold text-gray-900">{discountStats.rate.toFixed(1)}%</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500">Discounted Sales</p>
+            <p className="text-lg font-bold text-gray-900">{discountStats.discountedSales}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500">Manager Approved</p>
+            <p className="text-lg font-bold text-gray-900">{discountStats.approved}</p>
+          </div>
+        </div>
+        {discountStats.byReason.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No discounts given in this period</p>
+        ) : (
+          <div className="space-y-2">
+            {discountStats.byReason.map((reason) => (
+              <div key={reason.label} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{reason.label}</p>
+                  <p className="text-xs text-gray-500">{reason.count} discounts</p>
+                </div>
+                <span className="text-sm font-bold text-red-600">-${reason.amount.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Reorder Suggestions */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="flex items-center mb-4">
           <Package className="h-5 w-5 text-orange-600 mr-2" />
-          <h2 className="text-lg font-semibold text-gray-900">Restock Recommendations</h2>
+          <h2 className="text-lg font-semibold text-gray-900">Reorder Suggestions</h2>
         </div>
-        <RestockRecommendations sales={filteredSales} />
+        <ReorderSuggestions sales={sales} storeId={currentStore?.id} />
       </div>
     </div>
   );
@@ -493,79 +802,188 @@ function MetricCard({ title, value, icon: Icon, color }: MetricCardProps) {
 }
 
 /**
- * Restock Recommendations Component
+ * Reorder Suggestions Component
+ * Products at their reorder point at the selected store, drafted into purchase orders in one step
  */
-function RestockRecommendations({ sales }: { sales: SaleRecord[] }) {
-  const recommendations = useMemo(() => {
-    const products = ProductService.getAll();
-    const productSales: Record<string, { name: string; sold: number; currentStock: number }> = {};
+function ReorderSuggestions({ sales, storeId }: { sales: SaleRecord[]; storeId?: string }) {
+  const { user } = useAuth();
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+  const [settingsForm, setSettingsForm] = useState(() => {
+    const settings = ReorderService.getSettings();
+    return {
+      velocityDays: settings.velocityDays.toString(),
+      coverDays: settings.coverDays.toString(),
+      defaultLeadTimeDays: settings.defaultLeadTimeDays.toString(),
+    };
+  });
 
-    // Calculate sales velocity
-    sales.forEach((sale) => {
-      sale.items.forEach((item) => {
-        if (!productSales[item.barcode]) {
-          const product = products.find((p) => p.barcode === item.barcode);
-          productSales[item.barcode] = {
-            name: item.name,
-            sold: 0,
-            currentStock: product?.stock || 0,
-          };
-        }
-        productSales[item.barcode].sold += item.quantity;
-      });
+  const [reloads, setReloads] = useState(0);
+
+  // Refreshed with the sales, since they drive the velocity, and after settings or orders change
+  useEffect(() => {
+    const list = ReorderService.getSuggestions(storeId);
+    setSuggestions(list);
+    setQuantities(Object.fromEntries(list.map((s) => [s.barcode, s.suggestedQuantity.toString()])));
+  }, [storeId, sales, reloads]);
+
+  /**
+   * Save the sales period, days of cover and default lead time
+   */
+  const handleSaveSettings = () => {
+    const result = ReorderService.saveSettings({
+      velocityDays: Number(settingsForm.velocityDays),
+      coverDays: Number(settingsForm.coverDays),
+      defaultLeadTimeDays: Number(settingsForm.defaultLeadTimeDays),
     });
+    if (result.success) {
+      setMessage({ text: 'Reorder settings saved', type: 'success' });
+      setReloads((n) => n + 1);
+    } else {
+      setMessage({ text: result.error || 'Failed to save reorder settings', type: 'error' });
+    }
+  };
 
-    // Calculate days of inventory remaining (assuming 30 days)
-    return Object.values(productSales)
-      .map((p) => {
-        const dailyVelocity = p.sold / 30;
-        return {
-          ...p,
-          dailyVelocity,
-          daysRemaining: dailyVelocity > 0 ? p.currentStock / dailyVelocity : Infinity,
-        };
-      })
-      .filter((p) => p.daysRemaining < 14 || p.currentStock < 10)
-      .sort((a, b) => a.daysRemaining - b.daysRemaining)
-      .slice(0, 5);
-  }, [sales]);
+  /**
+   * Draft a purchase order per supplier for every suggestion that has one
+   */
+  const handleDraftOrders = () => {
+    const lines = suggestions
+      .filter((s) => s.supplierId && Number(quantities[s.barcode]) > 0)
+      .map((s) => ({ barcode: s.barcode, quantity: Number(quantities[s.barcode]) }));
+
+    const result = ReorderService.createDraftOrders(lines, user?.username || 'admin', storeId);
+    if (result.success && result.orders) {
+      setMessage({
+        text: `Drafted ${result.orders.map((order) => `${order.poNumber} (${order.supplierName})`).join(', ')}`,
+        type: 'success',
+      });
+      setReloads((n) => n + 1);
+    } else {
+      setMessage({ text: result.error || 'Failed to draft purchase orders', type: 'error' });
+    }
+  };
 
-  if (recommendations.length === 0) {
-    return (
-      <div className="text-center py-8">
-        <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-3" />
-        <p className="text-gray-600">All products have sufficient stock!</p>
-      </div>
-    );
-  }
+  const orderable = suggestions.filter((s) => s.supplierId).length;
 
   return (
-    <div className="space-y-3">
-      {recommendations.map((item, index) => (
-        <div key={index} className="flex items-center justify-between p-4 bg-orange-50 rounded-lg border border-orange-200">
-          <div className="flex items-center">
-            <div className="p-2 bg-orange-100 rounded-lg mr-3">
-              <Package className="h-4 w-4 text-orange-600" />
-            </div>
-            <div>
-              <p className="text-sm font-medium text-gray-900">{item.name}</p>
-              <p className="text-xs text-gray-600">
-                Current stock: {item.currentStock} units
-              </p>
-            </div>
+    <div className="space-y-4">
+      {/* Reorder Settings */}
+      <div className="flex flex-col lg:flex-row lg:items-end gap-3 p-3 bg-gray-50 rounded-lg">
+        <p className="flex-1 text-xs text-gray-500">
+          Velocity is averaged over the sales period; orders cover the lead time, safety stock and the days of cover
+        </p>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Sales period (days)</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={settingsForm.velocityDays}
+            onChange={(e) => setSettingsForm({ ...settingsForm, velocityDays: e.target.value })}
+            className="w-24 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Days of cover</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={settingsForm.coverDays}
+            onChange={(e) => setSettingsForm({ ...settingsForm, coverDays: e.target.value })}
+            className="w-24 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Default lead time</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={settingsForm.defaultLeadTimeDays}
+            onChange={(e) => setSettingsForm({ ...settingsForm, defaultLeadTimeDays: e.target.value })}
+            className="w-24 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          onClick={handleSaveSettings}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Save
+        </button>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+      )}
+
+      {suggestions.length === 0 ? (
+        <div className="text-center py-8">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-3" />
+          <p className="text-gray-600">Nothing has reached its reorder point</p>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-3">
+            {suggestions.map((item) => (
+              <div
+                key={item.barcode}
+                className="flex items-center justify-between p-4 bg-orange-50 rounded-lg border border-orange-200"
+              >
+                <div className="flex items-center">
+                  <div className="p-2 bg-orange-100 rounded-lg mr-3">
+                    <Package className="h-4 w-4 text-orange-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{item.name}</p>
+                    <p className="text-xs text-gray-600">
+                      {item.stock} in stock{item.onOrder > 0 && ` + ${item.onOrder} on order`} · reorder at{' '}
+                      {item.reorderPoint} · {item.dailyVelocity.toFixed(2)}/day
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {item.supplierName
+                        ? `${item.supplierName} · ${item.leadTimeDays} day lead time`
+                        : 'No supplier set (Products → Reorder Rule)'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-4">
+                  <div className="text-right">
+                    <p className="text-sm font-bold text-orange-600">
+                      {item.daysOfStock === undefined ? 'No sales' : `${Math.floor(item.daysOfStock)} days left`}
+                    </p>
+                    <p className="text-xs text-orange-700">Suggested order</p>
+                  </div>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={quantities[item.barcode] ?? ''}
+                    onChange={(e) => setQuantities({ ...quantities, [item.barcode]: e.target.value })}
+                    className="w-20 px-2 py-1 text-sm border border-orange-300 rounded focus:ring-2 focus:ring-orange-500"
+                    aria-label={`Order quantity for ${item.name}`}
+                  />
+                </div>
+              </div>
+            ))}
           </div>
-          <div className="text-right">
-            <p className="text-sm font-bold text-orange-600">
-              {item.daysRemaining === Infinity 
-                ? 'No sales' 
-                : `${Math.floor(item.daysRemaining)} days left`}
-            </p>
-            <p className="text-xs text-orange-700">
-              Suggested: Restock {Math.ceil(item.sold * 2)} units
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              {orderable} of {suggestions.length} suggestions have a supplier
             </p>
+            <button
+              onClick={handleDraftOrders}
+              disabled={orderable === 0}
+              className="flex items-center px-4 py-2 text-sm bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50"
+            >
+              <ClipboardList className="h-4 w-4 mr-2" />
+              Draft Purchase Orders
+            </button>
           </div>
-        </div>
-      ))}
+        </>
+      )}
     </div>
   );
 }
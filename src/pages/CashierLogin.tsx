@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
-import { Store, Lock, User, Eye, EyeOff, Shield, Building2 } from 'lucide-react';
-import { CashierService } from '../services/localStorageService';
+import { Store, Lock, User, Eye, EyeOff, Shield, Building2, DollarSign } from 'lucide-react';
+import { CashierService, CashierSessionService, StoreService } from '../services/localStorageService';
+import { Cashier } from '../types/product';
 
 interface CashierLoginProps {
-  onLogin: (cashierName: string, assignedStoreId?: string, assignedStoreName?: string) => void;
+  onLogin: (cashierName: string, sessionId: string, assignedStoreId?: string, assignedStoreName?: string) => void;
   onSwitchToAdmin: () => void;
 }
 
@@ -17,6 +18,9 @@ export function CashierLogin({ onLogin, onSwitchToAdmin }: CashierLoginProps) {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Cashier awaiting an opening float before the shift starts
+  const [pendingCashier, setPendingCashier] = useState<Cashier | null>(null);
+  const [openingFloat, setOpeningFloat] = useState('');
 
   // Initialize cashiers on mount
   useEffect(() => {
@@ -34,7 +38,13 @@ export function CashierLogin({ onLogin, onSwitchToAdmin }: CashierLoginProps) {
     const cashier = CashierService.validateLogin(cashierId.trim(), password);
 
     if (cashier) {
-      onLogin(cashier.name, cashier.assignedStoreId, cashier.assignedStoreName);
+      // Resume a shift that was never closed, otherwise ask for the opening float
+      const openSession = CashierSessionService.getOpenForCashier(cashier.id);
+      if (openSession) {
+        onLogin(cashier.name, openSession.id, cashier.assignedStoreId, cashier.assignedStoreName);
+      } else {
+        setPendingCashier(cashier);
+      }
     } else {
       setError('Invalid cashier ID, password, or account is inactive');
     }
@@ -42,6 +52,30 @@ export function CashierLogin({ onLogin, onSwitchToAdmin }: CashierLoginProps) {
     setIsLoading(false);
   };
 
+  const handleOpenShift = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingCashier) return;
+    setError('');
+
+    const currentStore = StoreService.getCurrentStore();
+    const storeId = pendingCashier.assignedStoreId || currentStore?.id || 'store-001';
+    const storeName = pendingCashier.assignedStoreName || currentStore?.name || 'Main Store';
+
+    const result = CashierSessionService.open(
+      pendingCashier.id,
+      pendingCashier.name,
+      storeId,
+      storeName,
+      parseFloat(openingFloat)
+    );
+
+    if (result.success && result.session) {
+      onLogin(pendingCashier.name, result.session.id, pendingCashier.assignedStoreId, pendingCashier.assignedStoreName);
+    } else {
+      setError(result.error || 'Failed to open shift');
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-emerald-100 py-6 sm:py-12 px-3 sm:px-4 lg:px-8">
       <div className="max-w-md w-full space-y-6 sm:space-y-8">
@@ -58,6 +92,65 @@ export function CashierLogin({ onLogin, onSwitchToAdmin }: CashierLoginProps) {
 
         {/* Login Form */}
         <div className="bg-white rounded-lg shadow-lg p-4 sm:p-8">
+          {pendingCashier ? (
+          /* Opening Float Form */
+          <form className="space-y-6" onSubmit={handleOpenShift}>
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="text-sm text-gray-600">
+              Welcome, <span className="font-medium text-gray-900">{pendingCashier.name}</span>.
+              Count the cash in your drawer before you start.
+            </div>
+
+            <div>
+              <label htmlFor="openingFloat" className="block text-sm font-medium text-gray-700 mb-1">
+                Opening Float
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <DollarSign className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  id="openingFloat"
+                  name="openingFloat"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  required
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                  className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+                  placeholder="0.00"
+                  autoFocus
+                />
+              </div>
+            </div>
+
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => {
+                  setPendingCashier(null);
+                  setOpeningFloat('');
+                  setError('');
+                }}
+                className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Back
+              </button>
+              <button
+                type="submit"
+                className="flex-1 py-2 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 transition-colors"
+              >
+                Open Shift
+              </button>
+            </div>
+          </form>
+          ) : (
           <form className="space-y-6" onSubmit={handleSubmit}>
             {/* Error Message */}
             {error && (
@@ -140,6 +233,7 @@ export function CashierLogin({ onLogin, onSwitchToAdmin }: CashierLoginProps) {
               )}
             </button>
           </form>
+          )}
 
           {/* Demo Credentials */}
           <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-gray-200">
@@ -1,10 +1,17 @@
 import { useState } from 'react';
-import { Store, Shield, User, LogOut, Building2 } from 'lucide-react';
-import { CartItem as CartItemType, SaleRecord, PaymentMethod, SaleItem } from '../types/product';
-import { ProductService, SaleService, StoreService } from '../services/localStorageService';
+import { Store, Shield, User, LogOut, Building2, PauseCircle } from 'lucide-react';
+import { CartItem as CartItemType, SaleRecord, Tender, SaleItem, Discount, Customer, EmbeddedBarcode } from '../types/product';
+import { ProductService, SaleService, StoreService, DiscountService, HeldCartService, CustomerService, GiftCardService, LayawayService } from '../services/localStorageService';
 import { BarcodeInput } from '../components/BarcodeInput';
 import { Cart } from '../components/Cart';
 import { PaymentModal } from '../components/PaymentModal';
+import { CloseShiftModal } from '../components/CloseShiftModal';
+import { DiscountModal } from '../components/DiscountModal';
+import { HoldCartModal } from '../components/HoldCartModal';
+import { CustomerLookup } from '../components/CustomerLookup';
+import { HeldCartsModal } from '../components/HeldCartsModal';
+import { LayawayModal } from '../components/LayawayModal';
+import { VoidSaleModal } from '../components/VoidSaleModal';
 import { Receipt } from '../components/Receipt';
 import { NotificationToast } from '../components/NotificationToast';
 
@@ -13,6 +20,7 @@ import { NotificationToast } from '../components/NotificationToast';
  */
 interface CashierViewProps {
   cashierName: string;
+  sessionId: string;
   assignedStoreId?: string;
   assignedStoreName?: string;
   onLogout: () => void;
@@ -32,12 +40,30 @@ interface Notification {
  * Cashier View Component
  * Complete POS cashier interface with payment and receipt
  */
-export function CashierView({ cashierName, assignedStoreId, assignedStoreName, onLogout, onSwitchToAdmin }: CashierViewProps) {
+export function CashierView({ cashierName, sessionId, assignedStoreId, assignedStoreName, onLogout, onSwitchToAdmin }: CashierViewProps) {
   const [cart, setCart] = useState<CartItemType[]>([]);
   const [showPayment, setShowPayment] = useState(false);
   const [completedSale, setCompletedSale] = useState<SaleRecord | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [showCloseShift, setShowCloseShift] = useState(false);
+  const [cartDiscount, setCartDiscount] = useState<Discount | undefined>(undefined);
+  // Barcode of the line being discounted, or 'cart' for the whole cart
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
+  const [showHoldCart, setShowHoldCart] = useState(false);
+  const [showHeldCarts, setShowHeldCarts] = useState(false);
+  const [showLayaway, setShowLayaway] = useState(false);
+  const [showVoidSale, setShowVoidSale] = useState(false);
+  const [customer, setCustomer] = useState<Customer | undefined>(undefined);
+  // Gift card or store credit scanned at the barcode input, selected when payment opens
+  const [scannedCardCode, setScannedCardCode] = useState<string | undefined>(undefined);
+
+  // Store this terminal sells from; stock checks use this store's inventory
+  const storeId = assignedStoreId || StoreService.getCurrentStore()?.id || 'store-001';
+  const storeName = assignedStoreName || StoreService.getCurrentStore()?.name || 'Main Store';
+
+  // Held carts are shared by every till at the store and survive reloads and cashier changes
+  const [heldCarts, setHeldCarts] = useState(() => HeldCartService.getAll(storeId));
 
   /**
    * Show notification toast
@@ -53,18 +79,61 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
   /**
    * Handle barcode scan
    */
-  const handleScan = (barcode: string) => {
-    const product = ProductService.findByBarcode(barcode);
+  const handleScan = (barcode: string, label?: EmbeddedBarcode) => {
+    const product = ProductService.findByBarcode(barcode, storeId);
 
     if (!product) {
+      // Loyalty cards are scanned at the same input as products
+      const cardholder = CustomerService.findByCard(barcode);
+      if (cardholder) {
+        setCustomer(cardholder);
+        showNotification(`Customer ${cardholder.name} added to sale`, 'success');
+        return;
+      }
+      // Gift cards and store credit open payment with the card selected
+      const giftCard = GiftCardService.findByCode(barcode);
+      if (giftCard) {
+        const label = giftCard.kind === 'gift_card' ? 'Gift card' : 'Store credit';
+        if (cart.length === 0) {
+          showNotification(`${label} ${giftCard.code} balance: $${giftCard.balance.toFixed(2)}`, 'success');
+          return;
+        }
+        setScannedCardCode(giftCard.code);
+        setShowPayment(true);
+        return;
+      }
       showNotification('Product not registered! Please check the barcode.', 'error');
       return;
     }
 
+    if (ProductService.hasVariants(product)) {
+      showNotification(`Scan the ${product.variantAttributes?.join(' / ')} variant of ${product.name}`, 'error');
+      return;
+    }
+
+    // A scale label carries the measure, or the line price to work it out from
+    // A price label is charged as printed; the measure worked out from it is only for stock
+    let quantity = 1;
+    const labelTotal = label?.kind === 'price' ? label.value : undefined;
+    if (label) {
+      if (!product.measureUnit) {
+        showNotification(`${product.name} is not sold by ${label.kind}`, 'error');
+        return;
+      }
+      quantity = ProductService.roundQuantity(label.kind === 'weight' ? label.value : label.value / product.price);
+      if (!(quantity > 0)) {
+        showNotification('Scale label has no quantity on it', 'error');
+        return;
+      }
+    }
+    const added = product.measureUnit
+      ? `${ProductService.formatQuantity(quantity, product.measureUnit)} of ${product.name}`
+      : product.name;
+
     const existingItem = cart.find((item) => item.product.barcode === barcode);
 
     if (existingItem) {
-      if (existingItem.quantity >= product.stock) {
+      if (existingItem.quantity + quantity > product.stock) {
         showNotification(
           `Cannot add more ${product.name}. Only ${product.stock} in stock!`,
           'error'
@@ -75,19 +144,39 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
       setCart((prevCart) =>
         prevCart.map((item) =>
           item.product.barcode === barcode
-            ? { ...item, quantity: item.quantity + 1 }
+            ? {
+                ...item,
+                quantity: ProductService.roundQuantity(item.quantity + quantity),
+                labelTotal:
+                  labelTotal !== undefined || item.labelTotal !== undefined
+                    ? Math.round(
+                        ((item.labelTotal ?? item.product.price * item.quantity) +
+                          (labelTotal ?? product.price * quantity)) *
+                          100
+                      ) / 100
+                    : undefined,
+              }
             : item
         )
       );
-      showNotification(`Added one more ${product.name} to cart`, 'success');
+      showNotification(label ? `Added ${added} to cart` : `Added one more ${added} to cart`, 'success');
     } else {
       if (product.stock === 0) {
         showNotification(`${product.name} is out of stock!`, 'error');
         return;
       }
+      if (quantity > product.stock) {
+        showNotification(`Only ${product.stock} ${product.measureUnit} of ${product.name} in stock!`, 'error');
+        return;
+      }
 
-      setCart((prevCart) => [...prevCart, { product, quantity: 1 }]);
-      showNotification(`${product.name} added to cart`, 'success');
+      setCart((prevCart) => [...prevCart, { product, quantity, labelTotal }]);
+      showNotification(
+        product.measureUnit && !label
+          ? `${product.name} added to cart. Enter the ${product.measureUnit} on the line`
+          : `${added} added to cart`,
+        'success'
+      );
     }
   };
 
@@ -99,7 +188,7 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
       return prevCart
         .map((item) => {
           if (item.product.barcode === barcode) {
-            const newQuantity = item.quantity + delta;
+            const newQuantity = ProductService.roundQuantity(item.quantity + delta);
 
             if (newQuantity <= 0) {
               return null;
@@ -113,7 +202,8 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
               return item;
             }
 
-            return { ...item, quantity: newQuantity };
+            // A changed measure is no longer what the scale label priced
+            return { ...item, quantity: newQuantity, labelTotal: undefined };
           }
           return item;
         })
@@ -136,10 +226,81 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
     if (cart.length === 0) return;
     if (confirm('Are you sure you want to clear the cart?')) {
       setCart([]);
+      setCartDiscount(undefined);
+      setCustomer(undefined);
       showNotification('Cart cleared', 'success');
     }
   };
 
+  /**
+   * Attach a customer to the sale by phone number
+   */
+  const handleCustomerLookup = (phone: string) => {
+    const found = CustomerService.findByPhone(phone);
+    if (!found) {
+      showNotification('No customer with that phone number', 'error');
+      return;
+    }
+    setCustomer(found);
+    showNotification(`Customer ${found.name} added to sale`, 'success');
+  };
+
+  /**
+   * Park the current cart and start a new sale
+   */
+  const handleHoldCart = (label: string) => {
+    const result = HeldCartService.hold(label, storeId, cart, cashierName, cartDiscount, customer?.id);
+    setShowHoldCart(false);
+    if (result.success && result.cart) {
+      setCart([]);
+      setCartDiscount(undefined);
+      setCustomer(undefined);
+      setHeldCarts(HeldCartService.getAll(storeId));
+      showNotification(`Cart held as "${result.cart.label}"`, 'success');
+    } else {
+      showNotification(result.error || 'Failed to hold cart', 'error');
+    }
+  };
+
+  /**
+   * Bring a held cart back, with quantities checked against current stock
+   */
+  const handleRecallCart = (id: string) => {
+    if (cart.length > 0) {
+      showNotification('Hold or clear the current cart first', 'error');
+      return;
+    }
+
+    const result = HeldCartService.recall(id);
+    setHeldCarts(HeldCartService.getAll(storeId));
+    if (!result.success || !result.cart) {
+      showNotification(result.error || 'Failed to recall cart', 'error');
+      return;
+    }
+
+    setCart(result.cart.items);
+    setCartDiscount(result.cart.cartDiscount);
+    setCustomer(result.cart.customerId ? CustomerService.findById(result.cart.customerId) : undefined);
+    setShowHeldCarts(false);
+    if (result.warnings && result.warnings.length > 0) {
+      result.warnings.forEach((warning) => showNotification(warning, 'error'));
+    } else {
+      showNotification(`Recalled "${result.cart.label}"`, 'success');
+    }
+  };
+
+  /**
+   * Discard a held cart
+   */
+  const handleDeleteHeldCart = (id: string) => {
+    if (!confirm('Discard this held cart?')) return;
+    const result = HeldCartService.delete(id);
+    setHeldCarts(HeldCartService.getAll(storeId));
+    if (!result.success) {
+      showNotification(result.error || 'Failed to discard cart', 'error');
+    }
+  };
+
   /**
    * Handle proceed to payment
    */
@@ -151,45 +312,101 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
     setShowPayment(true);
   };
 
+  // Convert cart items to sale items
+  const saleItems: SaleItem[] = cart.map((item) => ({
+    barcode: item.product.barcode,
+    name: item.product.name,
+    price: item.product.price,
+    quantity: item.quantity,
+    // Measured lines (e.g. 0.655 kg) are rounded to the cent; price-labelled lines charge the label
+    total: item.labelTotal ?? Math.round(item.product.price * item.quantity * 100) / 100,
+    parentBarcode: item.product.parentBarcode,
+    measureUnit: item.product.measureUnit,
+    labelTotal: item.labelTotal,
+    baseBarcode: item.product.baseBarcode,
+    unitsPerPack: item.product.unitsPerPack,
+    kitComponents: item.product.kitComponents,
+    discount: item.discount,
+  }));
+
   /**
-   * Handle payment completion
+   * Handle payment completion; resolves false when the sale could not be processed
    */
-  const handlePaymentComplete = async (paymentMethod: PaymentMethod, amountPaid: number) => {
+  const handlePaymentComplete = async (tenders: Tender[]): Promise<boolean> => {
     setIsProcessing(true);
 
-    // Convert cart items to sale items
-    const saleItems: SaleItem[] = cart.map((item) => ({
-      barcode: item.product.barcode,
-      name: item.product.name,
-      price: item.product.price,
-      quantity: item.quantity,
-      total: item.product.price * item.quantity,
-    }));
-
-    // Get store info for the sale
-    const storeId = assignedStoreId || StoreService.getCurrentStore()?.id || 'store-001';
-    const storeName = assignedStoreName || StoreService.getCurrentStore()?.name || 'Main Store';
-
     // Process the sale
     const result = SaleService.processSale(
       saleItems,
-      paymentMethod,
-      amountPaid,
+      tenders,
       cashierName,
       storeId,
-      storeName
+      storeName,
+      sessionId,
+      cartDiscount,
+      customer?.id
     );
 
     if (result.success && result.sale) {
       setCompletedSale(result.sale);
       setCart([]);
+      setCartDiscount(undefined);
+      setCustomer(undefined);
       setShowPayment(false);
+      setScannedCardCode(undefined);
       showNotification('Sale completed successfully!', 'success');
     } else {
       showNotification(result.error || 'Payment failed', 'error');
     }
 
     setIsProcessing(false);
+    return !!result.success;
+  };
+
+  /**
+   * Open the layaway deposit form; a layaway belongs to a customer
+   */
+  const handleOpenLayaway = () => {
+    if (cart.length === 0) {
+      showNotification('Cart is empty', 'error');
+      return;
+    }
+    if (!customer) {
+      showNotification('Attach a customer to start a layaway', 'error');
+      return;
+    }
+    setShowLayaway(true);
+  };
+
+  /**
+   * Take the deposit, reserve the goods and start a new sale
+   */
+  const handleCreateLayaway = (deposit: Tender) => {
+    if (!customer) return;
+
+    const result = LayawayService.create(
+      saleItems,
+      customer.id,
+      deposit,
+      cashierName,
+      storeId,
+      storeName,
+      sessionId,
+      cartDiscount
+    );
+
+    if (result.success && result.layaway) {
+      setShowLayaway(false);
+      setCart([]);
+      setCartDiscount(undefined);
+      setCustomer(undefined);
+      showNotification(
+        `Layaway ${result.layaway.layawayNumber} started. Balance: $${LayawayService.getBalance(result.layaway).toFixed(2)}`,
+        'success'
+      );
+    } else {
+      showNotification(result.error || 'Failed to start layaway', 'error');
+    }
   };
 
   /**
@@ -198,13 +415,31 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
   const handleNewSale = () => {
     setCompletedSale(null);
     setCart([]);
+    setCartDiscount(undefined);
+    setCustomer(undefined);
   };
 
-  // Calculate cart total
-  const cartTotal = cart.reduce(
-    (sum, item) => sum + item.product.price * item.quantity,
-    0
-  );
+  /**
+   * Apply or clear the discount being edited
+   */
+  const handleDiscountChange = (discount?: Discount) => {
+    if (discountTarget === 'cart') {
+      setCartDiscount(discount);
+    } else {
+      setCart((prevCart) =>
+        prevCart.map((item) =>
+          item.product.barcode === discountTarget ? { ...item, discount } : item
+        )
+      );
+    }
+    setDiscountTarget(null);
+    showNotification(discount ? 'Discount applied' : 'Discount removed', 'success');
+  };
+
+  // Calculate cart total after discounts, including any taxes charged on top of shelf prices
+  const cartTotals = SaleService.priceItems(saleItems, storeId, cartDiscount);
+  const discountLine = cart.find((item) => item.product.barcode === discountTarget);
+  const discountPricedLine = cartTotals.items.find((item) => item.barcode === discountTarget);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
@@ -238,7 +473,18 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
                 )}
               </div>
               <button
-                onClick={onLogout}
+                onClick={() => {
+                  setHeldCarts(HeldCartService.getAll(storeId));
+                  setShowHeldCarts(true);
+                }}
+                className="flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-1.5 bg-yellow-100 text-yellow-800 rounded-lg hover:bg-yellow-200 transition-colors text-xs sm:text-sm font-medium"
+              >
+                <PauseCircle className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="hidden sm:inline">Held</span>
+                {heldCarts.length > 0 && <span>({heldCarts.length})</span>}
+              </button>
+              <button
+                onClick={() => setShowCloseShift(true)}
                 className="flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-1.5 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-xs sm:text-sm font-medium"
               >
                 <LogOut className="h-3 w-3 sm:h-4 sm:w-4" />
@@ -274,12 +520,25 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
             </div>
           </div>
 
+          {/* Customer */}
+          <CustomerLookup
+            customer={customer}
+            onLookup={handleCustomerLookup}
+            onClear={() => setCustomer(undefined)}
+            disabled={isProcessing}
+          />
+
           {/* Cart Section */}
           <Cart
             items={cart}
             onUpdateQuantity={handleUpdateQuantity}
             onRemove={handleRemove}
+            onDiscountItem={(barcode) => setDiscountTarget(barcode)}
+            onDiscountCart={() => setDiscountTarget('cart')}
+            totals={cartTotals}
             onClear={handleClearCart}
+            onHold={() => setShowHoldCart(true)}
+            onLayaway={handleOpenLayaway}
             onCheckout={handleProceedToPayment}
             disabled={isProcessing}
           />
@@ -290,8 +549,14 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
       {showPayment && (
         <PaymentModal
           items={cart}
-          total={cartTotal}
-          onClose={() => setShowPayment(false)}
+          total={cartTotals.total}
+          tax={cartTotals.tax}
+          customer={customer}
+          initialCardCode={scannedCardCode}
+          onClose={() => {
+            setShowPayment(false);
+            setScannedCardCode(undefined);
+          }}
           onComplete={handlePaymentComplete}
         />
       )}
@@ -302,6 +567,74 @@ export function CashierView({ cashierName, assignedStoreId, assignedStoreName, o
           sale={completedSale}
           onClose={() => setCompletedSale(null)}
           onNewSale={handleNewSale}
+          onVoid={() => setShowVoidSale(true)}
+        />
+      )}
+
+      {/* Void Sale Modal (manager approval) */}
+      {completedSale && showVoidSale && (
+        <VoidSaleModal
+          sale={completedSale}
+          onVoided={(sale) => {
+            setShowVoidSale(false);
+            setCompletedSale(null);
+            showNotification(`Sale ${sale.receiptNumber} voided`, 'success');
+          }}
+          onClose={() => setShowVoidSale(false)}
+        />
+      )}
+
+      {/* Discount Modal */}
+      {discountTarget && (
+        <DiscountModal
+          title={discountLine ? `Discount: ${discountLine.product.name}` : 'Cart Discount'}
+          amount={
+            discountPricedLine
+              ? DiscountService.getLineAmount(discountPricedLine)
+              : DiscountService.getCartAmount(cartTotals.items)
+          }
+          current={discountLine ? discountLine.discount : cartDiscount}
+          onApply={handleDiscountChange}
+          onRemove={() => handleDiscountChange(undefined)}
+          onClose={() => setDiscountTarget(null)}
+        />
+      )}
+
+      {/* Hold Cart Modal */}
+      {showHoldCart && (
+        <HoldCartModal
+          itemCount={cart.reduce((sum, item) => sum + item.quantity, 0)}
+          onHold={handleHoldCart}
+          onClose={() => setShowHoldCart(false)}
+        />
+      )}
+
+      {/* Layaway Modal */}
+      {showLayaway && customer && (
+        <LayawayModal
+          total={cartTotals.total}
+          customer={customer}
+          onCreate={handleCreateLayaway}
+          onClose={() => setShowLayaway(false)}
+        />
+      )}
+
+      {/* Held Carts Modal */}
+      {showHeldCarts && (
+        <HeldCartsModal
+          carts={heldCarts}
+          onRecall={handleRecallCart}
+          onDelete={handleDeleteHeldCart}
+          onClose={() => setShowHeldCarts(false)}
+        />
+      )}
+
+      {/* Close Shift Modal */}
+      {showCloseShift && (
+        <CloseShiftModal
+          sessionId={sessionId}
+          onClose={() => setShowCloseShift(false)}
+          onShiftClosed={onLogout}
         />
       )}
 
@@ -0,0 +1,495 @@
+import { useState, useEffect } from 'react';
+import { Contact, Plus, Edit2, Trash2, Search, X, History, Award } from 'lucide-react';
+import { Customer, SaleRecord } from '../types/product';
+import { CustomerService, SaleService } from '../services/localStorageService';
+import { NotificationToast } from '../components/NotificationToast';
+
+const EMPTY_FORM = { name: '', phone: '', email: '', cardBarcode: '', creditLimit: '' };
+
+/**
+ * Customers Page
+ * Allows admin to manage customer profiles, loyalty rules and purchase history
+ */
+export function Customers() {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
+  const [history, setHistory] = useState<SaleRecord[]>([]);
+  const [loyaltyForm, setLoyaltyForm] = useState(() => {
+    const settings = CustomerService.getSettings();
+    return {
+      pointsPerDollar: settings.pointsPerDollar.toString(),
+      pointValue: settings.pointValue.toString(),
+      minRedeemPoints: settings.minRedeemPoints.toString(),
+    };
+  });
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    message: string;
+    type: 'success' | 'error';
+  } | null>(null);
+
+  // Load customers function - defined before useEffect
+  const loadCustomers = () => {
+    setCustomers(CustomerService.getAll());
+  };
+
+  // Reload when returning to the tab, since tills earn and redeem points
+  useEffect(() => {
+    loadCustomers();
+
+    const handleFocus = () => {
+      loadCustomers();
+    };
+    window.addEventListener('focus', handleFocus);
+
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+    };
+  }, []);
+
+  /**
+   * Show notification
+   */
+  const showNotification = (message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  /**
+   * Open modal for creating or editing a customer
+   */
+  const openModal = (customer?: Customer) => {
+    setEditingCustomer(customer || null);
+    setFormData(
+      customer
+        ? {
+            name: customer.name,
+            phone: customer.phone,
+            email: customer.email || '',
+            cardBarcode: customer.cardBarcode || '',
+            creditLimit: customer.creditLimit ? customer.creditLimit.toString() : '',
+          }
+        : EMPTY_FORM
+    );
+    setIsModalOpen(true);
+  };
+
+  /**
+   * Handle form submit
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = CustomerService.save({
+      id: editingCustomer?.id,
+      ...formData,
+      creditLimit: formData.creditLimit ? parseFloat(formData.creditLimit) : undefined,
+    });
+    if (result.success) {
+      showNotification(editingCustomer ? 'Customer updated' : 'Customer created', 'success');
+      setIsModalOpen(false);
+      loadCustomers();
+    } else {
+      showNotification(result.error || 'Failed to save customer', 'error');
+    }
+  };
+
+  const handleDelete = (customer: Customer) => {
+    if (!window.confirm(`Delete ${customer.name}? Their ${customer.points} points will be lost.`)) return;
+
+    const result = CustomerService.delete(customer.id);
+    if (result.success) {
+      showNotification('Customer deleted', 'success');
+      loadCustomers();
+    } else {
+      showNotification(result.error || 'Failed to delete customer', 'error');
+    }
+  };
+
+  const openHistory = (customer: Customer) => {
+    setHistoryCustomer(customer);
+    setHistory(CustomerService.getPurchaseHistory(customer.id));
+  };
+
+  /**
+   * Save how points are earned and what they are worth
+   */
+  const handleSaveLoyalty = () => {
+    const result = CustomerService.saveSettings({
+      pointsPerDollar: parseFloat(loyaltyForm.pointsPerDollar),
+      pointValue: parseFloat(loyaltyForm.pointValue),
+      minRedeemPoints: parseFloat(loyaltyForm.minRedeemPoints),
+    });
+    if (result.success) {
+      showNotification('Loyalty rules saved', 'success');
+    } else {
+      showNotification(result.error || 'Failed to save loyalty rules', 'error');
+    }
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  // Filter customers by search
+  const filteredCustomers = customers.filter((customer) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      customer.name.toLowerCase().includes(query) ||
+      customer.phone.includes(query) ||
+      (customer.email || '').toLowerCase().includes(query) ||
+      (customer.cardBarcode || '').includes(query)
+    );
+  });
+
+  const historyTotal = history.reduce((sum, sale) => sum + SaleService.getNetTotal(sale), 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Customers</h1>
+          <p className="text-gray-600 mt-1">Customer profiles and loyalty points</p>
+        </div>
+        <button
+          onClick={() => openModal()}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-5 w-5" />
+          <span>Add Customer</span>
+        </button>
+      </div>
+
+      {/* Loyalty Rules */}
+      <div className="bg-white p-4 rounded-lg shadow-sm flex flex-col lg:flex-row lg:items-end gap-3">
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900">Loyalty rules</p>
+          <p className="text-xs text-gray-500">
+            Points are earned on the part of each sale not paid with points
+          </p>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Points per $1</label>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={loyaltyForm.pointsPerDollar}
+            onChange={(e) => setLoyaltyForm({ ...loyaltyForm, pointsPerDollar: e.target.value })}
+            className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Point value ($)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.001"
+            value={loyaltyForm.pointValue}
+            onChange={(e) => setLoyaltyForm({ ...loyaltyForm, pointValue: e.target.value })}
+            className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Min. to redeem</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={loyaltyForm.minRedeemPoints}
+            onChange={(e) => setLoyaltyForm({ ...loyaltyForm, minRedeemPoints: e.target.value })}
+            className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <button
+          onClick={handleSaveLoyalty}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Save
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+        <input
+          type="text"
+          placeholder="Search customers by name, phone, email, or card..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {/* Customers Table */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Customer
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Contact
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Loyalty Card
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Points
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredCustomers.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center">
+                    <Contact className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">No customers found</p>
+                  </td>
+                </tr>
+              ) : (
+                filteredCustomers.map((customer) => (
+                  <tr key={customer.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <p className="text-sm font-medium text-gray-900">{customer.name}</p>
+                      <p className="text-xs text-gray-500">Since {new Date(customer.createdAt).toLocaleDateString()}</p>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                      <p>{customer.phone}</p>
+                      {customer.email && <p className="text-xs text-gray-500">{customer.email}</p>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-gray-600">
+                      {customer.cardBarcode || '—'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right">
+                      <span className="inline-flex items-center text-sm font-bold text-yellow-700">
+                        <Award className="h-4 w-4 mr-1" />
+                        {customer.points}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-center">
+                      <div className="flex items-center justify-center space-x-2">
+                        <button
+                          onClick={() => openHistory(customer)}
+                          className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Purchase history"
+                        >
+                          <History className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => openModal(customer)}
+                          className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Edit"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(customer)}
+                          className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Customer Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setIsModalOpen(false)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {editingCustomer ? 'Edit Customer' : 'Add Customer'}
+                </h3>
+                <button onClick={() => setIsModalOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div>
+                  <label htmlFor="customerName" className="block text-sm font-medium text-gray-700 mb-1">
+                    Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    id="customerName"
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="customerPhone" className="block text-sm font-medium text-gray-700 mb-1">
+                    Phone <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    id="customerPhone"
+                    type="tel"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="customerEmail" className="block text-sm font-medium text-gray-700 mb-1">
+                    Email
+                  </label>
+                  <input
+                    id="customerEmail"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="customerCard" className="block text-sm font-medium text-gray-700 mb-1">
+                    Loyalty Card Barcode
+                  </label>
+                  <input
+                    id="customerCard"
+                    type="text"
+                    value={formData.cardBarcode}
+                    onChange={(e) => setFormData({ ...formData, cardBarcode: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Scan the card"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="customerCredit" className="block text-sm font-medium text-gray-700 mb-1">
+                    Credit Limit ($)
+                  </label>
+                  <input
+                    id="customerCredit"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.creditLimit}
+                    onChange={(e) => setFormData({ ...formData, creditLimit: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Leave empty for no account"
+                  />
+                </div>
+
+                <div className="flex space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsModalOpen(false)}
+                    className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    {editingCustomer ? 'Save Changes' : 'Create Customer'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Purchase History Modal */}
+      {historyCustomer && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setHistoryCustomer(null)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 sticky top-0 bg-white">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{historyCustomer.name}</h3>
+                  <p className="text-sm text-gray-500">
+                    {history.length} purchase{history.length === 1 ? '' : 's'} · ${historyTotal.toFixed(2)} spent ·{' '}
+                    {historyCustomer.points} points
+                  </p>
+                </div>
+                <button onClick={() => setHistoryCustomer(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6">
+                {history.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">No purchases yet</p>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead>
+                      <tr className="text-xs text-gray-500 uppercase">
+                        <th className="py-2 text-left">Date</th>
+                        <th className="py-2 text-left">Receipt</th>
+                        <th className="py-2 text-left">Store</th>
+                        <th className="py-2 text-right">Total</th>
+                        <th className="py-2 text-right">Points</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {history.map((sale) => (
+                        <tr key={sale.id}>
+                          <td className="py-2 text-gray-600">{formatDate(sale.timestamp)}</td>
+                          <td className="py-2 font-mono">{sale.receiptNumber}</td>
+                          <td className="py-2 text-gray-600">{sale.storeName}</td>
+                          <td className="py-2 text-right font-medium">
+                            ${sale.total.toFixed(2)}
+                            {sale.refundedTotal ? (
+                              <p className="text-xs text-orange-600">-${sale.refundedTotal.toFixed(2)} refunded</p>
+                            ) : null}
+                            {sale.voidedAt && <p className="text-xs text-red-600">Voided</p>}
+                          </td>
+                          <td className="py-2 text-right">
+                            <span className="text-green-600">+{sale.pointsEarned || 0}</span>
+                            {sale.pointsRedeemed ? (
+                              <span className="text-red-600 ml-2">-{sale.pointsRedeemed}</span>
+                            ) : null}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Notification */}
+      {notification && (
+        <NotificationToast
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+    </div>
+  );
+}
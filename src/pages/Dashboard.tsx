@@ -7,9 +7,10 @@ import {
   TrendingUp,
   ArrowRight,
   Store,
+  Clock,
 } from 'lucide-react';
-import { DashboardStats, Product } from '../types/product';
-import { DashboardService, LOW_STOCK_THRESHOLD, SaleService, StoreService } from '../services/localStorageService';
+import { DashboardStats, Product, ReorderSuggestion } from '../types/product';
+import { DashboardService, LOW_STOCK_THRESHOLD, ReorderService, SaleService, StoreService } from '../services/localStorageService';
 import { useStore } from '../contexts/StoreContext';
 import { SalesLineChart } from '../components/charts/SalesLineChart';
 import { BestSellingChart } from '../components/charts/BestSellingChart';
@@ -26,19 +27,13 @@ function generateTodaySalesData() {
 }
 
 /**
- * Generate mock best-selling items data
+ * Best-selling products over the last 30 days, with variants counted under their parent
  */
-function generateBestSellingData() {
-  return [
-    { name: 'African Black Soap', sold: 45, revenue: 450 },
-    { name: 'Shea Body Butter', sold: 38, revenue: 760 },
-    { name: 'Coconut Oil', sold: 32, revenue: 384 },
-    { name: 'Hair Growth Serum', sold: 28, revenue: 840 },
-    { name: 'Face Moisturizer', sold: 25, revenue: 625 },
-    { name: 'Lip Balm Set', sold: 22, revenue: 220 },
-    { name: 'Bath Bombs', sold: 18, revenue: 270 },
-    { name: 'Essential Oil Blend', sold: 15, revenue: 450 },
-  ];
+function getBestSellingData(storeId?: string) {
+  const end = new Date();
+  const start = new Date(end);
+  start.setDate(start.getDate() - 30);
+  return SaleService.getProductSales(SaleService.getByDateRange(start, end, storeId));
 }
 
 /**
@@ -54,8 +49,9 @@ export function Dashboard() {
     lowStockProducts: 0,
   });
   const [lowStockItems, setLowStockItems] = useState<Product[]>([]);
+  const [stockoutWarnings, setStockoutWarnings] = useState<ReorderSuggestion[]>([]);
   const [todaySalesData, setTodaySalesData] = useState(generateTodaySalesData());
-  const [bestSellingData, setBestSellingData] = useState(generateBestSellingData());
+  const [bestSellingData, setBestSellingData] = useState(() => getBestSellingData(StoreService.getCurrentStore()?.id));
   const [todayRevenue, setTodayRevenue] = useState(0);
   const [todaySales, setTodaySales] = useState(0);
 
@@ -63,20 +59,19 @@ export function Dashboard() {
    * Load dashboard data - defined before useEffect
    */
   const loadDashboardData = () => {
-    // Get all products and filter by store if needed
-    // For now, we show all products but in a real implementation,
-    // products would be filtered by store ID
-    setStats(DashboardService.getStats());
-    setLowStockItems(DashboardService.getLowStockProducts(LOW_STOCK_THRESHOLD));
+    // Stock figures are for the current store
+    const storeId = StoreService.getCurrentStore()?.id;
+    setStats(DashboardService.getStats(storeId));
+    setLowStockItems(DashboardService.getLowStockProducts(LOW_STOCK_THRESHOLD, storeId));
+    setStockoutWarnings(ReorderService.getStockoutWarnings(storeId));
     
     // Get today's sales for current store
-    const storeId = StoreService.getCurrentStore()?.id;
     const todaySalesList = storeId 
       ? SaleService.getTodaySales(storeId)
       : SaleService.getTodaySales();
-    const totalRevenue = todaySalesList.reduce((sum, sale) => sum + sale.total, 0);
-    setTodayRevenue(totalRevenue);
-    setTodaySales(todaySalesList.length);
+    setTodayRevenue(SaleService.getDailyTotals(new Date(), storeId).totalRevenue);
+    setTodaySales(todaySalesList.filter((sale) => !SaleService.isVoided(sale)).length);
+    setBestSellingData(getBestSellingData(storeId));
   };
 
   // Load dashboard data on mount and when store changes
@@ -98,7 +93,6 @@ export function Dashboard() {
     // Simulate real-time updates every 30 seconds
     const interval = setInterval(() => {
       setTodaySalesData(generateTodaySalesData());
-      setBestSellingData(generateBestSellingData());
     }, 30000);
 
     return () => {
@@ -199,6 +193,55 @@ export function Dashboard() {
         />
       </div>
 
+      {/* Stockout Warnings */}
+      {stockoutWarnings.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-red-100 rounded-lg">
+                  <Clock className="h-5 w-5 text-red-600" />
+                </div>
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">Stockout Warnings</h2>
+                  <p className="text-sm text-gray-600">
+                    Products that will run out before a delivery ordered today could arrive
+                  </p>
+                </div>
+              </div>
+              <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full">
+                {stockoutWarnings.length} items
+              </span>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-3">
+            {stockoutWarnings.map((item) => (
+              <div
+                key={item.barcode}
+                className="flex items-center justify-between p-4 bg-red-50 rounded-lg border border-red-200"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{item.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {item.stock} in stock · selling {item.dailyVelocity.toFixed(2)}/day ·{' '}
+                    {item.supplierName || 'no supplier'}, {item.leadTimeDays} day lead time
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-medium text-red-700">
+                    {item.stockoutAt
+                      ? `Out by ${new Date(item.stockoutAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+                      : 'Below safety stock'}
+                  </p>
+                  <p className="text-xs text-gray-600">Order {item.suggestedQuantity} now</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Low Stock Alert Section */}
       <div className="bg-white rounded-lg shadow-md">
         <div className="p-6 border-b border-gray-200">
@@ -0,0 +1,442 @@
+import { useState, useEffect } from 'react';
+import { Ticket, Wallet, Plus, X, Search, BookOpen } from 'lucide-react';
+import { GiftCard, GiftCardKind, GiftCardTransaction, Customer } from '../types/product';
+import { GiftCardService, CustomerService } from '../services/localStorageService';
+import { useAuth } from '../contexts/AuthContext';
+import { NotificationToast } from '../components/NotificationToast';
+
+const KIND_LABELS: Record<GiftCardKind, string> = {
+  gift_card: 'Gift Card',
+  store_credit: 'Store Credit',
+};
+
+const TRANSACTION_LABELS: Record<GiftCardTransaction['type'], string> = {
+  issue: 'Issued',
+  redeem: 'Redeemed',
+  refund: 'Refunded',
+};
+
+/**
+ * Gift Cards Page
+ * Allows admin to issue gift cards and store credit and review the balance ledger
+ */
+export function GiftCards() {
+  const { user } = useAuth();
+  const [cards, setCards] = useState<GiftCard[]>([]);
+  const [ledger, setLedger] = useState<GiftCardTransaction[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [activeTab, setActiveTab] = useState<'cards' | 'ledger'>('cards');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [ledgerCode, setLedgerCode] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState({
+    kind: 'gift_card' as GiftCardKind,
+    amount: '',
+    code: '',
+    customerId: '',
+  });
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    message: string;
+    type: 'success' | 'error';
+  } | null>(null);
+
+  // Load cards function - defined before useEffect
+  const loadCards = () => {
+    setCards(GiftCardService.getAll());
+    setLedger(GiftCardService.getLedger());
+    setCustomers(CustomerService.getAll());
+  };
+
+  // Reload when returning to the tab, since tills redeem balances
+  useEffect(() => {
+    loadCards();
+
+    const handleFocus = () => {
+      loadCards();
+    };
+    window.addEventListener('focus', handleFocus);
+
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+    };
+  }, []);
+
+  /**
+   * Show notification
+   */
+  const showNotification = (message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const openModal = () => {
+    setFormData({ kind: 'gift_card', amount: '', code: '', customerId: '' });
+    setIsModalOpen(true);
+  };
+
+  /**
+   * Handle issue form submit
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = GiftCardService.issue(formData.kind, parseFloat(formData.amount), user?.username || 'admin', {
+      code: formData.code || undefined,
+      customerId: formData.customerId || undefined,
+    });
+
+    if (result.success && result.card) {
+      showNotification(`${KIND_LABELS[result.card.kind]} ${result.card.code} issued`, 'success');
+      setIsModalOpen(false);
+      loadCards();
+    } else {
+      showNotification(result.error || 'Failed to issue card', 'error');
+    }
+  };
+
+  const openLedger = (code: string) => {
+    setLedgerCode(code);
+    setActiveTab('ledger');
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const customerName = (id?: string) => customers.find((c) => c.id === id)?.name;
+
+  // Outstanding balances are what the store still owes card holders
+  const liability = GiftCardService.getLiability();
+
+  const filteredCards = cards.filter((card) => {
+    const query = searchQuery.toLowerCase();
+    return card.code.toLowerCase().includes(query) || (customerName(card.customerId) || '').toLowerCase().includes(query);
+  });
+
+  const filteredLedger = ledgerCode ? ledger.filter((entry) => entry.code === ledgerCode) : ledger;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Gift Cards &amp; Store Credit</h1>
+          <p className="text-gray-600 mt-1">Issue cards and track what the store owes</p>
+        </div>
+        <button
+          onClick={openModal}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-5 w-5" />
+          <span>Issue Card</span>
+        </button>
+      </div>
+
+      {/* Liability */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <p className="text-sm text-gray-600">Gift card liability</p>
+          <p className="text-2xl font-bold text-pink-600">${liability.gift_card.toFixed(2)}</p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <p className="text-sm text-gray-600">Store credit liability</p>
+          <p className="text-2xl font-bold text-teal-600">${liability.store_credit.toFixed(2)}</p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <p className="text-sm text-gray-600">Total outstanding</p>
+          <p className="text-2xl font-bold text-gray-900">
+            ${(liability.gift_card + liability.store_credit).toFixed(2)}
+          </p>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-6">
+          {(['cards', 'ledger'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => {
+                setActiveTab(tab);
+                setLedgerCode('');
+              }}
+              className={`pb-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === tab
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab === 'cards' ? `Cards (${cards.length})` : 'Ledger'}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {activeTab === 'cards' && (
+        <>
+          {/* Search */}
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+            <input
+              type="text"
+              placeholder="Search by code or customer..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issued</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Initial</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredCards.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-12 text-center">
+                        <Ticket className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                        <p className="text-gray-500">No cards issued yet</p>
+                      </td>
+                    </tr>
+                  ) : (
+                    filteredCards.map((card) => (
+                      <tr key={card.id} className="hover:bg-gray-50 transition-colors">
+                        <td className="px-4 py-3 whitespace-nowrap text-sm font-mono font-medium text-gray-900">
+                          {card.code}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span
+                            className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                              card.kind === 'gift_card' ? 'bg-pink-100 text-pink-700' : 'bg-teal-100 text-teal-700'
+                            }`}
+                          >
+                            {card.kind === 'gift_card' ? (
+                              <Ticket className="h-3 w-3 mr-1" />
+                            ) : (
+                              <Wallet className="h-3 w-3 mr-1" />
+                            )}
+                            {KIND_LABELS[card.kind]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                          {customerName(card.customerId) || '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                          {formatDate(card.issuedAt)}
+                          <p className="text-xs text-gray-400">by {card.issuedBy}</p>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-600">
+                          ${card.initialBalance.toFixed(2)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-bold text-gray-900">
+                          ${card.balance.toFixed(2)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-center">
+                          <button
+                            onClick={() => openLedger(card.code)}
+                            className="inline-flex items-center px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium hover:bg-blue-200 transition-colors"
+                          >
+                            <BookOpen className="h-3 w-3 mr-1" />
+                            Ledger
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {activeTab === 'ledger' && (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {ledgerCode && (
+            <div className="flex items-center justify-between px-4 py-3 bg-blue-50 text-sm text-blue-700">
+              <span>
+                Showing movements for <span className="font-mono font-medium">{ledgerCode}</span>
+              </span>
+              <button onClick={() => setLedgerCode('')} className="font-medium hover:underline">
+                Show all
+              </button>
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Movement</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredLedger.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                      No balance movements yet
+                    </td>
+                  </tr>
+                ) : (
+                  filteredLedger.map((entry) => (
+                    <tr key={entry.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{formatDate(entry.timestamp)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm font-mono">{entry.code}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {KIND_LABELS[entry.kind]} {TRANSACTION_LABELS[entry.type].toLowerCase()}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-gray-600">
+                        {entry.reference || '—'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{entry.performedBy}</td>
+                      <td
+                        className={`px-4 py-3 whitespace-nowrap text-right text-sm font-medium ${
+                          entry.amount < 0 ? 'text-red-600' : 'text-green-600'
+                        }`}
+                      >
+                        {entry.amount < 0 ? '-' : '+'}${Math.abs(entry.amount).toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                        ${entry.balanceAfter.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Issue Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setIsModalOpen(false)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">Issue Card</h3>
+                <button onClick={() => setIsModalOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div className="grid grid-cols-2 gap-2">
+                  {(['gift_card', 'store_credit'] as const).map((kind) => (
+                    <button
+                      key={kind}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, kind })}
+                      className={`py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                        formData.kind === kind ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600'
+                      }`}
+                    >
+                      {KIND_LABELS[kind]}
+                    </button>
+                  ))}
+                </div>
+
+                <div>
+                  <label htmlFor="cardAmount" className="block text-sm font-medium text-gray-700 mb-1">
+                    Starting Balance ($) <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    id="cardAmount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="cardCode" className="block text-sm font-medium text-gray-700 mb-1">
+                    Code
+                  </label>
+                  <input
+                    id="cardCode"
+                    type="text"
+                    value={formData.code}
+                    onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg font-mono uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Scan a card or leave blank to generate"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="cardCustomer" className="block text-sm font-medium text-gray-700 mb-1">
+                    Customer
+                  </label>
+                  <select
+                    id="cardCustomer"
+                    value={formData.customerId}
+                    onChange={(e) => setFormData({ ...formData, customerId: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">None</option>
+                    {customers.map((customer) => (
+                      <option key={customer.id} value={customer.id}>
+                        {customer.name} ({customer.phone})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsModalOpen(false)}
+                    className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Issue
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Notification */}
+      {notification && (
+        <NotificationToast
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,628 @@
+import { useState, useEffect } from 'react';
+import { CalendarClock, Search, X, HandCoins, PackageCheck, XCircle, Eye } from 'lucide-react';
+import { Layaway, LayawayStatus, PaymentMethod } from '../types/product';
+import { LayawayService, ProductService } from '../services/localStorageService';
+import { useAuth } from '../contexts/AuthContext';
+import { NotificationToast } from '../components/NotificationToast';
+
+const METHOD_LABELS: Partial<Record<PaymentMethod, string>> = {
+  cash: 'Cash',
+  card: 'Card',
+  mobile_money: 'Mobile Money',
+  gift_card: 'Gift Card',
+  store_credit: 'Store Credit',
+};
+
+const STATUS_STYLES: Record<LayawayStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+/**
+ * Layaways Page
+ * Allows admin to take installments on layaways, hand them over when paid off, or cancel them
+ */
+export function Layaways() {
+  const { user } = useAuth();
+  const performedBy = user?.username || 'admin';
+  const [layaways, setLayaways] = useState<Layaway[]>([]);
+  const [activeTab, setActiveTab] = useState<LayawayStatus>('open');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [detailLayaway, setDetailLayaway] = useState<Layaway | null>(null);
+  const [payingLayaway, setPayingLayaway] = useState<Layaway | null>(null);
+  const [paymentForm, setPaymentForm] = useState({ amount: '', method: 'cash' as PaymentMethod, reference: '' });
+  const [cancellingLayaway, setCancellingLayaway] = useState<Layaway | null>(null);
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('cash');
+  const [settingsForm, setSettingsForm] = useState(() => {
+    const settings = LayawayService.getSettings();
+    return {
+      minDepositPercent: settings.minDepositPercent.toString(),
+      termDays: settings.termDays.toString(),
+      forfeitPercent: settings.forfeitPercent.toString(),
+    };
+  });
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    message: string;
+    type: 'success' | 'error';
+  } | null>(null);
+
+  // Load layaways function - defined before useEffect
+  const loadLayaways = () => {
+    setLayaways(LayawayService.getAll());
+  };
+
+  // Reload when returning to the tab, since tills start new layaways
+  useEffect(() => {
+    loadLayaways();
+
+    const handleFocus = () => {
+      loadLayaways();
+    };
+    window.addEventListener('focus', handleFocus);
+
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+    };
+  }, []);
+
+  /**
+   * Show notification
+   */
+  const showNotification = (message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  /**
+   * Save deposit, term and forfeit rules
+   */
+  const handleSaveSettings = () => {
+    const result = LayawayService.saveSettings({
+      minDepositPercent: parseFloat(settingsForm.minDepositPercent),
+      termDays: parseFloat(settingsForm.termDays),
+      forfeitPercent: parseFloat(settingsForm.forfeitPercent),
+    });
+    if (result.success) {
+      showNotification('Layaway rules saved', 'success');
+    } else {
+      showNotification(result.error || 'Failed to save layaway rules', 'error');
+    }
+  };
+
+  const openPayment = (layaway: Layaway) => {
+    setPayingLayaway(layaway);
+    setPaymentForm({ amount: LayawayService.getBalance(layaway).toFixed(2), method: 'cash', reference: '' });
+  };
+
+  /**
+   * Handle installment form submit
+   */
+  const handlePayment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingLayaway) return;
+
+    const result = LayawayService.addPayment(
+      payingLayaway.id,
+      {
+        method: paymentForm.method,
+        amount: parseFloat(paymentForm.amount),
+        reference: paymentForm.reference || undefined,
+      },
+      performedBy
+    );
+    if (result.success && result.layaway) {
+      const balance = LayawayService.getBalance(result.layaway);
+      showNotification(
+        balance > 0 ? `Payment taken. Balance: $${balance.toFixed(2)}` : 'Layaway paid in full, ready to collect',
+        'success'
+      );
+      setPayingLayaway(null);
+      loadLayaways();
+    } else {
+      showNotification(result.error || 'Failed to take payment', 'error');
+    }
+  };
+
+  const handleComplete = (layaway: Layaway) => {
+    if (!window.confirm(`Hand over the goods on ${layaway.layawayNumber} to ${layaway.customerName}?`)) return;
+
+    const result = LayawayService.complete(layaway.id, performedBy);
+    if (result.success && result.sale) {
+      showNotification(`Layaway completed as sale ${result.sale.receiptNumber}`, 'success');
+      loadLayaways();
+    } else {
+      showNotification(result.error || 'Failed to complete layaway', 'error');
+    }
+  };
+
+  const openCancel = (layaway: Layaway) => {
+    setCancellingLayaway(layaway);
+    setRefundMethod('cash');
+  };
+
+  const handleCancel = () => {
+    if (!cancellingLayaway) return;
+
+    const result = LayawayService.cancel(cancellingLayaway.id, performedBy, refundMethod);
+    if (result.success && result.layaway) {
+      const refund = result.layaway.refundAmount || 0;
+      const credited = result.layaway.creditedCardCode ? ` to ${result.layaway.creditedCardCode}` : '';
+      showNotification(`Layaway cancelled. Refund: $${refund.toFixed(2)}${credited}`, 'success');
+      setCancellingLayaway(null);
+      loadLayaways();
+    } else {
+      showNotification(result.error || 'Failed to cancel layaway', 'error');
+    }
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const filteredLayaways = layaways.filter((layaway) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      layaway.status === activeTab &&
+      (layaway.layawayNumber.toLowerCase().includes(query) || layaway.customerName.toLowerCase().includes(query))
+    );
+  });
+
+  const isCardMethod = paymentForm.method === 'gift_card' || paymentForm.method === 'store_credit';
+  const cancelForfeit = cancellingLayaway ? LayawayService.getForfeit(cancellingLayaway) : 0;
+  const cancelRefund = cancellingLayaway ? cancellingLayaway.amountPaid - cancelForfeit : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Layaways</h1>
+        <p className="text-gray-600 mt-1">Goods reserved on a deposit until they are paid off</p>
+      </div>
+
+      {/* Layaway Rules */}
+      <div className="bg-white p-4 rounded-lg shadow-sm flex flex-col lg:flex-row lg:items-end gap-3">
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900">Layaway rules</p>
+          <p className="text-xs text-gray-500">The forfeit is the share of the amount paid kept when a layaway is cancelled</p>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Min. deposit (%)</label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={settingsForm.minDepositPercent}
+            onChange={(e) => setSettingsForm({ ...settingsForm, minDepositPercent: e.target.value })}
+            className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Term (days)</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={settingsForm.termDays}
+            onChange={(e) => setSettingsForm({ ...settingsForm, termDays: e.target.value })}
+            className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Forfeit (%)</label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={settingsForm.forfeitPercent}
+            onChange={(e) => setSettingsForm({ ...settingsForm, forfeitPercent: e.target.value })}
+            className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <button
+          onClick={handleSaveSettings}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Save
+        </button>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-6">
+          {(['open', 'completed', 'cancelled'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`pb-3 text-sm font-medium border-b-2 transition-colors capitalize ${
+                activeTab === tab
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab} ({layaways.filter((layaway) => layaway.status === tab).length})
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+        <input
+          type="text"
+          placeholder="Search by layaway # or customer..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {/* Layaways Table */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Layaway
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Customer
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Paid
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Balance
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Due
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredLayaways.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center">
+                    <CalendarClock className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">No {activeTab} layaways</p>
+                  </td>
+                </tr>
+              ) : (
+                filteredLayaways.map((layaway) => {
+                  const balance = LayawayService.getBalance(layaway);
+                  const overdue = LayawayService.isOverdue(layaway);
+                  return (
+                    <tr key={layaway.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <p className="text-sm font-mono font-medium text-gray-900">{layaway.layawayNumber}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(layaway.createdAt)} · {layaway.storeName}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{layaway.customerName}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                        ${layaway.total.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-green-600">
+                        ${layaway.amountPaid.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-bold text-gray-900">
+                        ${balance.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">
+                        {layaway.status === 'open' ? (
+                          <span className={overdue ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                            {formatDate(layaway.dueDate)}
+                            {overdue && ' (overdue)'}
+                          </span>
+                        ) : (
+                          <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[layaway.status]}`}>
+                            {layaway.status}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-center">
+                        <div className="flex items-center justify-center space-x-2">
+                          <button
+                            onClick={() => setDetailLayaway(layaway)}
+                            className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Details"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </button>
+                          {layaway.status === 'open' && (
+                            <>
+                              <button
+                                onClick={() => openPayment(layaway)}
+                                disabled={balance <= 0}
+                                className="p-1.5 text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                                title="Take payment"
+                              >
+                                <HandCoins className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => handleComplete(layaway)}
+                                disabled={balance > 0}
+                                className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                                title="Complete"
+                              >
+                                <PackageCheck className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => openCancel(layaway)}
+                                className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                title="Cancel"
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Detail Modal */}
+      {detailLayaway && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setDetailLayaway(null)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 sticky top-0 bg-white">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{detailLayaway.layawayNumber}</h3>
+                  <p className="text-sm text-gray-500">
+                    {detailLayaway.customerName} · started by {detailLayaway.createdBy}
+                  </p>
+                </div>
+                <button onClick={() => setDetailLayaway(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4 text-sm">
+                <div>
+                  <h4 className="font-medium text-gray-900 mb-2">Items</h4>
+                  <div className="space-y-1">
+                    {detailLayaway.items.map((item) => (
+                      <div key={item.barcode} className="flex justify-between">
+                        <span>
+                          {item.name} × {ProductService.formatQuantity(item.quantity, item.measureUnit)}
+                        </span>
+                        <span>${item.total.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between font-semibold border-t border-gray-200 mt-2 pt-2">
+                    <span>Total</span>
+                    <span>${detailLayaway.total.toFixed(2)}</span>
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="font-medium text-gray-900 mb-2">Payments</h4>
+                  <div className="space-y-1">
+                    {detailLayaway.payments.map((payment, index) => (
+                      <div key={index} className="flex justify-between">
+                        <span className="text-gray-600">
+                          {formatDate(payment.timestamp)} · {METHOD_LABELS[payment.method] || payment.method}
+                          {payment.reference && ` ${payment.reference}`} · {payment.receivedBy}
+                        </span>
+                        <span>${payment.amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {detailLayaway.status === 'completed' && (
+                  <p className="text-green-700">
+                    Collected {formatDate(detailLayaway.completedAt!)} as sale {detailLayaway.receiptNumber}
+                  </p>
+                )}
+                {detailLayaway.status === 'cancelled' && (
+                  <p className="text-gray-700">
+                    Cancelled {formatDate(detailLayaway.cancelledAt!)} by {detailLayaway.cancelledBy}. Forfeited $
+                    {(detailLayaway.forfeitedAmount || 0).toFixed(2)}, refunded ${(detailLayaway.refundAmount || 0).toFixed(2)}
+                    {detailLayaway.refundMethod && ` (${METHOD_LABELS[detailLayaway.refundMethod]})`}
+                    {detailLayaway.creditedCardCode && ` to ${detailLayaway.creditedCardCode}`}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Payment Modal */}
+      {payingLayaway && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setPayingLayaway(null)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">Take Payment</h3>
+                <button onClick={() => setPayingLayaway(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handlePayment} className="p-6 space-y-4">
+                <p className="text-sm text-gray-600">
+                  {payingLayaway.customerName} owes ${LayawayService.getBalance(payingLayaway).toFixed(2)} on{' '}
+                  {payingLayaway.layawayNumber}
+                </p>
+                <div>
+                  <label htmlFor="installmentAmount" className="block text-sm font-medium text-gray-700 mb-1">
+                    Amount ($)
+                  </label>
+                  <input
+                    id="installmentAmount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={paymentForm.amount}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="installmentMethod" className="block text-sm font-medium text-gray-700 mb-1">
+                    Paid By
+                  </label>
+                  <select
+                    id="installmentMethod"
+                    value={paymentForm.method}
+                    onChange={(e) =>
+                      setPaymentForm({ ...paymentForm, method: e.target.value as PaymentMethod, reference: '' })
+                    }
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {Object.entries(METHOD_LABELS).map(([method, label]) => (
+                      <option key={method} value={method}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {isCardMethod && (
+                  <div>
+                    <label htmlFor="installmentCard" className="block text-sm font-medium text-gray-700 mb-1">
+                      Card Code
+                    </label>
+                    <input
+                      id="installmentCard"
+                      type="text"
+                      value={paymentForm.reference}
+                      onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+                      className="block w-full px-3 py-2 border border-gray-300 rounded-lg font-mono uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Scan or type code"
+                      required
+                    />
+                  </div>
+                )}
+
+                <div className="flex space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setPayingLayaway(null)}
+                    className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 py-2 px-4 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                  >
+                    Take Payment
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Cancel Modal */}
+      {cancellingLayaway && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setCancellingLayaway(null)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">Cancel Layaway</h3>
+                <button onClick={() => setCancellingLayaway(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <p className="text-sm text-gray-600">
+                  The reserved goods go back on sale and {cancellingLayaway.customerName} is refunded what they paid,
+                  less the forfeit.
+                </p>
+                <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Paid:</span>
+                    <span>${cancellingLayaway.amountPaid.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Forfeit ({LayawayService.getSettings().forfeitPercent}%):</span>
+                    <span className="text-red-600">-${cancelForfeit.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-bold">
+                    <span>Refund:</span>
+                    <span>${cancelRefund.toFixed(2)}</span>
+                  </div>
+                </div>
+                {cancelRefund > 0 && (
+                  <div>
+                    <label htmlFor="layawayRefundMethod" className="block text-sm font-medium text-gray-700 mb-1">
+                      Refund Method
+                    </label>
+                    <select
+                      id="layawayRefundMethod"
+                      value={refundMethod}
+                      onChange={(e) => setRefundMethod(e.target.value as PaymentMethod)}
+                      className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="cash">Cash</option>
+                      <option value="card">Card</option>
+                      <option value="mobile_money">Mobile Money</option>
+                      <option value="store_credit">Store Credit (new code)</option>
+                    </select>
+                  </div>
+                )}
+
+                <div className="flex space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setCancellingLayaway(null)}
+                    className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Keep
+                  </button>
+                  <button
+                    onClick={handleCancel}
+                    className="flex-1 py-2 px-4 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                  >
+                    Cancel Layaway
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Notification */}
+      {notification && (
+        <NotificationToast
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -13,7 +13,7 @@ import {
   Store as StoreIcon,
 } from 'lucide-react';
 import { Manager, Store } from '../types/product';
-import { ManagerService, StoreService } from '../services/localStorageService';
+import { ManagerService, StoreService, DiscountService, HeldCartService } from '../services/localStorageService';
 import { NotificationToast } from '../components/NotificationToast';
 
 /**
@@ -29,6 +29,10 @@ export function ManagerManagement() {
   const [isAssignModalOpen, setIsAssignModalOpen] = useState(false);
   const [assigningManager, setAssigningManager] = useState<Manager | null>(null);
   const [selectedStoreId, setSelectedStoreId] = useState('');
+  const [approvalThreshold, setApprovalThreshold] = useState(
+    DiscountService.getSettings().approvalThreshold.toString()
+  );
+  const [heldCartExpiry, setHeldCartExpiry] = useState(HeldCartService.getSettings().expiryHours.toString());
 
   // Notification state
   const [notification, setNotification] = useState<{
@@ -70,6 +74,30 @@ export function ManagerManagement() {
     setTimeout(() => setNotification(null), 3000);
   };
 
+  /**
+   * Save the discount percentage above which a manager must approve
+   */
+  const handleSaveThreshold = () => {
+    const result = DiscountService.saveSettings({ approvalThreshold: parseFloat(approvalThreshold) });
+    if (result.success) {
+      showNotification('Discount approval threshold saved', 'success');
+    } else {
+      showNotification(result.error || 'Failed to save threshold', 'error');
+    }
+  };
+
+  /**
+   * Save how long a held cart stays recallable at the till
+   */
+  const handleSaveHeldCartExpiry = () => {
+    const result = HeldCartService.saveSettings({ expiryHours: parseFloat(heldCartExpiry) });
+    if (result.success) {
+      showNotification('Held cart expiry saved', 'success');
+    } else {
+      showNotification(result.error || 'Failed to save expiry', 'error');
+    }
+  };
+
   /**
    * Hide notification
    */
@@ -286,6 +314,61 @@ export function ManagerManagement() {
         </div>
       </div>
 
+      {/* Discount Approval */}
+      <div className="bg-white p-4 rounded-lg shadow-sm flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900">Discount approval threshold</p>
+          <p className="text-xs text-gray-500">
+            Discounts above this percentage need a manager ID and password at the till
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.5"
+            value={approvalThreshold}
+            onChange={(e) => setApprovalThreshold(e.target.value)}
+            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-gray-500">%</span>
+          <button
+            onClick={handleSaveThreshold}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {/* Held Cart Expiry */}
+      <div className="bg-white p-4 rounded-lg shadow-sm flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900">Held cart expiry</p>
+          <p className="text-xs text-gray-500">
+            Carts held at the till are discarded after this many hours
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={heldCartExpiry}
+            onChange={(e) => setHeldCartExpiry(e.target.value)}
+            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-gray-500">hrs</span>
+          <button
+            onClick={handleSaveHeldCartExpiry}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
       {/* Search */}
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
@@ -8,20 +8,35 @@ import {
   ArrowUpDown,
   AlertCircle,
   RefreshCw,
+  Layers,
+  Boxes,
+  PackagePlus,
+  Repeat,
+  SlidersHorizontal,
+  History,
 } from 'lucide-react';
 import { Product, SortField, SortOrder } from '../types/product';
 import { ProductService, LOW_STOCK_THRESHOLD } from '../services/localStorageService';
+import { useStore } from '../contexts/StoreContext';
 
 // Modal components will be imported
 import { ProductModal } from '../components/admin/ProductModal';
 import { DeleteConfirmModal } from '../components/admin/DeleteConfirmModal';
 import { RestockModal } from '../components/admin/RestockModal';
+import { VariantGridModal } from '../components/admin/VariantGridModal';
+import { PackUnitsModal } from '../components/admin/PackUnitsModal';
+import { KitModal } from '../components/admin/KitModal';
+import { ReorderRuleModal } from '../components/admin/ReorderRuleModal';
+import { StockAdjustmentModal } from '../components/admin/StockAdjustmentModal';
+import { StockHistoryModal } from '../components/admin/StockHistoryModal';
 
 /**
  * Products Management Page
  * Displays product list with search, sort, and action capabilities
  */
 export function Products() {
+  const { currentStore } = useStore();
+
   // State for products and UI
   const [products, setProducts] = useState<Product[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -33,6 +48,12 @@ export function Products() {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [isRestockModalOpen, setIsRestockModalOpen] = useState(false);
+  const [isVariantModalOpen, setIsVariantModalOpen] = useState(false);
+  const [isPackModalOpen, setIsPackModalOpen] = useState(false);
+  const [isKitModalOpen, setIsKitModalOpen] = useState(false);
+  const [isReorderModalOpen, setIsReorderModalOpen] = useState(false);
+  const [isAdjustModalOpen, setIsAdjustModalOpen] = useState(false);
+  const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
 
   // Notification state
@@ -41,10 +62,16 @@ export function Products() {
     type: 'success' | 'error';
   } | null>(null);
 
-  // Load products on mount
+  // Load products on mount and when store changes (stock is per store)
   useEffect(() => {
     loadProducts();
-  }, []);
+
+    const handleStoreChange = () => {
+      loadProducts();
+    };
+    window.addEventListener('storeChanged', handleStoreChange);
+    return () => window.removeEventListener('storeChanged', handleStoreChange);
+  }, [currentStore]);
 
   // Listen for navigation event from dashboard
   useEffect(() => {
@@ -72,27 +99,33 @@ export function Products() {
     setTimeout(() => setNotification(null), 3000);
   };
 
+  // Variants are listed under their parent rather than as products of their own
+  const catalogProducts = useMemo(() => products.filter((p) => !p.parentBarcode), [products]);
+
   /**
    * Filtered and sorted products
    */
   const filteredProducts = useMemo(() => {
-    let result = products;
+    let result = catalogProducts;
 
-    // Apply search filter
+    // Apply search filter; a matching variant brings up its parent
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase().trim();
-      result = result.filter(
-        (p) =>
-          p.name.toLowerCase().includes(query) ||
-          p.barcode.toLowerCase().includes(query)
+      const matches = (p: Product) =>
+        p.name.toLowerCase().includes(query) ||
+        p.barcode.toLowerCase().includes(query) ||
+        !!p.packUnits?.some((pack) => pack.barcode.toLowerCase().includes(query));
+      const matchedParents = new Set(
+        products.filter((p) => p.parentBarcode && matches(p)).map((p) => p.parentBarcode)
       );
+      result = result.filter((p) => matches(p) || matchedParents.has(p.barcode));
     }
 
     // Apply sorting
     result = ProductService.sort(result, sortField, sortOrder);
 
     return result;
-  }, [products, searchQuery, sortField, sortOrder]);
+  }, [products, catalogProducts, searchQuery, sortField, sortOrder]);
 
   /**
    * Handle sort toggle
@@ -184,6 +217,66 @@ export function Products() {
     showNotification('Stock updated successfully', 'success');
   };
 
+  /**
+   * Handle variant grid save success
+   */
+  const handleVariantsSuccess = () => {
+    loadProducts();
+    setIsVariantModalOpen(false);
+    setSelectedProduct(null);
+    showNotification('Variants saved successfully', 'success');
+  };
+
+  /**
+   * Handle pack sizes save success
+   */
+  const handlePacksSuccess = () => {
+    loadProducts();
+    setIsPackModalOpen(false);
+    setSelectedProduct(null);
+    showNotification('Pack sizes saved successfully', 'success');
+  };
+
+  /**
+   * Handle kit components save success
+   */
+  const handleKitSuccess = () => {
+    loadProducts();
+    setIsKitModalOpen(false);
+    setSelectedProduct(null);
+    showNotification('Kit saved successfully', 'success');
+  };
+
+  /**
+   * Handle reorder rule save success
+   */
+  const handleReorderSuccess = () => {
+    setIsReorderModalOpen(false);
+    setSelectedProduct(null);
+    showNotification('Reorder rule saved successfully', 'success');
+  };
+
+  /**
+   * Handle stock adjustment success
+   */
+  const handleAdjustSuccess = () => {
+    loadProducts();
+    setIsAdjustModalOpen(false);
+    setSelectedProduct(null);
+    showNotification('Stock adjusted successfully', 'success');
+  };
+
+  /**
+   * Price shown for a product; a parent shows the range across its variants
+   */
+  const getPriceLabel = (product: Product) => {
+    const prices = products.filter((p) => p.parentBarcode === product.barcode).map((p) => p.price);
+    if (prices.length === 0) return `$${product.price.toFixed(2)}`;
+    const low = Math.min(...prices);
+    const high = Math.max(...prices);
+    return low === high ? `$${low.toFixed(2)}` : `$${low.toFixed(2)} – $${high.toFixed(2)}`;
+  };
+
   /**
    * Open edit modal
    */
@@ -200,6 +293,54 @@ export function Products() {
     setIsDeleteModalOpen(true);
   };
 
+  /**
+   * Open variant grid
+   */
+  const openVariantModal = (product: Product) => {
+    setSelectedProduct(product);
+    setIsVariantModalOpen(true);
+  };
+
+  /**
+   * Open pack sizes editor
+   */
+  const openPackModal = (product: Product) => {
+    setSelectedProduct(product);
+    setIsPackModalOpen(true);
+  };
+
+  /**
+   * Open kit components editor
+   */
+  const openKitModal = (product: Product) => {
+    setSelectedProduct(product);
+    setIsKitModalOpen(true);
+  };
+
+  /**
+   * Open reorder rule editor
+   */
+  const openReorderModal = (product: Product) => {
+    setSelectedProduct(product);
+    setIsReorderModalOpen(true);
+  };
+
+  /**
+   * Open stock adjustment
+   */
+  const openAdjustModal = (product: Product) => {
+    setSelectedProduct(product);
+    setIsAdjustModalOpen(true);
+  };
+
+  /**
+   * Open stock movement history
+   */
+  const openHistoryModal = (product: Product) => {
+    setSelectedProduct(product);
+    setIsHistoryModalOpen(true);
+  };
+
   /**
    * Open restock modal
    */
@@ -214,7 +355,9 @@ export function Products() {
       <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Products</h1>
-          <p className="text-gray-600 mt-1">Manage your inventory</p>
+          <p className="text-gray-600 mt-1">
+            {currentStore ? `Manage inventory for ${currentStore.name}` : 'Manage your inventory'}
+          </p>
         </div>
         <button
           onClick={() => setIsAddModalOpen(true)}
@@ -319,6 +462,29 @@ export function Products() {
                           <div className="text-sm font-medium text-gray-900">
                             {product.name}
                           </div>
+                          {product.variantAttributes && (
+                            <div className="text-xs text-gray-500">
+                              {products.filter((p) => p.parentBarcode === product.barcode).length} variants by{' '}
+                              {product.variantAttributes.join(' / ')}
+                            </div>
+                          )}
+                          {product.packUnits && (
+                            <div className="text-xs text-gray-500">
+                              Also sold as{' '}
+                              {product.packUnits.map((pack) => `${pack.name} of ${pack.quantity}`).join(', ')}
+                            </div>
+                          )}
+                          {product.kitComponents && (
+                            <div className="text-xs text-gray-500">
+                              Kit of{' '}
+                              {product.kitComponents
+                                .map((component) => {
+                                  const name = products.find((p) => p.barcode === component.barcode)?.name;
+                                  return `${component.quantity} × ${name || component.barcode}`;
+                                })
+                                .join(', ')}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </td>
@@ -332,24 +498,92 @@ export function Products() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className="text-sm font-medium text-gray-900">
-                        ${product.price.toFixed(2)}
+                        {getPriceLabel(product)}
                       </span>
+                      {product.cost !== undefined && !product.variantAttributes && (
+                        <div className="text-xs text-gray-500">
+                          Cost ${product.cost.toFixed(2)} ·{' '}
+                          {(((product.price - product.cost) / product.price) * 100).toFixed(0)}% margin
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="text-sm text-gray-900">{product.stock}</span>
+                      <span className="text-sm text-gray-900">
+                        {product.stock}
+                        {product.baseUnit && (
+                          <span className="text-gray-500"> {product.baseUnit.toLowerCase()}s</span>
+                        )}
+                        {product.kitComponents && <span className="text-gray-500"> can be made</span>}
+                      </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getStockStatus(product.stock)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="flex items-center justify-end space-x-2">
-                        <button
-                          onClick={() => openRestockModal(product)}
-                          className="text-green-600 hover:text-green-900 p-1 rounded hover:bg-green-50 transition-colors"
-                          title="Restock"
-                        >
-                          <RefreshCw className="h-4 w-4" />
-                        </button>
+                        {!product.variantAttributes && !product.kitComponents && (
+                          <button
+                            onClick={() => openRestockModal(product)}
+                            className="text-green-600 hover:text-green-900 p-1 rounded hover:bg-green-50 transition-colors"
+                            title="Restock"
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </button>
+                        )}
+                        {!product.variantAttributes && !product.kitComponents && (
+                          <button
+                            onClick={() => openAdjustModal(product)}
+                            className="text-orange-600 hover:text-orange-900 p-1 rounded hover:bg-orange-50 transition-colors"
+                            title="Adjust Stock"
+                          >
+                            <SlidersHorizontal className="h-4 w-4" />
+                          </button>
+                        )}
+                        {!product.variantAttributes && !product.kitComponents && (
+                          <button
+                            onClick={() => openHistoryModal(product)}
+                            className="text-gray-600 hover:text-gray-900 p-1 rounded hover:bg-gray-100 transition-colors"
+                            title="Stock History"
+                          >
+                            <History className="h-4 w-4" />
+                          </button>
+                        )}
+                        {!product.variantAttributes && !product.kitComponents && (
+                          <button
+                            onClick={() => openReorderModal(product)}
+                            className="text-teal-600 hover:text-teal-900 p-1 rounded hover:bg-teal-50 transition-colors"
+                            title="Reorder Rule"
+                          >
+                            <Repeat className="h-4 w-4" />
+                          </button>
+                        )}
+                        {!product.variantAttributes && !product.measureUnit && !product.kitComponents && (
+                          <button
+                            onClick={() => openPackModal(product)}
+                            className="text-indigo-600 hover:text-indigo-900 p-1 rounded hover:bg-indigo-50 transition-colors"
+                            title="Units & Pack Sizes"
+                          >
+                            <Boxes className="h-4 w-4" />
+                          </button>
+                        )}
+                        {!product.variantAttributes && !product.measureUnit && !product.packUnits && (
+                          <button
+                            onClick={() => openKitModal(product)}
+                            className="text-orange-600 hover:text-orange-900 p-1 rounded hover:bg-orange-50 transition-colors"
+                            title="Kit Components"
+                          >
+                            <PackagePlus className="h-4 w-4" />
+                          </button>
+                        )}
+                        {!product.kitComponents && (
+                          <button
+                            onClick={() => openVariantModal(product)}
+                            className="text-purple-600 hover:text-purple-900 p-1 rounded hover:bg-purple-50 transition-colors"
+                            title="Variants"
+                          >
+                            <Layers className="h-4 w-4" />
+                          </button>
+                        )}
                         <button
                           onClick={() => openEditModal(product)}
                           className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50 transition-colors"
@@ -376,7 +610,7 @@ export function Products() {
         {/* Table Footer */}
         <div className="bg-gray-50 px-6 py-3 border-t border-gray-200">
           <p className="text-sm text-gray-600">
-            Showing {filteredProducts.length} of {products.length} products
+            Showing {filteredProducts.length} of {catalogProducts.length} products
           </p>
         </div>
       </div>
@@ -433,6 +667,50 @@ export function Products() {
         />
       )}
 
+      {isVariantModalOpen && selectedProduct && (
+        <VariantGridModal
+          product={selectedProduct}
+          onClose={() => {
+            setIsVariantModalOpen(false);
+            setSelectedProduct(null);
+          }}
+          onSuccess={handleVariantsSuccess}
+        />
+      )}
+
+      {isPackModalOpen && selectedProduct && (
+        <PackUnitsModal
+          product={selectedProduct}
+          onClose={() => {
+            setIsPackModalOpen(false);
+            setSelectedProduct(null);
+          }}
+          onSuccess={handlePacksSuccess}
+        />
+      )}
+
+      {isKitModalOpen && selectedProduct && (
+        <KitModal
+          product={selectedProduct}
+          onClose={() => {
+            setIsKitModalOpen(false);
+            setSelectedProduct(null);
+          }}
+          onSuccess={handleKitSuccess}
+        />
+      )}
+
+      {isReorderModalOpen && selectedProduct && (
+        <ReorderRuleModal
+          product={selectedProduct}
+          onClose={() => {
+            setIsReorderModalOpen(false);
+            setSelectedProduct(null);
+          }}
+          onSuccess={handleReorderSuccess}
+        />
+      )}
+
       {isRestockModalOpen && selectedProduct && (
         <RestockModal
           product={selectedProduct}
@@ -443,6 +721,27 @@ export function Products() {
           onSuccess={handleRestockSuccess}
         />
       )}
+
+      {isAdjustModalOpen && selectedProduct && (
+        <StockAdjustmentModal
+          product={selectedProduct}
+          onClose={() => {
+            setIsAdjustModalOpen(false);
+            setSelectedProduct(null);
+          }}
+          onSuccess={handleAdjustSuccess}
+        />
+      )}
+
+      {isHistoryModalOpen && selectedProduct && (
+        <StockHistoryModal
+          product={selectedProduct}
+          onClose={() => {
+            setIsHistoryModalOpen(false);
+            setSelectedProduct(null);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,537 @@
+import { useState } from 'react';
+import { Gift, Plus, Edit2, Trash2, Power, X } from 'lucide-react';
+import { Promotion, PromotionType, Category } from '../types/product';
+import { PromotionService, ProductService, CATEGORIES } from '../services/localStorageService';
+import { NotificationToast } from '../components/NotificationToast';
+
+const PROMOTION_TYPES: { id: PromotionType; label: string }[] = [
+  { id: 'buy_x_get_y', label: 'Buy X get Y free' },
+  { id: 'multi_buy', label: 'N for a fixed price' },
+  { id: 'percent_off', label: 'Percentage off' },
+];
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_FORM = {
+  name: '',
+  type: 'buy_x_get_y' as PromotionType,
+  isActive: true,
+  barcodes: [] as string[],
+  category: '' as Category | '',
+  buyQuantity: '2',
+  getQuantity: '1',
+  bundlePrice: '',
+  percentOff: '',
+  startDate: '',
+  endDate: '',
+  daysOfWeek: [] as number[],
+  startTime: '',
+  endTime: '',
+};
+
+/**
+ * Promotions Page
+ * Allows admin to define promotions that the till applies automatically
+ */
+export function Promotions() {
+  const [promotions, setPromotions] = useState<Promotion[]>(PromotionService.getAll());
+  const [products] = useState(ProductService.getAll());
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    message: string;
+    type: 'success' | 'error';
+  } | null>(null);
+
+  /**
+   * Show notification
+   */
+  const showNotification = (message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  /**
+   * Open modal for creating or editing a promotion
+   */
+  const openModal = (promotion?: Promotion) => {
+    setEditingPromotion(promotion || null);
+    setFormData(
+      promotion
+        ? {
+            name: promotion.name,
+            type: promotion.type,
+            isActive: promotion.isActive,
+            barcodes: promotion.barcodes,
+            category: promotion.category || '',
+            buyQuantity: promotion.buyQuantity?.toString() || '',
+            getQuantity: promotion.getQuantity?.toString() || '',
+            bundlePrice: promotion.bundlePrice?.toString() || '',
+            percentOff: promotion.percentOff?.toString() || '',
+            startDate: promotion.startDate || '',
+            endDate: promotion.endDate || '',
+            daysOfWeek: promotion.daysOfWeek || [],
+            startTime: promotion.startTime || '',
+            endTime: promotion.endTime || '',
+          }
+        : EMPTY_FORM
+    );
+    setIsModalOpen(true);
+  };
+
+  const toggleInList = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  /**
+   * Handle form submit
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const number = (value: string) => (value ? parseFloat(value) : undefined);
+    const usesCategory = formData.type === 'percent_off' && !!formData.category;
+
+    const result = PromotionService.save({
+      id: editingPromotion?.id,
+      name: formData.name,
+      type: formData.type,
+      isActive: formData.isActive,
+      barcodes: usesCategory ? [] : formData.barcodes,
+      category: usesCategory ? (formData.category as Category) : undefined,
+      buyQuantity: formData.type !== 'percent_off' ? number(formData.buyQuantity) : undefined,
+      getQuantity: formData.type === 'buy_x_get_y' ? number(formData.getQuantity) : undefined,
+      bundlePrice: formData.type === 'multi_buy' ? number(formData.bundlePrice) : undefined,
+      percentOff: formData.type === 'percent_off' ? number(formData.percentOff) : undefined,
+      startDate: formData.startDate || undefined,
+      endDate: formData.endDate || undefined,
+      daysOfWeek: formData.daysOfWeek.length ? formData.daysOfWeek : undefined,
+      startTime: formData.startTime || undefined,
+      endTime: formData.endTime || undefined,
+    });
+
+    if (result.success) {
+      showNotification(editingPromotion ? 'Promotion updated' : 'Promotion created', 'success');
+      setIsModalOpen(false);
+      setPromotions(PromotionService.getAll());
+    } else {
+      showNotification(result.error || 'Failed to save promotion', 'error');
+    }
+  };
+
+  const handleToggle = (promotion: Promotion) => {
+    const result = PromotionService.toggleActive(promotion.id);
+    if (result.success) {
+      setPromotions(PromotionService.getAll());
+    } else {
+      showNotification(result.error || 'Failed to update promotion', 'error');
+    }
+  };
+
+  const handleDelete = (promotion: Promotion) => {
+    if (!window.confirm(`Delete promotion "${promotion.name}"?`)) return;
+
+    const result = PromotionService.delete(promotion.id);
+    if (result.success) {
+      showNotification('Promotion deleted', 'success');
+      setPromotions(PromotionService.getAll());
+    } else {
+      showNotification(result.error || 'Failed to delete promotion', 'error');
+    }
+  };
+
+  /**
+   * Short description of a promotion's rule
+   */
+  const describeRule = (promotion: Promotion) => {
+    const target = promotion.category
+      ? promotion.category
+      : `${promotion.barcodes.length} product${promotion.barcodes.length === 1 ? '' : 's'}`;
+
+    switch (promotion.type) {
+      case 'buy_x_get_y':
+        return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free (${target})`;
+      case 'multi_buy':
+        return `Any ${promotion.buyQuantity} for $${promotion.bundlePrice?.toFixed(2)} (${target})`;
+      case 'percent_off':
+        return `${promotion.percentOff}% off ${target}`;
+    }
+  };
+
+  /**
+   * Short description of when a promotion runs
+   */
+  const describeSchedule = (promotion: Promotion) => {
+    const parts: string[] = [];
+    if (promotion.startDate || promotion.endDate) {
+      parts.push(`${promotion.startDate || '…'} to ${promotion.endDate || '…'}`);
+    }
+    if (promotion.daysOfWeek?.length) {
+      parts.push(promotion.daysOfWeek.map((d) => DAYS[d]).join(', '));
+    }
+    if (promotion.startTime && promotion.endTime) {
+      parts.push(`${promotion.startTime}–${promotion.endTime}`);
+    }
+    return parts.length ? parts.join(' · ') : 'Always';
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Promotions</h1>
+          <p className="text-gray-600 mt-1">The till applies the best running promotion to each line</p>
+        </div>
+        <button
+          onClick={() => openModal()}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-5 w-5" />
+          <span>Add Promotion</span>
+        </button>
+      </div>
+
+      {/* Promotions Table */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Promotion
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rule
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Schedule
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {promotions.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center">
+                    <Gift className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">No promotions yet</p>
+                  </td>
+                </tr>
+              ) : (
+                promotions.map((promotion) => {
+                  const running = PromotionService.isRunning(promotion);
+                  return (
+                    <tr key={promotion.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="flex items-center text-sm font-medium text-gray-900">
+                          <Gift className="h-4 w-4 text-purple-500 mr-2" />
+                          {promotion.name}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{describeRule(promotion)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{describeSchedule(promotion)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            !promotion.isActive
+                              ? 'bg-gray-100 text-gray-600'
+                              : running
+                                ? 'bg-green-100 text-green-700'
+                                : 'bg-yellow-100 text-yellow-800'
+                          }`}
+                        >
+                          {!promotion.isActive ? 'Inactive' : running ? 'Running now' : 'Scheduled'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-center">
+                        <div className="flex items-center justify-center space-x-2">
+                          <button
+                            onClick={() => handleToggle(promotion)}
+                            className={`p-1.5 rounded-lg transition-colors ${
+                              promotion.isActive ? 'text-green-600 hover:bg-green-50' : 'text-gray-400 hover:bg-gray-100'
+                            }`}
+                            title={promotion.isActive ? 'Deactivate' : 'Activate'}
+                          >
+                            <Power className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => openModal(promotion)}
+                            className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            title="Edit"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(promotion)}
+                            className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Promotion Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setIsModalOpen(false)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 sticky top-0 bg-white">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {editingPromotion ? 'Edit Promotion' : 'Add Promotion'}
+                </h3>
+                <button onClick={() => setIsModalOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div>
+                  <label htmlFor="promotionName" className="block text-sm font-medium text-gray-700 mb-1">
+                    Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    id="promotionName"
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="e.g. Soap 3 for 2"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="promotionType" className="block text-sm font-medium text-gray-700 mb-1">
+                    Rule
+                  </label>
+                  <select
+                    id="promotionType"
+                    value={formData.type}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value as PromotionType })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {PROMOTION_TYPES.map((type) => (
+                      <option key={type.id} value={type.id}>
+                        {type.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Rule Values */}
+                <div className="grid grid-cols-2 gap-4">
+                  {formData.type !== 'percent_off' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {formData.type === 'buy_x_get_y' ? 'Buy quantity' : 'Bundle quantity'}
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={formData.buyQuantity}
+                        onChange={(e) => setFormData({ ...formData, buyQuantity: e.target.value })}
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  )}
+                  {formData.type === 'buy_x_get_y' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Free quantity</label>
+                      <input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={formData.getQuantity}
+                        onChange={(e) => setFormData({ ...formData, getQuantity: e.target.value })}
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  )}
+                  {formData.type === 'multi_buy' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Bundle price ($)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.bundlePrice}
+                        onChange={(e) => setFormData({ ...formData, bundlePrice: e.target.value })}
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  )}
+                  {formData.type === 'percent_off' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Percentage off</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.5"
+                          value={formData.percentOff}
+                          onChange={(e) => setFormData({ ...formData, percentOff: e.target.value })}
+                          className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+                        <select
+                          value={formData.category}
+                          onChange={(e) => setFormData({ ...formData, category: e.target.value as Category | '' })}
+                          className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="">Selected products</option>
+                          {CATEGORIES.map((category) => (
+                            <option key={category} value={category}>
+                              {category}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                {/* Products */}
+                {!(formData.type === 'percent_off' && formData.category) && (
+                  <div>
+                    <p className="block text-sm font-medium text-gray-700 mb-1">Products</p>
+                    <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                      {products.map((product) => (
+                        <label key={product.barcode} className="flex items-center space-x-2 px-3 py-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={formData.barcodes.includes(product.barcode)}
+                            onChange={() =>
+                              setFormData({ ...formData, barcodes: toggleInList(formData.barcodes, product.barcode) })
+                            }
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          <span className="flex-1">{product.name}</span>
+                          <span className="text-gray-500">${product.price.toFixed(2)}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Schedule */}
+                <div className="space-y-3 border-t border-gray-200 pt-4">
+                  <p className="text-sm font-medium text-gray-700">Schedule (optional)</p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Start date</label>
+                      <input
+                        type="date"
+                        value={formData.startDate}
+                        onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">End date</label>
+                      <input
+                        type="date"
+                        value={formData.endDate}
+                        onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">From (daily)</label>
+                      <input
+                        type="time"
+                        value={formData.startTime}
+                        onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Until (daily)</label>
+                      <input
+                        type="time"
+                        value={formData.endTime}
+                        onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {DAYS.map((day, index) => (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => setFormData({ ...formData, daysOfWeek: toggleInList(formData.daysOfWeek, index) })}
+                        className={`px-2 py-1 rounded text-xs font-medium border transition-colors ${
+                          formData.daysOfWeek.includes(index)
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-gray-600 border-gray-300'
+                        }`}
+                      >
+                        {day}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Active</span>
+                </label>
+
+                <div className="flex space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsModalOpen(false)}
+                    className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    {editingPromotion ? 'Save Changes' : 'Create Promotion'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Notification */}
+      {notification && (
+        <NotificationToast
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+import { useState, useEffect } from 'react';
+import { ClipboardList, Plus, Search, X, Eye, Edit2, Send, PackageCheck, Lock, Trash2 } from 'lucide-react';
+import { PurchaseOrder, PurchaseOrderStatus } from '../types/product';
+import { PurchaseOrderService } from '../services/localStorageService';
+import { useAuth } from '../contexts/AuthContext';
+import { useStore } from '../contexts/StoreContext';
+import { NotificationToast } from '../components/NotificationToast';
+import { PurchaseOrderModal } from '../components/admin/PurchaseOrderModal';
+import { ReceivePurchaseOrderModal } from '../components/admin/ReceivePurchaseOrderModal';
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  closed: 'Closed',
+};
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-500',
+};
+
+/**
+ * Purchase Orders Page
+ * Allows admin to order stock from suppliers, send the orders and receive deliveries into stock
+ */
+export function PurchaseOrders() {
+  const { user } = useAuth();
+  const { currentStore } = useStore();
+  const performedBy = user?.username || 'admin';
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [activeTab, setActiveTab] = useState<PurchaseOrderStatus>('draft');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | undefined>(undefined);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [detailOrder, setDetailOrder] = useState<PurchaseOrder | null>(null);
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    message: string;
+    type: 'success' | 'error';
+  } | null>(null);
+
+  // Load purchase orders function - defined before useEffect
+  const loadOrders = () => {
+    setOrders(PurchaseOrderService.getAll());
+  };
+
+  useEffect(() => {
+    loadOrders();
+  }, []);
+
+  /**
+   * Show notification
+   */
+  const showNotification = (message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const openNew = () => {
+    setEditingOrder(undefined);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (order: PurchaseOrder) => {
+    setEditingOrder(order);
+    setIsFormOpen(true);
+  };
+
+  const handleSaved = () => {
+    showNotification(editingOrder ? 'Purchase order updated' : 'Purchase order drafted', 'success');
+    setIsFormOpen(false);
+    setActiveTab('draft');
+    loadOrders();
+  };
+
+  const handleSend = (order: PurchaseOrder) => {
+    if (!window.confirm(`Send ${order.poNumber} to ${order.supplierName}? It can no longer be changed.`)) return;
+
+    const result = PurchaseOrderService.send(order.id);
+    if (result.success) {
+      showNotification(`${order.poNumber} sent to ${order.supplierName}`, 'success');
+      setActiveTab('sent');
+      loadOrders();
+    } else {
+      showNotification(result.error || 'Failed to send purchase order', 'error');
+    }
+  };
+
+  const handleReceived = (order: PurchaseOrder) => {
+    showNotification(
+      order.status === 'received'
+        ? `${order.poNumber} fully received into ${order.storeName}`
+        : `Delivery received; ${order.poNumber} still has items outstanding`,
+      'success'
+    );
+    setReceivingOrder(null);
+    setActiveTab(order.status);
+    loadOrders();
+  };
+
+  const handleClose = (order: PurchaseOrder) => {
+    const warning = order.status === 'received' ? '' : ' Items still outstanding will no longer be expected.';
+    if (!window.confirm(`Close ${order.poNumber}?${warning}`)) return;
+
+    const result = PurchaseOrderService.close(order.id, performedBy);
+    if (result.success) {
+      showNotification(`${order.poNumber} closed`, 'success');
+      loadOrders();
+    } else {
+      showNotification(result.error || 'Failed to close purchase order', 'error');
+    }
+  };
+
+  const handleDelete = (order: PurchaseOrder) => {
+    if (!window.confirm(`Delete draft ${order.poNumber}?`)) return;
+
+    const result = PurchaseOrderService.delete(order.id);
+    if (result.success) {
+      showNotification('Draft deleted', 'success');
+      loadOrders();
+    } else {
+      showNotification(result.error || 'Failed to delete purchase order', 'error');
+    }
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const filteredOrders = orders.filter((order) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      order.status === activeTab &&
+      (order.poNumber.toLowerCase().includes(query) || order.supplierName.toLowerCase().includes(query))
+    );
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Purchase Orders</h1>
+          <p className="text-gray-600 mt-1">Stock ordered from suppliers and the deliveries received against it</p>
+        </div>
+        <button
+          onClick={openNew}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          New Purchase Order
+        </button>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-6">
+          {(Object.keys(STATUS_LABELS) as PurchaseOrderStatus[]).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`pb-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === tab
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {STATUS_LABELS[tab]} ({orders.filter((order) => order.status === tab).length})
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+        <input
+          type="text"
+          placeholder="Search by PO # or supplier..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {/* Purchase Orders Table */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Purchase Order
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ordered
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Received
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Expected
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredOrders.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center">
+                    <ClipboardList className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">No {STATUS_LABELS[activeTab].toLowerCase()} purchase orders</p>
+                  </td>
+                </tr>
+              ) : (
+                filteredOrders.map((order) => {
+                  const awaitingDelivery = order.status === 'sent' || order.status === 'partially_received';
+                  const overdue = awaitingDelivery && !!order.expectedAt && new Date(order.expectedAt) < new Date();
+                  return (
+                    <tr key={order.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <p className="text-sm font-mono font-medium text-gray-900">{order.poNumber}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(order.createdAt)} · {order.storeName}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{order.supplierName}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                        ${PurchaseOrderService.getTotal(order).toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-green-600">
+                        ${PurchaseOrderService.getReceivedTotal(order).toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">
+                        {awaitingDelivery && order.expectedAt ? (
+                          <span className={overdue ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                            {formatDate(order.expectedAt)}
+                            {overdue && ' (late)'}
+                          </span>
+                        ) : (
+                          <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[order.status]}`}>
+                            {STATUS_LABELS[order.status]}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-center">
+                        <div className="flex items-center justify-center space-x-2">
+                          <button
+                            onClick={() => setDetailOrder(order)}
+                            className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Details"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </button>
+                          {order.status === 'draft' && (
+                            <>
+                              <button
+                                onClick={() => openEdit(order)}
+                                className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                title="Edit"
+                              >
+                                <Edit2 className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => handleSend(order)}
+                                className="p-1.5 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                                title="Send to supplier"
+                              >
+                                <Send className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDelete(order)}
+                                className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                title="Delete"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
+                          {awaitingDelivery && (
+                            <button
+                              onClick={() => setReceivingOrder(order)}
+                              className="p-1.5 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                              title="Receive delivery"
+                            >
+                              <PackageCheck className="h-4 w-4" />
+                            </button>
+                          )}
+                          {(awaitingDelivery || order.status === 'received') && (
+                            <button
+                              onClick={() => handleClose(order)}
+                              className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                              title="Close"
+                            >
+                              <Lock className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Detail Modal */}
+      {detailOrder && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setDetailOrder(null)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 sticky top-0 bg-white">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{detailOrder.poNumber}</h3>
+                  <p className="text-sm text-gray-500">
+                    {detailOrder.supplierName} → {detailOrder.storeName} · drafted by {detailOrder.createdBy}
+                  </p>
+                </div>
+                <button onClick={() => setDetailOrder(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4 text-sm">
+                <div>
+                  <h4 className="font-medium text-gray-900 mb-2">Lines</h4>
+                  <div className="space-y-2">
+                    {detailOrder.lines.map((line) => (
+                      <div key={line.barcode} className="flex justify-between">
+                        <div>
+                          <p>
+                            {line.name} × {line.quantity} @ ${line.unitCost.toFixed(2)}
+                          </p>
+                          {line.quantityReceived > 0 && (
+                            <p className="text-xs text-green-600">
+                              {line.quantityReceived} received for ${(line.receivedCost || 0).toFixed(2)}
+                            </p>
+                          )}
+                        </div>
+                        <span>${(line.quantity * line.unitCost).toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between font-semibold border-t border-gray-200 mt-2 pt-2">
+                    <span>Expected total</span>
+                    <span>${PurchaseOrderService.getTotal(detailOrder).toFixed(2)}</span>
+                  </div>
+                </div>
+
+                <div className="space-y-1 text-gray-600">
+                  <p>
+                    Status:{' '}
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[detailOrder.status]}`}>
+                      {STATUS_LABELS[detailOrder.status]}
+                    </span>
+                  </p>
+                  {detailOrder.sentAt && <p>Sent {formatDate(detailOrder.sentAt)}</p>}
+                  {detailOrder.expectedAt && <p>Expected {formatDate(detailOrder.expectedAt)}</p>}
+                  {detailOrder.receivedAt && <p>Last delivery {formatDate(detailOrder.receivedAt)}</p>}
+                  {detailOrder.closedAt && (
+                    <p>
+                      Closed {formatDate(detailOrder.closedAt)} by {detailOrder.closedBy}
+                    </p>
+                  )}
+                  {detailOrder.notes && <p>Notes: {detailOrder.notes}</p>}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isFormOpen && (
+        <PurchaseOrderModal
+          order={editingOrder}
+          storeId={currentStore?.id}
+          createdBy={performedBy}
+          onClose={() => setIsFormOpen(false)}
+          onSuccess={handleSaved}
+        />
+      )}
+
+      {receivingOrder && (
+        <ReceivePurchaseOrderModal
+          order={receivingOrder}
+          performedBy={performedBy}
+          onClose={() => setReceivingOrder(null)}
+          onSuccess={handleReceived}
+        />
+      )}
+
+      {/* Notification Toast */}
+      {notification && (
+        <NotificationToast
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+    </div>
+  );
+}
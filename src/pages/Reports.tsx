@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react';
+import { FileText, Store, Lock, Eye, AlertTriangle } from 'lucide-react';
+import { SalesReport, CashierSession } from '../types/product';
+import { ReportService, CashierSessionService, StoreService } from '../services/localStorageService';
+import { SalesReportModal } from '../components/admin/SalesReportModal';
+import { useStore } from '../contexts/StoreContext';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Reports Page
+ * Admin can run X reports and close the business day with a Z report
+ */
+export function Reports() {
+  const { currentStore } = useStore();
+  const { user } = useAuth();
+  const [zReports, setZReports] = useState<SalesReport[]>([]);
+  const [openSessions, setOpenSessions] = useState<CashierSession[]>([]);
+  const [registerSessionId, setRegisterSessionId] = useState('');
+  const [viewingReport, setViewingReport] = useState<SalesReport | null>(null);
+  const [showCloseDayConfirm, setShowCloseDayConfirm] = useState(false);
+
+  // Notification
+  const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const performedBy = user?.username || 'Admin';
+
+  // Load reports function - defined before useEffect
+  const loadReports = () => {
+    const currentStoreId = StoreService.getCurrentStore()?.id;
+    setZReports(ReportService.getZReports(currentStoreId));
+    setOpenSessions(
+      (currentStoreId
+        ? CashierSessionService.getByStore(currentStoreId)
+        : CashierSessionService.getAll()
+      ).filter((s) => s.status === 'open')
+    );
+  };
+
+  // Load reports on mount and when store changes
+  useEffect(() => {
+    loadReports();
+
+    const handleStoreChange = () => {
+      loadReports();
+      setRegisterSessionId('');
+    };
+    window.addEventListener('storeChanged', handleStoreChange);
+
+    const handleFocus = () => {
+      loadReports();
+    };
+    window.addEventListener('focus', handleFocus);
+
+    return () => {
+      window.removeEventListener('storeChanged', handleStoreChange);
+      window.removeEventListener('focus', handleFocus);
+    };
+  }, [currentStore]);
+
+  const showNotification = (message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const handleXReport = () => {
+    const store = StoreService.getCurrentStore();
+    if (!store) {
+      showNotification('Select a store first', 'error');
+      return;
+    }
+    setViewingReport(
+      ReportService.generateXReport(store.id, store.name, performedBy, registerSessionId || undefined)
+    );
+  };
+
+  const handleCloseDay = () => {
+    const store = StoreService.getCurrentStore();
+    setShowCloseDayConfirm(false);
+    if (!store) {
+      showNotification('Select a store first', 'error');
+      return;
+    }
+
+    const result = ReportService.closeDay(store.id, store.name, performedBy);
+    loadReports();
+    setViewingReport(result.report);
+    showNotification(`Business day closed with Z report #${result.report.sequenceNumber}`, 'success');
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
+        <p className="text-gray-600 mt-1">
+          {currentStore ? (
+            <span className="flex items-center gap-2">
+              <Store className="h-4 w-4" />
+              End-of-day reports for {currentStore.name}
+            </span>
+          ) : (
+            'X and Z end-of-day reports'
+          )}
+        </p>
+      </div>
+
+      {/* Actions */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">X Report</h2>
+            <p className="text-sm text-gray-600">
+              Totals since the last day close. Running an X report does not reset anything.
+            </p>
+          </div>
+          <select
+            value={registerSessionId}
+            onChange={(e) => setRegisterSessionId(e.target.value)}
+            className="block w-full py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Whole store</option>
+            {openSessions.map((session) => (
+              <option key={session.id} value={session.id}>
+                Register: {session.cashierName} (since {formatDate(session.startTime)})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleXReport}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <FileText className="h-5 w-5" />
+            <span>Run X Report</span>
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Z Report</h2>
+            <p className="text-sm text-gray-600">
+              Closes the business day for this store. Z reports are numbered and cannot be changed.
+            </p>
+          </div>
+          {openSessions.length > 0 && (
+            <div className="flex items-start space-x-2 text-sm text-yellow-800 bg-yellow-50 rounded-lg p-3">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{openSessions.length} cashier shift(s) still open</span>
+            </div>
+          )}
+          <button
+            onClick={() => setShowCloseDayConfirm(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+          >
+            <Lock className="h-5 w-5" />
+            <span>Close Business Day</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Z Report History */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Z #
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Store
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Period
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Closed By
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Net Revenue
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {zReports.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center">
+                    <FileText className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">No business days closed yet</p>
+                  </td>
+                </tr>
+              ) : (
+                zReports.map((report) => (
+                  <tr key={report.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {String(report.sequenceNumber).padStart(4, '0')}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <div className="flex items-center text-sm text-blue-600">
+                        <Store className="h-4 w-4 mr-1" />
+                        {report.storeName}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                      {formatDate(report.periodStart)} – {formatDate(report.periodEnd)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                      {report.generatedBy}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-bold text-gray-900">
+                      ${report.netRevenue.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-center">
+                      <button
+                        onClick={() => setViewingReport(report)}
+                        className="inline-flex items-center px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium hover:bg-blue-200 transition-colors"
+                      >
+                        <Eye className="h-3 w-3 mr-1" />
+                        View
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Close Day Confirmation */}
+      {showCloseDayConfirm && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setShowCloseDayConfirm(false)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full p-6 space-y-4">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-red-100 rounded-full">
+                  <Lock className="h-6 w-6 text-red-600" />
+                </div>
+                <h3 className="text-lg font-semibold text-gray-900">Close business day?</h3>
+              </div>
+              <p className="text-sm text-gray-600">
+                A numbered Z report will be saved for {currentStore?.name || 'this store'} and the next
+                report will start from now. This cannot be undone.
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setShowCloseDayConfirm(false)}
+                  className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleCloseDay}
+                  className="flex-1 py-2 px-4 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  Close Day
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Report Modal */}
+      {viewingReport && (
+        <SalesReportModal report={viewingReport} onClose={() => setViewingReport(null)} />
+      )}
+
+      {/* Notification */}
+      {notification && (
+        <div
+          className={`fixed bottom-4 right-4 px-6 py-3 rounded-lg shadow-lg transition-all ${
+            notification.type === 'success' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'
+          }`}
+        >
+          {notification.message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,9 @@ import {
   CreditCard,
   Banknote,
   Smartphone,
+  Award,
+  Ticket,
+  Wallet,
   Package,
   CheckCircle,
   XCircle,
@@ -15,21 +18,32 @@ import {
   DollarSign,
   TrendingUp,
   Store,
+  BookUser,
+  Ban,
 } from 'lucide-react';
 import { SaleRecord, PaymentMethod } from '../types/product';
-import { SaleService, StoreService } from '../services/localStorageService';
+import { SaleService, StoreService, ReturnService, TaxService, ProductService } from '../services/localStorageService';
 import { useStore } from '../contexts/StoreContext';
+import { useAuth } from '../contexts/AuthContext';
+import { CustomerAccounts } from '../components/admin/CustomerAccounts';
+import { VoidSaleModal } from '../components/VoidSaleModal';
 
 /**
  * Sales History Page
- * Admin can view all sales, search by receipt number, and verify returns
+ * Admin can view all sales, search by receipt number, verify returns and manage customer accounts
  */
 export function SalesHistory() {
   const { currentStore } = useStore();
+  const { user } = useAuth();
   const [sales, setSales] = useState<SaleRecord[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedSale, setSelectedSale] = useState<SaleRecord | null>(null);
+  const [showVoidSale, setShowVoidSale] = useState(false);
   const [dateFilter, setDateFilter] = useState<'all' | 'today' | 'week' | 'month'>('all');
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({});
+  const [returnReason, setReturnReason] = useState('');
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('cash');
+  const [activeTab, setActiveTab] = useState<'sales' | 'accounts'>('sales');
   const [stats, setStats] = useState({
     totalSales: 0,
     totalRevenue: 0,
@@ -75,15 +89,17 @@ export function SalesHistory() {
   }, [currentStore]);
 
   const updateStats = (salesData: SaleRecord[]) => {
-    const totalRevenue = salesData.reduce((sum, sale) => sum + sale.total, 0);
-    const totalItems = salesData.reduce((sum, sale) => 
+    // Revenue is net of refunds; voided sales don't count at all
+    const counted = salesData.filter((sale) => !SaleService.isVoided(sale));
+    const totalRevenue = counted.reduce((sum, sale) => sum + SaleService.getNetTotal(sale), 0);
+    const totalItems = counted.reduce((sum, sale) => 
       sum + sale.items.reduce((itemSum, item) => itemSum + item.quantity, 0), 0
     );
     setStats({
-      totalSales: salesData.length,
+      totalSales: counted.length,
       totalRevenue,
       totalItems,
-      averageSale: salesData.length > 0 ? totalRevenue / salesData.length : 0,
+      averageSale: counted.length > 0 ? totalRevenue / counted.length : 0,
     });
   };
 
@@ -135,6 +151,14 @@ export function SalesHistory() {
         return <CreditCard className="h-4 w-4" />;
       case 'mobile_money':
         return <Smartphone className="h-4 w-4" />;
+      case 'loyalty_points':
+        return <Award className="h-4 w-4" />;
+      case 'gift_card':
+        return <Ticket className="h-4 w-4" />;
+      case 'store_credit':
+        return <Wallet className="h-4 w-4" />;
+      case 'on_account':
+        return <BookUser className="h-4 w-4" />;
     }
   };
 
@@ -146,6 +170,14 @@ export function SalesHistory() {
         return 'Card';
       case 'mobile_money':
         return 'Mobile Money';
+      case 'loyalty_points':
+        return 'Loyalty Points';
+      case 'gift_card':
+        return 'Gift Card';
+      case 'store_credit':
+        return 'Store Credit';
+      case 'on_account':
+        return 'On Account';
     }
   };
 
@@ -161,12 +193,58 @@ export function SalesHistory() {
 
   const handleVerifyReturn = (sale: SaleRecord) => {
     setSelectedSale(sale);
+    setReturnQuantities({});
+    setReturnReason('');
+    setRefundMethod(sale.paymentMethod);
   };
 
-  const handleProcessReturn = (itemBarcode: string, quantity: number) => {
-    // In a real app, this would process the return and update inventory
-    showNotification(`Return processed for ${quantity} item(s)`, 'success');
+  const handleReturnQuantityChange = (barcode: string, value: string, max: number, measured = false) => {
+    // Loose goods can be returned by part of their measure
+    const parsed = measured ? ProductService.roundQuantity(parseFloat(value) || 0) : parseInt(value, 10) || 0;
+    const quantity = Math.min(Math.max(parsed, 0), max);
+    setReturnQuantities((prev) => ({ ...prev, [barcode]: quantity }));
+  };
+
+  const handleProcessReturn = () => {
+    if (!selectedSale) return;
+
+    const lines = Object.entries(returnQuantities).map(([barcode, quantity]) => ({ barcode, quantity }));
+    const result = ReturnService.processReturn(
+      selectedSale.receiptNumber,
+      lines,
+      returnReason,
+      user?.username || 'admin',
+      refundMethod
+    );
+
+    if (result.success && result.record) {
+      const credited = result.record.creditedCardCode ? ` to ${result.record.creditedCardCode}` : '';
+      showNotification(
+        `Return ${result.record.returnNumber} processed. Refund: $${result.record.refundAmount.toFixed(2)}${credited}`,
+        'success'
+      );
+      setSelectedSale(null);
+      loadSales();
+    } else {
+      showNotification(result.error || 'Failed to process return', 'error');
+    }
+  };
+
+  // Refund preview for the quantities entered in the return form
+  const pendingRefund = selectedSale
+    ? selectedSale.items.reduce(
+        (sum, item) =>
+          sum + (TaxService.getLineTotal(item) / item.quantity) * (returnQuantities[item.barcode] || 0),
+        0
+      )
+    : 0;
+  const selectedVoided = selectedSale ? SaleService.isVoided(selectedSale) : false;
+
+  const handleSaleVoided = (sale: SaleRecord) => {
+    setShowVoidSale(false);
     setSelectedSale(null);
+    showNotification(`Sale ${sale.receiptNumber} voided`, 'success');
+    loadSales();
   };
 
   return (
@@ -188,183 +266,224 @@ export function SalesHistory() {
         </div>
       </div>
 
-      {/* Stats Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        <div className="bg-white rounded-lg shadow-md p-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-xs font-medium text-gray-600">Total Sales</p>
-              <p className="text-2xl font-bold text-gray-900">{stats.totalSales}</p>
-            </div>
-            <div className="p-2 rounded-full bg-blue-100">
-              <Receipt className="h-5 w-5 text-blue-600" />
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-6">
+          {(['sales', 'accounts'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`pb-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === tab
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab === 'accounts' ? 'Customer Accounts' : 'Sales'}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {activeTab === 'accounts' && (
+        <CustomerAccounts receivedBy={user?.username || 'admin'} onNotify={showNotification} />
+      )}
+
+      {activeTab === 'sales' && (
+        <>
+        {/* Stats Cards */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-white rounded-lg shadow-md p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-xs font-medium text-gray-600">Total Sales</p>
+                <p className="text-2xl font-bold text-gray-900">{stats.totalSales}</p>
+              </div>
+              <div className="p-2 rounded-full bg-blue-100">
+                <Receipt className="h-5 w-5 text-blue-600" />
+              </div>
             </div>
           </div>
-        </div>
-        <div className="bg-white rounded-lg shadow-md p-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-xs font-medium text-gray-600">Revenue</p>
-              <p className="text-2xl font-bold text-green-600">${stats.totalRevenue.toFixed(0)}</p>
-            </div>
-            <div className="p-2 rounded-full bg-green-100">
-              <DollarSign className="h-5 w-5 text-green-600" />
+          <div className="bg-white rounded-lg shadow-md p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-xs font-medium text-gray-600">Revenue</p>
+                <p className="text-2xl font-bold text-green-600">${stats.totalRevenue.toFixed(0)}</p>
+              </div>
+              <div className="p-2 rounded-full bg-green-100">
+                <DollarSign className="h-5 w-5 text-green-600" />
+              </div>
             </div>
           </div>
-        </div>
-        <div className="bg-white rounded-lg shadow-md p-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-xs font-medium text-gray-600">Items Sold</p>
-              <p className="text-2xl font-bold text-purple-600">{stats.totalItems}</p>
-            </div>
-            <div className="p-2 rounded-full bg-purple-100">
-              <Package className="h-5 w-5 text-purple-600" />
+          <div className="bg-white rounded-lg shadow-md p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-xs font-medium text-gray-600">Items Sold</p>
+                <p className="text-2xl font-bold text-purple-600">{stats.totalItems}</p>
+              </div>
+              <div className="p-2 rounded-full bg-purple-100">
+                <Package className="h-5 w-5 text-purple-600" />
+              </div>
             </div>
           </div>
-        </div>
-        <div className="bg-white rounded-lg shadow-md p-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-xs font-medium text-gray-600">Avg Sale</p>
-              <p className="text-2xl font-bold text-orange-600">${stats.averageSale.toFixed(0)}</p>
-            </div>
-            <div className="p-2 rounded-full bg-orange-100">
-              <TrendingUp className="h-5 w-5 text-orange-600" />
+          <div className="bg-white rounded-lg shadow-md p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-xs font-medium text-gray-600">Avg Sale</p>
+                <p className="text-2xl font-bold text-orange-600">${stats.averageSale.toFixed(0)}</p>
+              </div>
+              <div className="p-2 rounded-full bg-orange-100">
+                <TrendingUp className="h-5 w-5 text-orange-600" />
+              </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Filters */}
-      <div className="bg-white rounded-lg shadow-md p-4">
-        <div className="flex flex-col md:flex-row gap-4">
-          {/* Search */}
-          <div className="flex-1 relative">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <Search className="h-5 w-5 text-gray-400" />
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            {/* Search */}
+            <div className="flex-1 relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                placeholder="Search by receipt #, cashier, or product..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              />
+            </div>
+            
+            {/* Date Filter */}
+            <div className="flex items-center space-x-2">
+              <Calendar className="h-5 w-5 text-gray-400" />
+              <select
+                value={dateFilter}
+                onChange={(e) => setDateFilter(e.target.value as any)}
+                className="block w-40 py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="all">All Time</option>
+                <option value="today">Today</option>
+                <option value="week">Last 7 Days</option>
+                <option value="month">Last 30 Days</option>
+              </select>
             </div>
-            <input
-              type="text"
-              placeholder="Search by receipt #, cashier, or product..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-            />
-          </div>
-          
-          {/* Date Filter */}
-          <div className="flex items-center space-x-2">
-            <Calendar className="h-5 w-5 text-gray-400" />
-            <select
-              value={dateFilter}
-              onChange={(e) => setDateFilter(e.target.value as any)}
-              className="block w-40 py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="all">All Time</option>
-              <option value="today">Today</option>
-              <option value="week">Last 7 Days</option>
-              <option value="month">Last 30 Days</option>
-            </select>
           </div>
         </div>
-      </div>
 
-      {/* Sales List */}
-      <div className="bg-white rounded-lg shadow-md overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Receipt
-                </th>
-                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Date
-                </th>
-                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Store
-                </th>
-                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Cashier
-                </th>
-                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Items
-                </th>
-                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Payment
-                </th>
-                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Total
-                </th>
-                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Actions
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {filteredSales.length === 0 ? (
+        {/* Sales List */}
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
                 <tr>
-                  <td colSpan={8} className="px-6 py-12 text-center">
-                    <Receipt className="h-12 w-12 text-gray-300 mx-auto mb-3" />
-                    <p className="text-gray-500">
-                      {searchQuery ? 'No sales found matching your search' : 'No sales recorded yet'}
-                    </p>
-                  </td>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Receipt
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Store
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Cashier
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Items
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Payment
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Total
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
                 </tr>
-              ) : (
-                filteredSales.map((sale) => (
-                  <tr key={sale.id} className="hover:bg-gray-50 transition-colors">
-                    <td className="px-4 py-3 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <Receipt className="h-4 w-4 text-gray-400 mr-2" />
-                        <span className="text-sm font-medium text-gray-900">{sale.receiptNumber}</span>
-                      </div>
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
-                      {formatDate(sale.timestamp)}
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap">
-                      <div className="flex items-center text-sm text-blue-600">
-                        <Store className="h-4 w-4 mr-1" />
-                        {sale.storeName}
-                      </div>
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap">
-                      <div className="flex items-center text-sm text-gray-900">
-                        <User className="h-4 w-4 text-gray-400 mr-1" />
-                        {sale.cashierName}
-                      </div>
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
-                      {sale.items.reduce((sum, item) => sum + item.quantity, 0)} items
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap">
-                      <div className="flex items-center text-sm text-gray-600">
-                        {getPaymentIcon(sale.paymentMethod)}
-                        <span className="ml-1">{getPaymentLabel(sale.paymentMethod)}</span>
-                      </div>
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-bold text-gray-900">
-                      ${sale.total.toFixed(2)}
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap text-center">
-                      <button
-                        onClick={() => handleVerifyReturn(sale)}
-                        className="inline-flex items-center px-3 py-1 bg-orange-100 text-orange-700 rounded-full text-xs font-medium hover:bg-orange-200 transition-colors"
-                        title="Verify for Return"
-                      >
-                        <RotateCcw className="h-3 w-3 mr-1" />
-                        Return
-                      </button>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredSales.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-12 text-center">
+                      <Receipt className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                      <p className="text-gray-500">
+                        {searchQuery ? 'No sales found matching your search' : 'No sales recorded yet'}
+                      </p>
                     </td>
                   </tr>
-                ))
-              )}
-            </tbody>
-          </table>
+                ) : (
+                  filteredSales.map((sale) => (
+                    <tr key={sale.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <Receipt className="h-4 w-4 text-gray-400 mr-2" />
+                          <span className="text-sm font-medium text-gray-900">{sale.receiptNumber}</span>
+                          {SaleService.isVoided(sale) && (
+                            <span className="ml-2 px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs font-medium">
+                              Voided
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                        {formatDate(sale.timestamp)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="flex items-center text-sm text-blue-600">
+                          <Store className="h-4 w-4 mr-1" />
+                          {sale.storeName}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="flex items-center text-sm text-gray-900">
+                          <User className="h-4 w-4 text-gray-400 mr-1" />
+                          {sale.cashierName}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                        {sale.items.reduce((sum, item) => sum + item.quantity, 0)} items
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="flex items-center text-sm text-gray-600">
+                          {getPaymentIcon(sale.paymentMethod)}
+                          <span className="ml-1">
+                            {sale.tenders && sale.tenders.length > 1 ? 'Split' : getPaymentLabel(sale.paymentMethod)}
+                          </span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-bold text-gray-900">
+                        <span className={SaleService.isVoided(sale) ? 'line-through text-gray-400' : ''}>
+                          ${sale.total.toFixed(2)}
+                        </span>
+                        {sale.refundedTotal ? (
+                          <p className="text-xs font-medium text-orange-600">
+                            -${sale.refundedTotal.toFixed(2)} refunded
+                          </p>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-center">
+                        <button
+                          onClick={() => handleVerifyReturn(sale)}
+                          className="inline-flex items-center px-3 py-1 bg-orange-100 text-orange-700 rounded-full text-xs font-medium hover:bg-orange-200 transition-colors"
+                          title="Verify for Return"
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Return
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
         </div>
-      </div>
+        </>
+      )}
 
       {/* Sale Detail / Return Verification Modal */}
       {selectedSale && (
@@ -403,12 +522,23 @@ export function SalesHistory() {
                       <span className="text-gray-600">Cashier:</span>
                       <p className="font-semibold">{selectedSale.cashierName}</p>
                     </div>
+                    {selectedSale.customerName && (
+                      <div>
+                        <span className="text-gray-600">Customer:</span>
+                        <p className="font-semibold">{selectedSale.customerName}</p>
+                      </div>
+                    )}
                     <div>
                       <span className="text-gray-600">Payment:</span>
-                      <p className="font-semibold flex items-center">
-                        {getPaymentIcon(selectedSale.paymentMethod)}
-                        <span className="ml-1">{getPaymentLabel(selectedSale.paymentMethod)}</span>
-                      </p>
+                      {SaleService.getTenders(selectedSale).map((tender, index) => (
+                        <p key={index} className="font-semibold flex items-center">
+                          {getPaymentIcon(tender.method)}
+                          <span className="ml-1">{getPaymentLabel(tender.method)}</span>
+                          {selectedSale.tenders && selectedSale.tenders.length > 1 && (
+                            <span className="ml-1 font-normal">${tender.amount.toFixed(2)}</span>
+                          )}
+                        </p>
+                      ))}
                     </div>
                   </div>
                 </div>
@@ -417,28 +547,102 @@ export function SalesHistory() {
                 <div>
                   <h4 className="text-sm font-semibold text-gray-900 mb-3">Items Purchased</h4>
                   <div className="space-y-2">
-                    {selectedSale.items.map((item, index) => (
-                      <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                        <div className="flex-1">
-                          <p className="text-sm font-medium text-gray-900">{item.name}</p>
-                          <p className="text-xs text-gray-600">
-                            {item.quantity} x ${item.price.toFixed(2)}
-                          </p>
+                    {selectedSale.items.map((item, index) => {
+                      const returnable = ReturnService.getReturnableQuantity(item);
+                      return (
+                        <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                          <div className="flex-1">
+                            <p className="text-sm font-medium text-gray-900">{item.name}</p>
+                            <p className="text-xs text-gray-600">
+                              {ProductService.formatQuantity(item.quantity, item.measureUnit)} x ${item.price.toFixed(2)}
+                              {item.measureUnit && `/${item.measureUnit}`}
+                            </p>
+                            {item.returnedQuantity ? (
+                              <p className="text-xs text-orange-600">
+                                {ProductService.formatQuantity(item.returnedQuantity, item.measureUnit)} returned
+                              </p>
+                            ) : null}
+                          </div>
+                          <div className="text-right">
+                            <p className="text-sm font-semibold text-gray-900">${item.total.toFixed(2)}</p>
+                            {selectedVoided ? null : returnable > 0 ? (
+                              <div className="flex items-center justify-end space-x-1 mt-1">
+                                <span className="text-xs text-gray-500">Return</span>
+                                <input
+                                  type="number"
+                                  min="0"
+                                  max={returnable}
+                                  step={item.measureUnit ? '0.001' : '1'}
+                                  value={returnQuantities[item.barcode] || 0}
+                                  onChange={(e) =>
+                                    handleReturnQuantityChange(item.barcode, e.target.value, returnable, !!item.measureUnit)
+                                  }
+                                  className="w-16 px-2 py-1 text-xs border border-gray-300 rounded focus:ring-2 focus:ring-orange-500"
+                                />
+                              </div>
+                            ) : (
+                              <span className="text-xs text-gray-400">Fully returned</span>
+                            )}
+                          </div>
                         </div>
-                        <div className="text-right">
-                          <p className="text-sm font-semibold text-gray-900">${item.total.toFixed(2)}</p>
-                          <button
-                            onClick={() => handleProcessReturn(item.barcode, item.quantity)}
-                            className="text-xs text-orange-600 hover:text-orange-700 font-medium"
-                          >
-                            Process Return
-                          </button>
-                        </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
 
+                {/* Return Form */}
+                {!selectedVoided && pendingRefund > 0 && (
+                  <div className="border border-orange-200 bg-orange-50 rounded-lg p-4 space-y-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Return Reason</label>
+                      <input
+                        type="text"
+                        value={returnReason}
+                        onChange={(e) => setReturnReason(e.target.value)}
+                        className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500"
+                        placeholder="e.g. Defective, wrong item"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Refund Method</label>
+                      <select
+                        value={refundMethod}
+                        onChange={(e) => setRefundMethod(e.target.value as PaymentMethod)}
+                        className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500"
+                      >
+                        {Array.from(
+                          new Set<PaymentMethod>([
+                            ...SaleService.getTenders(selectedSale).map((tender) => tender.method),
+                            'cash',
+                            'store_credit',
+                          ])
+                        ).map((method) => (
+                          <option key={method} value={method}>
+                            {method === 'store_credit' &&
+                            !SaleService.getTenders(selectedSale).some((tender) => tender.method === 'store_credit')
+                              ? 'Store Credit (new code)'
+                              : getPaymentLabel(method)}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700">
+                        Refund via {getPaymentLabel(refundMethod)}:
+                      </span>
+                      <span className="font-bold text-orange-700">${pendingRefund.toFixed(2)}</span>
+                    </div>
+                    <button
+                      onClick={handleProcessReturn}
+                      disabled={!returnReason.trim()}
+                      className="w-full inline-flex items-center justify-center px-4 py-2 bg-orange-600 text-white rounded-lg text-sm font-medium hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Process Return
+                    </button>
+                  </div>
+                )}
+
                 {/* Totals */}
                 <div className="border-t pt-4">
                   <div className="flex justify-between text-sm mb-2">
@@ -461,26 +665,69 @@ export function SalesHistory() {
                       <span>${selectedSale.change.toFixed(2)}</span>
                     </div>
                   )}
+                  {selectedSale.refundedTotal ? (
+                    <div className="flex justify-between text-sm mt-2 text-orange-600">
+                      <span>Refunded:</span>
+                      <span>-${selectedSale.refundedTotal.toFixed(2)}</span>
+                    </div>
+                  ) : null}
                 </div>
 
                 {/* Verification Status */}
-                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                  <div className="flex items-start space-x-3">
-                    <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
-                    <div>
-                      <p className="text-sm font-semibold text-green-800">Receipt Verified</p>
-                      <p className="text-xs text-green-700 mt-1">
-                        This receipt is valid. You can process returns for individual items above.
-                      </p>
+                {selectedVoided ? (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                    <div className="flex items-start space-x-3">
+                      <Ban className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+                      <div>
+                        <p className="text-sm font-semibold text-red-800">Sale Voided</p>
+                        <p className="text-xs text-red-700 mt-1">
+                          Voided by {selectedSale.voidedBy} on {formatDate(selectedSale.voidedAt || selectedSale.timestamp)}:{' '}
+                          {selectedSale.voidReason}
+                        </p>
+                      </div>
                     </div>
                   </div>
-                </div>
+                ) : (
+                  <>
+                    <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                      <div className="flex items-start space-x-3">
+                        <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+                        <div>
+                          <p className="text-sm font-semibold text-green-800">Receipt Verified</p>
+                          <p className="text-xs text-green-700 mt-1">
+                            This receipt is valid. Enter quantities above to return items to stock and refund them.
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+
+                    {!selectedSale.refundedTotal && !selectedSale.layawayNumber && (
+                      <button
+                        onClick={() => setShowVoidSale(true)}
+                        className="w-full inline-flex items-center justify-center px-4 py-2 border border-red-300 text-red-700 rounded-lg text-sm font-medium hover:bg-red-50 transition-colors"
+                      >
+                        <Ban className="h-4 w-4 mr-2" />
+                        Void Sale
+                      </button>
+                    )}
+                  </>
+                )}
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {/* Void Sale Modal */}
+      {selectedSale && showVoidSale && (
+        <VoidSaleModal
+          sale={selectedSale}
+          admin={user || undefined}
+          onVoided={handleSaleVoided}
+          onClose={() => setShowVoidSale(false)}
+        />
+      )}
+
       {/* Notification */}
       {notification && (
         <div
@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react';
+import { Clock, User, Store, X, CheckCircle, AlertTriangle, DollarSign } from 'lucide-react';
+import { CashierSession } from '../types/product';
+import { CashierSessionService, StoreService, CASH_DENOMINATIONS } from '../services/localStorageService';
+import { useStore } from '../contexts/StoreContext';
+
+/**
+ * Shift Sessions Page
+ * Admin can review cashier shifts and their closing cash counts
+ */
+export function ShiftSessions() {
+  const { currentStore } = useStore();
+  const [sessions, setSessions] = useState<CashierSession[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'all' | 'open' | 'closed'>('all');
+  const [selectedSession, setSelectedSession] = useState<CashierSession | null>(null);
+
+  // Load sessions function - defined before useEffect
+  const loadSessions = () => {
+    const currentStoreId = StoreService.getCurrentStore()?.id;
+    setSessions(
+      currentStoreId
+        ? CashierSessionService.getByStore(currentStoreId)
+        : CashierSessionService.getAll()
+    );
+  };
+
+  // Load sessions on mount and when store changes
+  useEffect(() => {
+    loadSessions();
+
+    const handleStoreChange = () => {
+      loadSessions();
+    };
+    window.addEventListener('storeChanged', handleStoreChange);
+
+    const handleFocus = () => {
+      loadSessions();
+    };
+    window.addEventListener('focus', handleFocus);
+
+    return () => {
+      window.removeEventListener('storeChanged', handleStoreChange);
+      window.removeEventListener('focus', handleFocus);
+    };
+  }, [currentStore]);
+
+  const filteredSessions = sessions.filter(
+    (session) => statusFilter === 'all' || session.status === statusFilter
+  );
+
+  const closedSessions = sessions.filter((s) => s.status === 'closed');
+  const stats = {
+    open: sessions.length - closedSessions.length,
+    closed: closedSessions.length,
+    flagged: closedSessions.filter((s) => s.variance).length,
+    netVariance: closedSessions.reduce((sum, s) => sum + (s.variance ?? 0), 0),
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatVariance = (variance: number) => {
+    if (variance === 0) return '$0.00';
+    return `${variance > 0 ? '+' : '-'}$${Math.abs(variance).toFixed(2)}`;
+  };
+
+  /**
+   * Badge for the over/short result of a session
+   */
+  const renderVarianceBadge = (session: CashierSession) => {
+    if (session.status === 'open') {
+      return (
+        <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-700">
+          Open
+        </span>
+      );
+    }
+
+    const variance = session.variance ?? 0;
+    if (variance === 0) {
+      return (
+        <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">
+          Balanced
+        </span>
+      );
+    }
+
+    return (
+      <span
+        className={`px-2 py-1 rounded-full text-xs font-medium ${
+          variance > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-700'
+        }`}
+      >
+        {variance > 0 ? 'Over' : 'Short'} {formatVariance(variance)}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Shifts</h1>
+          <p className="text-gray-600 mt-1">
+            {currentStore ? (
+              <span className="flex items-center gap-2">
+                <Store className="h-4 w-4" />
+                Viewing shifts for {currentStore.name}
+              </span>
+            ) : (
+              'Review cashier shifts and closing cash counts'
+            )}
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as 'all' | 'open' | 'closed')}
+          className="block w-40 py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="all">All Shifts</option>
+          <option value="open">Open</option>
+          <option value="closed">Closed</option>
+        </select>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-xs font-medium text-gray-600">Open Shifts</p>
+          <p className="text-2xl font-bold text-blue-600">{stats.open}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-xs font-medium text-gray-600">Closed Shifts</p>
+          <p className="text-2xl font-bold text-gray-900">{stats.closed}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-xs font-medium text-gray-600">Over / Short</p>
+          <p className="text-2xl font-bold text-yellow-600">{stats.flagged}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-xs font-medium text-gray-600">Net Variance</p>
+          <p className={`text-2xl font-bold ${stats.netVariance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {formatVariance(stats.netVariance)}
+          </p>
+        </div>
+      </div>
+
+      {/* Sessions List */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cashier
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Store
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Opened
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Closed
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Expected
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Counted
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Result
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredSessions.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center">
+                    <Clock className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">No shifts recorded yet</p>
+                  </td>
+                </tr>
+              ) : (
+                filteredSessions.map((session) => (
+                  <tr
+                    key={session.id}
+                    onClick={() => session.status === 'closed' && setSelectedSession(session)}
+                    className={`hover:bg-gray-50 transition-colors ${
+                      session.status === 'closed' ? 'cursor-pointer' : ''
+                    }`}
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <div className="flex items-center text-sm text-gray-900">
+                        <User className="h-4 w-4 text-gray-400 mr-1" />
+                        {session.cashierName}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <div className="flex items-center text-sm text-blue-600">
+                        <Store className="h-4 w-4 mr-1" />
+                        {session.storeName}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                      {formatDate(session.startTime)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                      {session.endTime ? formatDate(session.endTime) : '—'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                      {session.expectedCash !== undefined ? `$${session.expectedCash.toFixed(2)}` : '—'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-bold text-gray-900">
+                      {session.closingBalance !== undefined ? `$${session.closingBalance.toFixed(2)}` : '—'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-center">
+                      {renderVarianceBadge(session)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Session Detail Modal */}
+      {selectedSession && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setSelectedSession(null)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+              {/* Header */}
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 sticky top-0 bg-white">
+                <div className="flex items-center space-x-2">
+                  {selectedSession.variance ? (
+                    <AlertTriangle className="h-6 w-6 text-yellow-600" />
+                  ) : (
+                    <CheckCircle className="h-6 w-6 text-green-600" />
+                  )}
+                  <h3 className="text-lg font-semibold text-gray-900">Shift Details</h3>
+                </div>
+                <button onClick={() => setSelectedSession(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <div className="text-sm text-gray-600">
+                  <p className="font-medium text-gray-900">{selectedSession.cashierName}</p>
+                  <p>{selectedSession.storeName}</p>
+                  <p>
+                    {formatDate(selectedSession.startTime)}
+                    {selectedSession.endTime && ` – ${formatDate(selectedSession.endTime)}`}
+                  </p>
+                </div>
+
+                {/* Cash Summary */}
+                <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Opening Float:</span>
+                    <span className="font-medium">${selectedSession.openingBalance.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Net Cash Taken:</span>
+                    <span className="font-medium">${(selectedSession.cashSales ?? 0).toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between border-t border-gray-200 pt-2">
+                    <span className="text-gray-600">Expected Cash:</span>
+                    <span className="font-medium">${(selectedSession.expectedCash ?? 0).toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Counted Cash:</span>
+                    <span className="font-medium">${(selectedSession.closingBalance ?? 0).toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between border-t border-gray-200 pt-2">
+                    <span className="text-gray-600">Variance:</span>
+                    <span className="font-bold">{formatVariance(selectedSession.variance ?? 0)}</span>
+                  </div>
+                </div>
+
+                {/* Denomination Breakdown */}
+                <div>
+                  <h4 className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                    <DollarSign className="h-4 w-4 mr-1" />
+                    Cash Count
+                  </h4>
+                  <div className="divide-y divide-gray-100 text-sm">
+                    {CASH_DENOMINATIONS.filter(
+                      (value) => selectedSession.denominationCount?.[value.toString()]
+                    ).map((value) => {
+                      const count = selectedSession.denominationCount?.[value.toString()] ?? 0;
+                      return (
+                        <div key={value} className="flex justify-between py-1.5">
+                          <span className="text-gray-600">
+                            ${value.toFixed(2)} × {count}
+                          </span>
+                          <span className="font-medium">${(value * count).toFixed(2)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {selectedSession.notes && (
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-700">Notes</p>
+                    <p className="text-gray-600">{selectedSession.notes}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
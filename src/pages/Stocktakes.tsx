@@ -0,0 +1,558 @@
+import { useState, useEffect } from 'react';
+import { ClipboardCheck, Plus, X, Eye, Send, XCircle, CheckCircle, AlertCircle } from 'lucide-react';
+import { Category, EmbeddedBarcode, Stocktake, StocktakeStatus } from '../types/product';
+import { StocktakeService, ProductService, CATEGORIES } from '../services/localStorageService';
+import { useAuth } from '../contexts/AuthContext';
+import { useStore } from '../contexts/StoreContext';
+import { BarcodeInput } from '../components/BarcodeInput';
+import { NotificationToast } from '../components/NotificationToast';
+
+const STATUS_STYLES: Record<StocktakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+/**
+ * Stocktakes Page
+ * Allows admin to count a store's stock, review the variances and post them as adjustments
+ */
+export function Stocktakes() {
+  const { user } = useAuth();
+  const { currentStore } = useStore();
+  const performedBy = user?.username || 'admin';
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [isStartOpen, setIsStartOpen] = useState(false);
+  const [startForm, setStartForm] = useState({ category: '' as Category | '', bin: '' });
+  const [countEdits, setCountEdits] = useState<Record<string, string>>({});
+  const [lastScan, setLastScan] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+  const [reviewStocktake, setReviewStocktake] = useState<Stocktake | null>(null);
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    message: string;
+    type: 'success' | 'error';
+  } | null>(null);
+
+  // Load stocktakes function - defined before useEffect
+  const loadStocktakes = () => {
+    setStocktakes(StocktakeService.getAll());
+  };
+
+  useEffect(() => {
+    loadStocktakes();
+  }, []);
+
+  /**
+   * Show notification
+   */
+  const showNotification = (message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  // The count under way at the current store, if any
+  const counting = stocktakes.find((s) => s.status === 'counting' && s.storeId === currentStore?.id);
+
+  /**
+   * Start a count at the current store
+   */
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = StocktakeService.start(
+      { storeId: currentStore?.id, category: startForm.category || undefined, bin: startForm.bin },
+      performedBy
+    );
+    if (result.success && result.stocktake) {
+      showNotification(`${result.stocktake.countNumber} started: ${result.stocktake.lines.length} products to count`, 'success');
+      setIsStartOpen(false);
+      setStartForm({ category: '', bin: '' });
+      setCountEdits({});
+      setLastScan(null);
+      loadStocktakes();
+    } else {
+      showNotification(result.error || 'Failed to start stocktake', 'error');
+    }
+  };
+
+  /**
+   * Tally one scanned item; a scale label counts what it weighs
+   */
+  const handleScan = (barcode: string, label?: EmbeddedBarcode) => {
+    if (!counting) return;
+
+    let quantity = 1;
+    if (label) {
+      const price = ProductService.findByBarcode(barcode, counting.storeId)?.price || 0;
+      quantity = label.kind === 'weight' ? label.value : price > 0 ? ProductService.roundQuantity(label.value / price) : 0;
+    }
+
+    const result = StocktakeService.recordCount(counting.id, barcode, quantity, 'add');
+    if (result.success && result.line) {
+      const line = result.line;
+      setLastScan({ text: `${line.name}: ${line.counted} counted`, type: 'success' });
+      setCountEdits((prev) => {
+        const next = { ...prev };
+        delete next[line.barcode];
+        return next;
+      });
+      loadStocktakes();
+    } else {
+      setLastScan({ text: result.error || 'Scan not counted', type: 'error' });
+    }
+  };
+
+  /**
+   * Replace the count of a line with what was typed
+   */
+  const handleSetCount = (barcode: string) => {
+    if (!counting || countEdits[barcode] === undefined) return;
+
+    const result = StocktakeService.recordCount(counting.id, barcode, parseFloat(countEdits[barcode]), 'set');
+    if (result.success) {
+      setCountEdits((prev) => {
+        const next = { ...prev };
+        delete next[barcode];
+        return next;
+      });
+      loadStocktakes();
+    } else {
+      showNotification(result.error || 'Failed to record count', 'error');
+    }
+  };
+
+  const handleSubmit = (stocktake: Stocktake) => {
+    const uncounted = stocktake.lines.filter((line) => line.counted === undefined).length;
+    const warning = uncounted > 0 ? ` ${uncounted} products not counted will be left as they are.` : '';
+    if (!window.confirm(`Finish counting ${stocktake.countNumber}?${warning}`)) return;
+
+    const result = StocktakeService.submit(stocktake.id, performedBy);
+    if (result.success) {
+      showNotification(`${stocktake.countNumber} submitted for approval`, 'success');
+      loadStocktakes();
+      setReviewStocktake(StocktakeService.findById(stocktake.id) || null);
+    } else {
+      showNotification(result.error || 'Failed to submit stocktake', 'error');
+    }
+  };
+
+  const handlePost = (stocktake: Stocktake) => {
+    if (!user) return;
+    if (!window.confirm(`Post the variances on ${stocktake.countNumber} to stock at ${stocktake.storeName}?`)) return;
+
+    const result = StocktakeService.post(stocktake.id, user);
+    if (result.success) {
+      showNotification(`${stocktake.countNumber} posted to stock`, 'success');
+      setReviewStocktake(null);
+      loadStocktakes();
+    } else {
+      showNotification(result.error || 'Failed to post stocktake', 'error');
+    }
+  };
+
+  const handleCancel = (stocktake: Stocktake) => {
+    if (!window.confirm(`Cancel ${stocktake.countNumber}? Nothing counted on it will be posted.`)) return;
+
+    const result = StocktakeService.cancel(stocktake.id);
+    if (result.success) {
+      showNotification(`${stocktake.countNumber} cancelled`, 'success');
+      setReviewStocktake(null);
+      loadStocktakes();
+    } else {
+      showNotification(result.error || 'Failed to cancel stocktake', 'error');
+    }
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const scopeLabel = (stocktake: Stocktake) =>
+    [stocktake.category, stocktake.bin && `Bin ${stocktake.bin}`].filter(Boolean).join(' · ') || 'Full count';
+
+  const countedLines = counting ? counting.lines.filter((line) => line.counted !== undefined).length : 0;
+  const variances = reviewStocktake ? StocktakeService.getVariances(reviewStocktake) : [];
+  const netImpact = variances.reduce((sum, v) => sum + v.valueImpact, 0);
+  const shortage = variances.filter((v) => v.valueImpact < 0).reduce((sum, v) => sum + v.valueImpact, 0);
+  const overage = variances.filter((v) => v.valueImpact > 0).reduce((sum, v) => sum + v.valueImpact, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Stocktakes</h1>
+          <p className="text-gray-600 mt-1">Physical counts of stock, with the variances posted once approved</p>
+        </div>
+        {!counting && (
+          <button
+            onClick={() => setIsStartOpen(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-5 w-5 mr-2" />
+            Start Stocktake
+          </button>
+        )}
+      </div>
+
+      {/* Count in progress */}
+      {counting && (
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">
+                Counting {counting.countNumber} · {scopeLabel(counting)}
+              </h2>
+              <p className="text-sm text-gray-500">
+                {countedLines} of {counting.lines.length} products counted at {counting.storeName}. Scan each item
+                or type a count; sales can carry on.
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => handleCancel(counting)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel Count
+              </button>
+              <button
+                onClick={() => handleSubmit(counting)}
+                className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+              >
+                <Send className="h-4 w-4 mr-2" />
+                Finish Counting
+              </button>
+            </div>
+          </div>
+
+          <BarcodeInput onScan={handleScan} disabled={isStartOpen || !!reviewStocktake} />
+          {lastScan && (
+            <p className={`text-sm ${lastScan.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+              {lastScan.text}
+            </p>
+          )}
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-[28rem] overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Barcode</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Counted</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {counting.lines.map((line) => (
+                  <tr key={line.barcode} className={line.counted !== undefined ? 'bg-green-50' : ''}>
+                    <td className="px-4 py-2 text-gray-900">{line.name}</td>
+                    <td className="px-4 py-2 font-mono text-gray-500">{line.barcode}</td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={countEdits[line.barcode] ?? line.counted?.toString() ?? ''}
+                        onChange={(e) => setCountEdits({ ...countEdits, [line.barcode]: e.target.value })}
+                        onBlur={() => handleSetCount(line.barcode)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleSetCount(line.barcode)}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                        placeholder="—"
+                        aria-label={`Count of ${line.name}`}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Stocktakes Table */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Stocktake
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Scope
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Counted
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Value Impact
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {stocktakes.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center">
+                    <ClipboardCheck className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">No stocktakes yet</p>
+                  </td>
+                </tr>
+              ) : (
+                stocktakes.map((stocktake) => {
+                  const impact = StocktakeService.getVariances(stocktake).reduce((sum, v) => sum + v.valueImpact, 0);
+                  return (
+                    <tr key={stocktake.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <p className="text-sm font-mono font-medium text-gray-900">{stocktake.countNumber}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(stocktake.startedAt)} · {stocktake.storeName}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{scopeLabel(stocktake)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                        {stocktake.lines.filter((line) => line.counted !== undefined).length} / {stocktake.lines.length}
+                      </td>
+                      <td
+                        className={`px-4 py-3 whitespace-nowrap text-right text-sm font-medium ${
+                          impact < 0 ? 'text-red-600' : impact > 0 ? 'text-green-600' : 'text-gray-600'
+                        }`}
+                      >
+                        {impact < 0 ? '-' : ''}${Math.abs(impact).toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[stocktake.status]}`}>
+                          {stocktake.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-center">
+                        <div className="flex items-center justify-center space-x-2">
+                          <button
+                            onClick={() => setReviewStocktake(stocktake)}
+                            className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Variance report"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </button>
+                          {stocktake.status === 'submitted' && (
+                            <>
+                              <button
+                                onClick={() => handlePost(stocktake)}
+                                className="p-1.5 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                                title="Approve and post"
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => handleCancel(stocktake)}
+                                className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                title="Cancel"
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Start Modal */}
+      {isStartOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setIsStartOpen(false)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Start Stocktake</h3>
+                  <p className="text-sm text-gray-500">{currentStore ? currentStore.name : 'Current store'}</p>
+                </div>
+                <button onClick={() => setIsStartOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+              <form onSubmit={handleStart} className="p-6 space-y-4">
+                <div>
+                  <label htmlFor="countCategory" className="block text-sm font-medium text-gray-700 mb-1">
+                    Category
+                  </label>
+                  <select
+                    id="countCategory"
+                    value={startForm.category}
+                    onChange={(e) => setStartForm({ ...startForm, category: e.target.value as Category | '' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">All categories</option>
+                    {CATEGORIES.map((category) => (
+                      <option key={category} value={category}>
+                        {category}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="countBin" className="block text-sm font-medium text-gray-700 mb-1">
+                    Bin
+                  </label>
+                  <input
+                    id="countBin"
+                    type="text"
+                    value={startForm.bin}
+                    onChange={(e) => setStartForm({ ...startForm, bin: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="All bins"
+                  />
+                </div>
+                <div className="flex justify-end space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsStartOpen(false)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+                    Start Counting
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Variance Report Modal */}
+      {reviewStocktake && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setReviewStocktake(null)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 sticky top-0 bg-white">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Variance Report · {reviewStocktake.countNumber}</h3>
+                  <p className="text-sm text-gray-500">
+                    {reviewStocktake.storeName} · {scopeLabel(reviewStocktake)} · started by {reviewStocktake.startedBy}
+                    {reviewStocktake.postedBy && ` · posted by ${reviewStocktake.postedBy}`}
+                  </p>
+                </div>
+                <button onClick={() => setReviewStocktake(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="p-3 bg-red-50 rounded-lg">
+                    <p className="text-xs text-gray-500">Shortage</p>
+                    <p className="text-lg font-bold text-red-600">-${Math.abs(shortage).toFixed(2)}</p>
+                  </div>
+                  <div className="p-3 bg-green-50 rounded-lg">
+                    <p className="text-xs text-gray-500">Overage</p>
+                    <p className="text-lg font-bold text-green-600">${overage.toFixed(2)}</p>
+                  </div>
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-500">Net Value Impact</p>
+                    <p className={`text-lg font-bold ${netImpact < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {netImpact < 0 ? '-' : ''}${Math.abs(netImpact).toFixed(2)}
+                    </p>
+                  </div>
+                </div>
+
+                {reviewStocktake.lines.length > variances.length && (
+                  <p className="flex items-center text-xs text-gray-500">
+                    <AlertCircle className="h-4 w-4 mr-1" />
+                    {reviewStocktake.lines.length - variances.length} products were not counted and are left as they are
+                  </p>
+                )}
+
+                <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Expected</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Counted</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Variance</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Value</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {variances.length === 0 ? (
+                        <tr>
+                          <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                            Nothing counted yet
+                          </td>
+                        </tr>
+                      ) : (
+                        variances.map((v) => (
+                          <tr key={v.barcode}>
+                            <td className="px-4 py-2 text-gray-900">{v.name}</td>
+                            <td className="px-4 py-2 text-right text-gray-600">{v.expected}</td>
+                            <td className="px-4 py-2 text-right text-gray-900">{v.counted}</td>
+                            <td
+                              className={`px-4 py-2 text-right font-medium ${
+                                v.variance < 0 ? 'text-red-600' : v.variance > 0 ? 'text-green-600' : 'text-gray-500'
+                              }`}
+                            >
+                              {v.variance > 0 ? `+${v.variance}` : v.variance}
+                            </td>
+                            <td className="px-4 py-2 text-right text-gray-900">
+                              {v.valueImpact < 0 ? '-' : ''}${Math.abs(v.valueImpact).toFixed(2)}
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+
+                {reviewStocktake.status === 'submitted' && (
+                  <div className="flex justify-end space-x-3 pt-2 border-t border-gray-200">
+                    <button
+                      onClick={() => handleCancel(reviewStocktake)}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                    >
+                      Cancel Stocktake
+                    </button>
+                    <button
+                      onClick={() => handlePost(reviewStocktake)}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                    >
+                      Approve &amp; Post Adjustments
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Notification Toast */}
+      {notification && (
+        <NotificationToast
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -13,20 +13,39 @@ import {
   Search,
   Building2,
   ArrowRightLeft,
+  CheckCircle,
+  Truck,
+  PackageCheck,
+  XCircle,
 } from 'lucide-react';
-import { Store as StoreType } from '../types/product';
+import { Store as StoreType, StockTransfer, StockTransferStatus } from '../types/product';
 import { StoreService, StockTransferService, ProductService } from '../services/localStorageService';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Display labels and badge colors for transfer statuses
+ */
+const TRANSFER_STATUS_STYLES: Record<StockTransferStatus, { label: string; className: string }> = {
+  pending: { label: 'Requested', className: 'bg-gray-100 text-gray-800' },
+  approved: { label: 'Approved', className: 'bg-blue-100 text-blue-800' },
+  in_transit: { label: 'In Transit', className: 'bg-orange-100 text-orange-800' },
+  partially_received: { label: 'Partially Received', className: 'bg-yellow-100 text-yellow-800' },
+  completed: { label: 'Received', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-800' },
+};
 
 /**
  * Store Management Page
  * Admin can manage multiple store locations and stock transfers
  */
 export function StoreManagement() {
+  const { user } = useAuth();
   const [stores, setStores] = useState<StoreType[]>([]);
   const [currentStore, setCurrentStore] = useState<StoreType | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [stats, setStats] = useState({ total: 0, active: 0, inactive: 0 });
   const [activeTab, setActiveTab] = useState<'stores' | 'transfers'>('stores');
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
 
   // Modal states
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
@@ -54,6 +73,10 @@ export function StoreManagement() {
     quantity: 1,
   });
 
+  // Receive form
+  const [receivingTransfer, setReceivingTransfer] = useState<StockTransfer | null>(null);
+  const [receiveQuantity, setReceiveQuantity] = useState(0);
+
   // Notification
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
 
@@ -67,8 +90,15 @@ export function StoreManagement() {
     setStores(allStores);
     setCurrentStore(StoreService.getCurrentStore() || null);
     setStats(StoreService.getStats());
+    setTransfers(
+      StockTransferService.getAll().sort(
+        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      )
+    );
   };
 
+  const performedBy = user?.username || 'Admin';
+
   const showNotification = (message: string, type: 'success' | 'error') => {
     setNotification({ message, type });
     setTimeout(() => setNotification(null), 3000);
@@ -187,14 +217,58 @@ export function StoreManagement() {
       barcode: transferForm.barcode,
       productName: product.name,
       quantity: transferForm.quantity,
-      status: 'pending',
-      requestedBy: 'Admin',
+      requestedBy: performedBy,
     });
 
     if (result.success) {
+      loadStores();
       setIsTransferModalOpen(false);
       setTransferForm({ fromStoreId: '', toStoreId: '', barcode: '', quantity: 1 });
-      showNotification('Stock transfer initiated', 'success');
+      setActiveTab('transfers');
+      showNotification('Stock transfer requested', 'success');
+    } else {
+      showNotification(result.error || 'Failed to request transfer', 'error');
+    }
+  };
+
+  const handleTransferAction = (
+    action: 'approve' | 'dispatch' | 'cancel',
+    transfer: StockTransfer
+  ) => {
+    if (action === 'cancel' && !confirm('Cancel this transfer?')) return;
+
+    const result = StockTransferService[action](transfer.id, performedBy);
+    const messages = {
+      approve: 'Transfer approved and stock reserved',
+      dispatch: 'Transfer dispatched',
+      cancel: 'Transfer cancelled',
+    };
+
+    if (result.success) {
+      loadStores();
+      showNotification(messages[action], 'success');
+    } else {
+      showNotification(result.error || 'Failed to update transfer', 'error');
+    }
+  };
+
+  const handleOpenReceive = (transfer: StockTransfer) => {
+    setReceivingTransfer(transfer);
+    setReceiveQuantity(transfer.quantity - (transfer.quantityReceived || 0));
+  };
+
+  const handleReceiveSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receivingTransfer) return;
+
+    const result = StockTransferService.receive(receivingTransfer.id, receiveQuantity, performedBy);
+
+    if (result.success) {
+      loadStores();
+      setReceivingTransfer(null);
+      showNotification(`Received ${receiveQuantity} unit(s)`, 'success');
+    } else {
+      showNotification(result.error || 'Failed to receive transfer', 'error');
     }
   };
 
@@ -273,106 +347,227 @@ export function StoreManagement() {
         </div>
       </div>
 
-      {/* Search */}
-      <div className="bg-white rounded-lg shadow-md p-4">
-        <div className="relative">
-          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-            <Search className="h-5 w-5 text-gray-400" />
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-6">
+          {(['stores', 'transfers'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`pb-3 text-sm font-medium border-b-2 transition-colors capitalize ${
+                activeTab === tab
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab === 'transfers' ? `Stock Transfers (${transfers.length})` : 'Stores'}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {activeTab === 'transfers' && (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Route</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {transfers.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center">
+                      <ArrowRightLeft className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                      <p className="text-gray-500">No stock transfers yet</p>
+                    </td>
+                  </tr>
+                ) : (
+                  transfers.map((transfer) => {
+                    const status = TRANSFER_STATUS_STYLES[transfer.status] || TRANSFER_STATUS_STYLES.pending;
+                    return (
+                      <tr key={transfer.id} className="hover:bg-gray-50 transition-colors">
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <p className="text-sm font-medium text-gray-900">{transfer.productName}</p>
+                          <p className="text-xs text-gray-500">{transfer.barcode}</p>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                          {transfer.fromStoreName} → {transfer.toStoreName}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                          {transfer.quantityReceived !== undefined
+                            ? `${transfer.quantityReceived}/${transfer.quantity} received`
+                            : transfer.quantity}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                            {status.label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                          <p>{new Date(transfer.timestamp).toLocaleDateString()}</p>
+                          <p className="text-xs text-gray-400">by {transfer.requestedBy}</p>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right">
+                          <div className="flex items-center justify-end space-x-2">
+                            {transfer.status === 'pending' && (
+                              <button
+                                onClick={() => handleTransferAction('approve', transfer)}
+                                className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50 transition-colors"
+                                title="Approve"
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                              </button>
+                            )}
+                            {transfer.status === 'approved' && (
+                              <button
+                                onClick={() => handleTransferAction('dispatch', transfer)}
+                                className="text-orange-600 hover:text-orange-900 p-1 rounded hover:bg-orange-50 transition-colors"
+                                title="Dispatch"
+                              >
+                                <Truck className="h-4 w-4" />
+                              </button>
+                            )}
+                            {(transfer.status === 'in_transit' || transfer.status === 'partially_received') && (
+                              <button
+                                onClick={() => handleOpenReceive(transfer)}
+                                className="text-green-600 hover:text-green-900 p-1 rounded hover:bg-green-50 transition-colors"
+                                title="Receive"
+                              >
+                                <PackageCheck className="h-4 w-4" />
+                              </button>
+                            )}
+                            {transfer.status !== 'completed' && transfer.status !== 'cancelled' && (
+                              <button
+                                onClick={() => handleTransferAction('cancel', transfer)}
+                                className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50 transition-colors"
+                                title="Cancel"
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
           </div>
-          <input
-            type="text"
-            placeholder="Search by name, code, or address..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-          />
         </div>
-      </div>
+      )}
 
-      {/* Stores Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {filteredStores.length === 0 ? (
-          <div className="col-span-full text-center py-12 bg-white rounded-lg shadow-md">
-            <Store className="h-12 w-12 text-gray-300 mx-auto mb-3" />
-            <p className="text-gray-500">
-              {searchQuery ? 'No stores found matching your search' : 'No stores available'}
-            </p>
+      {activeTab === 'stores' && (
+        <>
+          {/* Search */}
+          <div className="bg-white rounded-lg shadow-md p-4">
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                placeholder="Search by name, code, or address..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              />
+            </div>
           </div>
-        ) : (
-          filteredStores.map((store) => (
-            <div
-              key={store.id}
-              className={`bg-white rounded-lg shadow-md p-6 border-2 transition-all ${
-                currentStore?.id === store.id ? 'border-blue-500' : 'border-transparent'
-              }`}
-            >
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex items-center">
-                  <div className="p-2 bg-blue-100 rounded-lg">
-                    <Building2 className="h-5 w-5 text-blue-600" />
-                  </div>
-                  <div className="ml-3">
-                    <h3 className="text-lg font-semibold text-gray-900">{store.name}</h3>
-                    <p className="text-sm text-gray-500">{store.code}</p>
-                  </div>
-                </div>
-                <button
-                  onClick={() => handleToggleActive(store)}
-                  className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                    store.isActive
-                      ? 'bg-green-100 text-green-800'
-                      : 'bg-red-100 text-red-800'
+
+          {/* Stores Grid */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredStores.length === 0 ? (
+              <div className="col-span-full text-center py-12 bg-white rounded-lg shadow-md">
+                <Store className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">
+                  {searchQuery ? 'No stores found matching your search' : 'No stores available'}
+                </p>
+              </div>
+            ) : (
+              filteredStores.map((store) => (
+                <div
+                  key={store.id}
+                  className={`bg-white rounded-lg shadow-md p-6 border-2 transition-all ${
+                    currentStore?.id === store.id ? 'border-blue-500' : 'border-transparent'
                   }`}
                 >
-                  {store.isActive ? 'Active' : 'Inactive'}
-                </button>
-              </div>
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex items-center">
+                      <div className="p-2 bg-blue-100 rounded-lg">
+                        <Building2 className="h-5 w-5 text-blue-600" />
+                      </div>
+                      <div className="ml-3">
+                        <h3 className="text-lg font-semibold text-gray-900">{store.name}</h3>
+                        <p className="text-sm text-gray-500">{store.code}</p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleToggleActive(store)}
+                      className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                        store.isActive
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-red-100 text-red-800'
+                      }`}
+                    >
+                      {store.isActive ? 'Active' : 'Inactive'}
+                    </button>
+                  </div>
 
-              <div className="space-y-2 text-sm text-gray-600 mb-4">
-                <div className="flex items-center">
-                  <MapPin className="h-4 w-4 mr-2 text-gray-400" />
-                  {store.address}
-                </div>
-                <div className="flex items-center">
-                  <Phone className="h-4 w-4 mr-2 text-gray-400" />
-                  {store.phone}
-                </div>
-                <div className="flex items-center">
-                  <Mail className="h-4 w-4 mr-2 text-gray-400" />
-                  {store.email}
-                </div>
-                <div className="flex items-center">
-                  <User className="h-4 w-4 mr-2 text-gray-400" />
-                  Manager: {store.managerName}
-                </div>
-              </div>
+                  <div className="space-y-2 text-sm text-gray-600 mb-4">
+                    <div className="flex items-center">
+                      <MapPin className="h-4 w-4 mr-2 text-gray-400" />
+                      {store.address}
+                    </div>
+                    <div className="flex items-center">
+                      <Phone className="h-4 w-4 mr-2 text-gray-400" />
+                      {store.phone}
+                    </div>
+                    <div className="flex items-center">
+                      <Mail className="h-4 w-4 mr-2 text-gray-400" />
+                      {store.email}
+                    </div>
+                    <div className="flex items-center">
+                      <User className="h-4 w-4 mr-2 text-gray-400" />
+                      Manager: {store.managerName}
+                    </div>
+                  </div>
 
-              <div className="flex space-x-2">
-                <button
-                  onClick={() => handleEdit(store)}
-                  className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
-                >
-                  <Edit2 className="h-4 w-4 mr-1" />
-                  Edit
-                </button>
-                {currentStore?.id !== store.id && store.isActive && (
-                  <button
-                    onClick={() => handleSwitchStore(store)}
-                    className="flex-1 inline-flex items-center justify-center px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
-                  >
-                    Switch
-                  </button>
-                )}
-                {currentStore?.id === store.id && (
-                  <span className="flex-1 inline-flex items-center justify-center px-3 py-2 bg-green-100 text-green-700 rounded-lg text-sm font-medium">
-                    Current
-                  </span>
-                )}
-              </div>
-            </div>
-          ))
-        )}
-      </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleEdit(store)}
+                      className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                    >
+                      <Edit2 className="h-4 w-4 mr-1" />
+                      Edit
+                    </button>
+                    {currentStore?.id !== store.id && store.isActive && (
+                      <button
+                        onClick={() => handleSwitchStore(store)}
+                        className="flex-1 inline-flex items-center justify-center px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+                      >
+                        Switch
+                      </button>
+                    )}
+                    {currentStore?.id === store.id && (
+                      <span className="flex-1 inline-flex items-center justify-center px-3 py-2 bg-green-100 text-green-700 rounded-lg text-sm font-medium">
+                        Current
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
 
       {/* Add/Edit Modal */}
       {(isAddModalOpen || isEditModalOpen) && (
@@ -470,7 +665,68 @@ export function StoreManagement() {
                     type="submit"
                     className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
                   >
-                    Initiate Transfer
+                    Request Transfer
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Receive Transfer Modal */}
+      {receivingTransfer && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setReceivingTransfer(null)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">Receive Transfer</h3>
+                <button onClick={() => setReceivingTransfer(null)} className="text-gray-400 hover:text-gray-600">
+                  ×
+                </button>
+              </div>
+
+              <form onSubmit={handleReceiveSubmit} className="p-6 space-y-4">
+                <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-1">
+                  <p className="font-medium text-gray-900">{receivingTransfer.productName}</p>
+                  <p className="text-gray-600">
+                    {receivingTransfer.fromStoreName} → {receivingTransfer.toStoreName}
+                  </p>
+                  <p className="text-gray-600">
+                    Dispatched: {receivingTransfer.quantity} • Already received: {receivingTransfer.quantityReceived || 0}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Quantity Received</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={receivingTransfer.quantity - (receivingTransfer.quantityReceived || 0)}
+                    value={receiveQuantity}
+                    onChange={(e) => setReceiveQuantity(parseInt(e.target.value) || 0)}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Receive less than outstanding to record a partial delivery
+                  </p>
+                </div>
+
+                <div className="flex space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setReceivingTransfer(null)}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                  >
+                    Receive Stock
                   </button>
                 </div>
               </form>
@@ -0,0 +1,340 @@
+import { useState, useEffect } from 'react';
+import { Truck, Plus, Edit2, Trash2, Search, X, Clock } from 'lucide-react';
+import { Supplier, PurchaseOrder } from '../types/product';
+import { SupplierService, PurchaseOrderService } from '../services/localStorageService';
+import { NotificationToast } from '../components/NotificationToast';
+
+const EMPTY_FORM = { name: '', contactName: '', phone: '', email: '', leadTimeDays: '7', notes: '' };
+
+/**
+ * Suppliers Page
+ * Allows admin to manage the companies stock is ordered from
+ */
+export function Suppliers() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    message: string;
+    type: 'success' | 'error';
+  } | null>(null);
+
+  // Load suppliers function - defined before useEffect
+  const loadSuppliers = () => {
+    setSuppliers(SupplierService.getAll());
+    setOrders(PurchaseOrderService.getAll());
+  };
+
+  useEffect(() => {
+    loadSuppliers();
+  }, []);
+
+  /**
+   * Show notification
+   */
+  const showNotification = (message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  /**
+   * Open modal for creating or editing a supplier
+   */
+  const openModal = (supplier?: Supplier) => {
+    setEditingSupplier(supplier || null);
+    setFormData(
+      supplier
+        ? {
+            name: supplier.name,
+            contactName: supplier.contactName || '',
+            phone: supplier.phone || '',
+            email: supplier.email || '',
+            leadTimeDays: supplier.leadTimeDays.toString(),
+            notes: supplier.notes || '',
+          }
+        : EMPTY_FORM
+    );
+    setIsModalOpen(true);
+  };
+
+  /**
+   * Handle form submit
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = SupplierService.save({
+      id: editingSupplier?.id,
+      ...formData,
+      leadTimeDays: Number(formData.leadTimeDays),
+    });
+    if (result.success) {
+      showNotification(editingSupplier ? 'Supplier updated' : 'Supplier created', 'success');
+      setIsModalOpen(false);
+      loadSuppliers();
+    } else {
+      showNotification(result.error || 'Failed to save supplier', 'error');
+    }
+  };
+
+  const handleDelete = (supplier: Supplier) => {
+    if (!window.confirm(`Delete ${supplier.name}?`)) return;
+
+    const result = SupplierService.delete(supplier.id);
+    if (result.success) {
+      showNotification('Supplier deleted', 'success');
+      loadSuppliers();
+    } else {
+      showNotification(result.error || 'Failed to delete supplier', 'error');
+    }
+  };
+
+  // Filter suppliers by search
+  const filteredSuppliers = suppliers.filter((supplier) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      supplier.name.toLowerCase().includes(query) ||
+      (supplier.contactName || '').toLowerCase().includes(query) ||
+      (supplier.phone || '').includes(query) ||
+      (supplier.email || '').toLowerCase().includes(query)
+    );
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Suppliers</h1>
+          <p className="text-gray-600 mt-1">Companies you order stock from</p>
+        </div>
+        <button
+          onClick={() => openModal()}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-5 w-5" />
+          <span>Add Supplier</span>
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+        <input
+          type="text"
+          placeholder="Search suppliers by name, contact, phone, or email..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {/* Suppliers Table */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Contact
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Lead Time
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Open Orders
+                </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredSuppliers.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center">
+                    <Truck className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">No suppliers found</p>
+                  </td>
+                </tr>
+              ) : (
+                filteredSuppliers.map((supplier) => (
+                  <tr key={supplier.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-gray-900">{supplier.name}</p>
+                      {supplier.notes && <p className="text-xs text-gray-500">{supplier.notes}</p>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                      <p>{supplier.contactName || '—'}</p>
+                      {supplier.phone && <p className="text-xs text-gray-500">{supplier.phone}</p>}
+                      {supplier.email && <p className="text-xs text-gray-500">{supplier.email}</p>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                      <span className="inline-flex items-center">
+                        <Clock className="h-4 w-4 mr-1 text-gray-400" />
+                        {supplier.leadTimeDays} day{supplier.leadTimeDays === 1 ? '' : 's'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-medium text-gray-900">
+                      {orders.filter((po) => po.supplierId === supplier.id && PurchaseOrderService.isOpen(po)).length}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-center">
+                      <div className="flex items-center justify-center space-x-2">
+                        <button
+                          onClick={() => openModal(supplier)}
+                          className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Edit"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(supplier)}
+                          className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Supplier Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setIsModalOpen(false)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {editingSupplier ? 'Edit Supplier' : 'Add Supplier'}
+                </h3>
+                <button onClick={() => setIsModalOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div>
+                  <label htmlFor="supplierName" className="block text-sm font-medium text-gray-700 mb-1">
+                    Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    id="supplierName"
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="supplierContact" className="block text-sm font-medium text-gray-700 mb-1">
+                    Contact Person
+                  </label>
+                  <input
+                    id="supplierContact"
+                    type="text"
+                    value={formData.contactName}
+                    onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="supplierPhone" className="block text-sm font-medium text-gray-700 mb-1">
+                      Phone
+                    </label>
+                    <input
+                      id="supplierPhone"
+                      type="tel"
+                      value={formData.phone}
+                      onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                      className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="supplierLeadTime" className="block text-sm font-medium text-gray-700 mb-1">
+                      Lead Time (days) <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      id="supplierLeadTime"
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={formData.leadTimeDays}
+                      onChange={(e) => setFormData({ ...formData, leadTimeDays: e.target.value })}
+                      className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="supplierEmail" className="block text-sm font-medium text-gray-700 mb-1">
+                    Email
+                  </label>
+                  <input
+                    id="supplierEmail"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="supplierNotes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Notes
+                  </label>
+                  <input
+                    id="supplierNotes"
+                    type="text"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="e.g. Order by Tuesday for Friday delivery"
+                  />
+                </div>
+
+                <div className="flex space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsModalOpen(false)}
+                    className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    {editingSupplier ? 'Save Changes' : 'Create Supplier'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Notification */}
+      {notification && (
+        <NotificationToast
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+    </div>
+  );
+}
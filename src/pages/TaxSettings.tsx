@@ -0,0 +1,386 @@
+import { useState } from 'react';
+import { Percent, Plus, Edit2, Trash2, X, Building2, Tag } from 'lucide-react';
+import { TaxProfile, TaxComponent, TaxSettings as TaxSettingsType, Store } from '../types/product';
+import { TaxService, StoreService, CATEGORIES } from '../services/localStorageService';
+import { NotificationToast } from '../components/NotificationToast';
+
+const EMPTY_COMPONENT: TaxComponent = { name: '', rate: 0, compound: false };
+
+/**
+ * Tax Settings Page
+ * Allows admin to define tax profiles and assign them to stores and categories
+ */
+export function TaxSettings() {
+  const [profiles, setProfiles] = useState<TaxProfile[]>(TaxService.getProfiles());
+  const [settings, setSettings] = useState<TaxSettingsType>(TaxService.getSettings());
+  const [stores] = useState<Store[]>(StoreService.getAll());
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<TaxProfile | null>(null);
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    message: string;
+    type: 'success' | 'error';
+  } | null>(null);
+
+  // Form state
+  const [formData, setFormData] = useState({
+    name: '',
+    inclusive: false,
+    components: [{ ...EMPTY_COMPONENT }],
+  });
+
+  /**
+   * Show notification
+   */
+  const showNotification = (message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  /**
+   * Reload profiles and assignments from storage
+   */
+  const refresh = () => {
+    setProfiles(TaxService.getProfiles());
+    setSettings(TaxService.getSettings());
+  };
+
+  /**
+   * Open modal for creating or editing a profile
+   */
+  const openModal = (profile?: TaxProfile) => {
+    setEditingProfile(profile || null);
+    setFormData(
+      profile
+        ? { name: profile.name, inclusive: profile.inclusive, components: profile.components.map((c) => ({ ...c })) }
+        : { name: '', inclusive: false, components: [{ ...EMPTY_COMPONENT }] }
+    );
+    setIsModalOpen(true);
+  };
+
+  const updateComponent = (index: number, updates: Partial<TaxComponent>) => {
+    setFormData((prev) => ({
+      ...prev,
+      components: prev.components.map((c, i) => (i === index ? { ...c, ...updates } : c)),
+    }));
+  };
+
+  /**
+   * Handle profile form submit
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = TaxService.saveProfile({
+      id: editingProfile?.id,
+      name: formData.name,
+      inclusive: formData.inclusive,
+      components: formData.components.map((c) => ({ ...c, name: c.name.trim() })),
+    });
+
+    if (result.success) {
+      showNotification(editingProfile ? 'Tax profile updated' : 'Tax profile created', 'success');
+      setIsModalOpen(false);
+      refresh();
+    } else {
+      showNotification(result.error || 'Failed to save tax profile', 'error');
+    }
+  };
+
+  const handleDelete = (profile: TaxProfile) => {
+    if (!window.confirm(`Delete tax profile "${profile.name}"? Items using it will fall back to the next rule.`)) {
+      return;
+    }
+
+    const result = TaxService.deleteProfile(profile.id);
+    if (result.success) {
+      showNotification('Tax profile deleted', 'success');
+      refresh();
+    } else {
+      showNotification(result.error || 'Failed to delete tax profile', 'error');
+    }
+  };
+
+  const handleDefaultChange = (profileId: string) => {
+    TaxService.saveSettings({ ...settings, defaultProfileId: profileId || undefined });
+    refresh();
+  };
+
+  const handleAssign = (scope: 'store' | 'category', key: string, profileId: string) => {
+    TaxService.assign(scope, key, profileId);
+    refresh();
+  };
+
+  /**
+   * Short description of a profile's taxes
+   */
+  const describeProfile = (profile: TaxProfile) => {
+    if (profile.components.length === 0) return 'Exempt';
+    return profile.components
+      .map((c) => `${c.name} ${c.rate}%${c.compound ? ' (compound)' : ''}`)
+      .join(' + ');
+  };
+
+  const renderProfileSelect = (value: string | undefined, onChange: (id: string) => void, emptyLabel: string) => (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value)}
+      className="block w-full py-2 px-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+    >
+      <option value="">{emptyLabel}</option>
+      {profiles.map((profile) => (
+        <option key={profile.id} value={profile.id}>
+          {profile.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Tax Settings</h1>
+          <p className="text-gray-600 mt-1">
+            Product overrides category, category overrides store, store overrides the default
+          </p>
+        </div>
+        <button
+          onClick={() => openModal()}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-5 w-5" />
+          <span>Add Tax Profile</span>
+        </button>
+      </div>
+
+      {/* Profiles */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Profile
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Taxes
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Pricing
+              </th>
+              <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {profiles.map((profile) => (
+              <tr key={profile.id} className="hover:bg-gray-50 transition-colors">
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <div className="flex items-center text-sm font-medium text-gray-900">
+                    <Percent className="h-4 w-4 text-gray-400 mr-2" />
+                    {profile.name}
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-600">{describeProfile(profile)}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                  {profile.inclusive ? 'Tax inclusive' : 'Tax exclusive'}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-center">
+                  <div className="flex items-center justify-center space-x-2">
+                    <button
+                      onClick={() => openModal(profile)}
+                      className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="Edit"
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(profile)}
+                      className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Assignments */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h2 className="flex items-center text-lg font-semibold text-gray-900">
+            <Building2 className="h-5 w-5 mr-2 text-gray-500" />
+            Stores
+          </h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Default for all stores</label>
+            {renderProfileSelect(settings.defaultProfileId, handleDefaultChange, 'No tax')}
+          </div>
+          {stores.map((store) => (
+            <div key={store.id}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{store.name}</label>
+              {renderProfileSelect(
+                settings.storeProfiles[store.id],
+                (profileId) => handleAssign('store', store.id, profileId),
+                'Use default'
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h2 className="flex items-center text-lg font-semibold text-gray-900">
+            <Tag className="h-5 w-5 mr-2 text-gray-500" />
+            Categories
+          </h2>
+          {CATEGORIES.map((category) => (
+            <div key={category}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{category}</label>
+              {renderProfileSelect(
+                settings.categoryProfiles[category],
+                (profileId) => handleAssign('category', category, profileId),
+                'Use store rate'
+              )}
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">Set product overrides from the product's edit form.</p>
+        </div>
+      </div>
+
+      {/* Profile Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setIsModalOpen(false)} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full">
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {editingProfile ? 'Edit Tax Profile' : 'Add Tax Profile'}
+                </h3>
+                <button onClick={() => setIsModalOpen(false)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div>
+                  <label htmlFor="profileName" className="block text-sm font-medium text-gray-700 mb-1">
+                    Profile Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    id="profileName"
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="e.g. Standard VAT"
+                  />
+                </div>
+
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.inclusive}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, inclusive: e.target.checked }))}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Prices already include these taxes</span>
+                </label>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-700">Taxes (applied in order)</p>
+                  {formData.components.map((component, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={component.name}
+                        onChange={(e) => updateComponent(index, { name: e.target.value })}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Name"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={component.rate}
+                        onChange={(e) => updateComponent(index, { rate: parseFloat(e.target.value) })}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <span className="text-sm text-gray-500">%</span>
+                      <label className="flex items-center space-x-1 text-xs text-gray-600" title="Charged on price plus the taxes above">
+                        <input
+                          type="checkbox"
+                          checked={component.compound}
+                          onChange={(e) => updateComponent(index, { compound: e.target.checked })}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span>Compound</span>
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            components: prev.components.filter((_, i) => i !== index),
+                          }))
+                        }
+                        className="p-1 text-red-600 hover:bg-red-50 rounded"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setFormData((prev) => ({ ...prev, components: [...prev.components, { ...EMPTY_COMPONENT }] }))
+                    }
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Tax
+                  </button>
+                  {formData.components.length === 0 && (
+                    <p className="text-xs text-gray-500">A profile with no taxes marks items as tax exempt.</p>
+                  )}
+                </div>
+
+                <div className="flex space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsModalOpen(false)}
+                    className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    {editingProfile ? 'Save Changes' : 'Create Profile'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Notification */}
+      {notification && (
+        <NotificationToast
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+    </div>
+  );
+}
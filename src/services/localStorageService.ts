@@ -1,4 +1,4 @@
-import { Product, AdminUser, StockLog, Category, DashboardStats, SaleRecord, SaleItem, PaymentMethod, Cashier, Store, StockTransfer, Manager } from '../types/product';
+import { Product, AdminUser, StockLog, Category, DashboardStats, SaleRecord, SaleItem, PaymentMethod, Cashier, Store, StockTransfer, Manager, StoreStock, ReturnRecord, ReturnItem, CashierSession, SalesReport, ReportBreakdown, TaxProfile, TaxSettings, SaleItemTax, Discount, DiscountReason, DiscountSettings, Promotion, AppliedPromotion, Tender, CartItem, HeldCart, HeldCartSettings, Customer, LoyaltySettings, GiftCard, GiftCardKind, GiftCardTransaction, AccountPayment, AccountStatementLine, AgedReceivable, Layaway, LayawayPayment, LayawaySettings, ProductVariantInput, MeasureUnit, EmbeddedBarcode, EmbeddedBarcodeRule, PackUnit, KitComponent, Supplier, PurchaseOrder, PurchaseOrderLine, PurchaseOrderReceipt, CostLayer, CostingMethod, CostingSettings, MarginLine, ValuationLine, ReorderRule, ReorderSettings, ReorderSuggestion, Stocktake, StocktakeLine, StocktakeVariance, AdjustmentReason, ShrinkageLine, StockLogType, StockMovement } from '../types/product';
 
 // Storage keys
 const STORAGE_KEYS = {
@@ -13,6 +13,29 @@ const STORAGE_KEYS = {
   STOCK_TRANSFERS: 'pos_stock_transfers',
   CURRENT_STORE: 'pos_current_store',
   MANAGERS: 'pos_managers',
+  STORE_STOCK: 'pos_store_stock',
+  RETURNS: 'pos_returns',
+  Z_REPORTS: 'pos_z_reports',
+  TAX_PROFILES: 'pos_tax_profiles',
+  TAX_SETTINGS: 'pos_tax_settings',
+  DISCOUNT_SETTINGS: 'pos_discount_settings',
+  PROMOTIONS: 'pos_promotions',
+  HELD_CARTS: 'pos_held_carts',
+  HELD_CART_SETTINGS: 'pos_held_cart_settings',
+  CUSTOMERS: 'pos_customers',
+  LOYALTY_SETTINGS: 'pos_loyalty_settings',
+  GIFT_CARDS: 'pos_gift_cards',
+  GIFT_CARD_LEDGER: 'pos_gift_card_ledger',
+  ACCOUNT_PAYMENTS: 'pos_account_payments',
+  LAYAWAYS: 'pos_layaways',
+  LAYAWAY_SETTINGS: 'pos_layaway_settings',
+  SUPPLIERS: 'pos_suppliers',
+  PURCHASE_ORDERS: 'pos_purchase_orders',
+  COSTING_SETTINGS: 'pos_costing_settings',
+  REORDER_RULES: 'pos_reorder_rules',
+  REORDER_SETTINGS: 'pos_reorder_settings',
+  STOCKTAKES: 'pos_stocktakes',
+  STOCK_LEDGER_OPENED: 'pos_stock_ledger_opened',
 } as const;
 
 // Default admin credentials
@@ -30,6 +53,7 @@ const INITIAL_PRODUCTS: Product[] = [
     barcode: '1234567890',
     name: 'Laptop Computer',
     price: 899.99,
+    cost: 620,
     stock: 5,
     category: 'Electronics',
   },
@@ -37,6 +61,7 @@ const INITIAL_PRODUCTS: Product[] = [
     barcode: '2345678901',
     name: 'Wireless Mouse',
     price: 29.99,
+    cost: 14.5,
     stock: 15,
     category: 'Peripherals',
   },
@@ -44,6 +69,7 @@ const INITIAL_PRODUCTS: Product[] = [
     barcode: '3456789012',
     name: 'USB-C Cable',
     price: 12.99,
+    cost: 4.2,
     stock: 30,
     category: 'Accessories',
   },
@@ -51,6 +77,7 @@ const INITIAL_PRODUCTS: Product[] = [
     barcode: '4567890123',
     name: 'Mechanical Keyboard',
     price: 149.99,
+    cost: 92,
     stock: 8,
     category: 'Peripherals',
   },
@@ -58,6 +85,7 @@ const INITIAL_PRODUCTS: Product[] = [
     barcode: '5678901234',
     name: 'Monitor 27"',
     price: 299.99,
+    cost: 210,
     stock: 4,
     category: 'Electronics',
   },
@@ -65,6 +93,7 @@ const INITIAL_PRODUCTS: Product[] = [
     barcode: '6789012345',
     name: 'Webcam HD',
     price: 79.99,
+    cost: 45,
     stock: 12,
     category: 'Electronics',
   },
@@ -72,6 +101,7 @@ const INITIAL_PRODUCTS: Product[] = [
     barcode: '7890123456',
     name: 'Headphones',
     price: 59.99,
+    cost: 31,
     stock: 20,
     category: 'Accessories',
   },
@@ -79,6 +109,7 @@ const INITIAL_PRODUCTS: Product[] = [
     barcode: '8901234567',
     name: 'Phone Charger',
     price: 19.99,
+    cost: 7.8,
     stock: 25,
     category: 'Accessories',
   },
@@ -86,6 +117,7 @@ const INITIAL_PRODUCTS: Product[] = [
     barcode: '9012345678',
     name: 'External SSD 1TB',
     price: 129.99,
+    cost: 82,
     stock: 10,
     category: 'Storage',
   },
@@ -93,6 +125,7 @@ const INITIAL_PRODUCTS: Product[] = [
     barcode: '0123456789',
     name: 'Gaming Chair',
     price: 249.99,
+    cost: 155,
     stock: 3,
     category: 'Furniture',
   },
@@ -121,6 +154,277 @@ export function initializeStorage(): void {
   if (!localStorage.getItem(STORAGE_KEYS.SALES)) {
     localStorage.setItem(STORAGE_KEYS.SALES, JSON.stringify([]));
   }
+
+  // Initialize per-store stock levels
+  // Existing catalogs kept a single global stock count, so it is moved to the active store
+  if (!localStorage.getItem(STORAGE_KEYS.STORE_STOCK)) {
+    const storeId = localStorage.getItem(STORAGE_KEYS.CURRENT_STORE) || DEFAULT_STORE.id;
+    const products = readCatalog();
+    const levels: StoreStock[] = products.map((p) => ({
+      storeId,
+      barcode: p.barcode,
+      quantity: p.stock,
+      updatedAt: new Date().toISOString(),
+    }));
+    localStorage.setItem(STORAGE_KEYS.STORE_STOCK, JSON.stringify(levels));
+  }
+
+  // Stock log types from before the ledger: stocktake entries are counts, transfers go in or out by sign,
+  // and transfer steps that moved nothing (request, approval, cancellation) are transfer requests
+  const stockLogs = JSON.parse(localStorage.getItem(STORAGE_KEYS.STOCK_LOGS) || '[]') as (Omit<StockLog, 'type'> & {
+    type?: string;
+  })[];
+  const isTransferStep = (log: { type?: string; quantityAdded: number }) =>
+    (log.type === 'transfer' || log.type === 'transfer_out') && log.quantityAdded === 0;
+  if (stockLogs.some((log) => log.type === 'stocktake' || log.type === 'transfer' || isTransferStep(log))) {
+    const migrated = stockLogs.map((log) =>
+      log.type === 'stocktake'
+        ? { ...log, type: 'count' }
+        : isTransferStep(log)
+          ? { ...log, type: 'transfer_request' }
+          : log.type === 'transfer'
+            ? { ...log, type: log.quantityAdded > 0 ? 'transfer_in' : 'transfer_out' }
+            : log
+    );
+    localStorage.setItem(STORAGE_KEYS.STOCK_LOGS, JSON.stringify(migrated));
+  }
+
+  // Open the stock ledger
+  // Stock from before every change was recorded on it is brought forward as opening balances
+  if (!localStorage.getItem(STORAGE_KEYS.STOCK_LEDGER_OPENED)) {
+    StockLogService.openBalances();
+    localStorage.setItem(STORAGE_KEYS.STOCK_LEDGER_OPENED, new Date().toISOString());
+  }
+}
+
+/**
+ * Read the product catalog as stored
+ * Stock on catalog records is not authoritative; it is resolved per store through InventoryService
+ */
+function readCatalog(): Product[] {
+  return JSON.parse(localStorage.getItem(STORAGE_KEYS.PRODUCTS) || '[]');
+}
+
+/**
+ * Display name of a variant, e.g. "Crew Tee (M / Navy)"
+ */
+function variantName(parent: Product, attributes: Record<string, string> = {}): string {
+  const values = (parent.variantAttributes || []).map((name) => attributes[name]).filter(Boolean);
+  return values.length > 0 ? `${parent.name} (${values.join(' / ')})` : parent.name;
+}
+
+/**
+ * Index of the catalog by every barcode it answers to, pack barcodes included
+ */
+function catalogIndex(): Map<string, Product> {
+  const index = new Map<string, Product>();
+  for (const product of readCatalog()) {
+    index.set(product.barcode, product);
+    for (const pack of product.packUnits || []) {
+      index.set(pack.barcode, product);
+    }
+  }
+  return index;
+}
+
+/**
+ * A product sold as one of its packs; stock is the whole packs available
+ */
+function packProduct(base: Product, pack: PackUnit): Product {
+  return {
+    ...base,
+    barcode: pack.barcode,
+    name: `${base.name} (${pack.name} of ${pack.quantity})`,
+    price: pack.price,
+    stock: Math.floor(base.stock / pack.quantity),
+    packUnits: undefined,
+    baseBarcode: base.barcode,
+    unitsPerPack: pack.quantity,
+  };
+}
+
+/**
+ * Base units a set of sale lines takes from stock, keyed by the barcode that holds the stock
+ * A pack line (e.g. a case of 12) draws its units from the base product
+ */
+function stockNeeded(items: SaleItem[]): Map<string, { name: string; quantity: number }> {
+  const index = catalogIndex();
+  const needed = new Map<string, { name: string; quantity: number }>();
+  const add = (barcode: string, name: string, quantity: number) => {
+    const entry = needed.get(barcode) || { name: index.get(barcode)?.name || name, quantity: 0 };
+    entry.quantity = ProductService.roundQuantity(entry.quantity + quantity);
+    needed.set(barcode, entry);
+  };
+  for (const item of items) {
+    if (item.kitComponents) {
+      // A kit holds no stock; each kit sold takes its components
+      for (const component of item.kitComponents) {
+        add(component.barcode, component.barcode, item.quantity * component.quantity);
+      }
+    } else {
+      add(item.baseBarcode || item.barcode, item.name, item.quantity * (item.unitsPerPack || 1));
+    }
+  }
+  return needed;
+}
+
+/**
+ * Check sale lines against the catalog at a store and take their stock fields from it
+ * Pack lines get the base units they take from stock, kit lines their components
+ */
+function catalogLines(items: SaleItem[], storeId: string): { items?: SaleItem[]; error?: string } {
+  const lines: SaleItem[] = [];
+  for (const item of items) {
+    const product = ProductService.findByBarcode(item.barcode, storeId);
+    if (!product) {
+      return { error: `Product ${item.name} not found` };
+    }
+    if (ProductService.hasVariants(product)) {
+      return { error: `Choose a variant of ${item.name}` };
+    }
+    if (!(item.quantity > 0) || (!product.measureUnit && !Number.isInteger(item.quantity))) {
+      return { error: `Invalid quantity for ${item.name}` };
+    }
+    lines.push({
+      ...item,
+      baseBarcode: product.baseBarcode,
+      unitsPerPack: product.unitsPerPack,
+      kitComponents: product.kitComponents,
+    });
+  }
+  return { items: lines };
+}
+
+/**
+ * Unit cost of the stock a set of sale lines took, keyed like stockNeeded
+ * Returned and voided goods go back at this cost; kit lines and lines sold before costing are left out
+ */
+function unitCostsTaken(items: SaleItem[]): Map<string, number> {
+  const totals = new Map<string, { units: number; cost: number }>();
+  for (const item of items) {
+    if (item.kitComponents || item.cost === undefined) continue;
+    const barcode = item.baseBarcode || item.barcode;
+    const entry = totals.get(barcode) || { units: 0, cost: 0 };
+    entry.units += item.quantity * (item.unitsPerPack || 1);
+    entry.cost += item.cost;
+    totals.set(barcode, entry);
+  }
+  return new Map(
+    Array.from(totals)
+      .filter(([, total]) => total.units > 0)
+      .map(([barcode, total]) => [barcode, total.cost / total.units])
+  );
+}
+
+/**
+ * Cost price of a product; variants without their own fall back to the parent's
+ */
+function costPrice(barcode: string): number {
+  const catalog = readCatalog();
+  const product = catalog.find((p) => p.barcode === barcode);
+  const parent = product?.parentBarcode ? catalog.find((p) => p.barcode === product.parentBarcode) : undefined;
+  return product?.cost ?? parent?.cost ?? 0;
+}
+
+/**
+ * Move the cost layers of a stock level by a change in quantity
+ * Stock with no layer (held from before costing) joins as the oldest layer at the cost price.
+ * Units added form a new layer; units taken come from the oldest layers (FIFO) or at the
+ * running average, and average costing keeps a single layer.
+ * Returns the new layers and the cost of the units added or taken
+ */
+function moveCostLayers(
+  level: StoreStock,
+  delta: number,
+  unitCost: number | undefined,
+  method: CostingMethod
+): { layers: CostLayer[]; cost: number } {
+  const now = new Date().toISOString();
+  const fallbackCost = costPrice(level.barcode);
+  const layers = (level.costLayers || []).map((layer) => ({ ...layer }));
+  const uncosted = level.quantity - layers.reduce((sum, layer) => sum + layer.quantity, 0);
+  if (uncosted > 0) {
+    layers.unshift({ quantity: ProductService.roundQuantity(uncosted), cost: fallbackCost, receivedAt: level.updatedAt });
+  }
+
+  const units = layers.reduce((sum, layer) => sum + layer.quantity, 0);
+  const averageCost = units > 0 ? layers.reduce((sum, layer) => sum + layer.quantity * layer.cost, 0) / units : fallbackCost;
+  let cost = 0;
+
+  if (delta > 0) {
+    const layerCost = unitCost ?? averageCost;
+    layers.push({ quantity: delta, cost: layerCost, receivedAt: now });
+    cost = delta * layerCost;
+  } else if (delta < 0) {
+    let remaining = -delta;
+    if (method === 'average') {
+      const taken = Math.min(remaining, units);
+      cost = taken * averageCost;
+      layers.splice(0, layers.length, { quantity: units - taken, cost: averageCost, receivedAt: now });
+      remaining -= taken;
+    }
+    while (remaining > 0 && layers.length > 0) {
+      const taken = Math.min(remaining, layers[0].quantity);
+      cost += taken * layers[0].cost;
+      layers[0].quantity -= taken;
+      remaining -= taken;
+      if (layers[0].quantity <= 0) layers.shift();
+    }
+    // Selling more than is on hand is costed at the cost price
+    cost += remaining * fallbackCost;
+  }
+
+  if (method === 'average' && layers.length > 1) {
+    const total = layers.reduce((sum, layer) => sum + layer.quantity, 0);
+    const value = layers.reduce((sum, layer) => sum + layer.quantity * layer.cost, 0);
+    layers.splice(0, layers.length, { quantity: total, cost: total > 0 ? value / total : averageCost, receivedAt: now });
+  }
+
+  return {
+    layers: layers
+      .map((layer) => ({
+        ...layer,
+        quantity: ProductService.roundQuantity(layer.quantity),
+        cost: Math.round(layer.cost * 10000) / 10000,
+      }))
+      .filter((layer) => layer.quantity > 0),
+    cost: roundMoney(cost),
+  };
+}
+
+/**
+ * Resolve the store a stock operation applies to, defaulting to the active store
+ */
+function resolveStoreId(storeId?: string): string {
+  return storeId || StoreService.getCurrentStore()?.id || DEFAULT_STORE.id;
+}
+
+/**
+ * Write the on-hand quantity of a product at a store, moving its cost layers
+ * Units added are costed at unitCost (default: the current average cost) and units
+ * removed by the costing method; returns the cost of the units added or removed.
+ * Only InventoryService.move calls this, so that every change is on the stock ledger
+ */
+function writeStockLevel(storeId: string, barcode: string, quantity: number, unitCost?: number): number {
+  const levels = InventoryService.getAll();
+  const index = levels.findIndex((l) => l.storeId === storeId && l.barcode === barcode);
+  const updatedAt = new Date().toISOString();
+  const level = index === -1 ? undefined : levels[index];
+  const { layers, cost } = moveCostLayers(
+    level || { storeId, barcode, quantity: 0, updatedAt },
+    quantity - (level?.quantity || 0),
+    unitCost,
+    CostingService.getSettings().method
+  );
+
+  if (index === -1) {
+    levels.push({ storeId, barcode, quantity, costLayers: layers, updatedAt });
+  } else {
+    levels[index] = { ...levels[index], quantity, costLayers: layers, updatedAt };
+  }
+
+  localStorage.setItem(STORAGE_KEYS.STORE_STOCK, JSON.stringify(levels));
+  return cost;
 }
 
 /**
@@ -164,37 +468,314 @@ export const AuthService = {
   },
 };
 
+/**
+ * Inventory Service
+ * Tracks stock levels per store
+ */
+export const InventoryService = {
+  /**
+   * Get all stock levels across stores
+   */
+  getAll(): StoreStock[] {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.STORE_STOCK) || '[]');
+  },
+
+  /**
+   * Get available (on hand minus reserved) quantities for a store keyed by barcode
+   */
+  getAvailableByStore(storeId: string): Record<string, number> {
+    const levels: Record<string, number> = {};
+    for (const level of this.getAll()) {
+      if (level.storeId === storeId) {
+        levels[level.barcode] = level.quantity - (level.reserved || 0);
+      }
+    }
+    return levels;
+  },
+
+  /**
+   * Get stock levels for a product across all stores
+   */
+  getByBarcode(barcode: string): StoreStock[] {
+    return this.getAll().filter((level) => level.barcode === barcode);
+  },
+
+  /**
+   * Get quantity of a product at a store
+   */
+  getQuantity(storeId: string, barcode: string): number {
+    const level = this.getAll().find((l) => l.storeId === storeId && l.barcode === barcode);
+    return level ? level.quantity : 0;
+  },
+
+  /**
+   * Get reserved quantity of a product at a store
+   */
+  getReserved(storeId: string, barcode: string): number {
+    const level = this.getAll().find((l) => l.storeId === storeId && l.barcode === barcode);
+    return level?.reserved || 0;
+  },
+
+  /**
+   * Get quantity of a product at a store that is free to sell or move
+   */
+  getAvailable(storeId: string, barcode: string): number {
+    return this.getQuantity(storeId, barcode) - this.getReserved(storeId, barcode);
+  },
+
+  /**
+   * Move stock into (positive quantity) or out of (negative) a store and record it on the stock ledger
+   * This is the only way stock on hand changes; returns the cost of the units moved
+   */
+  move(movement: StockMovement): number {
+    if (movement.quantity === 0) return 0;
+
+    const { storeId, barcode, quantity } = movement;
+    const previousStock = this.getQuantity(storeId, barcode);
+    const newStock = ProductService.roundQuantity(previousStock + quantity);
+    const cost = writeStockLevel(storeId, barcode, newStock, movement.unitCost);
+
+    StockLogService.add({
+      barcode,
+      productName: readCatalog().find((p) => p.barcode === barcode)?.name || barcode,
+      previousStock,
+      newStock,
+      quantityAdded: quantity,
+      storeId,
+      reference: movement.reference,
+      note: movement.note,
+      unitCost: movement.unitCost ?? Math.round((cost / Math.abs(quantity)) * 10000) / 10000,
+      type: movement.type,
+      reason: movement.reason,
+      performedBy: movement.performedBy,
+    });
+
+    return cost;
+  },
+
+  /**
+   * Cost value of a stock level: its cost layers, plus any stock without one at the cost price
+   */
+  getStockValue(level: StoreStock): number {
+    const layered = (level.costLayers || []).reduce((sum, layer) => sum + layer.quantity, 0);
+    const value = (level.costLayers || []).reduce((sum, layer) => sum + layer.quantity * layer.cost, 0);
+    return roundMoney(value + Math.max(0, level.quantity - layered) * costPrice(level.barcode));
+  },
+
+  /**
+   * Average cost of one unit of a product on hand at a store, or its cost price when none is on hand
+   */
+  getUnitCost(storeId: string, barcode: string): number {
+    const level = this.getAll().find((l) => l.storeId === storeId && l.barcode === barcode);
+    return level && level.quantity > 0 ? this.getStockValue(level) / level.quantity : costPrice(barcode);
+  },
+
+  /**
+   * Hold stock at a store so it is no longer available
+   */
+  reserve(storeId: string, barcode: string, quantity: number): { success: boolean; error?: string } {
+    if (quantity > this.getAvailable(storeId, barcode)) {
+      return { success: false, error: 'Insufficient available stock' };
+    }
+    this.setReserved(storeId, barcode, this.getReserved(storeId, barcode) + quantity);
+    return { success: true };
+  },
+
+  /**
+   * Release previously reserved stock at a store
+   */
+  release(storeId: string, barcode: string, quantity: number): void {
+    this.setReserved(storeId, barcode, Math.max(0, this.getReserved(storeId, barcode) - quantity));
+  },
+
+  /**
+   * Set reserved quantity of a product at a store
+   */
+  setReserved(storeId: string, barcode: string, reserved: number): void {
+    const levels = this.getAll();
+    const index = levels.findIndex((l) => l.storeId === storeId && l.barcode === barcode);
+    const updatedAt = new Date().toISOString();
+
+    if (index === -1) {
+      levels.push({ storeId, barcode, quantity: 0, reserved, updatedAt });
+    } else {
+      levels[index] = { ...levels[index], reserved, updatedAt };
+    }
+
+    localStorage.setItem(STORAGE_KEYS.STORE_STOCK, JSON.stringify(levels));
+  },
+
+  /**
+   * Remove stock levels for a product in every store
+   * Stock still on hand is written off on the ledger first, so it balances to nothing
+   */
+  removeProduct(barcode: string, performedBy: string = 'Admin'): void {
+    for (const level of this.getByBarcode(barcode)) {
+      this.move({
+        storeId: level.storeId,
+        barcode,
+        quantity: -level.quantity,
+        type: 'adjustment',
+        reason: 'correction',
+        note: 'Product deleted',
+        performedBy,
+      });
+    }
+    const levels = this.getAll().filter((l) => l.barcode !== barcode);
+    localStorage.setItem(STORAGE_KEYS.STORE_STOCK, JSON.stringify(levels));
+  },
+};
+
 /**
  * Product Service
+ * Product stock is the available quantity at a store (the active store when none is given)
  */
 export const ProductService = {
   /**
-   * Get all products
+   * Get all products with stock for a store
+   * Variants take their name, category and (unless overridden) price from the parent,
+   * and a parent's stock is the total of its variants; a kit's stock is how many
+   * can be made from its components
+   */
+  getAll(storeId?: string): Product[] {
+    const catalog = readCatalog();
+    const levels = InventoryService.getAvailableByStore(resolveStoreId(storeId));
+    const parents = new Map(catalog.map((p) => [p.barcode, p]));
+
+    const products = catalog.map((p) => {
+      const parent = p.parentBarcode ? parents.get(p.parentBarcode) : undefined;
+      const stock = levels[p.barcode] ?? 0;
+      if (!parent) return { ...p, stock };
+      return {
+        ...p,
+        name: variantName(parent, p.attributes),
+        category: parent.category,
+        price: p.priceOverride ?? parent.price,
+        cost: p.cost ?? parent.cost,
+        bin: p.bin ?? parent.bin,
+        stock,
+      };
+    });
+
+    return products.map((p) => {
+      if (p.variantAttributes) {
+        return {
+          ...p,
+          stock: products
+            .filter((variant) => variant.parentBarcode === p.barcode)
+            .reduce((sum, variant) => sum + variant.stock, 0),
+        };
+      }
+      if (p.kitComponents) {
+        return {
+          ...p,
+          stock: Math.min(
+            ...p.kitComponents.map((component) =>
+              Math.floor((levels[component.barcode] ?? 0) / component.quantity + 1e-9)
+            )
+          ),
+        };
+      }
+      return p;
+    });
+  },
+
+  /**
+   * Get the variants of a parent product with stock for a store
    */
-  getAll(): Product[] {
-    return JSON.parse(localStorage.getItem(STORAGE_KEYS.PRODUCTS) || '[]');
+  getVariants(parentBarcode: string, storeId?: string): Product[] {
+    return this.getAll(storeId).filter((p) => p.parentBarcode === parentBarcode);
+  },
+
+  /**
+   * Check if a product is sold through its variants rather than on its own
+   */
+  hasVariants(product: Product): boolean {
+    return !!product.variantAttributes;
+  },
+
+  /**
+   * Check if a product is a kit that takes its stock from its components
+   */
+  isKit(product: Product): boolean {
+    return !!product.kitComponents;
+  },
+
+  /**
+   * Get the kits a product is a component of
+   */
+  getKitsUsing(barcode: string): Product[] {
+    return readCatalog().filter((p) => p.kitComponents?.some((component) => component.barcode === barcode));
   },
 
   /**
    * Find product by barcode
    */
-  findByBarcode(barcode: string): Product | undefined {
-    const products = this.getAll();
-    return products.find((p) => p.barcode === barcode);
+  findByBarcode(barcode: string, storeId?: string): Product | undefined {
+    const products = this.getAll(storeId);
+    const product = products.find((p) => p.barcode === barcode);
+    if (product) return product;
+
+    // A pack barcode sells its base product by the pack
+    for (const base of products) {
+      const pack = base.packUnits?.find((unit) => unit.barcode === barcode);
+      if (pack) return packProduct(base, pack);
+    }
+    return undefined;
+  },
+
+  /**
+   * Read an in-store scale label (EAN-13 with a GS1 prefix 20-29)
+   * Returns undefined for ordinary barcodes and for labels with a bad check digit
+   */
+  decodeEmbeddedBarcode(code: string): EmbeddedBarcode | undefined {
+    if (!/^\d{13}$/.test(code)) return undefined;
+
+    const rule = EMBEDDED_BARCODE_RULES.find((r) => code.startsWith(r.prefix));
+    if (!rule) return undefined;
+
+    // EAN-13 check digit: digits weighted 1 and 3 alternately from the left
+    const sum = code
+      .slice(0, 12)
+      .split('')
+      .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+    if ((10 - (sum % 10)) % 10 !== Number(code[12])) return undefined;
+
+    const itemStart = rule.prefix.length;
+    const valueStart = itemStart + rule.itemDigits;
+    return {
+      code,
+      barcode: code.slice(itemStart, valueStart),
+      kind: rule.kind,
+      value: Number(code.slice(valueStart, 12)) / 10 ** rule.decimals,
+    };
+  },
+
+  /**
+   * Round a measured quantity to the scale's resolution (grams, millilitres, millimetres)
+   */
+  roundQuantity(quantity: number): number {
+    return Math.round(quantity * 1000) / 1000;
+  },
+
+  /**
+   * Quantity as shown on screen and receipts, e.g. "0.655 kg" or "3"
+   */
+  formatQuantity(quantity: number, measureUnit?: MeasureUnit): string {
+    return measureUnit ? `${quantity.toFixed(3)} ${measureUnit}` : String(quantity);
   },
 
   /**
    * Check if barcode is unique
    */
   isBarcodeUnique(barcode: string, excludeBarcode?: string): boolean {
-    const products = this.getAll();
-    return !products.some((p) => p.barcode === barcode && p.barcode !== excludeBarcode);
+    return barcode === excludeBarcode || !catalogIndex().has(barcode);
   },
 
   /**
-   * Add new product
+   * Add new product, with its opening stock at the given store
    */
-  add(product: Product): { success: boolean; error?: string } {
+  add(product: Product, storeId?: string, performedBy: string = 'Admin'): { success: boolean; error?: string } {
     // Validate barcode uniqueness
     if (!this.isBarcodeUnique(product.barcode)) {
       return { success: false, error: 'Barcode already exists' };
@@ -210,17 +791,36 @@ export const ProductService = {
       return { success: false, error: 'Stock cannot be negative' };
     }
 
-    const products = this.getAll();
+    // Only loose goods are stocked in fractions
+    if (!product.measureUnit && !Number.isInteger(product.stock)) {
+      return { success: false, error: 'Stock must be a whole number' };
+    }
+
+    if (product.cost !== undefined && !(product.cost >= 0)) {
+      return { success: false, error: 'Cost price cannot be negative' };
+    }
+
+    const products = readCatalog();
     products.push(product);
     localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
+    InventoryService.move({
+      storeId: resolveStoreId(storeId),
+      barcode: product.barcode,
+      quantity: product.stock,
+      type: 'opening',
+      unitCost: product.cost,
+      note: 'New product',
+      performedBy,
+    });
     return { success: true };
   },
 
   /**
-   * Update existing product
+   * Update existing product details
+   * Stock is not edited here; it changes through restocks, adjustments and the other stock movements
    */
-  update(barcode: string, updates: Partial<Omit<Product, 'barcode'>>): { success: boolean; error?: string } {
-    const products = this.getAll();
+  update(barcode: string, updates: Partial<Omit<Product, 'barcode' | 'stock'>>): { success: boolean; error?: string } {
+    const products = readCatalog();
     const index = products.findIndex((p) => p.barcode === barcode);
 
     if (index === -1) {
@@ -232,80 +832,464 @@ export const ProductService = {
       return { success: false, error: 'Price must be positive' };
     }
 
-    // Validate stock if provided
-    if (updates.stock !== undefined && updates.stock < 0) {
-      return { success: false, error: 'Stock cannot be negative' };
+    if (updates.cost !== undefined && !(updates.cost >= 0)) {
+      return { success: false, error: 'Cost price cannot be negative' };
+    }
+
+    // A change of unit must still fit the stock held in every store
+    if ('measureUnit' in updates && updates.measureUnit && products[index].packUnits) {
+      return { success: false, error: 'Loose goods are sold by measure, not in packs' };
+    }
+    if ('measureUnit' in updates && !updates.measureUnit) {
+      const fractional = InventoryService.getByBarcode(barcode).some(
+        (level) => !Number.isInteger(level.quantity) || !Number.isInteger(level.reserved || 0)
+      );
+      if (fractional) {
+        return { success: false, error: 'Stock must be a whole number; adjust the part units out of stock first' };
+      }
     }
 
     products[index] = { ...products[index], ...updates };
+
+    // Variants keep their parent's category so tax and promotion rules see it
+    const category = products[index].category;
+    products.forEach((p, i) => {
+      if (p.parentBarcode === barcode) {
+        products[i] = { ...p, category };
+      }
+    });
     localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
     return { success: true };
   },
 
   /**
-   * Delete product
+   * Delete product, along with its variants
    */
   delete(barcode: string): { success: boolean; error?: string } {
-    const products = this.getAll();
-    const filtered = products.filter((p) => p.barcode !== barcode);
+    const products = readCatalog();
+    const filtered = products.filter((p) => p.barcode !== barcode && p.parentBarcode !== barcode);
 
     if (filtered.length === products.length) {
       return { success: false, error: 'Product not found' };
     }
 
+    const kit = products
+      .filter((p) => !filtered.includes(p))
+      .map((p) => this.getKitsUsing(p.barcode).find((k) => k.barcode !== barcode))
+      .find(Boolean);
+    if (kit) {
+      return { success: false, error: `This product is part of the ${kit.name} kit` };
+    }
+
+    // Stock is written off while the products are still in the catalog, so the ledger keeps their names
+    for (const removed of products.filter((p) => !filtered.includes(p))) {
+      InventoryService.removeProduct(removed.barcode);
+      TaxService.assign('product', removed.barcode, '');
+      ReorderService.removeProduct(removed.barcode);
+    }
     localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(filtered));
     return { success: true };
   },
 
   /**
-   * Restock product (add stock)
+   * Replace the variants of a parent product
+   * Stock is set at the given store; variants left out of the list are removed,
+   * and saving no variants turns the parent back into a plain product
    */
-  restock(barcode: string, quantity: number, performedBy: string): { success: boolean; error?: string } {
-    if (quantity <= 0) {
-      return { success: false, error: 'Quantity must be positive' };
+  saveVariants(
+    parentBarcode: string,
+    attributeNames: string[],
+    variants: ProductVariantInput[],
+    storeId?: string,
+    performedBy: string = 'Admin'
+  ): { success: boolean; error?: string } {
+    const products = readCatalog();
+    const parent = products.find((p) => p.barcode === parentBarcode);
+
+    if (!parent) {
+      return { success: false, error: 'Product not found' };
     }
 
-    const products = this.getAll();
-    const product = products.find((p) => p.barcode === barcode);
+    if (parent.parentBarcode) {
+      return { success: false, error: 'A variant cannot have variants of its own' };
+    }
 
-    if (!product) {
-      return { success: false, error: 'Product not found' };
+    const names = attributeNames.map((name) => name.trim()).filter(Boolean);
+    if (variants.length > 0 && names.length === 0) {
+      return { success: false, error: 'Name at least one attribute, e.g. Size' };
+    }
+    if (new Set(names.map((name) => name.toLowerCase())).size !== names.length) {
+      return { success: false, error: 'Attribute names must be unique' };
     }
 
-    const previousStock = product.stock;
-    const newStock = previousStock + quantity;
+    const existing = products.filter((p) => p.parentBarcode === parentBarcode);
+    const barcodes = new Set<string>();
+    const combinations = new Set<string>();
 
-    // Update product stock
-    product.stock = newStock;
-    localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
+    for (const variant of variants) {
+      const barcode = variant.barcode.trim();
+      if (!barcode) {
+        return { success: false, error: 'Every variant needs a barcode' };
+      }
+      const owner = catalogIndex().get(barcode);
+      const takenElsewhere = !!owner && (owner.barcode !== barcode || owner.parentBarcode !== parentBarcode);
+      if (barcodes.has(barcode) || takenElsewhere) {
+        return { success: false, error: `Barcode ${barcode} already exists` };
+      }
+      barcodes.add(barcode);
 
-    // Log the stock change
-    const log: StockLog = {
-      id: `log-${Date.now()}`,
-      barcode,
-      productName: product.name,
-      previousStock,
-      newStock,
-      quantityAdded: quantity,
-      timestamp: new Date().toISOString(),
-      performedBy,
-    };
+      const values = names.map((name) => (variant.attributes[name] || '').trim());
+      if (values.some((value) => !value)) {
+        return { success: false, error: `Variant ${barcode} needs a value for every attribute` };
+      }
+      const combination = values.join(' / ').toLowerCase();
+      if (combinations.has(combination)) {
+        return { success: false, error: `There is already a ${values.join(' / ')} variant` };
+      }
+      combinations.add(combination);
 
-    const logs = JSON.parse(localStorage.getItem(STORAGE_KEYS.STOCK_LOGS) || '[]') as StockLog[];
-    logs.unshift(log); // Add to beginning
-    localStorage.setItem(STORAGE_KEYS.STOCK_LOGS, JSON.stringify(logs));
+      if (variant.priceOverride !== undefined && variant.priceOverride <= 0) {
+        return { success: false, error: 'Price must be positive' };
+      }
+      if (!Number.isInteger(variant.stock) || variant.stock < 0) {
+        return { success: false, error: 'Stock cannot be negative' };
+      }
+    }
+
+    // Stock held on the parent itself would be stranded once it is sold by variant
+    if (existing.length === 0 && variants.length > 0) {
+      if (InventoryService.getByBarcode(parentBarcode).some((level) => level.quantity > 0)) {
+        return { success: false, error: 'Sell or transfer the stock of this product before adding variants' };
+      }
+    }
+
+    if (variants.length > 0 && this.isKit(parent)) {
+      return { success: false, error: 'A kit cannot have variants' };
+    }
+
+    const removed = existing.filter((p) => !barcodes.has(p.barcode));
+    const inKit = removed.find((p) => this.getKitsUsing(p.barcode).length > 0);
+    if (inKit) {
+      return { success: false, error: `${variantName(parent, inKit.attributes)} is part of a kit` };
+    }
+    const reserved = removed.find((p) => InventoryService.getByBarcode(p.barcode).some((level) => level.reserved));
+    if (reserved) {
+      return { success: false, error: `${variantName(parent, reserved.attributes)} is reserved on a layaway` };
+    }
+
+    const updatedParent: Product = { ...parent, variantAttributes: variants.length > 0 ? names : undefined };
+    const variantRecords: Product[] = variants.map((variant) => {
+      const attributes = Object.fromEntries(names.map((name) => [name, variant.attributes[name].trim()]));
+      return {
+        barcode: variant.barcode.trim(),
+        name: variantName(updatedParent, attributes),
+        price: variant.priceOverride ?? parent.price,
+        stock: 0,
+        category: parent.category,
+        parentBarcode,
+        attributes,
+        priceOverride: variant.priceOverride,
+      };
+    });
+
+    for (const variant of removed) {
+      InventoryService.removeProduct(variant.barcode, performedBy);
+      TaxService.assign('product', variant.barcode, '');
+      ReorderService.removeProduct(variant.barcode);
+    }
+
+    const catalog = products
+      .filter((p) => p.parentBarcode !== parentBarcode)
+      .map((p) => (p.barcode === parentBarcode ? updatedParent : p));
+    const parentIndex = catalog.findIndex((p) => p.barcode === parentBarcode);
+    catalog.splice(parentIndex + 1, 0, ...variantRecords);
+    localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(catalog));
+
+    // Stock is edited as the available quantity; reservations stay on top of it
+    const targetStoreId = resolveStoreId(storeId);
+    for (const variant of variants) {
+      const barcode = variant.barcode.trim();
+      const isNew = !existing.some((p) => p.barcode === barcode);
+      InventoryService.move({
+        storeId: targetStoreId,
+        barcode,
+        quantity: ProductService.roundQuantity(
+          variant.stock + InventoryService.getReserved(targetStoreId, barcode) - InventoryService.getQuantity(targetStoreId, barcode)
+        ),
+        type: isNew ? 'opening' : 'adjustment',
+        reason: isNew ? undefined : 'correction',
+        note: isNew ? 'New variant' : 'Stock set on the variant grid',
+        performedBy,
+      });
+    }
 
     return { success: true };
   },
 
   /**
-   * Search and filter products
+   * Restock product (add stock at a store)
+   * The cost is per unit received (per pack for a pack barcode) and becomes the product's cost price;
+   * the reference (e.g. a purchase order number) is kept on the stock log
    */
-  search(query: string): Product[] {
-    const products = this.getAll();
-    const lowerQuery = query.toLowerCase().trim();
+  restock(
+    barcode: string,
+    quantity: number,
+    performedBy: string,
+    storeId?: string,
+    cost?: number,
+    reference?: string
+  ): { success: boolean; error?: string } {
+    if (quantity <= 0) {
+      return { success: false, error: 'Quantity must be positive' };
+    }
 
-    if (!lowerQuery) return products;
+    if (cost !== undefined && !(cost >= 0)) {
+      return { success: false, error: 'Cost cannot be negative' };
+    }
+
+    const targetStoreId = resolveStoreId(storeId);
+    const found = this.findByBarcode(barcode, targetStoreId);
+
+    // Stock received in packs (a pack barcode) is counted in base units
+    const product = found?.baseBarcode ? this.findByBarcode(found.baseBarcode, targetStoreId) : found;
+    const units = found?.unitsPerPack ? quantity * found.unitsPerPack : quantity;
+
+    if (!found || !product) {
+      return { success: false, error: 'Product not found' };
+    }
+
+    if (this.hasVariants(product)) {
+      return { success: false, error: 'Restock the variants of this product' };
+    }
+
+    if (this.isKit(product)) {
+      return { success: false, error: 'Restock the components of this kit' };
+    }
+
+    if (!product.measureUnit && !Number.isInteger(units)) {
+      return { success: false, error: 'Quantity must be a whole number' };
+    }
+
+    const unitCost = cost !== undefined ? Math.round((cost / (found.unitsPerPack || 1)) * 10000) / 10000 : undefined;
+    InventoryService.move({
+      storeId: targetStoreId,
+      barcode: product.barcode,
+      quantity: units,
+      type: 'restock',
+      unitCost,
+      reference,
+      note: found.unitsPerPack ? `Received ${quantity} × ${found.name}` : undefined,
+      performedBy,
+    });
+
+    if (unitCost !== undefined) {
+      const catalog = readCatalog();
+      localStorage.setItem(
+        STORAGE_KEYS.PRODUCTS,
+        JSON.stringify(catalog.map((p) => (p.barcode === product.barcode ? { ...p, cost: unitCost } : p)))
+      );
+    }
+
+    return { success: true };
+  },
+
+  /**
+   * Adjust stock at a store by hand, up or down, for a reason (damage, theft, expiry, ...)
+   * The quantity is in packs for a pack barcode; the cost of the units moved is logged with the reason
+   */
+  adjustStock(
+    barcode: string,
+    quantity: number,
+    reason: AdjustmentReason,
+    performedBy: string,
+    storeId?: string,
+    note?: string
+  ): { success: boolean; error?: string } {
+    const reasonInfo = ADJUSTMENT_REASONS.find((r) => r.id === reason);
+    if (!reasonInfo) {
+      return { success: false, error: 'Choose a reason for the adjustment' };
+    }
+
+    if (!quantity || !isFinite(quantity)) {
+      return { success: false, error: 'Enter the quantity to add or remove' };
+    }
+    if (reasonInfo.shrinkage && quantity > 0) {
+      return { success: false, error: `${reasonInfo.label} can only remove stock` };
+    }
+    if (reason === 'found' && quantity < 0) {
+      return { success: false, error: 'Found stock can only be added' };
+    }
+
+    const targetStoreId = resolveStoreId(storeId);
+    const found = this.findByBarcode(barcode, targetStoreId);
+    const product = found?.baseBarcode ? this.findByBarcode(found.baseBarcode, targetStoreId) : found;
+    const units = found?.unitsPerPack ? quantity * found.unitsPerPack : quantity;
+
+    if (!found || !product) {
+      return { success: false, error: 'Product not found' };
+    }
+
+    if (this.hasVariants(product)) {
+      return { success: false, error: 'Adjust the variants of this product' };
+    }
+
+    if (this.isKit(product)) {
+      return { success: false, error: 'Adjust the components of this kit' };
+    }
+
+    if (!product.measureUnit && !Number.isInteger(units)) {
+      return { success: false, error: 'Quantity must be a whole number' };
+    }
+
+    // Reserved stock (e.g. on layaway) cannot be written off
+    const available = InventoryService.getAvailable(targetStoreId, product.barcode);
+    if (-units > available) {
+      return { success: false, error: `Only ${available} available to remove` };
+    }
+
+    InventoryService.move({
+      storeId: targetStoreId,
+      barcode: product.barcode,
+      quantity: units,
+      type: 'adjustment',
+      reason,
+      note: [found.unitsPerPack && `${quantity} × ${found.name}`, note?.trim()].filter(Boolean).join(' · ') || undefined,
+      performedBy,
+    });
+
+    return { success: true };
+  },
+
+  /**
+   * Set the unit a product is counted in and the packs it is also bought or sold in
+   */
+  saveUnits(barcode: string, baseUnit: string, packUnits: PackUnit[]): { success: boolean; error?: string } {
+    const products = readCatalog();
+    const index = products.findIndex((p) => p.barcode === barcode);
+
+    if (index === -1) {
+      return { success: false, error: 'Product not found' };
+    }
+
+    const product = products[index];
+    if (packUnits.length > 0 && this.hasVariants(product)) {
+      return { success: false, error: 'Pack sizes belong on the variants of this product' };
+    }
+    if (packUnits.length > 0 && product.measureUnit) {
+      return { success: false, error: 'Loose goods are sold by measure, not in packs' };
+    }
+    if (packUnits.length > 0 && this.isKit(product)) {
+      return { success: false, error: 'A kit is sold one kit at a time' };
+    }
+
+    const owners = catalogIndex();
+    const names = new Set<string>();
+    const barcodes = new Set<string>();
+    const packs: PackUnit[] = [];
+
+    for (const unit of packUnits) {
+      const pack = { ...unit, name: unit.name.trim(), barcode: unit.barcode.trim() };
+      if (!pack.name) {
+        return { success: false, error: 'Every pack needs a name, e.g. Case' };
+      }
+      if (names.has(pack.name.toLowerCase())) {
+        return { success: false, error: `There is already a ${pack.name} pack` };
+      }
+      names.add(pack.name.toLowerCase());
+
+      const owner = owners.get(pack.barcode);
+      if (!pack.barcode) {
+        return { success: false, error: `${pack.name} needs a barcode` };
+      }
+      if (pack.barcode === barcode || barcodes.has(pack.barcode) || (owner && owner.barcode !== barcode)) {
+        return { success: false, error: `Barcode ${pack.barcode} already exists` };
+      }
+      barcodes.add(pack.barcode);
+
+      if (!Number.isInteger(pack.quantity) || pack.quantity < 2) {
+        return { success: false, error: `${pack.name} must hold at least 2 units` };
+      }
+      if (!(pack.price > 0)) {
+        return { success: false, error: 'Price must be positive' };
+      }
+      packs.push(pack);
+    }
+
+    products[index] = {
+      ...product,
+      baseUnit: baseUnit.trim() || undefined,
+      packUnits: packs.length > 0 ? packs : undefined,
+    };
+    localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
+    return { success: true };
+  },
+
+  /**
+   * Make a product a kit of other products, e.g. a desk setup of keyboard, mouse and monitor
+   * Saving no components turns the kit back into a plain product
+   */
+  saveKit(barcode: string, components: KitComponent[]): { success: boolean; error?: string } {
+    const products = readCatalog();
+    const index = products.findIndex((p) => p.barcode === barcode);
+
+    if (index === -1) {
+      return { success: false, error: 'Product not found' };
+    }
+
+    const kit = products[index];
+    if (components.length > 0) {
+      if (this.hasVariants(kit) || kit.parentBarcode) {
+        return { success: false, error: 'A product with variants cannot be a kit' };
+      }
+      if (kit.measureUnit || kit.packUnits) {
+        return { success: false, error: 'A kit is sold one kit at a time, not by measure or in packs' };
+      }
+      if (this.getKitsUsing(barcode).length > 0) {
+        return { success: false, error: 'This product is already part of a kit' };
+      }
+      // Stock held on the product itself would be stranded once it is sold as a kit
+      if (!this.isKit(kit) && InventoryService.getByBarcode(barcode).some((level) => level.quantity > 0)) {
+        return { success: false, error: 'Sell or transfer the stock of this product before making it a kit' };
+      }
+    }
+
+    const kitComponents: KitComponent[] = [];
+    for (const { barcode: componentBarcode, quantity } of components) {
+      const component = products.find((p) => p.barcode === componentBarcode.trim());
+      if (!component) {
+        return { success: false, error: `Product ${componentBarcode} not found` };
+      }
+      if (component.barcode === barcode) {
+        return { success: false, error: 'A kit cannot contain itself' };
+      }
+      if (kitComponents.some((c) => c.barcode === component.barcode)) {
+        return { success: false, error: `${component.name} is listed twice` };
+      }
+      if (this.hasVariants(component)) {
+        return { success: false, error: `Choose a variant of ${component.name}` };
+      }
+      if (this.isKit(component)) {
+        return { success: false, error: 'A kit cannot contain another kit' };
+      }
+      if (!(quantity > 0) || (!component.measureUnit && !Number.isInteger(quantity))) {
+        return { success: false, error: `Quantity of ${component.name} must be a positive whole number` };
+      }
+      kitComponents.push({ barcode: component.barcode, quantity });
+    }
+
+    products[index] = { ...kit, kitComponents: kitComponents.length > 0 ? kitComponents : undefined };
+    localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
+    return { success: true };
+  },
+
+  /**
+   * Search and filter products
+   */
+  search(query: string, storeId?: string): Product[] {
+    const products = this.getAll(storeId);
+    const lowerQuery = query.toLowerCase().trim();
+
+    if (!lowerQuery) return products;
 
     return products.filter(
       (p) =>
@@ -341,6 +1325,7 @@ export const ProductService = {
 
 /**
  * Stock Log Service
+ * The stock ledger: stock on hand at a store is the sum of its entries
  */
 export const StockLogService = {
   /**
@@ -350,6 +1335,23 @@ export const StockLogService = {
     return JSON.parse(localStorage.getItem(STORAGE_KEYS.STOCK_LOGS) || '[]');
   },
 
+  /**
+   * Record a stock change (newest first)
+   * Stock itself is moved through InventoryService.move, which records its own entries
+   */
+  add(entry: Omit<StockLog, 'id' | 'timestamp'>): StockLog {
+    const log: StockLog = {
+      ...entry,
+      id: `log-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+      timestamp: new Date().toISOString(),
+    };
+
+    const logs = this.getAll();
+    logs.unshift(log); // Add to beginning
+    localStorage.setItem(STORAGE_KEYS.STOCK_LOGS, JSON.stringify(logs));
+    return log;
+  },
+
   /**
    * Get logs for specific product
    */
@@ -365,17 +1367,264 @@ export const StockLogService = {
     const logs = this.getAll();
     return logs.slice(0, limit);
   },
+
+  /**
+   * Movement history of a product, newest first, optionally for one store, type and date range
+   */
+  getHistory(
+    barcode: string,
+    filters: { storeId?: string; type?: StockLogType; start?: Date; end?: Date } = {}
+  ): StockLog[] {
+    return this.getByBarcode(barcode).filter((log) => {
+      const at = new Date(log.timestamp);
+      return (
+        (!filters.storeId || log.storeId === filters.storeId) &&
+        (!filters.type || log.type === filters.type) &&
+        (!filters.start || at >= filters.start) &&
+        (!filters.end || at <= filters.end)
+      );
+    });
+  },
+
+  /**
+   * Stock of a product at a store worked out from the ledger, now or as it stood at a given time
+   */
+  getBalance(storeId: string, barcode: string, asOf?: Date): number {
+    const balance = this.getAll()
+      .filter((log) => log.storeId === storeId && log.barcode === barcode)
+      .filter((log) => !asOf || new Date(log.timestamp) <= asOf)
+      .reduce((sum, log) => sum + log.quantityAdded, 0);
+    return ProductService.roundQuantity(balance);
+  },
+
+  /**
+   * Bring stock on hand that the ledger does not account for onto it as opening balances
+   * Run once, for stock from before every change was recorded
+   */
+  openBalances(): void {
+    const balances = new Map<string, number>();
+    for (const log of this.getAll()) {
+      const key = `${log.storeId}|${log.barcode}`;
+      balances.set(key, (balances.get(key) || 0) + log.quantityAdded);
+    }
+
+    for (const level of InventoryService.getAll()) {
+      const balance = ProductService.roundQuantity(balances.get(`${level.storeId}|${level.barcode}`) || 0);
+      const difference = ProductService.roundQuantity(level.quantity - balance);
+      if (difference === 0) continue;
+
+      this.add({
+        barcode: level.barcode,
+        productName: readCatalog().find((p) => p.barcode === level.barcode)?.name || level.barcode,
+        previousStock: balance,
+        newStock: level.quantity,
+        quantityAdded: difference,
+        storeId: level.storeId,
+        note: 'Balance brought forward',
+        unitCost: Math.round(InventoryService.getUnitCost(level.storeId, level.barcode) * 10000) / 10000,
+        type: 'opening',
+        performedBy: 'System',
+      });
+    }
+  },
+
+  /**
+   * Stock lost to shrinkage between two dates, by reason, product or store, largest value first
+   * Covers shrinkage adjustments and the shortfalls found by stocktakes (reported as unexplained)
+   */
+  getShrinkageReport(
+    groupBy: 'reason' | 'product' | 'store',
+    start: Date,
+    end: Date,
+    storeId?: string
+  ): ShrinkageLine[] {
+    const shrinkageReasons = ADJUSTMENT_REASONS.filter((r) => r.shrinkage).map((r) => r.id);
+    const groups = new Map<string, ShrinkageLine>();
+
+    for (const log of this.getAll()) {
+      const at = new Date(log.timestamp);
+      if (at < start || at > end || (storeId && log.storeId !== storeId) || log.quantityAdded >= 0) continue;
+      const isShrinkage =
+        (log.type === 'adjustment' && log.reason && shrinkageReasons.includes(log.reason)) || log.type === 'count';
+      if (!isShrinkage) continue;
+
+      const [key, name] =
+        groupBy === 'reason'
+          ? log.type === 'count'
+            ? ['count', 'Unexplained (stocktake)']
+            : [log.reason as string, ADJUSTMENT_REASONS.find((r) => r.id === log.reason)?.label || (log.reason as string)]
+          : groupBy === 'product'
+            ? [log.barcode, log.productName]
+            : [log.storeId || '', StoreService.findById(log.storeId || '')?.name || 'Unknown store'];
+
+      const line = groups.get(key) || { key, name, quantity: 0, value: 0, count: 0 };
+      line.quantity = ProductService.roundQuantity(line.quantity - log.quantityAdded);
+      line.value = roundMoney(line.value - log.quantityAdded * (log.unitCost ?? costPrice(log.barcode)));
+      line.count += 1;
+      groups.set(key, line);
+    }
+
+    return [...groups.values()].sort((a, b) => b.value - a.value);
+  },
+};
+
+// Reasons stock can be adjusted for; shrinkage reasons only take stock away
+export const ADJUSTMENT_REASONS: { id: AdjustmentReason; label: string; shrinkage: boolean }[] = [
+  { id: 'damage', label: 'Damaged', shrinkage: true },
+  { id: 'theft', label: 'Theft', shrinkage: true },
+  { id: 'expiry', label: 'Expired', shrinkage: true },
+  { id: 'internal_use', label: 'Internal Use', shrinkage: true },
+  { id: 'found', label: 'Found', shrinkage: false },
+  { id: 'correction', label: 'Correction', shrinkage: false },
+];
+
+// Kinds of stock movement on the ledger, in the order they are offered as filters
+export const STOCK_MOVEMENT_TYPES: { id: StockLogType; label: string; movesStock: boolean }[] = [
+  { id: 'opening', label: 'Opening Balance', movesStock: true },
+  { id: 'sale', label: 'Sale', movesStock: true },
+  { id: 'return', label: 'Return', movesStock: true },
+  { id: 'void', label: 'Voided Sale', movesStock: true },
+  { id: 'restock', label: 'Restock', movesStock: true },
+  { id: 'adjustment', label: 'Adjustment', movesStock: true },
+  { id: 'transfer_in', label: 'Transfer In', movesStock: true },
+  { id: 'transfer_out', label: 'Transfer Out', movesStock: true },
+  { id: 'transfer_request', label: 'Transfer Request', movesStock: false },
+  { id: 'count', label: 'Stock Count', movesStock: true },
+];
+
+// Default costing rules
+const DEFAULT_COSTING_SETTINGS: CostingSettings = {
+  method: 'average',
+};
+
+/**
+ * Costing Service
+ * Cost of goods sold, gross margin and the value of stock on hand
+ */
+export const CostingService = {
+  /**
+   * Get costing settings
+   */
+  getSettings(): CostingSettings {
+    return {
+      ...DEFAULT_COSTING_SETTINGS,
+      ...JSON.parse(localStorage.getItem(STORAGE_KEYS.COSTING_SETTINGS) || '{}'),
+    };
+  },
+
+  /**
+   * Save costing settings
+   * Switching method applies to stock moved from now on
+   */
+  saveSettings(settings: CostingSettings): { success: boolean; error?: string } {
+    if (settings.method !== 'average' && settings.method !== 'fifo') {
+      return { success: false, error: 'Choose weighted average or FIFO costing' };
+    }
+    localStorage.setItem(STORAGE_KEYS.COSTING_SETTINGS, JSON.stringify(settings));
+    return { success: true };
+  },
+
+  /**
+   * Gross margin of sales by product or category, net of tax and returns, leaving out voided sales
+   * Variants and packs roll up like product sales; lines sold before costing count at today's cost price
+   */
+  getMarginReport(sales: SaleRecord[], groupBy: 'product' | 'category'): MarginLine[] {
+    const catalog = new Map(readCatalog().map((p) => [p.barcode, p]));
+    const lines = new Map<string, MarginLine>();
+
+    for (const sale of sales) {
+      if (SaleService.isVoided(sale)) continue;
+      for (const item of sale.items) {
+        const barcode = item.parentBarcode || item.baseBarcode || item.barcode;
+        const product = catalog.get(barcode);
+        const key = groupBy === 'product' ? barcode : product?.category || 'Other';
+        const line = lines.get(key) || {
+          key,
+          name: groupBy === 'product' ? product?.name || item.name : key,
+          quantity: 0,
+          revenue: 0,
+          cost: 0,
+          margin: 0,
+          marginPercent: 0,
+        };
+        lines.set(key, line);
+
+        const kept = (item.quantity - (item.returnedQuantity || 0)) / item.quantity;
+        const inclusiveTax = item.taxInclusive ? (item.taxes || []).reduce((sum, t) => sum + t.amount, 0) : 0;
+        const cost =
+          item.cost ??
+          Array.from(stockNeeded([item])).reduce((sum, [stockBarcode, need]) => sum + need.quantity * costPrice(stockBarcode), 0);
+
+        line.quantity += (item.quantity - (item.returnedQuantity || 0)) * (item.unitsPerPack || 1);
+        line.revenue += (item.total - inclusiveTax) * kept;
+        line.cost += cost * kept;
+      }
+    }
+
+    return Array.from(lines.values())
+      .map((line) => {
+        const revenue = roundMoney(line.revenue);
+        const cost = roundMoney(line.cost);
+        const margin = roundMoney(revenue - cost);
+        return {
+          ...line,
+          quantity: ProductService.roundQuantity(line.quantity),
+          revenue,
+          cost,
+          margin,
+          marginPercent: revenue > 0 ? (margin / revenue) * 100 : 0,
+        };
+      })
+      .sort((a, b) => b.margin - a.margin);
+  },
+
+  /**
+   * Cost value of the stock on hand (reserved stock included) by store or by category
+   * A store can be given to value only its stock
+   */
+  getValuation(groupBy: 'store' | 'category', storeId?: string): ValuationLine[] {
+    const catalog = new Map(readCatalog().map((p) => [p.barcode, p]));
+    const stores = new Map(StoreService.getAll().map((store) => [store.id, store.name]));
+    const lines = new Map<string, ValuationLine>();
+
+    for (const level of InventoryService.getAll()) {
+      const product = catalog.get(level.barcode);
+      if (!product || level.quantity <= 0 || (storeId && level.storeId !== storeId)) continue;
+
+      const key = groupBy === 'store' ? level.storeId : product.category;
+      const line = lines.get(key) || {
+        key,
+        name: groupBy === 'store' ? stores.get(level.storeId) || level.storeId : key,
+        quantity: 0,
+        value: 0,
+      };
+      line.quantity = ProductService.roundQuantity(line.quantity + level.quantity);
+      line.value = roundMoney(line.value + InventoryService.getStockValue(level));
+      lines.set(key, line);
+    }
+
+    return Array.from(lines.values()).sort((a, b) => b.value - a.value);
+  },
 };
 
 /**
  * Dashboard Service
+ * Stock figures count what is sold; a product with variants is counted through its variants,
+ * and a kit through its components
  */
 export const DashboardService = {
   /**
-   * Get dashboard statistics
+   * Get products that hold their own stock at a store (not parents or kits)
+   */
+  getStockedProducts(storeId?: string): Product[] {
+    return ProductService.getAll(storeId).filter((p) => !ProductService.hasVariants(p) && !ProductService.isKit(p));
+  },
+
+  /**
+   * Get dashboard statistics for a store
    */
-  getStats(): DashboardStats {
-    const products = ProductService.getAll();
+  getStats(storeId?: string): DashboardStats {
+    const products = this.getStockedProducts(storeId);
     const LOW_STOCK_THRESHOLD = 5;
 
     return {
@@ -389,16 +1638,16 @@ export const DashboardService = {
   /**
    * Get low stock products
    */
-  getLowStockProducts(threshold: number = 5): Product[] {
-    const products = ProductService.getAll();
+  getLowStockProducts(threshold: number = 5, storeId?: string): Product[] {
+    const products = this.getStockedProducts(storeId);
     return products.filter((p) => p.stock > 0 && p.stock < threshold);
   },
 
   /**
    * Get out of stock products
    */
-  getOutOfStockProducts(): Product[] {
-    const products = ProductService.getAll();
+  getOutOfStockProducts(storeId?: string): Product[] {
+    const products = this.getStockedProducts(storeId);
     return products.filter((p) => p.stock === 0);
   },
 };
@@ -416,626 +1665,4426 @@ export const CATEGORIES: Category[] = [
 // Low stock threshold constant
 export const LOW_STOCK_THRESHOLD = 5;
 
+// Units loose goods can be priced by, for dropdowns
+export const MEASURE_UNITS: { value: MeasureUnit; label: string }[] = [
+  { value: 'kg', label: 'Per kg' },
+  { value: 'l', label: 'Per litre' },
+  { value: 'm', label: 'Per metre' },
+];
+
+// Scale label layouts printed in store (EAN-13 with a GS1 prefix 20-29)
+// e.g. 21 12345 00655 C is 0.655 kg of item 12345; 20 12345 00327 C is $3.27 of it
+export const EMBEDDED_BARCODE_RULES: EmbeddedBarcodeRule[] = [
+  { prefix: '20', kind: 'price', itemDigits: 5, decimals: 2 },
+  { prefix: '21', kind: 'weight', itemDigits: 5, decimals: 3 },
+  { prefix: '22', kind: 'weight', itemDigits: 5, decimals: 3 },
+];
+
+// Default tax profiles (none assigned, so sales stay untaxed until configured)
+const DEFAULT_TAX_PROFILES: TaxProfile[] = [
+  {
+    id: 'tax-vat',
+    name: 'VAT 15%',
+    inclusive: false,
+    components: [{ name: 'VAT', rate: 15, compound: false }],
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'tax-vat-levies',
+    name: 'VAT + Levies',
+    inclusive: false,
+    components: [
+      { name: 'NHIL', rate: 2.5, compound: false },
+      { name: 'GETFund', rate: 2.5, compound: false },
+      { name: 'VAT', rate: 15, compound: true },
+    ],
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'tax-exempt',
+    name: 'Tax Exempt',
+    inclusive: false,
+    components: [],
+    createdAt: new Date().toISOString(),
+  },
+];
+
+const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  storeProfiles: {},
+  categoryProfiles: {},
+  productProfiles: {},
+};
+
 /**
- * Sale Service
- * Handles sales transactions and receipt generation
+ * Round a money amount to cents
  */
-export const SaleService = {
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Total tendered per payment method, with change taken out of the cash
+ */
+function splitTenders(tenders: Tender[], change: number): Partial<Record<PaymentMethod, number>> {
+  const split: Partial<Record<PaymentMethod, number>> = {};
+  for (const tender of tenders) {
+    split[tender.method] = roundMoney((split[tender.method] || 0) + tender.amount);
+  }
+  if (change > 0) {
+    split.cash = roundMoney((split.cash || 0) - change);
+  }
+  return split;
+}
+
+/**
+ * Payment method that settled the largest share of a sale
+ */
+function mainPaymentMethod(split: Partial<Record<PaymentMethod, number>>): PaymentMethod {
+  return (Object.keys(split) as PaymentMethod[]).reduce((main, method) =>
+    (split[method] || 0) > (split[main] || 0) ? method : main
+  );
+}
+
+/**
+ * Error for the first discount above the approval threshold that has no manager approval
+ */
+function findUnapprovedDiscount(items: SaleItem[], cartDiscount?: Discount): string | undefined {
+  for (const item of items) {
+    const amount = DiscountService.getLineAmount(item);
+    if (item.discount && !item.discount.approvedBy && DiscountService.requiresApproval(item.discount, amount)) {
+      return `Discount on ${item.name} needs manager approval`;
+    }
+  }
+  const cartAmount = DiscountService.getCartAmount(items);
+  if (cartDiscount && !cartDiscount.approvedBy && DiscountService.requiresApproval(cartDiscount, cartAmount)) {
+    return 'Cart discount needs manager approval';
+  }
+  return undefined;
+}
+
+/**
+ * Tax Service
+ * Manages tax profiles, their assignment and the tax on sale lines
+ */
+export const TaxService = {
   /**
-   * Generate unique receipt number
+   * Initialize tax profiles in storage
    */
-  generateReceiptNumber(): string {
-    const date = new Date();
-    const prefix = 'RCP';
-    const timestamp = date.getTime().toString(36).toUpperCase();
-    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
-    return `${prefix}-${timestamp}-${random}`;
+  initialize(): void {
+    if (!localStorage.getItem(STORAGE_KEYS.TAX_PROFILES)) {
+      localStorage.setItem(STORAGE_KEYS.TAX_PROFILES, JSON.stringify(DEFAULT_TAX_PROFILES));
+    }
   },
 
   /**
-   * Process a sale transaction
+   * Get all tax profiles
    */
-  processSale(
-    items: SaleItem[],
-    paymentMethod: PaymentMethod,
-    amountPaid: number,
-    cashierName: string,
-    storeId: string,
-    storeName: string
-  ): { success: boolean; sale?: SaleRecord; error?: string; change?: number } {
-    // Validate items
-    if (items.length === 0) {
-      return { success: false, error: 'No items in cart' };
-    }
+  getProfiles(): TaxProfile[] {
+    this.initialize();
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.TAX_PROFILES) || '[]');
+  },
 
-    // Calculate totals
-    const subtotal = items.reduce((sum, item) => sum + item.total, 0);
-    const taxRate = 0; // No tax for now, can be configured
-    const tax = subtotal * taxRate;
-    const total = subtotal + tax;
+  /**
+   * Find tax profile by ID
+   */
+  findProfile(id: string): TaxProfile | undefined {
+    return this.getProfiles().find((p) => p.id === id);
+  },
 
-    // Validate payment
-    if (amountPaid < total) {
-      return { success: false, error: 'Insufficient payment amount' };
+  /**
+   * Create or update a tax profile
+   */
+  saveProfile(profile: Omit<TaxProfile, 'id' | 'createdAt'> & { id?: string }): { success: boolean; error?: string } {
+    if (!profile.name.trim()) {
+      return { success: false, error: 'Profile name is required' };
     }
 
-    const change = amountPaid - total;
+    if (profile.components.some((c) => !c.name.trim() || isNaN(c.rate) || c.rate < 0)) {
+      return { success: false, error: 'Every tax needs a name and a rate of 0 or more' };
+    }
 
-    // Check stock availability for all items
-    const products = ProductService.getAll();
-    for (const item of items) {
-      const product = products.find((p) => p.barcode === item.barcode);
-      if (!product) {
-        return { success: false, error: `Product ${item.name} not found` };
-      }
-      if (product.stock < item.quantity) {
-        return {
-          success: false,
-          error: `Insufficient stock for ${item.name}. Available: ${product.stock}`,
-        };
-      }
+    const profiles = this.getProfiles();
+    if (profiles.some((p) => p.id !== profile.id && p.name.toLowerCase() === profile.name.trim().toLowerCase())) {
+      return { success: false, error: 'A profile with this name already exists' };
     }
 
-    // Deduct stock for all items
-    for (const item of items) {
-      const productIndex = products.findIndex((p) => p.barcode === item.barcode);
-      if (productIndex !== -1) {
-        products[productIndex].stock -= item.quantity;
-      }
+    const index = profile.id ? profiles.findIndex((p) => p.id === profile.id) : -1;
+    if (index === -1) {
+      profiles.push({
+        ...profile,
+        id: `tax-${Date.now()}`,
+        name: profile.name.trim(),
+        createdAt: new Date().toISOString(),
+      });
+    } else {
+      profiles[index] = { ...profiles[index], ...profile, name: profile.name.trim() };
     }
-    localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
-
-    // Create sale record
-    const sale: SaleRecord = {
-      id: `sale-${Date.now()}`,
-      receiptNumber: this.generateReceiptNumber(),
-      items: [...items],
-      subtotal,
-      tax,
-      total,
-      paymentMethod,
-      amountPaid,
-      change,
-      cashierName,
-      storeId,
-      storeName,
-      timestamp: new Date().toISOString(),
-    };
 
-    // Save sale record
-    const sales = JSON.parse(localStorage.getItem(STORAGE_KEYS.SALES) || '[]') as SaleRecord[];
-    sales.unshift(sale);
-    localStorage.setItem(STORAGE_KEYS.SALES, JSON.stringify(sales));
-
-    return { success: true, sale, change };
+    localStorage.setItem(STORAGE_KEYS.TAX_PROFILES, JSON.stringify(profiles));
+    return { success: true };
   },
 
   /**
-   * Get all sales
+   * Delete a tax profile and any assignments that use it
    */
-  getAll(): SaleRecord[] {
-    return JSON.parse(localStorage.getItem(STORAGE_KEYS.SALES) || '[]');
+  deleteProfile(id: string): { success: boolean; error?: string } {
+    const profiles = this.getProfiles();
+    const filtered = profiles.filter((p) => p.id !== id);
+
+    if (filtered.length === profiles.length) {
+      return { success: false, error: 'Tax profile not found' };
+    }
+
+    const settings = this.getSettings();
+    const unassign = (map: Record<string, string>) =>
+      Object.fromEntries(Object.entries(map).filter(([, profileId]) => profileId !== id));
+
+    this.saveSettings({
+      defaultProfileId: settings.defaultProfileId === id ? undefined : settings.defaultProfileId,
+      storeProfiles: unassign(settings.storeProfiles),
+      categoryProfiles: unassign(settings.categoryProfiles),
+      productProfiles: unassign(settings.productProfiles),
+    });
+
+    localStorage.setItem(STORAGE_KEYS.TAX_PROFILES, JSON.stringify(filtered));
+    return { success: true };
   },
 
   /**
-   * Get sales by store
+   * Get tax assignments
    */
-  getByStore(storeId: string): SaleRecord[] {
-    return this.getAll().filter((sale) => sale.storeId === storeId);
+  getSettings(): TaxSettings {
+    return {
+      ...DEFAULT_TAX_SETTINGS,
+      ...JSON.parse(localStorage.getItem(STORAGE_KEYS.TAX_SETTINGS) || '{}'),
+    };
   },
 
   /**
-   * Get sale by receipt number
+   * Save tax assignments
    */
-  getByReceiptNumber(receiptNumber: string): SaleRecord | undefined {
-    const sales = this.getAll();
-    return sales.find((s) => s.receiptNumber === receiptNumber);
+  saveSettings(settings: TaxSettings): void {
+    localStorage.setItem(STORAGE_KEYS.TAX_SETTINGS, JSON.stringify(settings));
   },
 
   /**
-   * Get sales by date range
+   * Assign a tax profile to a store, category or product (empty ID clears it)
    */
-  getByDateRange(startDate: Date, endDate: Date, storeId?: string): SaleRecord[] {
-    const sales = storeId ? this.getByStore(storeId) : this.getAll();
-    return sales.filter((sale) => {
-      const saleDate = new Date(sale.timestamp);
-      return saleDate >= startDate && saleDate <= endDate;
-    });
+  assign(scope: 'store' | 'category' | 'product', key: string, profileId: string): void {
+    const settings = this.getSettings();
+    const field = `${scope}Profiles` as 'storeProfiles' | 'categoryProfiles' | 'productProfiles';
+    const map = { ...settings[field] };
+
+    if (profileId) {
+      map[key] = profileId;
+    } else {
+      delete map[key];
+    }
+
+    this.saveSettings({ ...settings, [field]: map });
   },
 
   /**
-   * Get today's sales
+   * Resolve the tax profile for a product sold at a store
+   * Product overrides category, category overrides store, store overrides the default
    */
-  getTodaySales(storeId?: string): SaleRecord[] {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return this.getByDateRange(today, tomorrow, storeId);
+  resolveProfile(barcode: string, storeId: string): TaxProfile | undefined {
+    const settings = this.getSettings();
+    const product = catalogIndex().get(barcode);
+    const category = product?.category;
+
+    // A pack is taxed like its product, and a variant without its own profile like its parent
+    const profileId =
+      settings.productProfiles[barcode] ||
+      (product && settings.productProfiles[product.barcode]) ||
+      (product?.parentBarcode && settings.productProfiles[product.parentBarcode]) ||
+      (category && settings.categoryProfiles[category]) ||
+      settings.storeProfiles[storeId] ||
+      settings.defaultProfileId;
+
+    return profileId ? this.findProfile(profileId) : undefined;
   },
 
   /**
-   * Calculate daily totals
+   * Calculate the taxes on a line amount
+   * Inclusive amounts are split so that net plus taxes equals the amount
    */
-  getDailyTotals(date: Date = new Date(), storeId?: string): {
-    totalSales: number;
-    totalRevenue: number;
-    totalItems: number;
-    byPaymentMethod: Record<PaymentMethod, { count: number; amount: number }>;
-  } {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    const sales = this.getByDateRange(startOfDay, endOfDay, storeId);
+  calculateLineTaxes(amount: number, profile?: TaxProfile): { net: number; taxes: SaleItemTax[] } {
+    if (!profile || profile.components.length === 0) {
+      return { net: amount, taxes: [] };
+    }
 
-    const byPaymentMethod: Record<PaymentMethod, { count: number; amount: number }> = {
-      cash: { count: 0, amount: 0 },
-      mobile_money: { count: 0, amount: 0 },
-      card: { count: 0, amount: 0 },
+    // Taxes are linear in the net amount, so find what one unit of net attracts
+    const taxesOn = (net: number) => {
+      const taxes: SaleItemTax[] = [];
+      for (const component of profile.components) {
+        const taxableAmount = component.compound
+          ? net + taxes.reduce((sum, t) => sum + t.amount, 0)
+          : net;
+        taxes.push({
+          name: component.name,
+          rate: component.rate,
+          compound: component.compound,
+          taxableAmount,
+          amount: (taxableAmount * component.rate) / 100,
+        });
+      }
+      return taxes;
     };
 
-    let totalItems = 0;
+    const net = profile.inclusive
+      ? amount / (1 + taxesOn(1).reduce((sum, t) => sum + t.amount, 0))
+      : amount;
 
-    for (const sale of sales) {
-      byPaymentMethod[sale.paymentMethod].count += 1;
-      byPaymentMethod[sale.paymentMethod].amount += sale.total;
-      totalItems += sale.items.reduce((sum, item) => sum + item.quantity, 0);
-    }
+    const taxes = taxesOn(net).map((t) => ({
+      ...t,
+      taxableAmount: roundMoney(t.taxableAmount),
+      amount: roundMoney(t.amount),
+    }));
 
     return {
-      totalSales: sales.length,
-      totalRevenue: sales.reduce((sum, sale) => sum + sale.total, 0),
-      totalItems,
-      byPaymentMethod,
+      // Inclusive net absorbs rounding so the line still adds up to the shelf price
+      net: profile.inclusive ? amount - taxes.reduce((sum, t) => sum + t.amount, 0) : amount,
+      taxes,
     };
   },
-};
-
-// Default cashiers
-const DEFAULT_CASHIERS: Cashier[] = [
-  {
-    id: 'cashier-001',
-    cashierId: 'CASHIER001',
-    name: 'John Doe',
-    email: 'john.doe@pos.com',
-    phone: '+1234567890',
-    password: 'pos123',
-    role: 'cashier',
-    isActive: true,
-    createdAt: new Date().toISOString(),
-  },
-  {
-    id: 'cashier-002',
-    cashierId: 'CASHIER002',
-    name: 'Jane Smith',
-    email: 'jane.smith@pos.com',
-    phone: '+1234567891',
-    password: 'pos123',
-    role: 'cashier',
-    isActive: true,
-    createdAt: new Date().toISOString(),
-  },
-];
 
-/**
- * Cashier Service
- * Manages cashier users
- */
-export const CashierService = {
   /**
-   * Initialize cashiers in storage
+   * Apply the store's tax rules to sale lines and total them
    */
-  initialize(): void {
-    if (!localStorage.getItem(STORAGE_KEYS.CASHIERS)) {
-      localStorage.setItem(STORAGE_KEYS.CASHIERS, JSON.stringify(DEFAULT_CASHIERS));
-    }
-  },
+  applyTaxes(items: SaleItem[], storeId: string): { items: SaleItem[]; subtotal: number; tax: number; total: number } {
+    let subtotal = 0;
+    let tax = 0;
+
+    const taxedItems = items.map((item) => {
+      const profile = this.resolveProfile(item.barcode, storeId);
+      const { net, taxes } = this.calculateLineTaxes(item.total, profile);
+      subtotal += net;
+      tax += taxes.reduce((sum, t) => sum + t.amount, 0);
+      return { ...item, taxInclusive: profile?.inclusive ?? false, taxes };
+    });
 
-  /**
-   * Get all cashiers
-   */
-  getAll(): Cashier[] {
-    this.initialize();
-    return JSON.parse(localStorage.getItem(STORAGE_KEYS.CASHIERS) || '[]');
+    return {
+      items: taxedItems,
+      subtotal: roundMoney(subtotal),
+      tax: roundMoney(tax),
+      total: roundMoney(subtotal + tax),
+    };
   },
 
   /**
-   * Get active cashiers only
+   * Amount the customer paid for a sale line, including exclusive taxes
    */
-  getActive(): Cashier[] {
-    return this.getAll().filter((c) => c.isActive);
+  getLineTotal(item: SaleItem): number {
+    if (item.taxInclusive || !item.taxes) return item.total;
+    return item.total + item.taxes.reduce((sum, t) => sum + t.amount, 0);
   },
 
   /**
-   * Find cashier by ID
+   * Summarize the taxes of a sale by tax name and rate
    */
-  findById(id: string): Cashier | undefined {
-    return this.getAll().find((c) => c.id === id);
+  summarize(items: SaleItem[]): { name: string; rate: number; taxableAmount: number; amount: number }[] {
+    const summary = new Map<string, { name: string; rate: number; taxableAmount: number; amount: number }>();
+
+    for (const item of items) {
+      for (const t of item.taxes || []) {
+        const key = `${t.name}@${t.rate}`;
+        const entry = summary.get(key) || { name: t.name, rate: t.rate, taxableAmount: 0, amount: 0 };
+        entry.taxableAmount += t.taxableAmount;
+        entry.amount += t.amount;
+        summary.set(key, entry);
+      }
+    }
+
+    return Array.from(summary.values());
   },
+};
 
+/**
+ * Promotion Service
+ * Manages promotions and applies the best eligible ones to a cart
+ */
+export const PromotionService = {
   /**
-   * Find cashier by cashierId
+   * Get all promotions
    */
-  findByCashierId(cashierId: string): Cashier | undefined {
-    return this.getAll().find((c) => c.cashierId === cashierId);
+  getAll(): Promotion[] {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.PROMOTIONS) || '[]');
   },
 
   /**
-   * Check if cashierId is unique
+   * Find promotion by ID
    */
-  isCashierIdUnique(cashierId: string, excludeId?: string): boolean {
-    const cashiers = this.getAll();
-    return !cashiers.some((c) => c.cashierId === cashierId && c.id !== excludeId);
+  findById(id: string): Promotion | undefined {
+    return this.getAll().find((p) => p.id === id);
   },
 
   /**
-   * Add new cashier
+   * Validate a promotion's rule and schedule
    */
-  add(cashier: Omit<Cashier, 'id' | 'createdAt'>): { success: boolean; error?: string } {
-    // Validate cashierId uniqueness
-    if (!this.isCashierIdUnique(cashier.cashierId)) {
-      return { success: false, error: 'Cashier ID already exists' };
+  validate(promotion: Omit<Promotion, 'id' | 'createdAt'>): { success: boolean; error?: string } {
+    if (!promotion.name.trim()) {
+      return { success: false, error: 'Promotion name is required' };
     }
 
-    // Validate required fields
-    if (!cashier.name.trim() || !cashier.email.trim() || !cashier.password) {
-      return { success: false, error: 'All fields are required' };
+    const isWhole = (n: number | undefined, min: number) => n !== undefined && Number.isInteger(n) && n >= min;
+
+    switch (promotion.type) {
+      case 'buy_x_get_y':
+        if (promotion.barcodes.length === 0) {
+          return { success: false, error: 'Select the products this promotion applies to' };
+        }
+        if (!isWhole(promotion.buyQuantity, 1) || !isWhole(promotion.getQuantity, 1)) {
+          return { success: false, error: 'Buy and free quantities must be whole numbers of at least 1' };
+        }
+        break;
+      case 'multi_buy':
+        if (promotion.barcodes.length === 0) {
+          return { success: false, error: 'Select the products this promotion applies to' };
+        }
+        if (!isWhole(promotion.buyQuantity, 2)) {
+          return { success: false, error: 'Bundle quantity must be a whole number of at least 2' };
+        }
+        if (!promotion.bundlePrice || promotion.bundlePrice <= 0) {
+          return { success: false, error: 'Bundle price must be greater than zero' };
+        }
+        break;
+      case 'percent_off':
+        if (!promotion.category && promotion.barcodes.length === 0) {
+          return { success: false, error: 'Select a category or products' };
+        }
+        if (!promotion.percentOff || promotion.percentOff <= 0 || promotion.percentOff > 100) {
+          return { success: false, error: 'Percentage off must be between 0 and 100' };
+        }
+        break;
     }
 
-    const newCashier: Cashier = {
-      ...cashier,
-      id: `cashier-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-    };
+    if (!!promotion.startTime !== !!promotion.endTime) {
+      return { success: false, error: 'Set both a start and an end time, or neither' };
+    }
+
+    if (promotion.startDate && promotion.endDate && promotion.endDate < promotion.startDate) {
+      return { success: false, error: 'End date cannot be before start date' };
+    }
 
-    const cashiers = this.getAll();
-    cashiers.push(newCashier);
-    localStorage.setItem(STORAGE_KEYS.CASHIERS, JSON.stringify(cashiers));
     return { success: true };
   },
 
   /**
-   * Update cashier
+   * Create or update a promotion
    */
-  update(id: string, updates: Partial<Omit<Cashier, 'id' | 'createdAt'>>): { success: boolean; error?: string } {
-    const cashiers = this.getAll();
-    const index = cashiers.findIndex((c) => c.id === id);
+  save(promotion: Omit<Promotion, 'id' | 'createdAt'> & { id?: string }): { success: boolean; error?: string } {
+    const validation = this.validate(promotion);
+    if (!validation.success) return validation;
 
-    if (index === -1) {
-      return { success: false, error: 'Cashier not found' };
-    }
+    const promotions = this.getAll();
+    const index = promotion.id ? promotions.findIndex((p) => p.id === promotion.id) : -1;
 
-    // Validate cashierId uniqueness if being updated
-    if (updates.cashierId && !this.isCashierIdUnique(updates.cashierId, id)) {
-      return { success: false, error: 'Cashier ID already exists' };
+    if (index === -1) {
+      promotions.unshift({
+        ...promotion,
+        id: `promo-${Date.now()}`,
+        name: promotion.name.trim(),
+        createdAt: new Date().toISOString(),
+      });
+    } else {
+      promotions[index] = { ...promotions[index], ...promotion, name: promotion.name.trim() };
     }
 
-    cashiers[index] = { ...cashiers[index], ...updates };
-    localStorage.setItem(STORAGE_KEYS.CASHIERS, JSON.stringify(cashiers));
+    localStorage.setItem(STORAGE_KEYS.PROMOTIONS, JSON.stringify(promotions));
     return { success: true };
   },
 
   /**
-   * Delete cashier
+   * Delete a promotion
    */
   delete(id: string): { success: boolean; error?: string } {
-    const cashiers = this.getAll();
-    const filtered = cashiers.filter((c) => c.id !== id);
+    const promotions = this.getAll();
+    const filtered = promotions.filter((p) => p.id !== id);
 
-    if (filtered.length === cashiers.length) {
-      return { success: false, error: 'Cashier not found' };
+    if (filtered.length === promotions.length) {
+      return { success: false, error: 'Promotion not found' };
     }
 
-    localStorage.setItem(STORAGE_KEYS.CASHIERS, JSON.stringify(filtered));
+    localStorage.setItem(STORAGE_KEYS.PROMOTIONS, JSON.stringify(filtered));
     return { success: true };
   },
 
   /**
-   * Toggle cashier active status
+   * Toggle promotion active status
    */
   toggleActive(id: string): { success: boolean; error?: string } {
-    const cashier = this.findById(id);
-    if (!cashier) {
-      return { success: false, error: 'Cashier not found' };
+    const promotions = this.getAll();
+    const index = promotions.findIndex((p) => p.id === id);
+
+    if (index === -1) {
+      return { success: false, error: 'Promotion not found' };
     }
-    return this.update(id, { isActive: !cashier.isActive });
+
+    promotions[index].isActive = !promotions[index].isActive;
+    localStorage.setItem(STORAGE_KEYS.PROMOTIONS, JSON.stringify(promotions));
+    return { success: true };
   },
 
   /**
-   * Assign cashier to store
+   * Whether a promotion runs at a given moment (dates, weekdays and daily hours)
    */
-  assignToStore(id: string, storeId: string, storeName: string): { success: boolean; error?: string } {
-    const cashier = this.findById(id);
-    if (!cashier) {
-      return { success: false, error: 'Cashier not found' };
+  isRunning(promotion: Promotion, at: Date = new Date()): boolean {
+    if (!promotion.isActive) return false;
+
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    const date = `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`;
+    const time = `${pad(at.getHours())}:${pad(at.getMinutes())}`;
+
+    if (promotion.startDate && date < promotion.startDate) return false;
+    if (promotion.endDate && date > promotion.endDate) return false;
+    if (promotion.daysOfWeek?.length && !promotion.daysOfWeek.includes(at.getDay())) return false;
+
+    if (promotion.startTime && promotion.endTime) {
+      // A window such as 22:00-02:00 runs past midnight
+      return promotion.startTime <= promotion.endTime
+        ? time >= promotion.startTime && time < promotion.endTime
+        : time >= promotion.startTime || time < promotion.endTime;
     }
-    return this.update(id, { assignedStoreId: storeId, assignedStoreName: storeName });
+
+    return true;
   },
 
   /**
-   * Remove cashier from store
+   * Savings per barcode if a promotion alone were applied to the given lines
    */
-  removeFromStore(id: string): { success: boolean; error?: string } {
-    const cashier = this.findById(id);
-    if (!cashier) {
-      return { success: false, error: 'Cashier not found' };
+  calculateSavings(promotion: Promotion, items: SaleItem[]): Record<string, number> {
+    const catalog = catalogIndex();
+    // Listing a parent product puts all of its variants on promotion, and a product its packs
+    const eligible = items.filter((item) => {
+      const product = catalog.get(item.barcode);
+      return promotion.type === 'percent_off' && promotion.category
+        ? product?.category === promotion.category
+        : promotion.barcodes.includes(item.barcode) ||
+            (!!product && product.barcode !== item.barcode && promotion.barcodes.includes(product.barcode)) ||
+            (!!product?.parentBarcode && promotion.barcodes.includes(product.parentBarcode));
+    });
+
+    const savings: Record<string, number> = {};
+    const addSaving = (barcode: string, amount: number) => {
+      savings[barcode] = (savings[barcode] || 0) + amount;
+    };
+
+    // Mix-and-match rules work on single units, most expensive first; goods sold by
+    // measure have no whole units to count, so only percent-off promotions reach them
+    const units = eligible
+      .filter((item) => !item.measureUnit)
+      .flatMap((item) => Array.from({ length: item.quantity }, () => ({ barcode: item.barcode, price: item.price })))
+      .sort((a, b) => b.price - a.price);
+
+    switch (promotion.type) {
+      case 'buy_x_get_y': {
+        const buy = promotion.buyQuantity || 0;
+        const groupSize = buy + (promotion.getQuantity || 0);
+        for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+          // The cheapest units of each group are free
+          units.slice(start + buy, start + groupSize).forEach((unit) => addSaving(unit.barcode, unit.price));
+        }
+        break;
+      }
+      case 'multi_buy': {
+        const groupSize = promotion.buyQuantity || 0;
+        const bundlePrice = promotion.bundlePrice || 0;
+        for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+          const group = units.slice(start, start + groupSize);
+          const groupTotal = group.reduce((sum, unit) => sum + unit.price, 0);
+          if (groupTotal <= bundlePrice) continue;
+          // Spread the bundle saving over its units by price
+          group.forEach((unit) => addSaving(unit.barcode, ((groupTotal - bundlePrice) * unit.price) / groupTotal));
+        }
+        break;
+      }
+      case 'percent_off':
+        eligible.forEach((item) =>
+          addSaving(item.barcode, ((item.labelTotal ?? item.price * item.quantity) * (promotion.percentOff || 0)) / 100)
+        );
+        break;
     }
-    return this.update(id, { assignedStoreId: undefined, assignedStoreName: undefined });
+
+    return Object.fromEntries(
+      Object.entries(savings).map(([barcode, amount]) => [barcode, roundMoney(amount)])
+    );
   },
 
   /**
-   * Get cashiers by store
+   * Apply the best eligible promotions to sale lines
+   * Each line gets at most one promotion; the promotion saving the most is applied first
    */
-  getByStore(storeId: string): Cashier[] {
-    return this.getAll().filter((c) => c.assignedStoreId === storeId);
+  apply(items: SaleItem[], at: Date = new Date()): SaleItem[] {
+    const running = this.getAll().filter((p) => this.isRunning(p, at));
+    const applied = new Map<string, AppliedPromotion>();
+    const used = new Set<string>();
+
+    for (;;) {
+      const unclaimed = items.filter((item) => !applied.has(item.barcode));
+      let best: { promotion: Promotion; savings: Record<string, number>; total: number } | null = null;
+
+      for (const promotion of running) {
+        if (used.has(promotion.id)) continue;
+        const savings = this.calculateSavings(promotion, unclaimed);
+        const total = Object.values(savings).reduce((sum, amount) => sum + amount, 0);
+        if (total > 0 && (!best || total > best.total)) {
+          best = { promotion, savings, total };
+        }
+      }
+
+      if (!best) break;
+
+      used.add(best.promotion.id);
+      for (const [barcode, savings] of Object.entries(best.savings)) {
+        if (savings > 0) {
+          applied.set(barcode, { id: best.promotion.id, name: best.promotion.name, savings });
+        }
+      }
+    }
+
+    return items.map((item) => ({ ...item, promotion: applied.get(item.barcode) }));
   },
+};
+
+// Discount reason codes with display labels
+export const DISCOUNT_REASONS: { id: DiscountReason; label: string }[] = [
+  { id: 'damaged', label: 'Damaged item' },
+  { id: 'price_match', label: 'Price match' },
+  { id: 'loyalty', label: 'Loyal customer' },
+  { id: 'staff', label: 'Staff discount' },
+  { id: 'promotion', label: 'Promotion' },
+  { id: 'other', label: 'Other' },
+];
+
+const DEFAULT_DISCOUNT_SETTINGS: DiscountSettings = {
+  approvalThreshold: 10,
+};
 
+/**
+ * Discount Service
+ * Calculates line and cart discounts and checks manager approval
+ */
+export const DiscountService = {
   /**
-   * Get unassigned cashiers
+   * Get discount settings
    */
-  getUnassigned(): Cashier[] {
-    return this.getAll().filter((c) => !c.assignedStoreId && c.isActive);
+  getSettings(): DiscountSettings {
+    return {
+      ...DEFAULT_DISCOUNT_SETTINGS,
+      ...JSON.parse(localStorage.getItem(STORAGE_KEYS.DISCOUNT_SETTINGS) || '{}'),
+    };
   },
 
   /**
-   * Validate cashier login
+   * Save discount settings
    */
-  validateLogin(cashierId: string, password: string): Cashier | null {
-    const cashier = this.findByCashierId(cashierId);
-    if (cashier && cashier.password === password && cashier.isActive) {
-      // Update last login
-      this.update(cashier.id, { lastLogin: new Date().toISOString() });
-      return cashier;
+  saveSettings(settings: DiscountSettings): { success: boolean; error?: string } {
+    if (isNaN(settings.approvalThreshold) || settings.approvalThreshold < 0 || settings.approvalThreshold > 100) {
+      return { success: false, error: 'Approval threshold must be between 0 and 100%' };
     }
-    return null;
+
+    localStorage.setItem(STORAGE_KEYS.DISCOUNT_SETTINGS, JSON.stringify(settings));
+    return { success: true };
+  },
+
+  /**
+   * Money value of a discount on an amount (never more than the amount)
+   */
+  calculateAmount(discount: Discount, amount: number): number {
+    const value = discount.type === 'percentage' ? (amount * discount.value) / 100 : discount.value;
+    return roundMoney(Math.min(Math.max(value, 0), amount));
+  },
+
+  /**
+   * Validate a discount against the amount it applies to
+   */
+  validate(discount: Discount, amount: number): { success: boolean; error?: string } {
+    if (isNaN(discount.value) || discount.value <= 0) {
+      return { success: false, error: 'Discount must be greater than zero' };
+    }
+
+    if (discount.type === 'percentage' && discount.value > 100) {
+      return { success: false, error: 'Discount cannot be more than 100%' };
+    }
+
+    if (discount.type === 'fixed' && discount.value > amount) {
+      return { success: false, error: `Discount cannot be more than $${amount.toFixed(2)}` };
+    }
+
+    return { success: true };
+  },
+
+  /**
+   * Whether a discount on an amount is above the approval threshold
+   */
+  requiresApproval(discount: Discount, amount: number): boolean {
+    if (amount <= 0) return false;
+    const percent = (this.calculateAmount(discount, amount) / amount) * 100;
+    return percent > this.getSettings().approvalThreshold;
+  },
+
+  /**
+   * Check manager credentials for a discount approval
+   */
+  approve(managerId: string, password: string): { success: boolean; approvedBy?: string; error?: string } {
+    const manager = ManagerService.validateLogin(managerId.trim(), password);
+    if (!manager) {
+      return { success: false, error: 'Invalid manager ID, password, or account is inactive' };
+    }
+    return { success: true, approvedBy: manager.name };
+  },
+
+  /**
+   * Amount a line discount applies to: price times quantity (or the scale label price) less promotion savings
+   */
+  getLineAmount(item: SaleItem): number {
+    return (item.labelTotal ?? item.price * item.quantity) - (item.promotion?.savings || 0);
+  },
+
+  /**
+   * Amount a cart discount applies to: line amounts after line discounts
+   */
+  getCartAmount(items: SaleItem[]): number {
+    return items.reduce((sum, item) => {
+      const amount = this.getLineAmount(item);
+      return sum + amount - (item.discount ? this.calculateAmount(item.discount, amount) : 0);
+    }, 0);
+  },
+
+  /**
+   * Apply line discounts, then spread the cart discount over lines by value
+   * Line totals come back net of promotions and discounts so tax is charged on what is paid
+   */
+  applyDiscounts(items: SaleItem[], cartDiscount?: Discount): { items: SaleItem[]; discountTotal: number } {
+    const afterLine = items.map((item) => {
+      const amount = this.getLineAmount(item);
+      const lineDiscount = item.discount ? this.calculateAmount(item.discount, amount) : 0;
+      return { ...item, total: amount - lineDiscount, discountAmount: lineDiscount };
+    });
+
+    const cartAmount = afterLine.reduce((sum, item) => sum + item.total, 0);
+    const cartDiscountAmount = cartDiscount ? this.calculateAmount(cartDiscount, cartAmount) : 0;
+    let cartRemaining = cartDiscountAmount;
+
+    const discounted = afterLine.map((item, index) => {
+      // The last line takes whatever is left so shares add up to the cart discount
+      const share =
+        index === afterLine.length - 1
+          ? cartRemaining
+          : cartAmount > 0
+            ? roundMoney((cartDiscountAmount * item.total) / cartAmount)
+            : 0;
+      const applied = Math.min(share, item.total, cartRemaining);
+      cartRemaining -= applied;
+      return {
+        ...item,
+        total: roundMoney(item.total - applied),
+        discountAmount: roundMoney(item.discountAmount + applied) || undefined,
+      };
+    });
+
+    return {
+      items: discounted,
+      discountTotal: roundMoney(discounted.reduce((sum, item) => sum + (item.discountAmount || 0), 0)),
+    };
+  },
+};
+
+/**
+ * Sale Service
+ * Handles sales transactions and receipt generation
+ */
+export const SaleService = {
+  /**
+   * Generate unique receipt number
+   */
+  generateReceiptNumber(): string {
+    const date = new Date();
+    const prefix = 'RCP';
+    const timestamp = date.getTime().toString(36).toUpperCase();
+    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
+    return `${prefix}-${timestamp}-${random}`;
+  },
+
+  /**
+   * Price sale lines: promotions, then discounts, then taxes on the discounted amounts
+   */
+  priceItems(
+    items: SaleItem[],
+    storeId: string,
+    cartDiscount?: Discount
+  ): { items: SaleItem[]; subtotal: number; promotionTotal: number; discountTotal: number; tax: number; total: number } {
+    const promoted = PromotionService.apply(items);
+    const promotionTotal = roundMoney(promoted.reduce((sum, item) => sum + (item.promotion?.savings || 0), 0));
+    const { items: discounted, discountTotal } = DiscountService.applyDiscounts(promoted, cartDiscount);
+    return { ...TaxService.applyTaxes(discounted, storeId), promotionTotal, discountTotal };
+  },
+
+  /**
+   * Process a sale transaction
+   */
+  processSale(
+    items: SaleItem[],
+    tenders: Tender[],
+    cashierName: string,
+    storeId: string,
+    storeName: string,
+    sessionId?: string,
+    cartDiscount?: Discount,
+    customerId?: string
+  ): { success: boolean; sale?: SaleRecord; error?: string; change?: number } {
+    // Validate items
+    if (items.length === 0) {
+      return { success: false, error: 'No items in cart' };
+    }
+
+    // Calculate totals with promotions, discounts and the store's tax rules
+    const { items: pricedItems, subtotal, promotionTotal, discountTotal, tax, total } = this.priceItems(
+      items,
+      storeId,
+      cartDiscount
+    );
+
+    // Discounts above the threshold must carry a manager approval
+    const approvalError = findUnapprovedDiscount(pricedItems, cartDiscount);
+    if (approvalError) {
+      return { success: false, error: approvalError };
+    }
+
+    // Validate payment; only cash can be over-tendered, since change comes from the drawer
+    if (tenders.length === 0 || tenders.some((tender) => !(tender.amount > 0))) {
+      return { success: false, error: 'Invalid payment amount' };
+    }
+    const amountPaid = roundMoney(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+    const nonCashPaid = roundMoney(
+      tenders.filter((tender) => tender.method !== 'cash').reduce((sum, tender) => sum + tender.amount, 0)
+    );
+    if (nonCashPaid > total) {
+      return { success: false, error: 'Only cash payments can be more than the amount due' };
+    }
+    if (amountPaid < total) {
+      return { success: false, error: 'Insufficient payment amount' };
+    }
+
+    // Points redeemed as a tender must be covered by the customer's balance
+    const customer = customerId ? CustomerService.findById(customerId) : undefined;
+    if (customerId && !customer) {
+      return { success: false, error: 'Customer not found' };
+    }
+    const pointsPaid = roundMoney(
+      tenders.filter((tender) => tender.method === 'loyalty_points').reduce((sum, tender) => sum + tender.amount, 0)
+    );
+    const pointsRedeemed = pointsPaid > 0 ? CustomerService.pointsForAmount(pointsPaid) : 0;
+    if (pointsRedeemed > 0) {
+      if (!customer) {
+        return { success: false, error: 'Attach a customer to pay with loyalty points' };
+      }
+      if (pointsPaid > CustomerService.getRedeemableValue(customer) || pointsRedeemed > customer.points) {
+        return { success: false, error: `${customer.name} does not have enough redeemable points` };
+      }
+    }
+    const pointsEarned = customer ? CustomerService.calculatePointsEarned(total - pointsPaid) : 0;
+
+    // Charges on account must stay within the customer's credit limit
+    const accountCharge = roundMoney(
+      tenders.filter((tender) => tender.method === 'on_account').reduce((sum, tender) => sum + tender.amount, 0)
+    );
+    if (accountCharge > 0) {
+      if (!customer?.creditLimit) {
+        return { success: false, error: 'Attach a customer with a credit account to charge on account' };
+      }
+      const available = this.getAvailableCredit(customer);
+      if (accountCharge > available) {
+        return { success: false, error: `Credit limit exceeded. Available credit: $${available.toFixed(2)}` };
+      }
+    }
+
+    const cardValidation = GiftCardService.validateTenders(tenders);
+    if (!cardValidation.success) {
+      return { success: false, error: cardValidation.error };
+    }
+
+    const change = roundMoney(amountPaid - total);
+    const paymentMethod = mainPaymentMethod(splitTenders(tenders, change));
+
+    // Check stock availability for all items at the selling store
+    const checked = catalogLines(pricedItems, storeId);
+    if (!checked.items) {
+      return { success: false, error: checked.error };
+    }
+    const saleItems = checked.items;
+    const needed = stockNeeded(saleItems);
+    for (const [barcode, line] of needed) {
+      const available = InventoryService.getAvailable(storeId, barcode);
+      if (available < line.quantity) {
+        return {
+          success: false,
+          error: `Insufficient stock for ${line.name}. Available: ${available}`,
+        };
+      }
+    }
+
+    // Deduct stock for all items at the selling store, recording what each line cost
+    const receiptNumber = this.generateReceiptNumber();
+    const costedItems = saleItems.map((item) => {
+      let cost = 0;
+      for (const [barcode, line] of stockNeeded([item])) {
+        cost += InventoryService.move({
+          storeId,
+          barcode,
+          quantity: -line.quantity,
+          type: 'sale',
+          reference: receiptNumber,
+          performedBy: cashierName,
+        });
+      }
+      return { ...item, cost: roundMoney(cost) };
+    });
+
+    // Create sale record
+    const sale: SaleRecord = {
+      id: `sale-${Date.now()}`,
+      receiptNumber,
+      items: costedItems,
+      subtotal,
+      tax,
+      total,
+      paymentMethod,
+      tenders,
+      amountPaid,
+      change,
+      cashierName,
+      storeId,
+      storeName,
+      timestamp: new Date().toISOString(),
+      sessionId,
+      cartDiscount,
+      discountTotal: discountTotal || undefined,
+      promotionTotal: promotionTotal || undefined,
+      customerId: customer?.id,
+      customerName: customer?.name,
+      pointsEarned: customer ? pointsEarned : undefined,
+      pointsRedeemed: pointsRedeemed || undefined,
+    };
+
+    // Save sale record
+    const sales = JSON.parse(localStorage.getItem(STORAGE_KEYS.SALES) || '[]') as SaleRecord[];
+    sales.unshift(sale);
+    localStorage.setItem(STORAGE_KEYS.SALES, JSON.stringify(sales));
+
+    if (customer) {
+      CustomerService.adjustPoints(customer.id, pointsEarned - pointsRedeemed);
+    }
+
+    for (const tender of tenders) {
+      if (tender.reference && (tender.method === 'gift_card' || tender.method === 'store_credit')) {
+        GiftCardService.addTransaction(
+          tender.reference.trim().toUpperCase(),
+          'redeem',
+          -tender.amount,
+          cashierName,
+          sale.receiptNumber
+        );
+      }
+    }
+
+    return { success: true, sale, change };
+  },
+
+  /**
+   * Get all sales
+   */
+  getAll(): SaleRecord[] {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.SALES) || '[]');
+  },
+
+  /**
+   * Units sold and revenue per product, net of returns and leaving out voided sales
+   * Variants roll up into their parent product, and packs into their product in base units
+   */
+  getProductSales(sales: SaleRecord[]): { barcode: string; name: string; sold: number; revenue: number }[] {
+    const catalog = new Map(readCatalog().map((p) => [p.barcode, p]));
+    const totals = new Map<string, { barcode: string; name: string; sold: number; revenue: number }>();
+
+    for (const sale of sales) {
+      if (this.isVoided(sale)) continue;
+      for (const item of sale.items) {
+        const barcode = item.parentBarcode || item.baseBarcode || item.barcode;
+        const entry = totals.get(barcode) || { barcode, name: catalog.get(barcode)?.name || item.name, sold: 0, revenue: 0 };
+        totals.set(barcode, entry);
+        const returned = item.returnedQuantity || 0;
+        entry.sold += (item.quantity - returned) * (item.unitsPerPack || 1);
+        entry.revenue += item.total - (item.total / item.quantity) * returned;
+      }
+    }
+
+    return Array.from(totals.values());
+  },
+
+  /**
+   * Tender lines of a sale; older sales had a single payment method
+   */
+  getTenders(sale: SaleRecord): Tender[] {
+    return sale.tenders || [{ method: sale.paymentMethod, amount: sale.amountPaid }];
+  },
+
+  /**
+   * Share of the sale total settled by each payment method (cash is net of change)
+   */
+  getPaymentSplit(sale: SaleRecord): Partial<Record<PaymentMethod, number>> {
+    return splitTenders(this.getTenders(sale), sale.change);
+  },
+
+  /**
+   * Sale total net of refunds issued against it; a voided sale brings in nothing
+   */
+  getNetTotal(sale: SaleRecord): number {
+    return this.isVoided(sale) ? 0 : sale.total - (sale.refundedTotal || 0);
+  },
+
+  /**
+   * Whether a sale has been voided
+   */
+  isVoided(sale: SaleRecord): boolean {
+    return !!sale.voidedAt;
+  },
+
+  /**
+   * Post-void a completed sale (managers and admins only)
+   * Stock goes back, points and card balances are reversed, and the sale is kept with who voided it and why
+   */
+  voidSale(
+    receiptNumber: string,
+    reason: string,
+    voidedBy: AdminUser | Manager | Cashier
+  ): { success: boolean; sale?: SaleRecord; error?: string } {
+    if (voidedBy.role !== 'admin' && voidedBy.role !== 'manager') {
+      return { success: false, error: 'Only managers and admins can void sales' };
+    }
+
+    if (!reason.trim()) {
+      return { success: false, error: 'A void reason is required' };
+    }
+
+    const sales = this.getAll();
+    const sale = sales.find((s) => s.receiptNumber === receiptNumber);
+    if (!sale) {
+      return { success: false, error: 'Receipt not found' };
+    }
+    if (this.isVoided(sale)) {
+      return { success: false, error: 'Sale is already voided' };
+    }
+    if (sale.refundedTotal) {
+      return { success: false, error: 'Sales with returns cannot be voided' };
+    }
+    if (sale.layawayNumber) {
+      return { success: false, error: 'Layaway sales cannot be voided; return the goods instead' };
+    }
+
+    const performedBy = voidedBy.role === 'admin' ? voidedBy.username : voidedBy.name;
+
+    // Put the goods back at the store that sold them, at what they cost
+    const unitCosts = unitCostsTaken(sale.items);
+    for (const [barcode, line] of stockNeeded(sale.items)) {
+      InventoryService.move({
+        storeId: sale.storeId,
+        barcode,
+        quantity: line.quantity,
+        type: 'void',
+        unitCost: unitCosts.get(barcode),
+        reference: sale.receiptNumber,
+        note: `Sale voided: ${reason.trim()}`,
+        performedBy,
+      });
+    }
+
+    // Give back what was taken from cards and points
+    for (const tender of this.getTenders(sale)) {
+      if (tender.reference && (tender.method === 'gift_card' || tender.method === 'store_credit')) {
+        GiftCardService.addTransaction(tender.reference, 'refund', tender.amount, performedBy, sale.receiptNumber);
+      }
+    }
+    if (sale.customerId) {
+      CustomerService.adjustPoints(sale.customerId, (sale.pointsRedeemed || 0) - (sale.pointsEarned || 0));
+    }
+
+    sale.voidedAt = new Date().toISOString();
+    sale.voidedBy = performedBy;
+    sale.voidReason = reason.trim();
+    localStorage.setItem(STORAGE_KEYS.SALES, JSON.stringify(sales));
+
+    return { success: true, sale };
+  },
+
+  /**
+   * Get sales by store
+   */
+  getByStore(storeId: string): SaleRecord[] {
+    return this.getAll().filter((sale) => sale.storeId === storeId);
+  },
+
+  /**
+   * Get sale by receipt number
+   */
+  getByReceiptNumber(receiptNumber: string): SaleRecord | undefined {
+    const sales = this.getAll();
+    return sales.find((s) => s.receiptNumber === receiptNumber);
+  },
+
+  /**
+   * Get sales by date range
+   */
+  getByDateRange(startDate: Date, endDate: Date, storeId?: string): SaleRecord[] {
+    const sales = storeId ? this.getByStore(storeId) : this.getAll();
+    return sales.filter((sale) => {
+      const saleDate = new Date(sale.timestamp);
+      return saleDate >= startDate && saleDate <= endDate;
+    });
+  },
+
+  /**
+   * Get today's sales
+   */
+  getTodaySales(storeId?: string): SaleRecord[] {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const tomorrow = new Date(today);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    return this.getByDateRange(today, tomorrow, storeId);
+  },
+
+  /**
+   * Calculate daily totals
+   * Voided sales are left out; refunds issued on the day are deducted from revenue and from their refund method;
+   * split payments count toward every method used. Layaway deposits and installments count toward their method
+   * on the day they were taken, not when the goods are collected, and cancelled layaway refunds on the day paid out
+   */
+  getDailyTotals(date: Date = new Date(), storeId?: string): {
+    totalSales: number;
+    totalRevenue: number;
+    totalRefunds: number;
+    totalItems: number;
+    byPaymentMethod: Record<PaymentMethod, { count: number; amount: number }>;
+  } {
+    const startOfDay = new Date(date);
+    startOfDay.setHours(0, 0, 0, 0);
+    const endOfDay = new Date(date);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    const sales = this.getByDateRange(startOfDay, endOfDay, storeId).filter((sale) => !this.isVoided(sale));
+    const returns = ReturnService.getByDateRange(startOfDay, endOfDay, storeId);
+
+    const byPaymentMethod: Record<PaymentMethod, { count: number; amount: number }> = {
+      cash: { count: 0, amount: 0 },
+      mobile_money: { count: 0, amount: 0 },
+      card: { count: 0, amount: 0 },
+      loyalty_points: { count: 0, amount: 0 },
+      gift_card: { count: 0, amount: 0 },
+      store_credit: { count: 0, amount: 0 },
+      on_account: { count: 0, amount: 0 },
+    };
+
+    let totalItems = 0;
+
+    for (const sale of sales) {
+      if (!sale.layawayNumber) {
+        const split = this.getPaymentSplit(sale);
+        for (const method of Object.keys(split) as PaymentMethod[]) {
+          byPaymentMethod[method].count += 1;
+          byPaymentMethod[method].amount += split[method] || 0;
+        }
+      }
+      totalItems += sale.items.reduce((sum, item) => sum + item.quantity, 0);
+    }
+
+    const onDay = (timestamp: string) => {
+      const at = new Date(timestamp);
+      return at >= startOfDay && at <= endOfDay;
+    };
+    for (const layaway of LayawayService.getAll(storeId)) {
+      for (const payment of layaway.payments.filter((p) => onDay(p.timestamp))) {
+        byPaymentMethod[payment.method].count += 1;
+        byPaymentMethod[payment.method].amount += payment.amount;
+      }
+      if (layaway.refundMethod && layaway.refundAmount && layaway.cancelledAt && onDay(layaway.cancelledAt)) {
+        byPaymentMethod[layaway.refundMethod].amount -= layaway.refundAmount;
+      }
+    }
+
+    for (const ret of returns) {
+      byPaymentMethod[ret.refundMethod].amount -= ret.refundAmount;
+    }
+
+    const totalRefunds = returns.reduce((sum, ret) => sum + ret.refundAmount, 0);
+
+    return {
+      totalSales: sales.length,
+      totalRevenue: sales.reduce((sum, sale) => sum + sale.total, 0) - totalRefunds,
+      totalRefunds,
+      totalItems,
+      byPaymentMethod,
+    };
+  },
+
+  /**
+   * Charges and credits on a customer's account, oldest first, with the running balance
+   * Charges are sales put on account; credits are payments and refunds back to the account
+   */
+  getAccountActivity(customerId: string): AccountStatementLine[] {
+    const sales = this.getAll().filter((sale) => sale.customerId === customerId && !this.isVoided(sale));
+    const entries: Omit<AccountStatementLine, 'balance'>[] = [];
+
+    for (const sale of sales) {
+      const charge = roundMoney(
+        this.getTenders(sale)
+          .filter((tender) => tender.method === 'on_account')
+          .reduce((sum, tender) => sum + tender.amount, 0)
+      );
+      if (charge > 0) {
+        entries.push({
+          date: sale.timestamp,
+          description: `Purchase at ${sale.storeName}`,
+          reference: sale.receiptNumber,
+          charge,
+          credit: 0,
+        });
+      }
+    }
+
+    const receipts = new Set(sales.map((sale) => sale.receiptNumber));
+    for (const ret of ReturnService.getAll()) {
+      if (ret.refundMethod === 'on_account' && receipts.has(ret.receiptNumber)) {
+        entries.push({
+          date: ret.timestamp,
+          description: `Return on ${ret.receiptNumber}`,
+          reference: ret.returnNumber,
+          charge: 0,
+          credit: roundMoney(ret.refundAmount),
+        });
+      }
+    }
+
+    for (const payment of this.getAccountPayments(customerId)) {
+      entries.push({
+        date: payment.timestamp,
+        description: 'Payment received',
+        reference: payment.reference || payment.id,
+        charge: 0,
+        credit: payment.amount,
+      });
+    }
+
+    let balance = 0;
+    return entries
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .map((entry) => {
+        balance = roundMoney(balance + entry.charge - entry.credit);
+        return { ...entry, balance };
+      });
+  },
+
+  /**
+   * Amount a customer currently owes on account
+   */
+  getAccountBalance(customerId: string): number {
+    const activity = this.getAccountActivity(customerId);
+    return activity.length > 0 ? activity[activity.length - 1].balance : 0;
+  },
+
+  /**
+   * Credit left before a customer reaches their limit
+   */
+  getAvailableCredit(customer: Customer): number {
+    return Math.max(0, roundMoney((customer.creditLimit || 0) - this.getAccountBalance(customer.id)));
+  },
+
+  /**
+   * Get payments received on account, newest first
+   */
+  getAccountPayments(customerId?: string): AccountPayment[] {
+    const payments = JSON.parse(localStorage.getItem(STORAGE_KEYS.ACCOUNT_PAYMENTS) || '[]') as AccountPayment[];
+    return customerId ? payments.filter((payment) => payment.customerId === customerId) : payments;
+  },
+
+  /**
+   * Record a payment against a customer's account balance
+   */
+  recordAccountPayment(
+    customerId: string,
+    amount: number,
+    method: PaymentMethod,
+    receivedBy: string,
+    reference?: string,
+    sessionId?: string
+  ): { success: boolean; payment?: AccountPayment; error?: string } {
+    const customer = CustomerService.findById(customerId);
+    if (!customer) {
+      return { success: false, error: 'Customer not found' };
+    }
+    if (method !== 'cash' && method !== 'card' && method !== 'mobile_money') {
+      return { success: false, error: 'Account payments must be cash, card or mobile money' };
+    }
+    if (!(amount > 0)) {
+      return { success: false, error: 'Invalid payment amount' };
+    }
+
+    const balance = this.getAccountBalance(customerId);
+    if (roundMoney(amount) > balance) {
+      return { success: false, error: `Payment is more than the balance owed ($${balance.toFixed(2)})` };
+    }
+
+    const payment: AccountPayment = {
+      id: `acctpay-${Date.now()}`,
+      customerId,
+      customerName: customer.name,
+      amount: roundMoney(amount),
+      method,
+      reference: reference?.trim() || undefined,
+      receivedBy,
+      storeId: resolveStoreId(),
+      // Cash only counts toward a drawer when taken through that shift
+      sessionId: method === 'cash' ? sessionId : undefined,
+      timestamp: new Date().toISOString(),
+    };
+
+    const payments = this.getAccountPayments();
+    payments.unshift(payment);
+    localStorage.setItem(STORAGE_KEYS.ACCOUNT_PAYMENTS, JSON.stringify(payments));
+
+    return { success: true, payment };
+  },
+
+  /**
+   * Age a customer's balance; credits pay off the oldest charges first
+   */
+  getAgedReceivable(customerId: string, asOf: Date = new Date()): AgedReceivable {
+    const customer = CustomerService.findById(customerId);
+    const activity = this.getAccountActivity(customerId).filter((line) => new Date(line.date) <= asOf);
+    const aged: AgedReceivable = {
+      customerId,
+      customerName: customer?.name || 'Unknown customer',
+      current: 0,
+      days31to60: 0,
+      days61to90: 0,
+      over90: 0,
+      total: 0,
+    };
+
+    let credits = activity.reduce((sum, line) => sum + line.credit, 0);
+    for (const line of activity.filter((l) => l.charge > 0)) {
+      const applied = Math.min(credits, line.charge);
+      credits -= applied;
+      const outstanding = roundMoney(line.charge - applied);
+      if (outstanding <= 0) continue;
+
+      const ageDays = Math.floor((asOf.getTime() - new Date(line.date).getTime()) / (24 * 60 * 60 * 1000));
+      if (ageDays <= 30) aged.current += outstanding;
+      else if (ageDays <= 60) aged.days31to60 += outstanding;
+      else if (ageDays <= 90) aged.days61to90 += outstanding;
+      else aged.over90 += outstanding;
+      aged.total += outstanding;
+    }
+
+    return {
+      ...aged,
+      current: roundMoney(aged.current),
+      days31to60: roundMoney(aged.days31to60),
+      days61to90: roundMoney(aged.days61to90),
+      over90: roundMoney(aged.over90),
+      total: roundMoney(aged.total),
+    };
+  },
+
+  /**
+   * Aged receivables for every customer who owes money on account
+   */
+  getAgedReceivables(asOf: Date = new Date()): AgedReceivable[] {
+    return CustomerService.getAll()
+      .map((customer) => this.getAgedReceivable(customer.id, asOf))
+      .filter((aged) => aged.total > 0)
+      .sort((a, b) => b.total - a.total);
+  },
+
+  /**
+   * Account statement for a period, with the balance brought forward
+   */
+  getAccountStatement(
+    customerId: string,
+    startDate: Date,
+    endDate: Date
+  ): { openingBalance: number; lines: AccountStatementLine[]; closingBalance: number } {
+    const activity = this.getAccountActivity(customerId);
+    const before = activity.filter((line) => new Date(line.date) < startDate);
+    const lines = activity.filter((line) => {
+      const date = new Date(line.date);
+      return date >= startDate && date <= endDate;
+    });
+    const openingBalance = before.length > 0 ? before[before.length - 1].balance : 0;
+    const closingBalance = lines.length > 0 ? lines[lines.length - 1].balance : openingBalance;
+    return { openingBalance, lines, closingBalance };
+  },
+};
+
+/**
+ * Return Service
+ * Handles returns and refunds against a receipt
+ */
+export const ReturnService = {
+  /**
+   * Generate unique return number
+   */
+  generateReturnNumber(): string {
+    const timestamp = Date.now().toString(36).toUpperCase();
+    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
+    return `RTN-${timestamp}-${random}`;
+  },
+
+  /**
+   * Get all returns
+   */
+  getAll(): ReturnRecord[] {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.RETURNS) || '[]');
+  },
+
+  /**
+   * Get returns by store
+   */
+  getByStore(storeId: string): ReturnRecord[] {
+    return this.getAll().filter((ret) => ret.storeId === storeId);
+  },
+
+  /**
+   * Get returns made against a receipt
+   */
+  getByReceiptNumber(receiptNumber: string): ReturnRecord[] {
+    return this.getAll().filter((ret) => ret.receiptNumber === receiptNumber);
+  },
+
+  /**
+   * Get returns by date range
+   */
+  getByDateRange(startDate: Date, endDate: Date, storeId?: string): ReturnRecord[] {
+    const returns = storeId ? this.getByStore(storeId) : this.getAll();
+    return returns.filter((ret) => {
+      const returnDate = new Date(ret.timestamp);
+      return returnDate >= startDate && returnDate <= endDate;
+    });
+  },
+
+  /**
+   * Quantity of a sale line that can still be returned
+   */
+  getReturnableQuantity(item: SaleItem): number {
+    return ProductService.roundQuantity(item.quantity - (item.returnedQuantity || 0));
+  },
+
+  /**
+   * Process a return against a receipt
+   * Restocks the returned items at the selling store and records the refund
+   */
+  processReturn(
+    receiptNumber: string,
+    lines: { barcode: string; quantity: number }[],
+    reason: string,
+    processedBy: string,
+    refundMethod?: PaymentMethod,
+    sessionId?: string
+  ): { success: boolean; record?: ReturnRecord; error?: string } {
+    const sales = SaleService.getAll();
+    const sale = sales.find((s) => s.receiptNumber === receiptNumber);
+
+    if (!sale) {
+      return { success: false, error: 'Receipt not found' };
+    }
+
+    if (SaleService.isVoided(sale)) {
+      return { success: false, error: 'This sale was voided' };
+    }
+
+    const requested = lines.filter((line) => line.quantity > 0);
+    if (requested.length === 0) {
+      return { success: false, error: 'Select at least one item to return' };
+    }
+
+    if (!reason.trim()) {
+      return { success: false, error: 'A return reason is required' };
+    }
+
+    // Validate quantities against what is left to return on the receipt
+    const returnItems: ReturnItem[] = [];
+    for (const line of requested) {
+      const item = sale.items.find((i) => i.barcode === line.barcode);
+      if (!item) {
+        return { success: false, error: 'Item was not sold on this receipt' };
+      }
+      const returnable = this.getReturnableQuantity(item);
+      if ((!item.measureUnit && !Number.isInteger(line.quantity)) || line.quantity > returnable) {
+        return {
+          success: false,
+          error: `Cannot return ${line.quantity} of ${item.name}. Returnable: ${returnable}`,
+        };
+      }
+      returnItems.push({
+        barcode: item.barcode,
+        name: item.name,
+        quantity: line.quantity,
+        refundAmount: roundMoney((TaxService.getLineTotal(item) / item.quantity) * line.quantity),
+      });
+    }
+
+    const refundAmount = roundMoney(returnItems.reduce((sum, item) => sum + item.refundAmount, 0));
+
+    // Card refunds go back on the card the sale was paid with; store credit can also be issued new
+    const method = refundMethod || sale.paymentMethod;
+    const paidCard =
+      method === 'gift_card' || method === 'store_credit'
+        ? SaleService.getTenders(sale).find((tender) => tender.method === method && tender.reference)
+        : undefined;
+    if (method === 'gift_card' && !paidCard) {
+      return { success: false, error: 'This sale was not paid with a gift card' };
+    }
+    if (method === 'on_account' && !SaleService.getTenders(sale).some((tender) => tender.method === 'on_account')) {
+      return { success: false, error: 'This sale was not charged to a customer account' };
+    }
+    if (method === 'loyalty_points' && !sale.customerId) {
+      return { success: false, error: 'This sale has no customer to credit points to' };
+    }
+
+    const record: ReturnRecord = {
+      id: `return-${Date.now()}`,
+      returnNumber: this.generateReturnNumber(),
+      saleId: sale.id,
+      receiptNumber: sale.receiptNumber,
+      items: returnItems,
+      refundAmount,
+      refundMethod: method,
+      // Cash only comes out of a drawer when refunded through that shift
+      sessionId: method === 'cash' ? sessionId : undefined,
+      reason: reason.trim(),
+      processedBy,
+      storeId: sale.storeId,
+      storeName: sale.storeName,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (paidCard?.reference) {
+      GiftCardService.addTransaction(paidCard.reference, 'refund', refundAmount, processedBy, record.returnNumber);
+      record.creditedCardCode = paidCard.reference;
+    } else if (method === 'store_credit') {
+      const issued = GiftCardService.issue('store_credit', refundAmount, processedBy, {
+        customerId: sale.customerId,
+        reference: record.returnNumber,
+      });
+      record.creditedCardCode = issued.card?.code;
+    }
+
+    // Restock returned items at the store that sold them, packs in base units, at what they cost
+    const returnedLines = returnItems.map((item) => {
+      const sold = sale.items.find((i) => i.barcode === item.barcode) as SaleItem;
+      return {
+        ...sold,
+        quantity: item.quantity,
+        cost: sold.cost !== undefined ? (sold.cost / sold.quantity) * item.quantity : undefined,
+      };
+    });
+    const unitCosts = unitCostsTaken(returnedLines);
+    for (const [barcode, line] of stockNeeded(returnedLines)) {
+      InventoryService.move({
+        storeId: sale.storeId,
+        barcode,
+        quantity: line.quantity,
+        type: 'return',
+        unitCost: unitCosts.get(barcode),
+        reference: record.returnNumber,
+        note: `Returned on ${sale.receiptNumber}`,
+        performedBy: processedBy,
+      });
+    }
+
+    // Mark returned quantities on the original sale
+    sale.items = sale.items.map((item) => {
+      const returned = returnItems.find((r) => r.barcode === item.barcode);
+      return returned
+        ? { ...item, returnedQuantity: ProductService.roundQuantity((item.returnedQuantity || 0) + returned.quantity) }
+        : item;
+    });
+    sale.refundedTotal = roundMoney((sale.refundedTotal || 0) + refundAmount);
+    localStorage.setItem(STORAGE_KEYS.SALES, JSON.stringify(sales));
+
+    const returns = this.getAll();
+    returns.unshift(record);
+    localStorage.setItem(STORAGE_KEYS.RETURNS, JSON.stringify(returns));
+
+    // Take back points earned on the refunded share; refunds to points go back on the balance
+    if (sale.customerId) {
+      const clawback = sale.total > 0 ? Math.round(((sale.pointsEarned || 0) * refundAmount) / sale.total) : 0;
+      const credit = record.refundMethod === 'loyalty_points' ? CustomerService.pointsForAmount(refundAmount) : 0;
+      CustomerService.adjustPoints(sale.customerId, credit - clawback);
+    }
+
+    return { success: true, record };
+  },
+};
+
+// Default held cart rules
+const DEFAULT_HELD_CART_SETTINGS: HeldCartSettings = {
+  expiryHours: 24,
+};
+
+/**
+ * Held Cart Service
+ * Parks carts at the till and recalls them later, per store
+ */
+export const HeldCartService = {
+  /**
+   * Get held cart settings
+   */
+  getSettings(): HeldCartSettings {
+    return {
+      ...DEFAULT_HELD_CART_SETTINGS,
+      ...JSON.parse(localStorage.getItem(STORAGE_KEYS.HELD_CART_SETTINGS) || '{}'),
+    };
+  },
+
+  /**
+   * Save held cart settings
+   */
+  saveSettings(settings: HeldCartSettings): { success: boolean; error?: string } {
+    if (isNaN(settings.expiryHours) || settings.expiryHours <= 0) {
+      return { success: false, error: 'Expiry must be greater than zero hours' };
+    }
+
+    localStorage.setItem(STORAGE_KEYS.HELD_CART_SETTINGS, JSON.stringify(settings));
+    return { success: true };
+  },
+
+  /**
+   * Get held carts that have not expired, dropping expired ones from storage
+   */
+  getAll(storeId?: string): HeldCart[] {
+    const held = JSON.parse(localStorage.getItem(STORAGE_KEYS.HELD_CARTS) || '[]') as HeldCart[];
+    const now = new Date();
+    const active = held.filter((cart) => new Date(cart.expiresAt) > now);
+    if (active.length !== held.length) {
+      localStorage.setItem(STORAGE_KEYS.HELD_CARTS, JSON.stringify(active));
+    }
+    return storeId ? active.filter((cart) => cart.storeId === storeId) : active;
+  },
+
+  /**
+   * Park a cart under a label
+   */
+  hold(
+    label: string,
+    storeId: string,
+    items: CartItem[],
+    heldBy: string,
+    cartDiscount?: Discount,
+    customerId?: string
+  ): { success: boolean; cart?: HeldCart; error?: string } {
+    if (items.length === 0) {
+      return { success: false, error: 'Cart is empty' };
+    }
+
+    const heldAt = new Date();
+    const expiresAt = new Date(heldAt.getTime() + this.getSettings().expiryHours * 60 * 60 * 1000);
+    const cart: HeldCart = {
+      id: `held-${Date.now()}`,
+      label: label.trim() || `Cart ${heldAt.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`,
+      storeId,
+      items,
+      cartDiscount,
+      customerId,
+      heldBy,
+      heldAt: heldAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+
+    const held = this.getAll();
+    held.unshift(cart);
+    localStorage.setItem(STORAGE_KEYS.HELD_CARTS, JSON.stringify(held));
+    return { success: true, cart };
+  },
+
+  /**
+   * Recall a held cart, checking its items against current stock at the store
+   * Lines draw on stock in order, so packs, kits and loose units of one product share
+   * what is available; lines are shortened to what is left, and dropped when nothing is
+   */
+  recall(id: string): { success: boolean; cart?: HeldCart; warnings?: string[]; error?: string } {
+    const held = this.getAll();
+    const cart = held.find((c) => c.id === id);
+    if (!cart) {
+      return { success: false, error: 'Held cart not found or expired' };
+    }
+
+    const warnings: string[] = [];
+    const items: CartItem[] = [];
+
+    // Base units still available per stock barcode once earlier lines have taken theirs
+    const remaining = new Map<string, number>();
+
+    for (const item of cart.items) {
+      const product = ProductService.findByBarcode(item.product.barcode, cart.storeId);
+      if (!product) {
+        warnings.push(`${item.product.name} is no longer registered and was removed`);
+        continue;
+      }
+
+      // Base units one of this line takes from each stock barcode, worked out like a sale
+      const perUnit = stockNeeded([
+        {
+          barcode: product.barcode,
+          name: product.name,
+          price: product.price,
+          quantity: 1,
+          total: product.price,
+          baseBarcode: product.baseBarcode,
+          unitsPerPack: product.unitsPerPack,
+          kitComponents: product.kitComponents,
+        },
+      ]);
+      let available = Infinity;
+      for (const [barcode, need] of perUnit) {
+        if (!remaining.has(barcode)) {
+          remaining.set(barcode, InventoryService.getAvailable(cart.storeId, barcode));
+        }
+        if (need.quantity > 0) {
+          available = Math.min(available, ProductService.roundQuantity((remaining.get(barcode) || 0) / need.quantity));
+        }
+      }
+      // Goods sold by measure can be shortened to part of a unit, anything else to whole units
+      available = product.measureUnit ? Math.floor(available * 1000) / 1000 : Math.floor(available);
+      const quantity = Math.max(0, Math.min(item.quantity, available));
+
+      if (quantity === 0) {
+        warnings.push(`${product.name} is out of stock and was removed`);
+        continue;
+      }
+      for (const [barcode, need] of perUnit) {
+        remaining.set(barcode, ProductService.roundQuantity((remaining.get(barcode) || 0) - need.quantity * quantity));
+      }
+      if (quantity < item.quantity) {
+        warnings.push(`Only ${quantity} ${product.name} in stock; quantity reduced`);
+        // A shortened line is no longer the weight printed on its scale label
+        items.push({ ...item, product, quantity, labelTotal: undefined });
+      } else {
+        items.push({ ...item, product });
+      }
+    }
+
+    localStorage.setItem(STORAGE_KEYS.HELD_CARTS, JSON.stringify(held.filter((c) => c.id !== id)));
+    return { success: true, cart: { ...cart, items }, warnings };
+  },
+
+  /**
+   * Discard a held cart
+   */
+  delete(id: string): { success: boolean; error?: string } {
+    const held = this.getAll();
+    if (!held.some((c) => c.id === id)) {
+      return { success: false, error: 'Held cart not found' };
+    }
+
+    localStorage.setItem(STORAGE_KEYS.HELD_CARTS, JSON.stringify(held.filter((c) => c.id !== id)));
+    return { success: true };
+  },
+};
+
+// Default loyalty rules: 1 point per dollar, 100 points worth $1
+const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  pointsPerDollar: 1,
+  pointValue: 0.01,
+  minRedeemPoints: 100,
+};
+
+/**
+ * Customer Service
+ * Handles customer profiles and loyalty points
+ */
+export const CustomerService = {
+  /**
+   * Get all customers
+   */
+  getAll(): Customer[] {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.CUSTOMERS) || '[]');
+  },
+
+  /**
+   * Find customer by ID
+   */
+  findById(id: string): Customer | undefined {
+    return this.getAll().find((c) => c.id === id);
+  },
+
+  /**
+   * Find customer by phone number (punctuation and spaces are ignored)
+   */
+  findByPhone(phone: string): Customer | undefined {
+    const digits = phone.replace(/\D/g, '');
+    if (!digits) return undefined;
+    return this.getAll().find((c) => c.phone.replace(/\D/g, '') === digits);
+  },
+
+  /**
+   * Find customer by loyalty card barcode
+   */
+  findByCard(barcode: string): Customer | undefined {
+    return this.getAll().find((c) => c.cardBarcode === barcode.trim());
+  },
+
+  /**
+   * Create or update a customer
+   */
+  save(data: {
+    id?: string;
+    name: string;
+    phone: string;
+    email?: string;
+    cardBarcode?: string;
+    creditLimit?: number;
+  }): { success: boolean; customer?: Customer; error?: string } {
+    const name = data.name.trim();
+    const phone = data.phone.trim();
+    const email = data.email?.trim() || undefined;
+    const cardBarcode = data.cardBarcode?.trim() || undefined;
+
+    if (!name) {
+      return { success: false, error: 'Customer name is required' };
+    }
+
+    if (!phone.replace(/\D/g, '')) {
+      return { success: false, error: 'Phone number is required' };
+    }
+
+    if (data.creditLimit !== undefined && (isNaN(data.creditLimit) || data.creditLimit < 0)) {
+      return { success: false, error: 'Credit limit cannot be negative' };
+    }
+    const creditLimit = data.creditLimit ? roundMoney(data.creditLimit) : undefined;
+
+    const customers = this.getAll();
+    const samePhone = this.findByPhone(phone);
+    if (samePhone && samePhone.id !== data.id) {
+      return { success: false, error: `Phone number already belongs to ${samePhone.name}` };
+    }
+
+    if (cardBarcode) {
+      const sameCard = customers.find((c) => c.cardBarcode === cardBarcode);
+      if (sameCard && sameCard.id !== data.id) {
+        return { success: false, error: `Loyalty card already belongs to ${sameCard.name}` };
+      }
+      // Cards are scanned at the same input as products
+      if (ProductService.findByBarcode(cardBarcode)) {
+        return { success: false, error: 'Loyalty card barcode is already used by a product' };
+      }
+    }
+
+    if (data.id) {
+      const index = customers.findIndex((c) => c.id === data.id);
+      if (index === -1) {
+        return { success: false, error: 'Customer not found' };
+      }
+      customers[index] = { ...customers[index], name, phone, email, cardBarcode, creditLimit };
+      localStorage.setItem(STORAGE_KEYS.CUSTOMERS, JSON.stringify(customers));
+      return { success: true, customer: customers[index] };
+    }
+
+    const customer: Customer = {
+      id: `customer-${Date.now()}`,
+      name,
+      phone,
+      email,
+      cardBarcode,
+      creditLimit,
+      points: 0,
+      createdAt: new Date().toISOString(),
+    };
+    customers.push(customer);
+    localStorage.setItem(STORAGE_KEYS.CUSTOMERS, JSON.stringify(customers));
+    return { success: true, customer };
+  },
+
+  /**
+   * Delete a customer (past sales keep the customer name)
+   */
+  delete(id: string): { success: boolean; error?: string } {
+    const customers = this.getAll();
+    if (!customers.some((c) => c.id === id)) {
+      return { success: false, error: 'Customer not found' };
+    }
+
+    const balance = SaleService.getAccountBalance(id);
+    if (balance > 0) {
+      return { success: false, error: `Customer still owes $${balance.toFixed(2)} on account` };
+    }
+
+    localStorage.setItem(STORAGE_KEYS.CUSTOMERS, JSON.stringify(customers.filter((c) => c.id !== id)));
+    return { success: true };
+  },
+
+  /**
+   * Add or remove loyalty points (balance never goes below zero)
+   */
+  adjustPoints(id: string, delta: number): void {
+    const customers = this.getAll();
+    const customer = customers.find((c) => c.id === id);
+    if (!customer) return;
+    customer.points = Math.max(0, customer.points + delta);
+    localStorage.setItem(STORAGE_KEYS.CUSTOMERS, JSON.stringify(customers));
+  },
+
+  /**
+   * Sales made to a customer, newest first
+   */
+  getPurchaseHistory(id: string): SaleRecord[] {
+    return SaleService.getAll().filter((sale) => sale.customerId === id);
+  },
+
+  /**
+   * Get loyalty settings
+   */
+  getSettings(): LoyaltySettings {
+    return {
+      ...DEFAULT_LOYALTY_SETTINGS,
+      ...JSON.parse(localStorage.getItem(STORAGE_KEYS.LOYALTY_SETTINGS) || '{}'),
+    };
+  },
+
+  /**
+   * Save loyalty settings
+   */
+  saveSettings(settings: LoyaltySettings): { success: boolean; error?: string } {
+    if (isNaN(settings.pointsPerDollar) || settings.pointsPerDollar < 0) {
+      return { success: false, error: 'Points per dollar cannot be negative' };
+    }
+
+    if (isNaN(settings.pointValue) || settings.pointValue <= 0) {
+      return { success: false, error: 'Point value must be greater than zero' };
+    }
+
+    if (!Number.isInteger(settings.minRedeemPoints) || settings.minRedeemPoints < 0) {
+      return { success: false, error: 'Minimum points to redeem must be a whole number' };
+    }
+
+    localStorage.setItem(STORAGE_KEYS.LOYALTY_SETTINGS, JSON.stringify(settings));
+    return { success: true };
+  },
+
+  /**
+   * Points earned on an amount
+   */
+  calculatePointsEarned(amount: number): number {
+    return Math.floor(Math.max(amount, 0) * this.getSettings().pointsPerDollar);
+  },
+
+  /**
+   * Points needed to pay an amount
+   */
+  pointsForAmount(amount: number): number {
+    return Math.ceil(roundMoney(amount / this.getSettings().pointValue));
+  },
+
+  /**
+   * Dollar value a customer can redeem right now (zero below the minimum)
+   */
+  getRedeemableValue(customer: Customer): number {
+    const settings = this.getSettings();
+    if (customer.points < settings.minRedeemPoints) return 0;
+    return roundMoney(customer.points * settings.pointValue);
+  },
+};
+
+/**
+ * Gift Card Service
+ * Handles gift cards and store credit; every balance movement is written to the ledger
+ */
+export const GiftCardService = {
+  /**
+   * Get all cards, optionally of one kind
+   */
+  getAll(kind?: GiftCardKind): GiftCard[] {
+    const cards = JSON.parse(localStorage.getItem(STORAGE_KEYS.GIFT_CARDS) || '[]') as GiftCard[];
+    return kind ? cards.filter((card) => card.kind === kind) : cards;
+  },
+
+  /**
+   * Find card by code (case-insensitive, as typed or scanned)
+   */
+  findByCode(code: string): GiftCard | undefined {
+    const normalized = code.trim().toUpperCase();
+    return this.getAll().find((card) => card.code === normalized);
+  },
+
+  /**
+   * Generate unique scannable code: GC for gift cards, SC for store credit
+   */
+  generateCode(kind: GiftCardKind): string {
+    const prefix = kind === 'gift_card' ? 'GC' : 'SC';
+    const timestamp = Date.now().toString(36).toUpperCase();
+    const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+    return `${prefix}${timestamp}${random}`;
+  },
+
+  /**
+   * Ledger entries, newest first, optionally for one card
+   */
+  getLedger(code?: string): GiftCardTransaction[] {
+    const ledger = JSON.parse(localStorage.getItem(STORAGE_KEYS.GIFT_CARD_LEDGER) || '[]') as GiftCardTransaction[];
+    return code ? ledger.filter((entry) => entry.code === code) : ledger;
+  },
+
+  /**
+   * Change a card's balance and write the ledger entry
+   */
+  addTransaction(
+    code: string,
+    type: GiftCardTransaction['type'],
+    amount: number,
+    performedBy: string,
+    reference?: string
+  ): { success: boolean; card?: GiftCard; error?: string } {
+    const cards = this.getAll();
+    const card = cards.find((c) => c.code === code);
+    if (!card) {
+      return { success: false, error: 'Card not found' };
+    }
+
+    const balanceAfter = roundMoney(card.balance + amount);
+    if (balanceAfter < 0) {
+      return { success: false, error: `Insufficient balance on ${card.code}. Balance: $${card.balance.toFixed(2)}` };
+    }
+
+    card.balance = balanceAfter;
+    localStorage.setItem(STORAGE_KEYS.GIFT_CARDS, JSON.stringify(cards));
+
+    const ledger = this.getLedger();
+    ledger.unshift({
+      id: `gctx-${Date.now()}-${ledger.length}`,
+      cardId: card.id,
+      code: card.code,
+      kind: card.kind,
+      type,
+      amount: roundMoney(amount),
+      balanceAfter,
+      reference,
+      performedBy,
+      timestamp: new Date().toISOString(),
+    });
+    localStorage.setItem(STORAGE_KEYS.GIFT_CARD_LEDGER, JSON.stringify(ledger));
+
+    return { success: true, card };
+  },
+
+  /**
+   * Issue a new gift card or store credit with a starting balance
+   */
+  issue(
+    kind: GiftCardKind,
+    amount: number,
+    issuedBy: string,
+    options: { code?: string; customerId?: string; reference?: string } = {}
+  ): { success: boolean; card?: GiftCard; error?: string } {
+    if (isNaN(amount) || amount <= 0) {
+      return { success: false, error: 'Starting balance must be greater than zero' };
+    }
+
+    const code = (options.code || this.generateCode(kind)).trim().toUpperCase();
+    if (this.findByCode(code)) {
+      return { success: false, error: 'A card with this code already exists' };
+    }
+    // Codes are scanned at the same input as products
+    if (ProductService.findByBarcode(code) || CustomerService.findByCard(code)) {
+      return { success: false, error: 'Code is already used by a product or loyalty card' };
+    }
+
+    const card: GiftCard = {
+      id: `giftcard-${Date.now()}`,
+      code,
+      kind,
+      initialBalance: roundMoney(amount),
+      balance: 0,
+      customerId: options.customerId,
+      issuedBy,
+      issuedAt: new Date().toISOString(),
+    };
+
+    const cards = this.getAll();
+    cards.unshift(card);
+    localStorage.setItem(STORAGE_KEYS.GIFT_CARDS, JSON.stringify(cards));
+
+    return this.addTransaction(code, 'issue', amount, issuedBy, options.reference);
+  },
+
+  /**
+   * Check that card tenders match their kind and that each card covers its total
+   */
+  validateTenders(tenders: Tender[]): { success: boolean; error?: string } {
+    const byCode = new Map<string, number>();
+    for (const tender of tenders) {
+      if (tender.method !== 'gift_card' && tender.method !== 'store_credit') continue;
+
+      const card = tender.reference ? this.findByCode(tender.reference) : undefined;
+      if (!card) {
+        return { success: false, error: 'Gift card or store credit code not found' };
+      }
+      if (card.kind !== tender.method) {
+        return { success: false, error: `${card.code} is not ${tender.method === 'gift_card' ? 'a gift card' : 'store credit'}` };
+      }
+      byCode.set(card.code, roundMoney((byCode.get(card.code) || 0) + tender.amount));
+    }
+
+    for (const [code, amount] of byCode) {
+      const card = this.findByCode(code);
+      if (card && amount > card.balance) {
+        return { success: false, error: `Insufficient balance on ${code}. Balance: $${card.balance.toFixed(2)}` };
+      }
+    }
+
+    return { success: true };
+  },
+
+  /**
+   * Outstanding balances the store owes, by kind
+   */
+  getLiability(): Record<GiftCardKind, number> {
+    return this.getAll().reduce(
+      (totals, card) => ({ ...totals, [card.kind]: roundMoney(totals[card.kind] + card.balance) }),
+      { gift_card: 0, store_credit: 0 } as Record<GiftCardKind, number>
+    );
+  },
+};
+
+// Default layaway rules
+const DEFAULT_LAYAWAY_SETTINGS: LayawaySettings = {
+  minDepositPercent: 20,
+  termDays: 60,
+  forfeitPercent: 10,
+};
+
+// Ways a layaway can be paid and refunded; it is settled in full, so no change is given
+const LAYAWAY_PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'mobile_money', 'gift_card', 'store_credit'];
+const LAYAWAY_REFUND_METHODS: PaymentMethod[] = ['cash', 'card', 'mobile_money', 'store_credit'];
+
+/**
+ * Layaway Service
+ * Sales started with a deposit; goods stay reserved at the store while installments are paid
+ */
+export const LayawayService = {
+  /**
+   * Get layaway settings
+   */
+  getSettings(): LayawaySettings {
+    return {
+      ...DEFAULT_LAYAWAY_SETTINGS,
+      ...JSON.parse(localStorage.getItem(STORAGE_KEYS.LAYAWAY_SETTINGS) || '{}'),
+    };
+  },
+
+  /**
+   * Save layaway settings
+   */
+  saveSettings(settings: LayawaySettings): { success: boolean; error?: string } {
+    if (isNaN(settings.minDepositPercent) || settings.minDepositPercent < 0 || settings.minDepositPercent > 100) {
+      return { success: false, error: 'Minimum deposit must be between 0 and 100%' };
+    }
+    if (!Number.isInteger(settings.termDays) || settings.termDays <= 0) {
+      return { success: false, error: 'Term must be a whole number of days' };
+    }
+    if (isNaN(settings.forfeitPercent) || settings.forfeitPercent < 0 || settings.forfeitPercent > 100) {
+      return { success: false, error: 'Forfeit must be between 0 and 100%' };
+    }
+
+    localStorage.setItem(STORAGE_KEYS.LAYAWAY_SETTINGS, JSON.stringify(settings));
+    return { success: true };
+  },
+
+  /**
+   * Generate unique layaway number
+   */
+  generateLayawayNumber(): string {
+    const timestamp = Date.now().toString(36).toUpperCase();
+    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
+    return `LAY-${timestamp}-${random}`;
+  },
+
+  /**
+   * Get all layaways (newest first), optionally for one store
+   */
+  getAll(storeId?: string): Layaway[] {
+    const layaways = JSON.parse(localStorage.getItem(STORAGE_KEYS.LAYAWAYS) || '[]') as Layaway[];
+    return storeId ? layaways.filter((layaway) => layaway.storeId === storeId) : layaways;
+  },
+
+  /**
+   * Find layaway by ID
+   */
+  findById(id: string): Layaway | undefined {
+    return this.getAll().find((layaway) => layaway.id === id);
+  },
+
+  /**
+   * Get layaways taken by a customer
+   */
+  getByCustomer(customerId: string): Layaway[] {
+    return this.getAll().filter((layaway) => layaway.customerId === customerId);
+  },
+
+  /**
+   * Amount still to be paid before the goods can be collected
+   */
+  getBalance(layaway: Layaway): number {
+    return roundMoney(layaway.total - layaway.amountPaid);
+  },
+
+  /**
+   * Smallest deposit accepted for a total
+   */
+  getMinimumDeposit(total: number): number {
+    return roundMoney((total * this.getSettings().minDepositPercent) / 100);
+  },
+
+  /**
+   * Share of the amount paid the store keeps if the layaway is cancelled now
+   */
+  getForfeit(layaway: Layaway): number {
+    return roundMoney((layaway.amountPaid * this.getSettings().forfeitPercent) / 100);
+  },
+
+  /**
+   * Open layaway past its due date
+   */
+  isOverdue(layaway: Layaway): boolean {
+    return layaway.status === 'open' && new Date(layaway.dueDate) < new Date();
+  },
+
+  /**
+   * Check a deposit or installment against the balance due
+   */
+  validatePayment(tender: Tender, balance: number): { success: boolean; error?: string } {
+    if (!LAYAWAY_PAYMENT_METHODS.includes(tender.method)) {
+      return { success: false, error: 'Layaway payments must be cash, card, mobile money, gift card or store credit' };
+    }
+    if (!(tender.amount > 0)) {
+      return { success: false, error: 'Invalid payment amount' };
+    }
+    if (roundMoney(tender.amount) > balance) {
+      return { success: false, error: `Payment is more than the balance due ($${balance.toFixed(2)})` };
+    }
+    return GiftCardService.validateTenders([tender]);
+  },
+
+  /**
+   * Save a layaway (insert or replace)
+   */
+  save(layaway: Layaway): void {
+    const layaways = this.getAll();
+    const index = layaways.findIndex((l) => l.id === layaway.id);
+    if (index === -1) {
+      layaways.unshift(layaway);
+    } else {
+      layaways[index] = layaway;
+    }
+    localStorage.setItem(STORAGE_KEYS.LAYAWAYS, JSON.stringify(layaways));
+  },
+
+  /**
+   * Take a payment and draw down the card it was paid with
+   */
+  recordPayment(layaway: Layaway, tender: Tender, receivedBy: string, sessionId?: string): LayawayPayment {
+    const payment: LayawayPayment = {
+      method: tender.method,
+      amount: roundMoney(tender.amount),
+      reference: tender.reference?.trim().toUpperCase() || undefined,
+      receivedBy,
+      sessionId,
+      timestamp: new Date().toISOString(),
+    };
+    if (payment.reference && (payment.method === 'gift_card' || payment.method === 'store_credit')) {
+      GiftCardService.addTransaction(payment.reference, 'redeem', -payment.amount, receivedBy, layaway.layawayNumber);
+    }
+    return payment;
+  },
+
+  /**
+   * Start a layaway with a deposit and reserve the goods at the store
+   */
+  create(
+    items: SaleItem[],
+    customerId: string,
+    deposit: Tender,
+    createdBy: string,
+    storeId: string,
+    storeName: string,
+    sessionId?: string,
+    cartDiscount?: Discount
+  ): { success: boolean; layaway?: Layaway; error?: string } {
+    if (items.length === 0) {
+      return { success: false, error: 'No items in cart' };
+    }
+
+    const customer = CustomerService.findById(customerId);
+    if (!customer) {
+      return { success: false, error: 'Attach a customer to start a layaway' };
+    }
+
+    // Stock is reserved by what the catalog says each line takes, not what the cart carried
+    const checked = catalogLines(items, storeId);
+    if (!checked.items) {
+      return { success: false, error: checked.error };
+    }
+
+    const priced = SaleService.priceItems(checked.items, storeId, cartDiscount);
+    const approvalError = findUnapprovedDiscount(priced.items, cartDiscount);
+    if (approvalError) {
+      return { success: false, error: approvalError };
+    }
+
+    const minimumDeposit = this.getMinimumDeposit(priced.total);
+    if (roundMoney(deposit.amount) < minimumDeposit) {
+      return { success: false, error: `Deposit must be at least $${minimumDeposit.toFixed(2)}` };
+    }
+    const paymentCheck = this.validatePayment(deposit, priced.total);
+    if (!paymentCheck.success) {
+      return { success: false, error: paymentCheck.error };
+    }
+
+    const needed = stockNeeded(priced.items);
+    for (const [barcode, line] of needed) {
+      const available = InventoryService.getAvailable(storeId, barcode);
+      if (available < line.quantity) {
+        return { success: false, error: `Insufficient stock for ${line.name}. Available: ${available}` };
+      }
+    }
+    for (const [barcode, line] of needed) {
+      InventoryService.reserve(storeId, barcode, line.quantity);
+    }
+
+    const createdAt = new Date();
+    const dueDate = new Date(createdAt);
+    dueDate.setDate(dueDate.getDate() + this.getSettings().termDays);
+
+    const layaway: Layaway = {
+      id: `layaway-${Date.now()}`,
+      layawayNumber: this.generateLayawayNumber(),
+      storeId,
+      storeName,
+      customerId: customer.id,
+      customerName: customer.name,
+      items: priced.items,
+      subtotal: priced.subtotal,
+      tax: priced.tax,
+      total: priced.total,
+      cartDiscount,
+      discountTotal: priced.discountTotal || undefined,
+      promotionTotal: priced.promotionTotal || undefined,
+      payments: [],
+      amountPaid: 0,
+      status: 'open',
+      createdBy,
+      createdAt: createdAt.toISOString(),
+      dueDate: dueDate.toISOString(),
+    };
+
+    const payment = this.recordPayment(layaway, deposit, createdBy, sessionId);
+    layaway.payments.push(payment);
+    layaway.amountPaid = payment.amount;
+
+    this.save(layaway);
+    return { success: true, layaway };
+  },
+
+  /**
+   * Take an installment on an open layaway
+   */
+  addPayment(
+    id: string,
+    tender: Tender,
+    receivedBy: string,
+    sessionId?: string
+  ): { success: boolean; layaway?: Layaway; error?: string } {
+    const layaway = this.findById(id);
+    if (!layaway) {
+      return { success: false, error: 'Layaway not found' };
+    }
+    if (layaway.status !== 'open') {
+      return { success: false, error: `Layaway is already ${layaway.status}` };
+    }
+
+    const paymentCheck = this.validatePayment(tender, this.getBalance(layaway));
+    if (!paymentCheck.success) {
+      return { success: false, error: paymentCheck.error };
+    }
+
+    const payment = this.recordPayment(layaway, tender, receivedBy, sessionId);
+    layaway.payments.push(payment);
+    layaway.amountPaid = roundMoney(layaway.amountPaid + payment.amount);
+
+    this.save(layaway);
+    return { success: true, layaway };
+  },
+
+  /**
+   * Hand over a paid-off layaway: the reserved goods leave stock and the sale is recorded
+   */
+  complete(id: string, completedBy: string): { success: boolean; layaway?: Layaway; sale?: SaleRecord; error?: string } {
+    const layaway = this.findById(id);
+    if (!layaway) {
+      return { success: false, error: 'Layaway not found' };
+    }
+    if (layaway.status !== 'open') {
+      return { success: false, error: `Layaway is already ${layaway.status}` };
+    }
+    const balance = this.getBalance(layaway);
+    if (balance > 0) {
+      return { success: false, error: `Balance of $${balance.toFixed(2)} must be paid first` };
+    }
+
+    const receiptNumber = SaleService.generateReceiptNumber();
+    const costedItems = layaway.items.map((item) => {
+      let cost = 0;
+      for (const [barcode, line] of stockNeeded([item])) {
+        InventoryService.release(layaway.storeId, barcode, line.quantity);
+        cost += InventoryService.move({
+          storeId: layaway.storeId,
+          barcode,
+          quantity: -line.quantity,
+          type: 'sale',
+          reference: receiptNumber,
+          note: `Layaway ${layaway.layawayNumber} collected`,
+          performedBy: completedBy,
+        });
+      }
+      return { ...item, cost: roundMoney(cost) };
+    });
+
+    const tenders: Tender[] = layaway.payments.map(({ method, amount, reference }) => ({ method, amount, reference }));
+    const customer = CustomerService.findById(layaway.customerId);
+    const pointsEarned = customer ? CustomerService.calculatePointsEarned(layaway.total) : 0;
+
+    const sale: SaleRecord = {
+      id: `sale-${Date.now()}`,
+      receiptNumber,
+      items: costedItems,
+      subtotal: layaway.subtotal,
+      tax: layaway.tax,
+      total: layaway.total,
+      paymentMethod: mainPaymentMethod(splitTenders(tenders, 0)),
+      tenders,
+      amountPaid: layaway.amountPaid,
+      change: 0,
+      cashierName: completedBy,
+      storeId: layaway.storeId,
+      storeName: layaway.storeName,
+      timestamp: new Date().toISOString(),
+      cartDiscount: layaway.cartDiscount,
+      discountTotal: layaway.discountTotal,
+      promotionTotal: layaway.promotionTotal,
+      customerId: layaway.customerId,
+      customerName: layaway.customerName,
+      pointsEarned: customer ? pointsEarned : undefined,
+      layawayNumber: layaway.layawayNumber,
+    };
+
+    const sales = SaleService.getAll();
+    sales.unshift(sale);
+    localStorage.setItem(STORAGE_KEYS.SALES, JSON.stringify(sales));
+
+    if (customer) {
+      CustomerService.adjustPoints(customer.id, pointsEarned);
+    }
+
+    const completed: Layaway = {
+      ...layaway,
+      status: 'completed',
+      completedBy,
+      completedAt: sale.timestamp,
+      receiptNumber: sale.receiptNumber,
+    };
+    this.save(completed);
+    return { success: true, layaway: completed, sale };
+  },
+
+  /**
+   * Cancel an open layaway: release the goods and refund what was paid, less the forfeit
+   */
+  cancel(
+    id: string,
+    cancelledBy: string,
+    refundMethod: PaymentMethod,
+    sessionId?: string
+  ): { success: boolean; layaway?: Layaway; error?: string } {
+    const layaway = this.findById(id);
+    if (!layaway) {
+      return { success: false, error: 'Layaway not found' };
+    }
+    if (layaway.status !== 'open') {
+      return { success: false, error: `Layaway is already ${layaway.status}` };
+    }
+
+    const forfeitedAmount = this.getForfeit(layaway);
+    const refundAmount = roundMoney(layaway.amountPaid - forfeitedAmount);
+    if (refundAmount > 0 && !LAYAWAY_REFUND_METHODS.includes(refundMethod)) {
+      return { success: false, error: 'Refunds must be cash, card, mobile money or store credit' };
+    }
+
+    for (const [barcode, line] of stockNeeded(layaway.items)) {
+      InventoryService.release(layaway.storeId, barcode, line.quantity);
+    }
+
+    const cancelled: Layaway = {
+      ...layaway,
+      status: 'cancelled',
+      cancelledBy,
+      cancelledAt: new Date().toISOString(),
+      forfeitedAmount,
+      refundAmount,
+      refundMethod: refundAmount > 0 ? refundMethod : undefined,
+      // Cash only comes out of a drawer when refunded through that shift
+      refundSessionId: refundAmount > 0 && refundMethod === 'cash' ? sessionId : undefined,
+    };
+
+    if (refundAmount > 0 && refundMethod === 'store_credit') {
+      const issued = GiftCardService.issue('store_credit', refundAmount, cancelledBy, {
+        customerId: layaway.customerId,
+        reference: layaway.layawayNumber,
+      });
+      cancelled.creditedCardCode = issued.card?.code;
+    }
+
+    this.save(cancelled);
+    return { success: true, layaway: cancelled };
+  },
+};
+
+// Default cashiers
+const DEFAULT_CASHIERS: Cashier[] = [
+  {
+    id: 'cashier-001',
+    cashierId: 'CASHIER001',
+    name: 'John Doe',
+    email: 'john.doe@pos.com',
+    phone: '+1234567890',
+    password: 'pos123',
+    role: 'cashier',
+    isActive: true,
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'cashier-002',
+    cashierId: 'CASHIER002',
+    name: 'Jane Smith',
+    email: 'jane.smith@pos.com',
+    phone: '+1234567891',
+    password: 'pos123',
+    role: 'cashier',
+    isActive: true,
+    createdAt: new Date().toISOString(),
+  },
+];
+
+/**
+ * Cashier Service
+ * Manages cashier users
+ */
+export const CashierService = {
+  /**
+   * Initialize cashiers in storage
+   */
+  initialize(): void {
+    if (!localStorage.getItem(STORAGE_KEYS.CASHIERS)) {
+      localStorage.setItem(STORAGE_KEYS.CASHIERS, JSON.stringify(DEFAULT_CASHIERS));
+    }
+  },
+
+  /**
+   * Get all cashiers
+   */
+  getAll(): Cashier[] {
+    this.initialize();
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.CASHIERS) || '[]');
+  },
+
+  /**
+   * Get active cashiers only
+   */
+  getActive(): Cashier[] {
+    return this.getAll().filter((c) => c.isActive);
+  },
+
+  /**
+   * Find cashier by ID
+   */
+  findById(id: string): Cashier | undefined {
+    return this.getAll().find((c) => c.id === id);
+  },
+
+  /**
+   * Find cashier by cashierId
+   */
+  findByCashierId(cashierId: string): Cashier | undefined {
+    return this.getAll().find((c) => c.cashierId === cashierId);
+  },
+
+  /**
+   * Check if cashierId is unique
+   */
+  isCashierIdUnique(cashierId: string, excludeId?: string): boolean {
+    const cashiers = this.getAll();
+    return !cashiers.some((c) => c.cashierId === cashierId && c.id !== excludeId);
+  },
+
+  /**
+   * Add new cashier
+   */
+  add(cashier: Omit<Cashier, 'id' | 'createdAt'>): { success: boolean; error?: string } {
+    // Validate cashierId uniqueness
+    if (!this.isCashierIdUnique(cashier.cashierId)) {
+      return { success: false, error: 'Cashier ID already exists' };
+    }
+
+    // Validate required fields
+    if (!cashier.name.trim() || !cashier.email.trim() || !cashier.password) {
+      return { success: false, error: 'All fields are required' };
+    }
+
+    const newCashier: Cashier = {
+      ...cashier,
+      id: `cashier-${Date.now()}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    const cashiers = this.getAll();
+    cashiers.push(newCashier);
+    localStorage.setItem(STORAGE_KEYS.CASHIERS, JSON.stringify(cashiers));
+    return { success: true };
+  },
+
+  /**
+   * Update cashier
+   */
+  update(id: string, updates: Partial<Omit<Cashier, 'id' | 'createdAt'>>): { success: boolean; error?: string } {
+    const cashiers = this.getAll();
+    const index = cashiers.findIndex((c) => c.id === id);
+
+    if (index === -1) {
+      return { success: false, error: 'Cashier not found' };
+    }
+
+    // Validate cashierId uniqueness if being updated
+    if (updates.cashierId && !this.isCashierIdUnique(updates.cashierId, id)) {
+      return { success: false, error: 'Cashier ID already exists' };
+    }
+
+    cashiers[index] = { ...cashiers[index], ...updates };
+    localStorage.setItem(STORAGE_KEYS.CASHIERS, JSON.stringify(cashiers));
+    return { success: true };
+  },
+
+  /**
+   * Delete cashier
+   */
+  delete(id: string): { success: boolean; error?: string } {
+    const cashiers = this.getAll();
+    const filtered = cashiers.filter((c) => c.id !== id);
+
+    if (filtered.length === cashiers.length) {
+      return { success: false, error: 'Cashier not found' };
+    }
+
+    localStorage.setItem(STORAGE_KEYS.CASHIERS, JSON.stringify(filtered));
+    return { success: true };
+  },
+
+  /**
+   * Toggle cashier active status
+   */
+  toggleActive(id: string): { success: boolean; error?: string } {
+    const cashier = this.findById(id);
+    if (!cashier) {
+      return { success: false, error: 'Cashier not found' };
+    }
+    return this.update(id, { isActive: !cashier.isActive });
+  },
+
+  /**
+   * Assign cashier to store
+   */
+  assignToStore(id: string, storeId: string, storeName: string): { success: boolean; error?: string } {
+    const cashier = this.findById(id);
+    if (!cashier) {
+      return { success: false, error: 'Cashier not found' };
+    }
+    return this.update(id, { assignedStoreId: storeId, assignedStoreName: storeName });
+  },
+
+  /**
+   * Remove cashier from store
+   */
+  removeFromStore(id: string): { success: boolean; error?: string } {
+    const cashier = this.findById(id);
+    if (!cashier) {
+      return { success: false, error: 'Cashier not found' };
+    }
+    return this.update(id, { assignedStoreId: undefined, assignedStoreName: undefined });
+  },
+
+  /**
+   * Get cashiers by store
+   */
+  getByStore(storeId: string): Cashier[] {
+    return this.getAll().filter((c) => c.assignedStoreId === storeId);
+  },
+
+  /**
+   * Get unassigned cashiers
+   */
+  getUnassigned(): Cashier[] {
+    return this.getAll().filter((c) => !c.assignedStoreId && c.isActive);
+  },
+
+  /**
+   * Validate cashier login
+   */
+  validateLogin(cashierId: string, password: string): Cashier | null {
+    const cashier = this.findByCashierId(cashierId);
+    if (cashier && cashier.password === password && cashier.isActive) {
+      // Update last login
+      this.update(cashier.id, { lastLogin: new Date().toISOString() });
+      return cashier;
+    }
+    return null;
+  },
+
+  /**
+   * Get cashier stats
+   */
+  getStats(): {
+    total: number;
+    active: number;
+    inactive: number;
+    assigned: number;
+    unassigned: number;
+  } {
+    const cashiers = this.getAll();
+    return {
+      total: cashiers.length,
+      active: cashiers.filter((c) => c.isActive).length,
+      inactive: cashiers.filter((c) => !c.isActive).length,
+      assigned: cashiers.filter((c) => c.assignedStoreId).length,
+      unassigned: cashiers.filter((c) => !c.assignedStoreId).length,
+    };
+  },
+};
+
+// Default store
+const DEFAULT_STORE: Store = {
+  id: 'store-001',
+  name: 'Main Store',
+  code: 'MAIN001',
+  address: '123 Main Street, City',
+  phone: '+1234567890',
+  email: 'main@pos.com',
+  managerName: 'Store Manager',
+  isActive: true,
+  createdAt: new Date().toISOString(),
+};
+
+/**
+ * Store Service
+ * Manages multiple store locations
+ */
+export const StoreService = {
+  /**
+   * Initialize stores in storage
+   */
+  initialize(): void {
+    if (!localStorage.getItem(STORAGE_KEYS.STORES)) {
+      localStorage.setItem(STORAGE_KEYS.STORES, JSON.stringify([DEFAULT_STORE]));
+      localStorage.setItem(STORAGE_KEYS.CURRENT_STORE, DEFAULT_STORE.id);
+    }
+  },
+
+  /**
+   * Get all stores
+   */
+  getAll(): Store[] {
+    this.initialize();
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.STORES) || '[]');
+  },
+
+  /**
+   * Get active stores only
+   */
+  getActive(): Store[] {
+    return this.getAll().filter((s) => s.isActive);
+  },
+
+  /**
+   * Find store by ID
+   */
+  findById(id: string): Store | undefined {
+    return this.getAll().find((s) => s.id === id);
+  },
+
+  /**
+   * Get current selected store
+   */
+  getCurrentStore(): Store | undefined {
+    const currentId = localStorage.getItem(STORAGE_KEYS.CURRENT_STORE);
+    if (currentId) {
+      return this.findById(currentId);
+    }
+    const stores = this.getAll();
+    return stores[0];
+  },
+
+  /**
+   * Set current store
+   */
+  setCurrentStore(storeId: string): void {
+    localStorage.setItem(STORAGE_KEYS.CURRENT_STORE, storeId);
+  },
+
+  /**
+   * Add new store
+   */
+  add(store: Omit<Store, 'id' | 'createdAt'>): { success: boolean; error?: string } {
+    // Validate code uniqueness
+    const stores = this.getAll();
+    if (stores.some((s) => s.code === store.code)) {
+      return { success: false, error: 'Store code already exists' };
+    }
+
+    const newStore: Store = {
+      ...store,
+      id: `store-${Date.now()}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    stores.push(newStore);
+    localStorage.setItem(STORAGE_KEYS.STORES, JSON.stringify(stores));
+    return { success: true };
+  },
+
+  /**
+   * Update store
+   */
+  update(id: string, updates: Partial<Omit<Store, 'id' | 'createdAt'>>): { success: boolean; error?: string } {
+    const stores = this.getAll();
+    const index = stores.findIndex((s) => s.id === id);
+
+    if (index === -1) {
+      return { success: false, error: 'Store not found' };
+    }
+
+    // Validate code uniqueness if being updated
+    if (updates.code && stores.some((s) => s.code === updates.code && s.id !== id)) {
+      return { success: false, error: 'Store code already exists' };
+    }
+
+    stores[index] = { ...stores[index], ...updates };
+    localStorage.setItem(STORAGE_KEYS.STORES, JSON.stringify(stores));
+    return { success: true };
+  },
+
+  /**
+   * Toggle store active status
+   */
+  toggleActive(id: string): { success: boolean; error?: string } {
+    const store = this.findById(id);
+    if (!store) {
+      return { success: false, error: 'Store not found' };
+    }
+    return this.update(id, { isActive: !store.isActive });
+  },
+
+  /**
+   * Get store stats
+   */
+  getStats(): {
+    total: number;
+    active: number;
+    inactive: number;
+  } {
+    const stores = this.getAll();
+    return {
+      total: stores.length,
+      active: stores.filter((s) => s.isActive).length,
+      inactive: stores.filter((s) => !s.isActive).length,
+    };
+  },
+};
+
+/**
+ * Stock Transfer Service
+ * Manages stock transfers between stores through request, approve, dispatch and receive
+ */
+export const StockTransferService = {
+  /**
+   * Get all transfers
+   */
+  getAll(): StockTransfer[] {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.STOCK_TRANSFERS) || '[]');
+  },
+
+  /**
+   * Find transfer by ID
+   */
+  findById(id: string): StockTransfer | undefined {
+    return this.getAll().find((t) => t.id === id);
+  },
+
+  /**
+   * Get pending transfers for a store
+   */
+  getPendingForStore(storeId: string): StockTransfer[] {
+    return this.getAll().filter(
+      (t) => t.toStoreId === storeId && t.status === 'pending'
+    );
+  },
+
+  /**
+   * Get transfers on their way to a store
+   */
+  getIncomingForStore(storeId: string): StockTransfer[] {
+    return this.getAll().filter(
+      (t) => t.toStoreId === storeId && (t.status === 'in_transit' || t.status === 'partially_received')
+    );
+  },
+
+  /**
+   * Get transfers initiated by a store
+   */
+  getInitiatedByStore(storeId: string): StockTransfer[] {
+    return this.getAll().filter((t) => t.fromStoreId === storeId);
+  },
+
+  /**
+   * Save changes to a transfer
+   */
+  save(transfer: StockTransfer): void {
+    const transfers = this.getAll();
+    const index = transfers.findIndex((t) => t.id === transfer.id);
+    if (index !== -1) {
+      transfers[index] = transfer;
+      localStorage.setItem(STORAGE_KEYS.STOCK_TRANSFERS, JSON.stringify(transfers));
+    }
+  },
+
+  /**
+   * Write a stock log entry for a transfer step that moves no stock (request, reservation, release)
+   * The entry is for the audit trail at the source store; it is typed apart from the movements
+   * so the ledger balance, transfer-out history and shrinkage figures leave it alone
+   */
+  log(transfer: StockTransfer, note: string, performedBy: string): void {
+    const onHand = InventoryService.getQuantity(transfer.fromStoreId, transfer.barcode);
+    StockLogService.add({
+      barcode: transfer.barcode,
+      productName: transfer.productName,
+      previousStock: onHand,
+      newStock: onHand,
+      quantityAdded: 0,
+      storeId: transfer.fromStoreId,
+      reference: transfer.id,
+      note,
+      type: 'transfer_request',
+      performedBy,
+    });
+  },
+
+  /**
+   * Create transfer request
+   */
+  create(
+    transfer: Omit<StockTransfer, 'id' | 'timestamp' | 'status'>
+  ): { success: boolean; transfer?: StockTransfer; error?: string } {
+    if (transfer.fromStoreId === transfer.toStoreId) {
+      return { success: false, error: 'Source and destination stores must differ' };
+    }
+
+    if (!Number.isInteger(transfer.quantity) || transfer.quantity <= 0) {
+      return { success: false, error: 'Quantity must be a positive whole number' };
+    }
+
+    if (!ProductService.findByBarcode(transfer.barcode, transfer.fromStoreId)) {
+      return { success: false, error: 'Product not found' };
+    }
+
+    const available = InventoryService.getAvailable(transfer.fromStoreId, transfer.barcode);
+    if (available < transfer.quantity) {
+      return {
+        success: false,
+        error: `Insufficient stock at ${transfer.fromStoreName}. Available: ${available}`,
+      };
+    }
+
+    const newTransfer: StockTransfer = {
+      ...transfer,
+      id: `transfer-${Date.now()}`,
+      status: 'pending',
+      timestamp: new Date().toISOString(),
+    };
+
+    const transfers = this.getAll();
+    transfers.push(newTransfer);
+    localStorage.setItem(STORAGE_KEYS.STOCK_TRANSFERS, JSON.stringify(transfers));
+
+    this.log(
+      newTransfer,
+      `Transfer of ${newTransfer.quantity} to ${newTransfer.toStoreName} requested`,
+      newTransfer.requestedBy
+    );
+
+    return { success: true, transfer: newTransfer };
+  },
+
+  /**
+   * Approve transfer (reserve stock at source)
+   */
+  approve(transferId: string, performedBy: string): { success: boolean; error?: string } {
+    const transfer = this.findById(transferId);
+
+    if (!transfer) {
+      return { success: false, error: 'Transfer not found' };
+    }
+
+    if (transfer.status !== 'pending') {
+      return { success: false, error: 'Only pending transfers can be approved' };
+    }
+
+    const reservation = InventoryService.reserve(transfer.fromStoreId, transfer.barcode, transfer.quantity);
+    if (!reservation.success) {
+      return { success: false, error: `Insufficient stock at ${transfer.fromStoreName} to reserve` };
+    }
+
+    this.save({
+      ...transfer,
+      status: 'approved',
+      approvedBy: performedBy,
+      approvedAt: new Date().toISOString(),
+    });
+
+    this.log(transfer, `Reserved ${transfer.quantity} for transfer to ${transfer.toStoreName}`, performedBy);
+
+    return { success: true };
+  },
+
+  /**
+   * Dispatch transfer (deduct reserved stock at source)
+   */
+  dispatch(transferId: string, performedBy: string): { success: boolean; error?: string } {
+    const transfer = this.findById(transferId);
+
+    if (!transfer) {
+      return { success: false, error: 'Transfer not found' };
+    }
+
+    if (transfer.status !== 'approved') {
+      return { success: false, error: 'Only approved transfers can be dispatched' };
+    }
+
+    InventoryService.release(transfer.fromStoreId, transfer.barcode, transfer.quantity);
+    const cost = InventoryService.move({
+      storeId: transfer.fromStoreId,
+      barcode: transfer.barcode,
+      quantity: -transfer.quantity,
+      type: 'transfer_out',
+      reference: transfer.id,
+      note: `Dispatched to ${transfer.toStoreName}`,
+      performedBy,
+    });
+
+    this.save({
+      ...transfer,
+      status: 'in_transit',
+      unitCost: Math.round((cost / transfer.quantity) * 10000) / 10000,
+      quantityReceived: 0,
+      dispatchedBy: performedBy,
+      dispatchedAt: new Date().toISOString(),
+    });
+
+    return { success: true };
+  },
+
+  /**
+   * Receive transfer (credit stock at destination)
+   * Receiving less than the outstanding quantity leaves the transfer partially received
+   */
+  receive(transferId: string, quantity: number, performedBy: string): { success: boolean; error?: string } {
+    const transfer = this.findById(transferId);
+
+    if (!transfer) {
+      return { success: false, error: 'Transfer not found' };
+    }
+
+    if (transfer.status !== 'in_transit' && transfer.status !== 'partially_received') {
+      return { success: false, error: 'Only dispatched transfers can be received' };
+    }
+
+    const alreadyReceived = transfer.quantityReceived || 0;
+    const outstanding = transfer.quantity - alreadyReceived;
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return { success: false, error: 'Quantity must be a positive whole number' };
+    }
+
+    if (quantity > outstanding) {
+      return { success: false, error: `Cannot receive more than the outstanding ${outstanding}` };
+    }
+
+    const quantityReceived = alreadyReceived + quantity;
+    const isComplete = quantityReceived === transfer.quantity;
+
+    InventoryService.move({
+      storeId: transfer.toStoreId,
+      barcode: transfer.barcode,
+      quantity,
+      type: 'transfer_in',
+      unitCost: transfer.unitCost,
+      reference: transfer.id,
+      note: `Received from ${transfer.fromStoreName} (${quantityReceived}/${transfer.quantity})`,
+      performedBy,
+    });
+
+    this.save({
+      ...transfer,
+      status: isComplete ? 'completed' : 'partially_received',
+      quantityReceived,
+      receivedBy: performedBy,
+      completedAt: isComplete ? new Date().toISOString() : transfer.completedAt,
+    });
+
+    return { success: true };
   },
 
   /**
-   * Get cashier stats
+   * Cancel transfer
+   * Approved transfers release their reservation; dispatched transfers return
+   * the quantity not yet received to the source store
    */
-  getStats(): {
-    total: number;
-    active: number;
-    inactive: number;
-    assigned: number;
-    unassigned: number;
-  } {
-    const cashiers = this.getAll();
+  cancel(transferId: string, performedBy: string = 'Admin'): { success: boolean; error?: string } {
+    const transfer = this.findById(transferId);
+
+    if (!transfer) {
+      return { success: false, error: 'Transfer not found' };
+    }
+
+    if (transfer.status === 'completed' || transfer.status === 'cancelled') {
+      return { success: false, error: 'Transfer is already closed' };
+    }
+
+    if (transfer.status === 'pending') {
+      this.log(transfer, 'Transfer request cancelled', performedBy);
+    } else if (transfer.status === 'approved') {
+      InventoryService.release(transfer.fromStoreId, transfer.barcode, transfer.quantity);
+      this.log(transfer, `Reservation of ${transfer.quantity} released (transfer cancelled)`, performedBy);
+    } else if (transfer.status === 'in_transit' || transfer.status === 'partially_received') {
+      const returned = transfer.quantity - (transfer.quantityReceived || 0);
+      InventoryService.move({
+        storeId: transfer.fromStoreId,
+        barcode: transfer.barcode,
+        quantity: returned,
+        type: 'transfer_in',
+        unitCost: transfer.unitCost,
+        reference: transfer.id,
+        note: `Returned ${returned} from cancelled transfer`,
+        performedBy,
+      });
+    }
+
+    this.save({
+      ...transfer,
+      status: 'cancelled',
+      cancelledBy: performedBy,
+      cancelledAt: new Date().toISOString(),
+    });
+
+    return { success: true };
+  },
+};
+
+/**
+ * Supplier Service
+ * Companies stock is bought from
+ */
+export const SupplierService = {
+  /**
+   * Get all suppliers by name
+   */
+  getAll(): Supplier[] {
+    const suppliers: Supplier[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.SUPPLIERS) || '[]');
+    return suppliers.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  /**
+   * Find supplier by ID
+   */
+  findById(id: string): Supplier | undefined {
+    return this.getAll().find((s) => s.id === id);
+  },
+
+  /**
+   * Create or update a supplier
+   */
+  save(data: {
+    id?: string;
+    name: string;
+    contactName?: string;
+    phone?: string;
+    email?: string;
+    leadTimeDays: number;
+    notes?: string;
+  }): { success: boolean; supplier?: Supplier; error?: string } {
+    const name = data.name.trim();
+    const email = data.email?.trim() || undefined;
+
+    if (!name) {
+      return { success: false, error: 'Supplier name is required' };
+    }
+
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return { success: false, error: 'Email address is not valid' };
+    }
+
+    if (!Number.isInteger(data.leadTimeDays) || data.leadTimeDays < 0) {
+      return { success: false, error: 'Lead time must be a whole number of days' };
+    }
+
+    const suppliers = this.getAll();
+    const sameName = suppliers.find((s) => s.name.toLowerCase() === name.toLowerCase());
+    if (sameName && sameName.id !== data.id) {
+      return { success: false, error: `There is already a supplier called ${sameName.name}` };
+    }
+
+    const details = {
+      name,
+      contactName: data.contactName?.trim() || undefined,
+      phone: data.phone?.trim() || undefined,
+      email,
+      leadTimeDays: data.leadTimeDays,
+      notes: data.notes?.trim() || undefined,
+    };
+
+    if (data.id) {
+      const index = suppliers.findIndex((s) => s.id === data.id);
+      if (index === -1) {
+        return { success: false, error: 'Supplier not found' };
+      }
+      suppliers[index] = { ...suppliers[index], ...details };
+      localStorage.setItem(STORAGE_KEYS.SUPPLIERS, JSON.stringify(suppliers));
+      return { success: true, supplier: suppliers[index] };
+    }
+
+    const supplier: Supplier = {
+      id: `supplier-${Date.now()}`,
+      ...details,
+      createdAt: new Date().toISOString(),
+    };
+    suppliers.push(supplier);
+    localStorage.setItem(STORAGE_KEYS.SUPPLIERS, JSON.stringify(suppliers));
+    return { success: true, supplier };
+  },
+
+  /**
+   * Delete a supplier with no open purchase orders
+   */
+  delete(id: string): { success: boolean; error?: string } {
+    const suppliers = this.getAll();
+    if (!suppliers.some((s) => s.id === id)) {
+      return { success: false, error: 'Supplier not found' };
+    }
+
+    const open = PurchaseOrderService.getAll().find((po) => po.supplierId === id && PurchaseOrderService.isOpen(po));
+    if (open) {
+      return { success: false, error: `Purchase order ${open.poNumber} is still open with this supplier` };
+    }
+
+    localStorage.setItem(STORAGE_KEYS.SUPPLIERS, JSON.stringify(suppliers.filter((s) => s.id !== id)));
+    return { success: true };
+  },
+};
+
+/**
+ * Purchase Order Service
+ * Orders to suppliers; deliveries are received against them into a store's stock
+ */
+export const PurchaseOrderService = {
+  /**
+   * Get all purchase orders (newest first), optionally for one store
+   */
+  getAll(storeId?: string): PurchaseOrder[] {
+    const orders: PurchaseOrder[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.PURCHASE_ORDERS) || '[]');
+    return storeId ? orders.filter((po) => po.storeId === storeId) : orders;
+  },
+
+  /**
+   * Find purchase order by ID
+   */
+  findById(id: string): PurchaseOrder | undefined {
+    return this.getAll().find((po) => po.id === id);
+  },
+
+  /**
+   * Generate unique purchase order number
+   */
+  generatePoNumber(): string {
+    const timestamp = Date.now().toString(36).toUpperCase();
+    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
+    return `PO-${timestamp}-${random}`;
+  },
+
+  /**
+   * Save a purchase order (insert or update)
+   */
+  save(order: PurchaseOrder): void {
+    const orders = this.getAll();
+    const index = orders.findIndex((po) => po.id === order.id);
+    if (index === -1) {
+      orders.unshift(order);
+    } else {
+      orders[index] = order;
+    }
+    localStorage.setItem(STORAGE_KEYS.PURCHASE_ORDERS, JSON.stringify(orders));
+  },
+
+  /**
+   * Whether a purchase order is still being drafted or waiting on deliveries
+   */
+  isOpen(order: PurchaseOrder): boolean {
+    return order.status === 'draft' || order.status === 'sent' || order.status === 'partially_received';
+  },
+
+  /**
+   * Expected cost of everything ordered
+   */
+  getTotal(order: PurchaseOrder): number {
+    return roundMoney(order.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+  },
+
+  /**
+   * What has been received so far actually cost
+   */
+  getReceivedTotal(order: PurchaseOrder): number {
+    return roundMoney(order.lines.reduce((sum, line) => sum + (line.receivedCost || 0), 0));
+  },
+
+  /**
+   * Create or update a draft purchase order
+   * Lines can be products or their packs; quantity and cost are per unit ordered
+   */
+  saveDraft(
+    data: {
+      id?: string;
+      supplierId: string;
+      storeId?: string;
+      lines: { barcode: string; quantity: number; unitCost: number }[];
+      notes?: string;
+    },
+    createdBy: string
+  ): { success: boolean; order?: PurchaseOrder; error?: string } {
+    const supplier = SupplierService.findById(data.supplierId);
+    if (!supplier) {
+      return { success: false, error: 'Choose a supplier' };
+    }
+
+    const existing = data.id ? this.findById(data.id) : undefined;
+    if (data.id && !existing) {
+      return { success: false, error: 'Purchase order not found' };
+    }
+    if (existing && existing.status !== 'draft') {
+      return { success: false, error: 'Only draft purchase orders can be changed' };
+    }
+
+    const store = StoreService.findById(resolveStoreId(existing?.storeId || data.storeId));
+    if (!store) {
+      return { success: false, error: 'Store not found' };
+    }
+
+    if (data.lines.length === 0) {
+      return { success: false, error: 'Add at least one product to order' };
+    }
+
+    const lines: PurchaseOrderLine[] = [];
+    for (const { barcode, quantity, unitCost } of data.lines) {
+      const product = ProductService.findByBarcode(barcode.trim(), store.id);
+      if (!product) {
+        return { success: false, error: `Product ${barcode} not found` };
+      }
+      if (ProductService.hasVariants(product)) {
+        return { success: false, error: `Order the variants of ${product.name}` };
+      }
+      if (ProductService.isKit(product)) {
+        return { success: false, error: `Order the components of ${product.name}` };
+      }
+      if (lines.some((line) => line.barcode === product.barcode)) {
+        return { success: false, error: `${product.name} is on the order twice` };
+      }
+      if (!(quantity > 0) || (!product.measureUnit && !Number.isInteger(quantity))) {
+        return { success: false, error: `Quantity of ${product.name} must be a positive whole number` };
+      }
+      if (isNaN(unitCost) || unitCost < 0) {
+        return { success: false, error: `Cost of ${product.name} cannot be negative` };
+      }
+      lines.push({
+        barcode: product.barcode,
+        name: product.name,
+        quantity: ProductService.roundQuantity(quantity),
+        unitCost,
+        quantityReceived: 0,
+      });
+    }
+
+    const order: PurchaseOrder = {
+      id: existing?.id || `po-${Date.now()}`,
+      poNumber: existing?.poNumber || this.generatePoNumber(),
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      storeId: store.id,
+      storeName: store.name,
+      lines,
+      status: 'draft',
+      notes: data.notes?.trim() || undefined,
+      createdBy: existing?.createdBy || createdBy,
+      createdAt: existing?.createdAt || new Date().toISOString(),
+    };
+
+    this.save(order);
+    return { success: true, order };
+  },
+
+  /**
+   * Mark a draft as sent to the supplier; it is expected after the supplier's lead time
+   */
+  send(id: string): { success: boolean; error?: string } {
+    const order = this.findById(id);
+    if (!order) {
+      return { success: false, error: 'Purchase order not found' };
+    }
+    if (order.status !== 'draft') {
+      return { success: false, error: 'Only draft purchase orders can be sent' };
+    }
+
+    const sentAt = new Date();
+    const expectedAt = new Date(sentAt);
+    expectedAt.setDate(expectedAt.getDate() + (SupplierService.findById(order.supplierId)?.leadTimeDays || 0));
+
+    this.save({ ...order, status: 'sent', sentAt: sentAt.toISOString(), expectedAt: expectedAt.toISOString() });
+    return { success: true };
+  },
+
+  /**
+   * Take in a delivery against a sent purchase order
+   * Stock is restocked at the order's store at the actual cost, logged against the PO number
+   */
+  receive(
+    id: string,
+    receipts: PurchaseOrderReceipt[],
+    performedBy: string
+  ): { success: boolean; order?: PurchaseOrder; error?: string } {
+    const order = this.findById(id);
+    if (!order) {
+      return { success: false, error: 'Purchase order not found' };
+    }
+    if (order.status !== 'sent' && order.status !== 'partially_received') {
+      return { success: false, error: 'Only sent purchase orders can be received' };
+    }
+
+    const delivered = receipts.filter((receipt) => receipt.quantity > 0);
+    if (delivered.length === 0) {
+      return { success: false, error: 'Enter the quantity received for at least one line' };
+    }
+
+    // Check the whole delivery before any stock moves
+    for (const receipt of delivered) {
+      const line = order.lines.find((l) => l.barcode === receipt.barcode);
+      if (!line) {
+        return { success: false, error: `Product ${receipt.barcode} is not on this order` };
+      }
+      const product = ProductService.findByBarcode(line.barcode, order.storeId);
+      if (!product || ProductService.hasVariants(product) || ProductService.isKit(product)) {
+        return { success: false, error: `${line.name} can no longer be received` };
+      }
+      const outstanding = ProductService.roundQuantity(line.quantity - line.quantityReceived);
+      if (receipt.quantity > outstanding) {
+        return { success: false, error: `Only ${outstanding} of ${line.name} are outstanding` };
+      }
+      if (!product.measureUnit && !Number.isInteger(receipt.quantity)) {
+        return { success: false, error: `Quantity of ${line.name} must be a whole number` };
+      }
+      if (isNaN(receipt.unitCost) || receipt.unitCost < 0) {
+        return { success: false, error: `Cost of ${line.name} cannot be negative` };
+      }
+    }
+
+    const lines = order.lines.map((line) => ({ ...line }));
+    for (const receipt of delivered) {
+      const line = lines.find((l) => l.barcode === receipt.barcode) as PurchaseOrderLine;
+      const result = ProductService.restock(
+        line.barcode,
+        receipt.quantity,
+        performedBy,
+        order.storeId,
+        receipt.unitCost,
+        order.poNumber
+      );
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+      line.quantityReceived = ProductService.roundQuantity(line.quantityReceived + receipt.quantity);
+      line.receivedCost = roundMoney((line.receivedCost || 0) + receipt.quantity * receipt.unitCost);
+    }
+
+    const isComplete = lines.every((line) => line.quantityReceived >= line.quantity);
+    const updated: PurchaseOrder = {
+      ...order,
+      lines,
+      status: isComplete ? 'received' : 'partially_received',
+      receivedAt: new Date().toISOString(),
+    };
+    this.save(updated);
+    return { success: true, order: updated };
+  },
+
+  /**
+   * Close a sent or received purchase order; nothing more is expected on it
+   */
+  close(id: string, closedBy: string): { success: boolean; error?: string } {
+    const order = this.findById(id);
+    if (!order) {
+      return { success: false, error: 'Purchase order not found' };
+    }
+    if (order.status === 'draft' || order.status === 'closed') {
+      return { success: false, error: order.status === 'draft' ? 'Delete a draft instead' : 'Already closed' };
+    }
+
+    this.save({ ...order, status: 'closed', closedBy, closedAt: new Date().toISOString() });
+    return { success: true };
+  },
+
+  /**
+   * Delete a draft purchase order
+   */
+  delete(id: string): { success: boolean; error?: string } {
+    const order = this.findById(id);
+    if (!order) {
+      return { success: false, error: 'Purchase order not found' };
+    }
+    if (order.status !== 'draft') {
+      return { success: false, error: 'Only drafts can be deleted; close the order instead' };
+    }
+
+    localStorage.setItem(
+      STORAGE_KEYS.PURCHASE_ORDERS,
+      JSON.stringify(this.getAll().filter((po) => po.id !== id))
+    );
+    return { success: true };
+  },
+};
+
+const DEFAULT_REORDER_SETTINGS: ReorderSettings = {
+  velocityDays: 30,
+  coverDays: 14,
+  defaultLeadTimeDays: 7,
+};
+
+/**
+ * Reorder Service
+ * Reorder points from sales velocity, lead time and safety stock; suggestions become draft purchase orders
+ */
+export const ReorderService = {
+  /**
+   * Get reorder settings
+   */
+  getSettings(): ReorderSettings {
     return {
-      total: cashiers.length,
-      active: cashiers.filter((c) => c.isActive).length,
-      inactive: cashiers.filter((c) => !c.isActive).length,
-      assigned: cashiers.filter((c) => c.assignedStoreId).length,
-      unassigned: cashiers.filter((c) => !c.assignedStoreId).length,
+      ...DEFAULT_REORDER_SETTINGS,
+      ...JSON.parse(localStorage.getItem(STORAGE_KEYS.REORDER_SETTINGS) || '{}'),
+    };
+  },
+
+  /**
+   * Save reorder settings
+   */
+  saveSettings(settings: ReorderSettings): { success: boolean; error?: string } {
+    if (!Number.isInteger(settings.velocityDays) || settings.velocityDays <= 0) {
+      return { success: false, error: 'Sales period must be a whole number of days' };
+    }
+    if (!Number.isInteger(settings.coverDays) || settings.coverDays < 0) {
+      return { success: false, error: 'Days of cover must be a whole number' };
+    }
+    if (!Number.isInteger(settings.defaultLeadTimeDays) || settings.defaultLeadTimeDays < 0) {
+      return { success: false, error: 'Default lead time must be a whole number of days' };
+    }
+
+    localStorage.setItem(STORAGE_KEYS.REORDER_SETTINGS, JSON.stringify(settings));
+    return { success: true };
+  },
+
+  /**
+   * Get reorder rules, optionally for one store
+   */
+  getRules(storeId?: string): ReorderRule[] {
+    const rules: ReorderRule[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.REORDER_RULES) || '[]');
+    return storeId ? rules.filter((rule) => rule.storeId === storeId) : rules;
+  },
+
+  /**
+   * Find the reorder rule of a product at a store
+   */
+  getRule(barcode: string, storeId?: string): ReorderRule | undefined {
+    const id = resolveStoreId(storeId);
+    return this.getRules().find((rule) => rule.barcode === barcode && rule.storeId === id);
+  },
+
+  /**
+   * Create or update the reorder rule of a product at a store
+   */
+  saveRule(data: {
+    barcode: string;
+    storeId?: string;
+    supplierId?: string;
+    reorderPoint?: number;
+    safetyStock: number;
+    leadTimeDays?: number;
+  }): { success: boolean; error?: string } {
+    const storeId = resolveStoreId(data.storeId);
+    const product = ProductService.findByBarcode(data.barcode, storeId);
+    if (!product || product.baseBarcode) {
+      return { success: false, error: 'Product not found' };
+    }
+    if (ProductService.hasVariants(product)) {
+      return { success: false, error: 'Set reorder rules on each variant instead' };
+    }
+    if (ProductService.isKit(product)) {
+      return { success: false, error: 'Set reorder rules on the kit components instead' };
+    }
+
+    if (data.supplierId && !SupplierService.findById(data.supplierId)) {
+      return { success: false, error: 'Supplier not found' };
+    }
+    if (isNaN(data.safetyStock) || data.safetyStock < 0) {
+      return { success: false, error: 'Safety stock cannot be negative' };
+    }
+    if (data.reorderPoint !== undefined && (isNaN(data.reorderPoint) || data.reorderPoint < 0)) {
+      return { success: false, error: 'Reorder point cannot be negative' };
+    }
+    if (data.leadTimeDays !== undefined && (!Number.isInteger(data.leadTimeDays) || data.leadTimeDays < 0)) {
+      return { success: false, error: 'Lead time must be a whole number of days' };
+    }
+
+    const rule: ReorderRule = {
+      barcode: product.barcode,
+      storeId,
+      supplierId: data.supplierId || undefined,
+      reorderPoint: data.reorderPoint,
+      safetyStock: data.safetyStock,
+      leadTimeDays: data.leadTimeDays,
+      updatedAt: new Date().toISOString(),
     };
+    const rules = this.getRules().filter((r) => !(r.barcode === rule.barcode && r.storeId === storeId));
+    rules.push(rule);
+    localStorage.setItem(STORAGE_KEYS.REORDER_RULES, JSON.stringify(rules));
+    return { success: true };
+  },
+
+  /**
+   * Remove the reorder rules of a deleted product
+   */
+  removeProduct(barcode: string): void {
+    localStorage.setItem(
+      STORAGE_KEYS.REORDER_RULES,
+      JSON.stringify(this.getRules().filter((rule) => rule.barcode !== barcode))
+    );
+  },
+
+  /**
+   * Average base units sold per day at a store over the settings' sales period, net of returns
+   */
+  getDailyVelocity(storeId?: string): Map<string, number> {
+    const { velocityDays } = this.getSettings();
+    const end = new Date();
+    const start = new Date(end.getTime() - velocityDays * 24 * 60 * 60 * 1000);
+    const items = SaleService.getByDateRange(start, end, resolveStoreId(storeId))
+      .filter((sale) => !SaleService.isVoided(sale))
+      .flatMap((sale) => sale.items)
+      .map((item) => ({ ...item, quantity: item.quantity - (item.returnedQuantity || 0) }));
+
+    const velocity = new Map<string, number>();
+    stockNeeded(items).forEach(({ quantity }, barcode) => {
+      velocity.set(barcode, Math.max(0, quantity) / velocityDays);
+    });
+    return velocity;
+  },
+
+  /**
+   * Base units still to arrive at a store on open purchase orders (drafts included,
+   * so suggestions already turned into orders are not suggested again)
+   */
+  getOnOrder(storeId?: string): Map<string, number> {
+    const index = catalogIndex();
+    const onOrder = new Map<string, number>();
+    for (const order of PurchaseOrderService.getAll(resolveStoreId(storeId))) {
+      if (!PurchaseOrderService.isOpen(order)) continue;
+      for (const line of order.lines) {
+        const product = index.get(line.barcode);
+        if (!product) continue;
+        const perUnit = product.packUnits?.find((pack) => pack.barcode === line.barcode)?.quantity || 1;
+        const outstanding = Math.max(0, line.quantity - line.quantityReceived) * perUnit;
+        onOrder.set(product.barcode, ProductService.roundQuantity((onOrder.get(product.barcode) || 0) + outstanding));
+      }
+    }
+    return onOrder;
+  },
+
+  /**
+   * Products at a store whose stock on hand and on order has fallen to their reorder point,
+   * soonest to run out first
+   * Without a set reorder point it is the sales expected over the lead time plus safety stock;
+   * the suggested order brings stock back to that point plus the settings' days of cover
+   */
+  getSuggestions(storeId?: string): ReorderSuggestion[] {
+    const id = resolveStoreId(storeId);
+    const settings = this.getSettings();
+    const velocity = this.getDailyVelocity(id);
+    const onOrder = this.getOnOrder(id);
+    const rules = new Map(this.getRules(id).map((rule) => [rule.barcode, rule]));
+    const now = Date.now();
+
+    const suggestions: ReorderSuggestion[] = [];
+    for (const product of DashboardService.getStockedProducts(id)) {
+      const rule = rules.get(product.barcode);
+      const dailyVelocity = velocity.get(product.barcode) || 0;
+      if (!rule && dailyVelocity === 0) continue;
+
+      const supplier = rule?.supplierId ? SupplierService.findById(rule.supplierId) : undefined;
+      const leadTimeDays = rule?.leadTimeDays ?? supplier?.leadTimeDays ?? settings.defaultLeadTimeDays;
+      const safetyStock = rule?.safetyStock || 0;
+      const reorderPoint = rule?.reorderPoint ?? ProductService.roundQuantity(dailyVelocity * leadTimeDays + safetyStock);
+      const incoming = onOrder.get(product.barcode) || 0;
+      const position = product.stock + incoming;
+      if (position > reorderPoint || (reorderPoint === 0 && dailyVelocity === 0)) continue;
+
+      const shortfall = reorderPoint + dailyVelocity * settings.coverDays - position;
+      const suggestedQuantity = product.measureUnit
+        ? ProductService.roundQuantity(shortfall)
+        : Math.max(1, Math.ceil(shortfall - 1e-9));
+      if (suggestedQuantity <= 0) continue;
+
+      const daysOfStock = dailyVelocity > 0 ? Math.max(0, product.stock) / dailyVelocity : undefined;
+      suggestions.push({
+        barcode: product.barcode,
+        name: product.name,
+        storeId: id,
+        stock: product.stock,
+        onOrder: incoming,
+        dailyVelocity,
+        leadTimeDays,
+        safetyStock,
+        reorderPoint,
+        suggestedQuantity,
+        daysOfStock,
+        stockoutAt:
+          daysOfStock !== undefined ? new Date(now + daysOfStock * 24 * 60 * 60 * 1000).toISOString() : undefined,
+        supplierId: supplier?.id,
+        supplierName: supplier?.name,
+        unitCost: product.cost,
+      });
+    }
+
+    return suggestions.sort((a, b) => (a.daysOfStock ?? Infinity) - (b.daysOfStock ?? Infinity));
+  },
+
+  /**
+   * Suggestions that will run out (or dip into safety stock) before an order placed today could arrive
+   */
+  getStockoutWarnings(storeId?: string): ReorderSuggestion[] {
+    return this.getSuggestions(storeId).filter(
+      (s) => s.stock <= s.safetyStock || (s.daysOfStock !== undefined && s.daysOfStock <= s.leadTimeDays)
+    );
   },
-};
 
-// Default store
-const DEFAULT_STORE: Store = {
-  id: 'store-001',
-  name: 'Main Store',
-  code: 'MAIN001',
-  address: '123 Main Street, City',
-  phone: '+1234567890',
-  email: 'main@pos.com',
-  managerName: 'Store Manager',
-  isActive: true,
-  createdAt: new Date().toISOString(),
+  /**
+   * Turn suggestions into draft purchase orders, one per supplier, at each product's cost price
+   */
+  createDraftOrders(
+    lines: { barcode: string; quantity: number }[],
+    createdBy: string,
+    storeId?: string
+  ): { success: boolean; orders?: PurchaseOrder[]; error?: string } {
+    const id = resolveStoreId(storeId);
+    if (lines.length === 0) {
+      return { success: false, error: 'Nothing to order' };
+    }
+
+    // Group by supplier before any order is drafted
+    const bySupplier = new Map<string, { barcode: string; quantity: number; unitCost: number }[]>();
+    for (const { barcode, quantity } of lines) {
+      const product = ProductService.findByBarcode(barcode, id);
+      if (!product) {
+        return { success: false, error: `Product ${barcode} not found` };
+      }
+      const supplierId = this.getRule(barcode, id)?.supplierId;
+      if (!supplierId || !SupplierService.findById(supplierId)) {
+        return { success: false, error: `Choose a supplier for ${product.name} first` };
+      }
+      const group = bySupplier.get(supplierId) || [];
+      group.push({ barcode, quantity, unitCost: product.cost ?? 0 });
+      bySupplier.set(supplierId, group);
+    }
+
+    const orders: PurchaseOrder[] = [];
+    for (const [supplierId, group] of bySupplier) {
+      const result = PurchaseOrderService.saveDraft(
+        { supplierId, storeId: id, lines: group, notes: 'Drafted from reorder suggestions' },
+        createdBy
+      );
+      if (!result.success || !result.order) {
+        return { success: false, orders, error: result.error };
+      }
+      orders.push(result.order);
+    }
+    return { success: true, orders };
+  },
 };
 
 /**
- * Store Service
- * Manages multiple store locations
+ * Stocktake Service
+ * Physical counts of a store's stock; variances are posted to stock once approved
+ * Selling goes on during a count: each product's expected quantity is taken when it is first counted,
+ * and posting moves stock by the variance so sales made since are kept
  */
-export const StoreService = {
+export const StocktakeService = {
   /**
-   * Initialize stores in storage
+   * Get all stocktakes (newest first), optionally for one store
    */
-  initialize(): void {
-    if (!localStorage.getItem(STORAGE_KEYS.STORES)) {
-      localStorage.setItem(STORAGE_KEYS.STORES, JSON.stringify([DEFAULT_STORE]));
-      localStorage.setItem(STORAGE_KEYS.CURRENT_STORE, DEFAULT_STORE.id);
-    }
+  getAll(storeId?: string): Stocktake[] {
+    const stocktakes: Stocktake[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.STOCKTAKES) || '[]');
+    return storeId ? stocktakes.filter((s) => s.storeId === storeId) : stocktakes;
   },
 
   /**
-   * Get all stores
+   * Find stocktake by ID
    */
-  getAll(): Store[] {
-    this.initialize();
-    return JSON.parse(localStorage.getItem(STORAGE_KEYS.STORES) || '[]');
+  findById(id: string): Stocktake | undefined {
+    return this.getAll().find((s) => s.id === id);
   },
 
   /**
-   * Get active stores only
+   * Get the stocktake being counted or awaiting approval at a store, if any
    */
-  getActive(): Store[] {
-    return this.getAll().filter((s) => s.isActive);
+  getOpen(storeId: string): Stocktake | undefined {
+    return this.getAll(storeId).find((s) => s.status === 'counting' || s.status === 'submitted');
   },
 
   /**
-   * Find store by ID
+   * Generate unique count number
    */
-  findById(id: string): Store | undefined {
-    return this.getAll().find((s) => s.id === id);
+  generateCountNumber(): string {
+    const timestamp = Date.now().toString(36).toUpperCase();
+    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
+    return `CNT-${timestamp}-${random}`;
   },
 
   /**
-   * Get current selected store
+   * Save a stocktake (insert or update)
    */
-  getCurrentStore(): Store | undefined {
-    const currentId = localStorage.getItem(STORAGE_KEYS.CURRENT_STORE);
-    if (currentId) {
-      return this.findById(currentId);
+  save(stocktake: Stocktake): void {
+    const stocktakes = this.getAll();
+    const index = stocktakes.findIndex((s) => s.id === stocktake.id);
+    if (index === -1) {
+      stocktakes.unshift(stocktake);
+    } else {
+      stocktakes[index] = stocktake;
     }
-    const stores = this.getAll();
-    return stores[0];
+    localStorage.setItem(STORAGE_KEYS.STOCKTAKES, JSON.stringify(stocktakes));
   },
 
   /**
-   * Set current store
+   * Whether a product falls within a stocktake's category and bin
    */
-  setCurrentStore(storeId: string): void {
-    localStorage.setItem(STORAGE_KEYS.CURRENT_STORE, storeId);
+  isInScope(stocktake: Pick<Stocktake, 'category' | 'bin'>, product: Product): boolean {
+    if (stocktake.category && product.category !== stocktake.category) return false;
+    if (stocktake.bin && (product.bin || '').trim().toLowerCase() !== stocktake.bin.toLowerCase()) return false;
+    return true;
   },
 
   /**
-   * Add new store
+   * Start counting a store, optionally only one category or bin
    */
-  add(store: Omit<Store, 'id' | 'createdAt'>): { success: boolean; error?: string } {
-    // Validate code uniqueness
-    const stores = this.getAll();
-    if (stores.some((s) => s.code === store.code)) {
-      return { success: false, error: 'Store code already exists' };
+  start(
+    data: { storeId?: string; category?: Category; bin?: string },
+    startedBy: string
+  ): { success: boolean; stocktake?: Stocktake; error?: string } {
+    const store = StoreService.findById(resolveStoreId(data.storeId));
+    if (!store) {
+      return { success: false, error: 'Store not found' };
     }
 
-    const newStore: Store = {
-      ...store,
-      id: `store-${Date.now()}`,
-      createdAt: new Date().toISOString(),
+    const open = this.getOpen(store.id);
+    if (open) {
+      return { success: false, error: `Stocktake ${open.countNumber} is still open at ${store.name}` };
+    }
+
+    const scope = { category: data.category || undefined, bin: data.bin?.trim() || undefined };
+    const products = DashboardService.getStockedProducts(store.id).filter((p) => this.isInScope(scope, p));
+    if (products.length === 0) {
+      return { success: false, error: 'No products to count' };
+    }
+
+    const stocktake: Stocktake = {
+      id: `stocktake-${Date.now()}`,
+      countNumber: this.generateCountNumber(),
+      storeId: store.id,
+      storeName: store.name,
+      ...scope,
+      lines: products.map((p) => ({
+        barcode: p.barcode,
+        name: p.name,
+        expected: InventoryService.getQuantity(store.id, p.barcode),
+        unitCost: InventoryService.getUnitCost(store.id, p.barcode),
+      })),
+      status: 'counting',
+      startedBy,
+      startedAt: new Date().toISOString(),
     };
 
-    stores.push(newStore);
-    localStorage.setItem(STORAGE_KEYS.STORES, JSON.stringify(stores));
-    return { success: true };
+    this.save(stocktake);
+    return { success: true, stocktake };
   },
 
   /**
-   * Update store
+   * Tally a count: 'add' adds to what has been counted (one per scan), 'set' replaces it
+   * A pack barcode counts its base units
    */
-  update(id: string, updates: Partial<Omit<Store, 'id' | 'createdAt'>>): { success: boolean; error?: string } {
-    const stores = this.getAll();
-    const index = stores.findIndex((s) => s.id === id);
+  recordCount(
+    id: string,
+    code: string,
+    quantity: number,
+    mode: 'add' | 'set'
+  ): { success: boolean; line?: StocktakeLine; error?: string } {
+    const stocktake = this.findById(id);
+    if (!stocktake) {
+      return { success: false, error: 'Stocktake not found' };
+    }
+    if (stocktake.status !== 'counting') {
+      return { success: false, error: 'Counting has finished on this stocktake' };
+    }
 
-    if (index === -1) {
-      return { success: false, error: 'Store not found' };
+    const found = ProductService.findByBarcode(code.trim(), stocktake.storeId);
+    if (!found) {
+      return { success: false, error: `Product ${code} not found` };
+    }
+    if (ProductService.hasVariants(found)) {
+      return { success: false, error: `Count each variant of ${found.name}` };
+    }
+    if (ProductService.isKit(found)) {
+      return { success: false, error: `Count the components of ${found.name}` };
     }
 
-    // Validate code uniqueness if being updated
-    if (updates.code && stores.some((s) => s.code === updates.code && s.id !== id)) {
-      return { success: false, error: 'Store code already exists' };
+    const product = found.baseBarcode ? ProductService.findByBarcode(found.baseBarcode, stocktake.storeId) : found;
+    if (!product) {
+      return { success: false, error: `Product ${code} not found` };
     }
 
-    stores[index] = { ...stores[index], ...updates };
-    localStorage.setItem(STORAGE_KEYS.STORES, JSON.stringify(stores));
+    if (isNaN(quantity) || quantity < 0 || (mode === 'add' && quantity === 0)) {
+      return { success: false, error: 'Enter a quantity counted' };
+    }
+    if (!product.measureUnit && !Number.isInteger(quantity)) {
+      return { success: false, error: `Count of ${product.name} must be a whole number` };
+    }
+
+    const lines = stocktake.lines.map((line) => ({ ...line }));
+    let line = lines.find((l) => l.barcode === product.barcode);
+    if (!line) {
+      // Added to the catalog since the count started
+      if (!this.isInScope(stocktake, product)) {
+        return { success: false, error: `${product.name} is not part of this count` };
+      }
+      line = { barcode: product.barcode, name: product.name, expected: 0, unitCost: 0 };
+      lines.push(line);
+    }
+
+    const units = quantity * (found.unitsPerPack || 1);
+    if (line.counted === undefined) {
+      // Sales before this moment are in the expected quantity; sales after it are left in stock
+      line.expected = InventoryService.getQuantity(stocktake.storeId, product.barcode);
+      line.unitCost = InventoryService.getUnitCost(stocktake.storeId, product.barcode);
+      line.countedAt = new Date().toISOString();
+    }
+    line.counted = ProductService.roundQuantity(mode === 'add' ? (line.counted || 0) + units : units);
+
+    this.save({ ...stocktake, lines });
+    return { success: true, line };
+  },
+
+  /**
+   * Expected against counted for every counted line, largest value impact first
+   */
+  getVariances(stocktake: Stocktake): StocktakeVariance[] {
+    return stocktake.lines
+      .filter((line) => line.counted !== undefined)
+      .map((line) => {
+        const counted = line.counted as number;
+        const variance = ProductService.roundQuantity(counted - line.expected);
+        return {
+          barcode: line.barcode,
+          name: line.name,
+          expected: line.expected,
+          counted,
+          variance,
+          valueImpact: roundMoney(variance * line.unitCost),
+        };
+      })
+      .sort((a, b) => Math.abs(b.valueImpact) - Math.abs(a.valueImpact));
+  },
+
+  /**
+   * Finish counting and hand the stocktake over for approval
+   * Products not counted are left as they are
+   */
+  submit(id: string, submittedBy: string): { success: boolean; error?: string } {
+    const stocktake = this.findById(id);
+    if (!stocktake) {
+      return { success: false, error: 'Stocktake not found' };
+    }
+    if (stocktake.status !== 'counting') {
+      return { success: false, error: 'Counting has already finished' };
+    }
+    if (!stocktake.lines.some((line) => line.counted !== undefined)) {
+      return { success: false, error: 'Nothing has been counted yet' };
+    }
+
+    this.save({ ...stocktake, status: 'submitted', submittedBy, submittedAt: new Date().toISOString() });
     return { success: true };
   },
 
   /**
-   * Toggle store active status
+   * Approve a submitted stocktake and post its variances to stock (managers and admins only)
+   * Each adjustment is logged against the count number
    */
-  toggleActive(id: string): { success: boolean; error?: string } {
-    const store = this.findById(id);
-    if (!store) {
-      return { success: false, error: 'Store not found' };
+  post(id: string, approvedBy: AdminUser | Manager): { success: boolean; stocktake?: Stocktake; error?: string } {
+    if (approvedBy.role !== 'admin' && approvedBy.role !== 'manager') {
+      return { success: false, error: 'Only managers and admins can post stocktakes' };
     }
-    return this.update(id, { isActive: !store.isActive });
+
+    const stocktake = this.findById(id);
+    if (!stocktake) {
+      return { success: false, error: 'Stocktake not found' };
+    }
+    if (stocktake.status !== 'submitted') {
+      return { success: false, error: 'Only submitted stocktakes can be posted' };
+    }
+
+    const performedBy = approvedBy.role === 'admin' ? approvedBy.username : approvedBy.name;
+    for (const variance of this.getVariances(stocktake)) {
+      if (variance.variance === 0) continue;
+      const line = stocktake.lines.find((l) => l.barcode === variance.barcode) as StocktakeLine;
+      const previousStock = InventoryService.getQuantity(stocktake.storeId, variance.barcode);
+      InventoryService.move({
+        storeId: stocktake.storeId,
+        barcode: variance.barcode,
+        quantity: ProductService.roundQuantity(Math.max(-previousStock, variance.variance)),
+        type: 'count',
+        unitCost: line.unitCost,
+        reference: stocktake.countNumber,
+        note: `Stocktake variance: expected ${variance.expected}, counted ${variance.counted}`,
+        performedBy,
+      });
+    }
+
+    const posted: Stocktake = { ...stocktake, status: 'posted', postedBy: performedBy, postedAt: new Date().toISOString() };
+    this.save(posted);
+    return { success: true, stocktake: posted };
   },
 
   /**
-   * Get store stats
+   * Abandon a stocktake; stock is left as it is
    */
-  getStats(): {
-    total: number;
-    active: number;
-    inactive: number;
-  } {
-    const stores = this.getAll();
-    return {
-      total: stores.length,
-      active: stores.filter((s) => s.isActive).length,
-      inactive: stores.filter((s) => !s.isActive).length,
-    };
+  cancel(id: string): { success: boolean; error?: string } {
+    const stocktake = this.findById(id);
+    if (!stocktake) {
+      return { success: false, error: 'Stocktake not found' };
+    }
+    if (stocktake.status !== 'counting' && stocktake.status !== 'submitted') {
+      return { success: false, error: 'This stocktake is already finished' };
+    }
+
+    this.save({ ...stocktake, status: 'cancelled', cancelledAt: new Date().toISOString() });
+    return { success: true };
   },
 };
 
+// Cash denominations counted at shift end
+export const CASH_DENOMINATIONS: number[] = [100, 50, 20, 10, 5, 1, 0.25, 0.1, 0.05, 0.01];
+
 /**
- * Stock Transfer Service
- * Manages stock transfers between stores
+ * Cashier Session Service
+ * Manages cashier shifts: opening float, expected cash and closing count
  */
-export const StockTransferService = {
+export const CashierSessionService = {
   /**
-   * Get all transfers
+   * Get all sessions (newest first)
    */
-  getAll(): StockTransfer[] {
-    return JSON.parse(localStorage.getItem(STORAGE_KEYS.STOCK_TRANSFERS) || '[]');
+  getAll(): CashierSession[] {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.CASHIER_SESSION) || '[]');
   },
 
   /**
-   * Get pending transfers for a store
+   * Find session by ID
    */
-  getPendingForStore(storeId: string): StockTransfer[] {
-    return this.getAll().filter(
-      (t) => t.toStoreId === storeId && t.status === 'pending'
-    );
+  findById(id: string): CashierSession | undefined {
+    return this.getAll().find((s) => s.id === id);
   },
 
   /**
-   * Get transfers initiated by a store
+   * Get the open session of a cashier, if any
    */
-  getInitiatedByStore(storeId: string): StockTransfer[] {
-    return this.getAll().filter((t) => t.fromStoreId === storeId);
+  getOpenForCashier(cashierId: string): CashierSession | undefined {
+    return this.getAll().find((s) => s.cashierId === cashierId && s.status === 'open');
   },
 
   /**
-   * Create transfer request
+   * Get sessions by store
    */
-  create(transfer: Omit<StockTransfer, 'id' | 'timestamp'>): { success: boolean; error?: string } {
-    const newTransfer: StockTransfer = {
-      ...transfer,
-      id: `transfer-${Date.now()}`,
-      timestamp: new Date().toISOString(),
+  getByStore(storeId: string): CashierSession[] {
+    return this.getAll().filter((s) => s.storeId === storeId);
+  },
+
+  /**
+   * Open a shift with the declared opening float
+   */
+  open(
+    cashierId: string,
+    cashierName: string,
+    storeId: string,
+    storeName: string,
+    openingBalance: number
+  ): { success: boolean; session?: CashierSession; error?: string } {
+    if (isNaN(openingBalance) || openingBalance < 0) {
+      return { success: false, error: 'Opening float cannot be negative' };
+    }
+
+    if (this.getOpenForCashier(cashierId)) {
+      return { success: false, error: 'Cashier already has an open shift' };
+    }
+
+    const session: CashierSession = {
+      id: `session-${Date.now()}`,
+      cashierId,
+      cashierName,
+      storeId,
+      storeName,
+      status: 'open',
+      startTime: new Date().toISOString(),
+      openingBalance,
     };
 
-    const transfers = this.getAll();
-    transfers.push(newTransfer);
-    localStorage.setItem(STORAGE_KEYS.STOCK_TRANSFERS, JSON.stringify(transfers));
-    return { success: true };
+    const sessions = this.getAll();
+    sessions.unshift(session);
+    localStorage.setItem(STORAGE_KEYS.CASHIER_SESSION, JSON.stringify(sessions));
+    return { success: true, session };
   },
 
   /**
-   * Complete transfer (add stock to destination)
+   * Net cash taken during a session: the cash part of sales (split payments included),
+   * layaway deposits and installments and account payments paid in cash,
+   * less cash refunded on returns and cancelled layaways
    */
-  complete(transferId: string): { success: boolean; error?: string } {
-    const transfers = this.getAll();
-    const index = transfers.findIndex((t) => t.id === transferId);
+  getCashSales(sessionId: string): number {
+    const sales = SaleService.getAll()
+      .filter((sale) => sale.sessionId === sessionId && !SaleService.isVoided(sale))
+      .reduce((sum, sale) => sum + (SaleService.getPaymentSplit(sale).cash || 0), 0);
+    const layaways = LayawayService.getAll();
+    const layawayPayments = layaways
+      .flatMap((layaway) => layaway.payments)
+      .filter((payment) => payment.sessionId === sessionId && payment.method === 'cash')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const accountPayments = SaleService.getAccountPayments()
+      .filter((payment) => payment.sessionId === sessionId && payment.method === 'cash')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const returnRefunds = ReturnService.getAll()
+      .filter((record) => record.sessionId === sessionId && record.refundMethod === 'cash')
+      .reduce((sum, record) => sum + record.refundAmount, 0);
+    const layawayRefunds = layaways
+      .filter((layaway) => layaway.refundSessionId === sessionId && layaway.refundMethod === 'cash')
+      .reduce((sum, layaway) => sum + (layaway.refundAmount || 0), 0);
+    return roundMoney(sales + layawayPayments + accountPayments - returnRefunds - layawayRefunds);
+  },
+
+  /**
+   * Cash that should be in the drawer: opening float plus net cash taken
+   */
+  getExpectedCash(sessionId: string): number {
+    const session = this.findById(sessionId);
+    if (!session) return 0;
+    return session.openingBalance + this.getCashSales(sessionId);
+  },
+
+  /**
+   * Total value of a denomination count
+   */
+  countTotal(denominationCount: Record<string, number>): number {
+    return Object.entries(denominationCount).reduce(
+      (sum, [denomination, count]) => sum + parseFloat(denomination) * count,
+      0
+    );
+  },
+
+  /**
+   * Close a shift with the counted drawer
+   * Variance is counted minus expected (positive = over, negative = short)
+   */
+  close(
+    sessionId: string,
+    denominationCount: Record<string, number>,
+    notes?: string
+  ): { success: boolean; session?: CashierSession; error?: string } {
+    const sessions = this.getAll();
+    const index = sessions.findIndex((s) => s.id === sessionId);
 
     if (index === -1) {
-      return { success: false, error: 'Transfer not found' };
+      return { success: false, error: 'Session not found' };
+    }
+
+    if (sessions[index].status !== 'open') {
+      return { success: false, error: 'Session is already closed' };
     }
 
-    if (transfers[index].status !== 'pending') {
-      return { success: false, error: 'Transfer is not pending' };
+    if (Object.values(denominationCount).some((count) => !Number.isInteger(count) || count < 0)) {
+      return { success: false, error: 'Denomination counts must be whole numbers' };
     }
 
-    transfers[index].status = 'completed';
-    transfers[index].completedAt = new Date().toISOString();
+    const cashSales = this.getCashSales(sessionId);
+    const expectedCash = sessions[index].openingBalance + cashSales;
+    const closingBalance = this.countTotal(denominationCount);
+
+    sessions[index] = {
+      ...sessions[index],
+      status: 'closed',
+      endTime: new Date().toISOString(),
+      closingBalance,
+      denominationCount,
+      cashSales,
+      expectedCash,
+      // Round to cents to avoid floating point noise in the over/short figure
+      variance: Math.round((closingBalance - expectedCash) * 100) / 100,
+      notes: notes?.trim() || undefined,
+    };
 
-    localStorage.setItem(STORAGE_KEYS.STOCK_TRANSFERS, JSON.stringify(transfers));
-    return { success: true };
+    localStorage.setItem(STORAGE_KEYS.CASHIER_SESSION, JSON.stringify(sessions));
+    return { success: true, session: sessions[index] };
   },
+};
 
+/**
+ * Report Service
+ * Builds X and Z sales reports; Z reports close the business day and are append-only
+ */
+export const ReportService = {
   /**
-   * Cancel transfer
+   * Get all Z reports (newest first)
    */
-  cancel(transferId: string): { success: boolean; error?: string } {
-    const transfers = this.getAll();
-    const index = transfers.findIndex((t) => t.id === transferId);
+  getZReports(storeId?: string): SalesReport[] {
+    const reports: SalesReport[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.Z_REPORTS) || '[]');
+    return storeId ? reports.filter((r) => r.storeId === storeId) : reports;
+  },
 
-    if (index === -1) {
-      return { success: false, error: 'Transfer not found' };
+  /**
+   * Get the most recent Z report for a store
+   */
+  getLastZReport(storeId: string): SalesReport | undefined {
+    return this.getZReports(storeId)[0];
+  },
+
+  /**
+   * Start of the open business day: the end of the last Z report,
+   * or the first recorded sale, return or layaway payment if the store has never been closed
+   */
+  getOpenPeriodStart(storeId: string): string {
+    const lastZ = this.getLastZReport(storeId);
+    if (lastZ) return lastZ.periodEnd;
+
+    const timestamps = [
+      ...SaleService.getByStore(storeId).map((s) => s.timestamp),
+      ...ReturnService.getByStore(storeId).map((r) => r.timestamp),
+      ...LayawayService.getAll(storeId).flatMap((l) => l.payments.map((p) => p.timestamp)),
+    ].sort();
+    return timestamps[0] || new Date().toISOString();
+  },
+
+  /**
+   * Aggregate sales and refunds of the open business day
+   * Sales are limited to one register session when sessionId is given. Payment methods show money taken in
+   * the period: layaway deposits and installments when they were paid rather than when the goods were collected
+   */
+  buildReport(
+    type: 'X' | 'Z',
+    storeId: string,
+    storeName: string,
+    generatedBy: string,
+    sessionId?: string
+  ): SalesReport {
+    const closedBefore = !!this.getLastZReport(storeId);
+    const periodStart = this.getOpenPeriodStart(storeId);
+    const periodEnd = new Date().toISOString();
+    // The previous Z report owns its end instant; otherwise the first sale sits on the start
+    const inOpenPeriod = (timestamp: string) =>
+      (closedBefore ? timestamp > periodStart : timestamp >= periodStart) && timestamp <= periodEnd;
+
+    const storeSales = SaleService.getByStore(storeId).filter((sale) => !sessionId || sale.sessionId === sessionId);
+    const sales = storeSales.filter((sale) => inOpenPeriod(sale.timestamp) && !SaleService.isVoided(sale));
+    // Voids are listed in the period they were made, whenever the sale itself was rung up
+    const voids = storeSales.filter((sale) => sale.voidedAt && inOpenPeriod(sale.voidedAt));
+    // Refunds are processed by the back office, so they only count toward store-wide reports
+    const returns = sessionId
+      ? []
+      : ReturnService.getByStore(storeId).filter((ret) => inOpenPeriod(ret.timestamp));
+
+    const categories = new Map(Array.from(catalogIndex(), ([barcode, p]) => [barcode, p.category]));
+    const add = (breakdown: Record<string, ReportBreakdown>, key: string, count: number, amount: number) => {
+      breakdown[key] = breakdown[key] || { count: 0, amount: 0 };
+      breakdown[key].count += count;
+      breakdown[key].amount += amount;
+    };
+
+    const byPaymentMethod: Record<PaymentMethod, ReportBreakdown> = {
+      cash: { count: 0, amount: 0 },
+      mobile_money: { count: 0, amount: 0 },
+      card: { count: 0, amount: 0 },
+      loyalty_points: { count: 0, amount: 0 },
+      gift_card: { count: 0, amount: 0 },
+      store_credit: { count: 0, amount: 0 },
+      on_account: { count: 0, amount: 0 },
+    };
+    const byCashier: Record<string, ReportBreakdown> = {};
+    const byCategory: Record<string, ReportBreakdown> = {};
+
+    let totalItems = 0;
+    let grossSales = 0;
+    let totalDiscounts = 0;
+    let totalTax = 0;
+
+    for (const sale of sales) {
+      // A collected layaway was paid for by its deposits and installments, counted below
+      if (!sale.layawayNumber) {
+        const split = SaleService.getPaymentSplit(sale);
+        for (const method of Object.keys(split) as PaymentMethod[]) {
+          add(byPaymentMethod, method, 1, split[method] || 0);
+        }
+      }
+      add(byCashier, sale.cashierName, 1, sale.total);
+      for (const item of sale.items) {
+        add(byCategory, categories.get(item.barcode) || 'Uncategorized', item.quantity, item.total);
+        totalItems += item.quantity;
+      }
+      // Subtotal is after promotions and discounts, so add them back for gross sales
+      const saleDiscounts = (sale.discountTotal ?? 0) + (sale.promotionTotal ?? 0);
+      grossSales += sale.subtotal + saleDiscounts;
+      totalTax += sale.tax;
+      totalDiscounts += saleDiscounts;
+    }
+
+    for (const layaway of LayawayService.getAll(storeId)) {
+      for (const payment of layaway.payments) {
+        if ((!sessionId || payment.sessionId === sessionId) && inOpenPeriod(payment.timestamp)) {
+          add(byPaymentMethod, payment.method, 1, payment.amount);
+        }
+      }
+      // Like returns, layaway refunds are paid out by the back office
+      if (
+        !sessionId &&
+        layaway.refundMethod &&
+        layaway.refundAmount &&
+        layaway.cancelledAt &&
+        inOpenPeriod(layaway.cancelledAt)
+      ) {
+        byPaymentMethod[layaway.refundMethod].amount -= layaway.refundAmount;
+      }
     }
 
-    if (transfers[index].status !== 'pending') {
-      return { success: false, error: 'Can only cancel pending transfers' };
+    for (const ret of returns) {
+      byPaymentMethod[ret.refundMethod].amount -= ret.refundAmount;
     }
 
-    transfers[index].status = 'cancelled';
-    localStorage.setItem(STORAGE_KEYS.STOCK_TRANSFERS, JSON.stringify(transfers));
-    return { success: true };
+    const totalRefunds = returns.reduce((sum, ret) => sum + ret.refundAmount, 0);
+
+    // Cash taken or refunded in the back office went through no shift, so no drawer accounts for it
+    let cashOutsideShifts: SalesReport['cashOutsideShifts'];
+    if (!sessionId) {
+      const layaways = LayawayService.getAll(storeId);
+      const received =
+        layaways
+          .flatMap((layaway) => layaway.payments)
+          .filter((p) => p.method === 'cash' && !p.sessionId && inOpenPeriod(p.timestamp))
+          .reduce((sum, p) => sum + p.amount, 0) +
+        SaleService.getAccountPayments()
+          .filter((p) => p.storeId === storeId && p.method === 'cash' && !p.sessionId && inOpenPeriod(p.timestamp))
+          .reduce((sum, p) => sum + p.amount, 0);
+      const paidOut =
+        returns
+          .filter((ret) => ret.refundMethod === 'cash' && !ret.sessionId)
+          .reduce((sum, ret) => sum + ret.refundAmount, 0) +
+        layaways
+          .filter(
+            (layaway) =>
+              layaway.refundMethod === 'cash' &&
+              !layaway.refundSessionId &&
+              !!layaway.cancelledAt &&
+              inOpenPeriod(layaway.cancelledAt)
+          )
+          .reduce((sum, layaway) => sum + (layaway.refundAmount || 0), 0);
+      cashOutsideShifts = { received: roundMoney(received), paidOut: roundMoney(paidOut) };
+    }
+
+    return {
+      id: `${type.toLowerCase()}report-${Date.now()}`,
+      type,
+      storeId,
+      storeName,
+      sessionId,
+      periodStart,
+      periodEnd,
+      generatedBy,
+      generatedAt: periodEnd,
+      totalSales: sales.length,
+      totalItems,
+      grossSales,
+      totalDiscounts,
+      totalTax,
+      totalRefunds,
+      refundCount: returns.length,
+      voidCount: voids.length,
+      voidTotal: voids.reduce((sum, sale) => sum + sale.total, 0),
+      netRevenue: sales.reduce((sum, sale) => sum + sale.total, 0) - totalRefunds,
+      cashOutsideShifts,
+      byPaymentMethod,
+      byCashier,
+      byCategory,
+    };
+  },
+
+  /**
+   * Generate an X report; nothing is stored or reset
+   */
+  generateXReport(storeId: string, storeName: string, generatedBy: string, sessionId?: string): SalesReport {
+    return this.buildReport('X', storeId, storeName, generatedBy, sessionId);
+  },
+
+  /**
+   * Generate and store a Z report, closing the business day for the store
+   */
+  closeDay(storeId: string, storeName: string, generatedBy: string): { success: boolean; report: SalesReport } {
+    const lastZ = this.getLastZReport(storeId);
+    const report: SalesReport = {
+      ...this.buildReport('Z', storeId, storeName, generatedBy),
+      sequenceNumber: (lastZ?.sequenceNumber ?? 0) + 1,
+    };
+
+    const reports = this.getZReports();
+    reports.unshift(report);
+    localStorage.setItem(STORAGE_KEYS.Z_REPORTS, JSON.stringify(reports));
+    return { success: true, report };
   },
 };
 
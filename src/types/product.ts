@@ -14,12 +14,125 @@ export interface Product {
   price: number;
   stock: number;
   category: Category;
+  variantAttributes?: string[]; // on a parent, what its variants differ by, e.g. ['Size', 'Colour']
+  parentBarcode?: string; // on a variant, the parent product it is sold under
+  attributes?: VariantAttributes; // on a variant, its value for each of the parent's attributes
+  priceOverride?: number; // on a variant, its own price instead of the parent's
+  measureUnit?: MeasureUnit; // loose goods priced per kg/litre/metre; sold in decimal quantities
+  baseUnit?: string; // name of the unit stock is counted in, e.g. 'Bottle'
+  packUnits?: PackUnit[]; // larger units bought or sold, e.g. a case of 12
+  baseBarcode?: string; // on a pack looked up by its barcode, the product whose stock it holds
+  unitsPerPack?: number; // on a pack looked up by its barcode, base units in one pack
+  kitComponents?: KitComponent[]; // on a kit, the products one kit is made of; its stock is what they allow
+  cost?: number; // cost price per (base) unit; the last restock sets it, and variants fall back to the parent's
+  bin?: string; // shelf or bin the product is kept in; variants fall back to the parent's
+}
+
+// One product in a kit and how many of it go into each kit
+export interface KitComponent {
+  barcode: string;
+  quantity: number;
+}
+
+// Alternate unit of a product with its own barcode and price, e.g. Case = 12 bottles
+export interface PackUnit {
+  name: string;
+  barcode: string;
+  quantity: number; // base units in one pack
+  price: number;
+}
+
+// Unit loose goods are measured in; products without one are sold by the piece
+export type MeasureUnit = 'kg' | 'l' | 'm';
+
+// In-store (GS1 prefix 20-29) label layout: prefix, item code, 5-digit value, check digit
+export interface EmbeddedBarcodeRule {
+  prefix: string;
+  kind: 'weight' | 'price'; // the value is the measured quantity or the line price
+  itemDigits: number; // digits after the prefix holding the product's item code (PLU)
+  decimals: number; // implied decimals of the value, e.g. 3 for a weight in grams read as kg
+}
+
+// Scale label decoded from an embedded barcode
+export interface EmbeddedBarcode {
+  code: string; // the label as scanned
+  barcode: string; // item code of the product on the label
+  kind: 'weight' | 'price';
+  value: number;
+}
+
+// Variant attribute values keyed by attribute name, e.g. { Size: 'M', Colour: 'Navy' }
+export type VariantAttributes = Record<string, string>;
+
+// One row of the variant grid when saving a parent's variants
+export interface ProductVariantInput {
+  barcode: string;
+  attributes: VariantAttributes;
+  priceOverride?: number;
+  stock: number; // available quantity at the store being edited
 }
 
 // Cart item for cashier side
 export interface CartItem {
   product: Product;
   quantity: number;
+  discount?: Discount;
+  labelTotal?: number; // line price printed on price-embedded scale labels, charged as printed
+}
+
+// Reason codes recorded with every discount
+export type DiscountReason =
+  | 'damaged'
+  | 'price_match'
+  | 'loyalty'
+  | 'staff'
+  | 'promotion'
+  | 'other';
+
+// Percentage or fixed-amount discount on a line or the whole cart
+export interface Discount {
+  type: 'percentage' | 'fixed';
+  value: number;
+  reason: DiscountReason;
+  approvedBy?: string; // manager who approved a discount above the threshold
+}
+
+// Promotion rule types
+// buy_x_get_y: buy X of the listed products, get Y of them free (cheapest units free)
+// multi_buy: any N of the listed products for a fixed price (mix and match)
+// percent_off: percentage off a category or the listed products
+export type PromotionType = 'buy_x_get_y' | 'multi_buy' | 'percent_off';
+
+// Promotion defined by admin; optional dates, days and daily hours limit when it runs
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  isActive: boolean;
+  barcodes: string[];
+  category?: Category;
+  buyQuantity?: number;
+  getQuantity?: number;
+  bundlePrice?: number;
+  percentOff?: number;
+  startDate?: string;
+  endDate?: string;
+  daysOfWeek?: number[]; // 0 = Sunday
+  startTime?: string; // HH:MM, e.g. a happy-hour window
+  endTime?: string;
+  createdAt: string;
+}
+
+// Promotion savings applied to a sale line
+export interface AppliedPromotion {
+  id: string;
+  name: string;
+  savings: number;
+}
+
+// Discount rules configured by admin
+export interface DiscountSettings {
+  approvalThreshold: number; // percent of the amount; larger discounts need a manager
 }
 
 // Admin user for authentication
@@ -31,7 +144,24 @@ export interface AdminUser {
   createdAt: string;
 }
 
-// Stock change log entry for tracking restocks
+// What moved stock on a stock ledger entry; transfer_request entries record a transfer
+// being requested, approved or cancelled and move no stock
+export type StockLogType =
+  | 'opening'
+  | 'sale'
+  | 'return'
+  | 'void'
+  | 'restock'
+  | 'adjustment'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'transfer_request'
+  | 'count';
+
+// Why stock was adjusted by hand; all but found and correction are shrinkage
+export type AdjustmentReason = 'damage' | 'theft' | 'expiry' | 'internal_use' | 'found' | 'correction';
+
+// Stock ledger entry; every change to stock on hand at a store is recorded as one
 export interface StockLog {
   id: string;
   barcode: string;
@@ -39,10 +169,29 @@ export interface StockLog {
   previousStock: number;
   newStock: number;
   quantityAdded: number;
+  storeId?: string;
+  reference?: string;
+  note?: string;
+  unitCost?: number; // cost per unit of stock received (or, on an adjustment, removed)
+  type?: StockLogType; // unset on entries logged before types were recorded
+  reason?: AdjustmentReason; // on an adjustment
   timestamp: string;
   performedBy: string;
 }
 
+// A change to stock on hand at a store, to be recorded on the stock ledger
+export interface StockMovement {
+  storeId: string;
+  barcode: string;
+  quantity: number; // positive into stock, negative out of it
+  type: StockLogType;
+  unitCost?: number; // cost of units coming in (default: the current average cost)
+  reason?: AdjustmentReason;
+  reference?: string;
+  note?: string;
+  performedBy: string;
+}
+
 // Product form data for add/edit operations
 export interface ProductFormData {
   name: string;
@@ -71,8 +220,52 @@ export interface ProductFilters {
   sortOrder: SortOrder;
 }
 
-// Payment methods supported
-export type PaymentMethod = 'cash' | 'mobile_money' | 'card';
+// Payment methods supported; loyalty_points redeems a customer's points at their cash value
+// on_account charges the sale to a customer's credit account, to be paid later
+export type PaymentMethod =
+  | 'cash'
+  | 'mobile_money'
+  | 'card'
+  | 'loyalty_points'
+  | 'gift_card'
+  | 'store_credit'
+  | 'on_account';
+
+// One payment line of a sale; change is only ever given from cash
+export interface Tender {
+  method: PaymentMethod;
+  amount: number; // amount handed over with this method
+  reference?: string; // gift card or store credit code
+}
+
+// Stored-value cards: gift cards are sold or issued by admin, store credit is issued on refunds
+export type GiftCardKind = 'gift_card' | 'store_credit';
+
+// Gift card or store credit with a scannable code; the balance is what the store still owes
+export interface GiftCard {
+  id: string;
+  code: string;
+  kind: GiftCardKind;
+  initialBalance: number;
+  balance: number;
+  customerId?: string;
+  issuedBy: string;
+  issuedAt: string;
+}
+
+// Ledger entry for every gift card and store credit balance movement
+export interface GiftCardTransaction {
+  id: string;
+  cardId: string;
+  code: string;
+  kind: GiftCardKind;
+  type: 'issue' | 'redeem' | 'refund';
+  amount: number; // positive adds to the balance, negative takes from it
+  balanceAfter: number;
+  reference?: string; // receipt or return number
+  performedBy: string;
+  timestamp: string;
+}
 
 // Sale item (part of a sale transaction)
 export interface SaleItem {
@@ -81,6 +274,52 @@ export interface SaleItem {
   price: number;
   quantity: number;
   total: number;
+  parentBarcode?: string; // variants roll up into their parent in reports
+  measureUnit?: MeasureUnit; // quantity is a measure (e.g. 0.655 kg) and price is per unit
+  labelTotal?: number; // line price printed on price-embedded scale labels, charged instead of price × quantity
+  baseBarcode?: string; // a pack line takes its stock from this product
+  unitsPerPack?: number; // base units deducted per pack sold
+  kitComponents?: KitComponent[]; // a kit line takes its stock from these, as they were when sold
+  cost?: number; // cost of goods sold for the whole line
+  returnedQuantity?: number;
+  promotion?: AppliedPromotion;
+  discount?: Discount;
+  discountAmount?: number; // line discount plus its share of the cart discount
+  taxInclusive?: boolean;
+  taxes?: SaleItemTax[];
+}
+
+// Tax charged on one sale line
+export interface SaleItemTax {
+  name: string;
+  rate: number;
+  compound: boolean;
+  taxableAmount: number;
+  amount: number;
+}
+
+// One tax within a profile (e.g. VAT or a levy); rate is a percentage
+export interface TaxComponent {
+  name: string;
+  rate: number;
+  compound: boolean; // charged on the price plus the taxes before it
+}
+
+// Named set of taxes; a profile without components is tax exempt
+export interface TaxProfile {
+  id: string;
+  name: string;
+  inclusive: boolean; // shelf prices already include the tax
+  components: TaxComponent[];
+  createdAt: string;
+}
+
+// Which tax profile applies; product overrides category, category overrides store
+export interface TaxSettings {
+  defaultProfileId?: string;
+  storeProfiles: Record<string, string>;
+  categoryProfiles: Record<string, string>;
+  productProfiles: Record<string, string>;
 }
 
 // Complete sale record
@@ -91,23 +330,231 @@ export interface SaleRecord {
   subtotal: number;
   tax: number;
   total: number;
-  paymentMethod: PaymentMethod;
+  paymentMethod: PaymentMethod; // method that settled the largest share of the total
+  tenders?: Tender[]; // missing on sales recorded before split tender
   amountPaid: number;
   change: number;
   cashierName: string;
   storeId: string;
   storeName: string;
   timestamp: string;
+  sessionId?: string;
+  cartDiscount?: Discount;
+  discountTotal?: number;
+  promotionTotal?: number;
+  refundedTotal?: number;
+  customerId?: string;
+  customerName?: string;
+  pointsEarned?: number;
+  pointsRedeemed?: number;
+  layawayNumber?: string; // set when the sale completed a layaway
+  // Post-void audit trail; a voided sale is kept for the record but no longer counts as revenue
+  voidedAt?: string;
+  voidedBy?: string;
+  voidReason?: string;
+}
+
+// Line of a return against a sale
+export interface ReturnItem {
+  barcode: string;
+  name: string;
+  quantity: number;
+  refundAmount: number;
 }
 
-// Cashier session info
+// Refund transaction tied to the original receipt
+export interface ReturnRecord {
+  id: string;
+  returnNumber: string;
+  saleId: string;
+  receiptNumber: string;
+  items: ReturnItem[];
+  refundAmount: number;
+  refundMethod: PaymentMethod;
+  creditedCardCode?: string; // card credited when refunded to store credit or a gift card
+  sessionId?: string; // cashier shift a cash refund was paid out of
+  reason: string;
+  processedBy: string;
+  storeId: string;
+  storeName: string;
+  timestamp: string;
+}
+
+// Cart parked at the till so another customer can be served; any cashier at the store can recall it
+export interface HeldCart {
+  id: string;
+  label: string;
+  storeId: string;
+  items: CartItem[];
+  cartDiscount?: Discount;
+  customerId?: string;
+  heldBy: string;
+  heldAt: string;
+  expiresAt: string;
+}
+
+// Held cart rules configured by admin
+export interface HeldCartSettings {
+  expiryHours: number;
+}
+
+// Layaway lifecycle
+// open (deposit taken, goods reserved) -> completed (paid off and collected, recorded as a sale)
+// or cancelled (reservation released, payments refunded less the forfeit)
+export type LayawayStatus = 'open' | 'completed' | 'cancelled';
+
+// Deposit or installment taken on a layaway
+export interface LayawayPayment extends Tender {
+  receivedBy: string;
+  sessionId?: string; // cashier shift the money went into, when taken at the till
+  timestamp: string;
+}
+
+// Sale started with a deposit; the goods stay reserved at the store until it is completed or cancelled
+export interface Layaway {
+  id: string;
+  layawayNumber: string;
+  storeId: string;
+  storeName: string;
+  customerId: string;
+  customerName: string;
+  items: SaleItem[]; // priced when the layaway was started
+  subtotal: number;
+  tax: number;
+  total: number;
+  cartDiscount?: Discount;
+  discountTotal?: number;
+  promotionTotal?: number;
+  payments: LayawayPayment[];
+  amountPaid: number;
+  status: LayawayStatus;
+  createdBy: string;
+  createdAt: string;
+  dueDate: string;
+  completedBy?: string;
+  completedAt?: string;
+  receiptNumber?: string; // sale recorded on completion
+  cancelledBy?: string;
+  cancelledAt?: string;
+  forfeitedAmount?: number;
+  refundAmount?: number;
+  refundMethod?: PaymentMethod;
+  refundSessionId?: string; // cashier shift a cash refund was paid out of
+  creditedCardCode?: string; // store credit issued for the refund
+}
+
+// Layaway rules configured by admin
+export interface LayawaySettings {
+  minDepositPercent: number; // share of the total required up front
+  termDays: number; // days the customer has to pay off the balance
+  forfeitPercent: number; // share of the amount paid kept when a layaway is cancelled
+}
+
+// Customer profile; looked up at the till by phone or loyalty card barcode
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  email?: string;
+  cardBarcode?: string;
+  points: number; // current loyalty balance
+  creditLimit?: number; // customers with a limit can buy on account
+  createdAt: string;
+}
+
+// Payment received against a customer's credit account, recorded apart from sales
+export interface AccountPayment {
+  id: string;
+  customerId: string;
+  customerName: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  receivedBy: string;
+  storeId?: string; // store the payment was taken at
+  sessionId?: string; // cashier shift cash was taken into, when taken at the till
+  timestamp: string;
+}
+
+// Amount a customer owes, split by the age of the unpaid charges
+export interface AgedReceivable {
+  customerId: string;
+  customerName: string;
+  current: number; // 0-30 days
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
+
+// One line of a customer account statement
+export interface AccountStatementLine {
+  date: string;
+  description: string;
+  reference: string;
+  charge: number;
+  credit: number;
+  balance: number;
+}
+
+// Loyalty rules configured by admin
+export interface LoyaltySettings {
+  pointsPerDollar: number; // earned on the amount not paid with points
+  pointValue: number; // dollars one point is worth when redeemed
+  minRedeemPoints: number;
+}
+
+// Cashier session info (one shift from opening float to closing cash count)
 export interface CashierSession {
   id: string;
+  cashierId: string;
   cashierName: string;
+  storeId: string;
+  storeName: string;
+  status: 'open' | 'closed';
   startTime: string;
   endTime?: string;
   openingBalance: number;
   closingBalance?: number;
+  denominationCount?: Record<string, number>;
+  cashSales?: number;
+  expectedCash?: number;
+  variance?: number;
+  notes?: string;
+}
+
+// Count and amount for one line of a report breakdown
+export interface ReportBreakdown {
+  count: number;
+  amount: number;
+}
+
+// X report (mid-day, read only) or Z report (end of day, closes the business day)
+export interface SalesReport {
+  id: string;
+  type: 'X' | 'Z';
+  sequenceNumber?: number;
+  storeId: string;
+  storeName: string;
+  sessionId?: string;
+  periodStart: string;
+  periodEnd: string;
+  generatedBy: string;
+  generatedAt: string;
+  totalSales: number;
+  totalItems: number;
+  grossSales: number;
+  totalDiscounts: number;
+  totalTax: number;
+  totalRefunds: number;
+  refundCount: number;
+  voidCount?: number; // sales voided during the period (already left out of the figures above)
+  voidTotal?: number;
+  netRevenue: number;
+  cashOutsideShifts?: { received: number; paidOut: number }; // store reports: back-office cash no drawer holds
+  byPaymentMethod: Record<PaymentMethod, ReportBreakdown>;
+  byCashier: Record<string, ReportBreakdown>;
+  byCategory: Record<string, ReportBreakdown>;
 }
 
 // Cashier user for authentication
@@ -146,6 +593,17 @@ export interface CashierStoreAssignment {
   assignedAt: string;
 }
 
+// Stock transfer lifecycle
+// pending (requested) -> approved (reserved at source) -> in_transit (deducted at source)
+// -> partially_received / completed (credited at destination); cancelled at any open step
+export type StockTransferStatus =
+  | 'pending'
+  | 'approved'
+  | 'in_transit'
+  | 'partially_received'
+  | 'completed'
+  | 'cancelled';
+
 // Stock transfer between stores
 export interface StockTransfer {
   id: string;
@@ -156,16 +614,64 @@ export interface StockTransfer {
   barcode: string;
   productName: string;
   quantity: number;
-  status: 'pending' | 'completed' | 'cancelled';
+  quantityReceived?: number;
+  unitCost?: number; // cost per unit of the dispatched stock, carried to the receiving store
+  status: StockTransferStatus;
   requestedBy: string;
+  approvedBy?: string;
+  approvedAt?: string;
+  dispatchedBy?: string;
+  dispatchedAt?: string;
+  receivedBy?: string;
+  cancelledBy?: string;
+  cancelledAt?: string;
   completedAt?: string;
   timestamp: string;
 }
 
-// Extended Product with store-specific stock
-export interface StoreProduct extends Product {
+// Stock level of a product at a single store
+// Reserved units are on hand but held (e.g. for an approved transfer) and not available for sale
+export interface StoreStock {
   storeId: string;
-  storeStock: number;
+  barcode: string;
+  quantity: number;
+  reserved?: number;
+  costLayers?: CostLayer[]; // what the stock on hand cost; stock with no layer is valued at the product's cost price
+  updatedAt: string;
+}
+
+// Stock received at one unit cost; FIFO costing takes the oldest first
+export interface CostLayer {
+  quantity: number;
+  cost: number;
+  receivedAt: string;
+}
+
+// How stock leaving a store is costed
+export type CostingMethod = 'average' | 'fifo';
+
+// Costing configured by admin
+export interface CostingSettings {
+  method: CostingMethod;
+}
+
+// Revenue (net of tax and returns) against cost of goods sold for a product or category
+export interface MarginLine {
+  key: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercent: number;
+}
+
+// Cost value of the stock on hand for a store or category
+export interface ValuationLine {
+  key: string;
+  name: string;
+  quantity: number;
+  value: number;
 }
 
 // Extended SaleRecord with store info
@@ -189,3 +695,145 @@ export interface Manager {
   createdAt: string;
   lastLogin?: string;
 }
+
+// Company stock is bought from
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  leadTimeDays: number; // usual days from sending an order to delivery
+  notes?: string;
+  createdAt: string;
+}
+
+// A purchase order is drafted, sent to the supplier, received (possibly over several deliveries)
+// and closed once nothing more is expected
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'closed';
+
+// One product on a purchase order; a pack barcode orders (and costs) whole packs
+export interface PurchaseOrderLine {
+  barcode: string;
+  name: string;
+  quantity: number;
+  unitCost: number; // expected cost per unit ordered
+  quantityReceived: number;
+  receivedCost?: number; // what the received units actually cost in total
+}
+
+// Order placed with a supplier for delivery to one store
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  supplierName: string;
+  storeId: string;
+  storeName: string;
+  lines: PurchaseOrderLine[];
+  status: PurchaseOrderStatus;
+  notes?: string;
+  createdBy: string;
+  createdAt: string;
+  sentAt?: string;
+  expectedAt?: string; // sent date plus the supplier's lead time
+  receivedAt?: string; // last delivery
+  closedBy?: string;
+  closedAt?: string;
+}
+
+// Quantity of a purchase order line taken in on a delivery, at what it actually cost per unit
+export interface PurchaseOrderReceipt {
+  barcode: string;
+  quantity: number;
+  unitCost: number;
+}
+
+// Reorder rule for a product at one store; anything unset is worked out from sales and the supplier
+export interface ReorderRule {
+  barcode: string;
+  storeId: string;
+  supplierId?: string; // who the product is reordered from
+  reorderPoint?: number; // reorder once stock on hand and on order falls to this
+  safetyStock: number; // kept in hand against late deliveries and busy days
+  leadTimeDays?: number; // days a delivery takes; the supplier's lead time when unset
+  updatedAt: string;
+}
+
+// Reorder engine settings
+export interface ReorderSettings {
+  velocityDays: number; // days of sales the daily velocity is averaged over
+  coverDays: number; // days of sales an order should last beyond the reorder point
+  defaultLeadTimeDays: number; // used when neither the rule nor the supplier has one
+}
+
+// A product at or below its reorder point, with the quantity to order
+export interface ReorderSuggestion {
+  barcode: string;
+  name: string;
+  storeId: string;
+  stock: number;
+  onOrder: number; // still to arrive on open purchase orders
+  dailyVelocity: number;
+  leadTimeDays: number;
+  safetyStock: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+  daysOfStock?: number; // unset when nothing has sold
+  stockoutAt?: string; // when stock on hand runs out at the current velocity
+  supplierId?: string;
+  supplierName?: string;
+  unitCost?: number;
+}
+
+// A stocktake is counted, submitted for approval and posted (or cancelled)
+export type StocktakeStatus = 'counting' | 'submitted' | 'posted' | 'cancelled';
+
+// One product on a stocktake
+// Sales go on during the count, so the expected quantity is the stock on hand when the product is first counted
+export interface StocktakeLine {
+  barcode: string;
+  name: string;
+  expected: number; // on hand when the count started, until the product is counted
+  counted?: number; // base units counted; unset until counted
+  countedAt?: string; // first counted
+  unitCost: number; // cost of one unit when counted, for the value impact
+}
+
+// Physical count of a store's stock, optionally limited to a category or bin
+export interface Stocktake {
+  id: string;
+  countNumber: string;
+  storeId: string;
+  storeName: string;
+  category?: Category;
+  bin?: string;
+  lines: StocktakeLine[];
+  status: StocktakeStatus;
+  startedBy: string;
+  startedAt: string;
+  submittedBy?: string;
+  submittedAt?: string;
+  postedBy?: string; // the approver
+  postedAt?: string;
+  cancelledAt?: string;
+}
+
+// Difference between what was expected and what was counted on a stocktake line
+export interface StocktakeVariance {
+  barcode: string;
+  name: string;
+  expected: number;
+  counted: number;
+  variance: number; // counted less expected
+  valueImpact: number; // variance at unit cost
+}
+
+// Stock lost to shrinkage for one reason, product or store
+export interface ShrinkageLine {
+  key: string;
+  name: string;
+  quantity: number; // base units lost
+  value: number; // at cost
+  count: number; // adjustments and stocktake variances
+}